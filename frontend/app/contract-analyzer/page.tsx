@@ -4,7 +4,7 @@ import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
 import { toast } from "react-toastify";
 import { useAccount } from "wagmi";
-import { NETWORK_INFO, CONTRACT_ADDRESSES, CONTRACT_ABIS } from "../../contracts/deployedContracts";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
 import {
   CheckCircleIcon,
   XCircleIcon,
@@ -39,6 +39,7 @@ interface FormattedResult {
 
 const ContractAnalyzerPage = () => {
   const { address, isConnected } = useAccount();
+  const { chainId, networkName, blockExplorer, contracts, getContract } = useContractRegistry();
   const [contractAddress, setContractAddress] = useState("");
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -96,7 +97,8 @@ const ContractAnalyzerPage = () => {
       // Use ethers.js directly (same fix as Token Factory)
       const provider = new ethers.BrowserProvider(window.ethereum);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(CONTRACT_ADDRESSES.ContractAnalyzer, CONTRACT_ABIS.ContractAnalyzer, signer);
+      const { address: analyzerAddress, abi: analyzerAbi } = getContract("ContractAnalyzer");
+      const contract = new ethers.Contract(analyzerAddress, analyzerAbi, signer);
 
       // Estimate gas properly
       const gasEstimate = await contract.analyzeContract.estimateGas(contractAddress);
@@ -180,11 +182,15 @@ const ContractAnalyzerPage = () => {
   };
 
   // Sample contract addresses for quick testing
-  const sampleAddresses = [
-    { name: "Token Factory", address: CONTRACT_ADDRESSES.ERC20Factory },
-    { name: "DeFi Utils", address: CONTRACT_ADDRESSES.DeFiUtils },
-    { name: "Contract Analyzer", address: CONTRACT_ADDRESSES.ContractAnalyzer },
+  // Only the contracts deployed on the connected chain are offered
+  const sampleContracts: { name: string; address?: string }[] = [
+    { name: "Token Factory", address: contracts?.ERC20Factory?.address },
+    { name: "DeFi Utils", address: contracts?.DeFiUtils?.address },
+    { name: "Contract Analyzer", address: contracts?.ContractAnalyzer?.address },
   ];
+  const sampleAddresses = sampleContracts.filter(
+    (sample): sample is { name: string; address: string } => !!sample.address,
+  );
 
   const handleSampleAddress = (address: string) => {
     setContractAddress(address);
@@ -213,7 +219,7 @@ const ContractAnalyzerPage = () => {
     if (!showResultsModal || !formattedResult) return null;
 
     const getExplorerLink = (address: string, txHash: string) => {
-      const baseExplorerUrl = NETWORK_INFO.blockExplorer;
+      const baseExplorerUrl = blockExplorer;
       return {
         contract: `${baseExplorerUrl}/address/${address}`,
         transaction: `${baseExplorerUrl}/tx/${txHash}`,
@@ -439,10 +445,10 @@ const ContractAnalyzerPage = () => {
             <div className="text-4xl mb-4">🔒</div>
             <h2 className="text-xl font-bold mb-4">Connect Your Wallet</h2>
             <p className="text-gray-300">
-              Please connect your wallet to {NETWORK_INFO.name} to analyze contracts.
+              Please connect your wallet to {networkName} to analyze contracts.
             </p>
             <p className="text-xs text-gray-400 mt-2">
-              Network: {NETWORK_INFO.name} (Chain ID: {NETWORK_INFO.chainId})
+              Network: {networkName} (Chain ID: {chainId})
             </p>
           </div>
         ) : (
@@ -1,11 +1,26 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
+import Link from "next/link";
 import { ethers } from "ethers";
 import { toast } from "react-toastify";
 import { useAccount } from "wagmi";
 import ContractVerification from "../../components/ContractVerification";
-import { CONTRACT_ADDRESSES, CONTRACT_ABIS, NETWORK_INFO } from "../../contracts/deployedContracts";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
+import { hasFunction, unsupportedFeatureError } from "../../utils/contractHelpers";
+import { getMultiSigPagePath } from "../../utils/multisig";
+import { getVestingPagePath } from "../../utils/vesting";
+import {
+  MONTH_SECONDS,
+  VESTING_GRANTS_CSV_TEMPLATE,
+  VestingGrantRow,
+  describeUnlock,
+  getVestingGrantsTotal,
+  getVestingRowsTotal,
+  parseVestingGrantsCsv,
+  toVestingGrantParams,
+} from "../../utils/vestingGrants";
+import { saveAs } from "file-saver";
 
 // Define types for better type safety
 interface DeploymentParams {
@@ -23,19 +38,25 @@ interface Template {
   requiredParams: string[];
   gasEstimate: string;
   complexity: string;
+  // Signature the deployed factory must have, for templates it may predate
+  requiredFunction?: string;
 }
 
 const ContractTemplatesPage = () => {
   const { address, isConnected } = useAccount();
+  const { chainId, networkName, contracts } = useContractRegistry();
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null);
   const [deploymentParams, setDeploymentParams] = useState<DeploymentParams>({});
   const [isDeploying, setIsDeploying] = useState(false);
-  const [deployedContracts, setDeployedContracts] = useState<Array<{address: string, name: string, type: string}>>([]);
+  const [deployedContracts, setDeployedContracts] = useState<
+    Array<{ address: string; name: string; type: string; templateId: string }>
+  >([]);
   const [showDeploymentModal, setShowDeploymentModal] = useState(false);
   const [networkInfo, setNetworkInfo] = useState<{ chainId: string; name: string } | null>(null);
   const [deploymentTimeout, setDeploymentTimeout] = useState<NodeJS.Timeout | null>(null);
   const [isWaitingForTx, setIsWaitingForTx] = useState(false);
   const [deployData, setDeployData] = useState<string | null>(null);
+  const [deployedAddress, setDeployedAddress] = useState<string | null>(null);
   const [isDeployed, setIsDeployed] = useState(false);
   const [deploymentError, setDeploymentError] = useState<string | null>(null);
 
@@ -85,31 +106,74 @@ const ContractTemplatesPage = () => {
       features: [
         "Linear vesting over time",
         "Configurable vesting period",
-        "Emergency pause functionality",
+        "Funded in the deployment transaction",
         "Owner controls",
       ],
       icon: "⏰",
       category: "Token Management",
       contractFunction: "deployVestingContract",
+      // Older factories deploy the same signature unfunded; funding came with the vesting vault
+      requiredFunction: "vestingVaultImplementation()",
       requiredParams: ["token", "beneficiary", "totalAmount", "startTime", "duration"],
       gasEstimate: "~600,000",
       complexity: "Intermediate",
     },
+    {
+      id: "vault",
+      name: "Vesting Vault",
+      description: "Vest tokens to a whole team at once, with cliffs and monthly unlocks",
+      features: [
+        "Batch grants from a CSV file",
+        "Cliff with linear or step unlocks",
+        "Revocable grants return unvested tokens",
+        "Funded in the deployment transaction",
+      ],
+      icon: "🗓️",
+      category: "Token Management",
+      contractFunction: "deployVestingVault",
+      requiredFunction: "deployVestingVault(address,(address,uint256,uint64,uint64,uint64,uint64,bool)[])",
+      requiredParams: ["token", "grants"],
+      gasEstimate: "~250,000 + 120,000 per grant",
+      complexity: "Advanced",
+    },
     {
       id: "multisig",
       name: "Multi-Signature Wallet",
       description: "Secure multi-signature wallet for team funds and governance",
-      features: ["Configurable signer count", "Threshold-based approvals", "Add/remove signers", "Emergency pause"],
+      features: ["Configurable signer count", "Threshold-based approvals", "Add/remove signers", "Off-chain EIP-712 signatures"],
       icon: "🔐",
       category: "Security",
       contractFunction: "deployMultiSigWallet",
       requiredParams: ["owner1", "owner2", "requiredSignatures"],
-      gasEstimate: "~500,000",
+      gasEstimate: "~2,200,000",
       complexity: "Advanced",
     },
+    {
+      id: "distributor",
+      name: "Merkle Airdrop Distributor",
+      description: "Airdrop tokens to thousands of recipients who claim with a Merkle proof",
+      features: [
+        "Funded in the deployment transaction",
+        "One claim per recipient via bitmap",
+        "Claims file from the Merkle Proof Generator",
+        "Creator sweeps leftovers after the deadline",
+      ],
+      icon: "🪂",
+      category: "Token Management",
+      contractFunction: "deployMerkleDistributor",
+      requiredFunction: "deployMerkleDistributor(address,bytes32,uint256,uint256)",
+      requiredParams: ["token", "merkleRoot", "totalAmount", "claimDeadline"],
+      gasEstimate: "~700,000",
+      complexity: "Intermediate",
+    },
   ];
 
   // Handle template selection
+  const isTemplateSupported = (template: Template) =>
+    !template.requiredFunction ||
+    !contracts?.ContractTemplates ||
+    hasFunction(contracts.ContractTemplates.abi, template.requiredFunction);
+
   const handleSelectTemplate = (templateId: string) => {
     if (!isConnected) {
       toast.error("Please connect your wallet to deploy templates");
@@ -134,20 +198,27 @@ const ContractTemplatesPage = () => {
       return;
     }
 
-    // Check if we're on Mantle Sepolia
+    // Check that the connected network has the template factory deployed
     if (!networkInfo) {
       toast.error("Unable to detect network. Please check your wallet connection.");
       return;
     }
 
-    if (networkInfo.chainId !== NETWORK_INFO.chainId.toString()) {
-      toast.error(`Please switch to ${NETWORK_INFO.name} (Chain ID: ${NETWORK_INFO.chainId}). Current: ${networkInfo.chainId}`);
+    const templatesContract = contracts?.ContractTemplates;
+    if (!templatesContract) {
+      toast.error(`Contract templates are not deployed on ${networkName} (Chain ID: ${chainId})`);
       return;
     }
 
     const template = templates.find(t => t.id === selectedTemplate);
     if (!template) return;
 
+    // Nothing is approved or sent when the deployed factory predates the template
+    if (!isTemplateSupported(template)) {
+      toast.error(unsupportedFeatureError("ContractTemplates", `the ${template.name} template`).message);
+      return;
+    }
+
     try {
       setIsDeploying(true);
 
@@ -225,6 +296,34 @@ const ContractTemplatesPage = () => {
           
           args = [uniqueSigners, BigInt(requiredSignatures)];
           break;
+        case "vault": {
+          const rows: VestingGrantRow[] = deploymentParams.grants || [];
+          if (!ethers.isAddress(deploymentParams.token || "")) {
+            throw new Error("Enter a valid token address");
+          }
+          if (rows.length === 0) {
+            throw new Error("Upload a grants CSV");
+          }
+          if (!window.ethereum) {
+            throw new Error("MetaMask or wallet provider not found");
+          }
+          // CSV amounts are in whole tokens, so scale them with the token's decimals
+          const token = new ethers.Contract(
+            deploymentParams.token,
+            ["function decimals() view returns (uint8)"],
+            new ethers.BrowserProvider(window.ethereum),
+          );
+          args = [deploymentParams.token, toVestingGrantParams(rows, Number(await token.decimals()))];
+          break;
+        }
+        case "distributor":
+          args = [
+            deploymentParams.token,
+            deploymentParams.merkleRoot,
+            BigInt(deploymentParams.totalAmount || "0"),
+            BigInt(deploymentParams.claimDeadline || "0"),
+          ];
+          break;
       }
 
       // Validate required parameters
@@ -238,8 +337,8 @@ const ContractTemplatesPage = () => {
         return;
       }
 
-      // Get the contract address for Mantle Sepolia
-      const contractAddress = CONTRACT_ADDRESSES.ContractTemplates;
+      // Get the template factory address for the connected network
+      const contractAddress = templatesContract.address;
       
       console.log("🚀 Deploying contract template...");
       console.log("Network Info:", networkInfo);
@@ -264,11 +363,32 @@ const ContractTemplatesPage = () => {
       console.log("Contract code found at address:", contractAddress);
       console.log("Contract code length:", code.length);
       
-      const contract = new ethers.Contract(
-        contractAddress,
-        (CONTRACT_ABIS.ContractTemplates as any).abi || CONTRACT_ABIS.ContractTemplates,
-        signer
-      );
+      const contract = new ethers.Contract(contractAddress, templatesContract.abi, signer);
+
+      // Funded templates pull their tokens from the creator, so approve the template factory first
+      const fundingAmount: bigint | null =
+        template.id === "vault"
+          ? getVestingGrantsTotal(args[1])
+          : template.id === "distributor" || template.id === "vesting"
+            ? args[2]
+            : null;
+      if (fundingAmount !== null) {
+        const token = new ethers.Contract(
+          deploymentParams.token,
+          [
+            "function allowance(address owner, address spender) view returns (uint256)",
+            "function approve(address spender, uint256 amount) returns (bool)",
+          ],
+          signer,
+        );
+        const allowance: bigint = await token.allowance(address, contractAddress);
+        if (allowance < fundingAmount) {
+          toast.info("Approving tokens for funding...");
+          const approveTx = await token.approve(contractAddress, fundingAmount);
+          await approveTx.wait();
+          toast.success("Token approval confirmed");
+        }
+      }
 
       toast.info("Sending deployment transaction...");
       
@@ -314,6 +434,7 @@ const ContractTemplatesPage = () => {
 
       if (deployedAddress) {
         console.log("Contract deployed at:", deployedAddress);
+        setDeployedAddress(deployedAddress);
         setIsDeployed(true);
         toast.success("Contract deployed successfully!");
       } else {
@@ -361,9 +482,11 @@ const ContractTemplatesPage = () => {
       const template = templates.find(t => t.id === selectedTemplate);
       if (template) {
         setDeployedContracts(prev => [...prev, {
-          address: deployData, // Using transaction hash for now
+          // Falls back to the transaction hash when the deployment event was not found
+          address: deployedAddress || deployData,
           name: template.name,
-          type: template.category
+          type: template.category,
+          templateId: template.id,
         }]);
       }
       setIsDeploying(false);
@@ -372,6 +495,7 @@ const ContractTemplatesPage = () => {
       setSelectedTemplate(null);
       setDeploymentParams({});
       setDeployData(null);
+      setDeployedAddress(null);
       setIsDeployed(false);
       
       // Clear timeout if it exists
@@ -380,7 +504,7 @@ const ContractTemplatesPage = () => {
         setDeploymentTimeout(null);
       }
     }
-  }, [isDeployed, deployData, selectedTemplate, deploymentTimeout]);
+  }, [isDeployed, deployData, deployedAddress, selectedTemplate, deploymentTimeout]);
 
   // Clear deployment error when starting new deployment
   useEffect(() => {
@@ -418,6 +542,52 @@ const ContractTemplatesPage = () => {
     e.currentTarget.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
   };
 
+  // Prefill the distributor form from a claims file exported by the Merkle Proof Generator
+  const handleClaimsFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = e => {
+      try {
+        const claims = JSON.parse(e.target?.result as string);
+        if (!claims.merkleRoot || !claims.tokenTotal) {
+          toast.error("Claims file must contain merkleRoot and tokenTotal");
+          return;
+        }
+        setDeploymentParams(prev => ({
+          ...prev,
+          merkleRoot: claims.merkleRoot,
+          totalAmount: claims.tokenTotal,
+        }));
+        toast.success(`Loaded ${Object.keys(claims.claims || {}).length} claims`);
+      } catch (error) {
+        toast.error("Invalid claims file");
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  // Load vesting vault grants from a CSV file, one row per grant
+  const handleGrantsFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = e => {
+      try {
+        const grants = parseVestingGrantsCsv(e.target?.result as string);
+        setDeploymentParams(prev => ({ ...prev, grants }));
+        toast.success(`Loaded ${grants.length} grants`);
+      } catch (error: any) {
+        toast.error(error.message || "Invalid grants file");
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
   // Get parameter input fields based on template
   const getParameterInputs = (templateId: string) => {
     switch (templateId) {
@@ -500,7 +670,9 @@ const ContractTemplatesPage = () => {
                 className={getInputClassName()}
                 style={{ minHeight: '48px' }}
               />
-              <p className="text-xs text-gray-400 mt-1">Total amount of tokens to vest</p>
+              <p className="text-xs text-gray-400 mt-1">
+                Total amount of tokens to vest, transferred from your wallet into the vesting contract on deployment
+              </p>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">Start Time (Unix timestamp) *</label>
@@ -624,6 +796,156 @@ const ContractTemplatesPage = () => {
             )}
           </div>
         );
+      case "vault":
+        const grantRows: VestingGrantRow[] = deploymentParams.grants || [];
+        return (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Token Address *</label>
+              <input
+                type="text"
+                value={deploymentParams.token || ""}
+                onChange={e => setDeploymentParams({ ...deploymentParams, token: e.target.value })}
+                onFocus={handleInputFocus}
+                placeholder="0x..."
+                className={getInputClassName()}
+                style={{ minHeight: '48px' }}
+              />
+              <p className="text-xs text-gray-400 mt-1">Address of the token being vested</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Grants CSV *</label>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleGrantsFileUpload}
+                className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-emerald-900/30 file:text-emerald-300"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Columns: beneficiary, amount (whole tokens), start (date or Unix timestamp), cliff_months,
+                duration_months, unlock (linear, monthly or a step in days) and revocable.{" "}
+                <button
+                  type="button"
+                  onClick={() => saveAs(new Blob([VESTING_GRANTS_CSV_TEMPLATE], { type: "text/csv" }), "vesting-grants.csv")}
+                  className="text-emerald-400 hover:underline"
+                >
+                  Download a template
+                </button>
+              </p>
+            </div>
+            {grantRows.length > 0 && (
+              <div className="p-3 rounded-lg border border-[#1e2a3a] bg-[#0f1a2e]">
+                <div className="text-sm text-white mb-2">
+                  {grantRows.length} grants • {getVestingRowsTotal(grantRows)} tokens transferred from your wallet on
+                  deployment
+                </div>
+                <div className="max-h-48 overflow-y-auto">
+                  <table className="w-full text-xs text-gray-300">
+                    <thead>
+                      <tr className="text-gray-400 text-left">
+                        <th className="py-1 pr-2">Beneficiary</th>
+                        <th className="py-1 pr-2">Amount</th>
+                        <th className="py-1 pr-2">Start</th>
+                        <th className="py-1 pr-2">Cliff</th>
+                        <th className="py-1 pr-2">Duration</th>
+                        <th className="py-1 pr-2">Unlock</th>
+                        <th className="py-1">Revocable</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {grantRows.map((row, index) => (
+                        <tr key={index} className="border-t border-[#1e2a3a]">
+                          <td className="py-1 pr-2 font-mono">
+                            {row.beneficiary.slice(0, 8)}...{row.beneficiary.slice(-6)}
+                          </td>
+                          <td className="py-1 pr-2">{row.amount}</td>
+                          <td className="py-1 pr-2">{new Date(row.start * 1000).toLocaleDateString()}</td>
+                          <td className="py-1 pr-2">{Math.round(row.cliff / MONTH_SECONDS)} mo</td>
+                          <td className="py-1 pr-2">{Math.round(row.duration / MONTH_SECONDS)} mo</td>
+                          <td className="py-1 pr-2">{describeUnlock(row)}</td>
+                          <td className="py-1">{row.revocable ? "Yes" : "No"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      case "distributor":
+        return (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Claims File (optional)</label>
+              <input
+                type="file"
+                accept=".json"
+                onChange={handleClaimsFileUpload}
+                className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-emerald-900/30 file:text-emerald-300"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Upload the claims JSON from the Merkle Proof Generator to fill in the root and total amount
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Token Address *</label>
+              <input
+                type="text"
+                value={deploymentParams.token || ""}
+                onChange={e => setDeploymentParams({ ...deploymentParams, token: e.target.value })}
+                onFocus={handleInputFocus}
+                placeholder="0x..."
+                className={getInputClassName()}
+                style={{ minHeight: '48px' }}
+              />
+              <p className="text-xs text-gray-400 mt-1">ERC20 token being airdropped (e.g. one created with the Token Factory)</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Merkle Root *</label>
+              <input
+                type="text"
+                value={deploymentParams.merkleRoot || ""}
+                onChange={e => setDeploymentParams({ ...deploymentParams, merkleRoot: e.target.value })}
+                onFocus={handleInputFocus}
+                placeholder="0x..."
+                className={getInputClassName()}
+                style={{ minHeight: '48px' }}
+              />
+              <p className="text-xs text-gray-400 mt-1">Root of the (index, address, amount) claim tree</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Total Amount (in wei) *</label>
+              <input
+                type="text"
+                value={deploymentParams.totalAmount || ""}
+                onChange={e => setDeploymentParams({ ...deploymentParams, totalAmount: e.target.value })}
+                onFocus={handleInputFocus}
+                placeholder="1000000000000000000000"
+                className={getInputClassName()}
+                style={{ minHeight: '48px' }}
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Sum of all claims, transferred from your wallet into the distributor on deployment
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Claim Deadline (Unix timestamp) *</label>
+              <input
+                type="number"
+                value={deploymentParams.claimDeadline || ""}
+                onChange={e => setDeploymentParams({ ...deploymentParams, claimDeadline: e.target.value })}
+                onFocus={handleInputFocus}
+                placeholder={(Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60).toString()}
+                className={getInputClassName()}
+                style={{ minHeight: '48px' }}
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                After this time claims close and you can sweep the remaining tokens
+              </p>
+            </div>
+          </div>
+        );
       default:
         return null;
     }
@@ -717,10 +1039,10 @@ const ContractTemplatesPage = () => {
             <div className="text-4xl mb-4">🔒</div>
             <h2 className="text-xl font-bold mb-4">Connect Your Wallet</h2>
             <p className="text-gray-300">
-              Please connect your wallet to {NETWORK_INFO.name} to deploy contract templates.
+              Please connect your wallet to {networkName} to deploy contract templates.
             </p>
             <p className="text-xs text-gray-400 mt-2">
-              Network: {NETWORK_INFO.name} (Chain ID: {NETWORK_INFO.chainId})
+              Network: {networkName} (Chain ID: {chainId})
             </p>
           </div>
         ) : (
@@ -771,12 +1093,34 @@ const ContractTemplatesPage = () => {
                   </div>
 
                   {/* Deploy Button */}
+                  {!isTemplateSupported(template) && (
+                    <p className="mb-2 text-xs text-yellow-300">
+                      The deployed template factory predates this template. Redeploy it and sync the frontend contracts.
+                    </p>
+                  )}
                   <button
                     onClick={() => handleSelectTemplate(template.id)}
-                    className="w-full py-3 px-4 bg-gradient-to-r from-emerald-600 to-slate-600 hover:from-emerald-700 hover:to-slate-700 text-white font-semibold rounded-lg transition-all duration-200 hover:shadow-lg transform hover:scale-[1.02]"
+                    disabled={!isTemplateSupported(template)}
+                    className="w-full py-3 px-4 bg-gradient-to-r from-emerald-600 to-slate-600 hover:from-emerald-700 hover:to-slate-700 text-white font-semibold rounded-lg transition-all duration-200 hover:shadow-lg transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                   >
                     Deploy Template
                   </button>
+                  {template.id === "multisig" && (
+                    <Link
+                      href={getMultiSigPagePath("")}
+                      className="block mt-3 text-center text-sm text-emerald-400 hover:underline"
+                    >
+                      Manage a deployed wallet
+                    </Link>
+                  )}
+                  {template.id === "vesting" && (
+                    <Link
+                      href={getVestingPagePath("")}
+                      className="block mt-3 text-center text-sm text-emerald-400 hover:underline"
+                    >
+                      View my vesting
+                    </Link>
+                  )}
                 </div>
               ))}
             </div>
@@ -793,9 +1137,27 @@ const ContractTemplatesPage = () => {
                           <div className="text-white font-medium">{contract.name}</div>
                           <div className="text-sm text-gray-400">{contract.type}</div>
                         </div>
-                        <code className="text-emerald-400 text-sm font-mono">
-                          {contract.address.slice(0, 10)}...{contract.address.slice(-8)}
-                        </code>
+                        <div className="flex items-center gap-3">
+                          <code className="text-emerald-400 text-sm font-mono">
+                            {contract.address.slice(0, 10)}...{contract.address.slice(-8)}
+                          </code>
+                          {contract.templateId === "multisig" && ethers.isAddress(contract.address) && (
+                            <Link
+                              href={getMultiSigPagePath(contract.address)}
+                              className="text-sm text-emerald-400 hover:underline"
+                            >
+                              Open Dashboard
+                            </Link>
+                          )}
+                          {contract.templateId === "vesting" && ethers.isAddress(contract.address) && (
+                            <Link
+                              href={getVestingPagePath(contract.address)}
+                              className="text-sm text-emerald-400 hover:underline"
+                            >
+                              Open Vesting
+                            </Link>
+                          )}
+                        </div>
                       </div>
                       <ContractVerification
                         contractAddress={contract.address}
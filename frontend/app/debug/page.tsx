@@ -5,10 +5,11 @@ import type { NextPage } from "next";
 import { useAccount } from "wagmi";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
-import { NETWORK_INFO } from "~~/contracts/deployedContracts";
+import { useContractRegistry } from "~~/hooks/useContractRegistry";
 
 const Debug: NextPage = () => {
   const { isConnected } = useAccount();
+  const { chainId, networkName } = useContractRegistry();
 
   return (
     <div className="min-h-screen bg-[#121d33] text-white">
@@ -42,10 +43,10 @@ const Debug: NextPage = () => {
             <div className="text-4xl mb-4">🔒</div>
             <h2 className="text-xl font-bold mb-4">Connect Your Wallet</h2>
             <p className="text-gray-300">
-              Please connect your wallet to {NETWORK_INFO.name} to debug contracts.
+              Please connect your wallet to {networkName} to debug contracts.
             </p>
             <p className="text-xs text-gray-400 mt-2">
-              Network: {NETWORK_INFO.name} (Chain ID: {NETWORK_INFO.chainId})
+              Network: {networkName} (Chain ID: {chainId})
             </p>
           </div>
         ) : (
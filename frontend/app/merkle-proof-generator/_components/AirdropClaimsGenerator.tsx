@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { isMerkleJobCancelled, useMerkleWorker } from "../../../hooks/useMerkleWorker";
+import { MerkleClaimsResult } from "../../../utils/merkleWorkerTypes";
+import { MerkleWorkerProgress } from "./MerkleWorkerProgress";
+import { ethers } from "ethers";
+import { saveAs } from "file-saver";
+import { toast } from "react-toastify";
+import { ClipboardDocumentIcon } from "@heroicons/react/24/outline";
+
+/**
+ * Airdrop mode of the generator: turns `address,amount` CSV rows into a MerkleDistributor claims file
+ */
+export const AirdropClaimsGenerator = () => {
+  const [decimals, setDecimals] = useState("18");
+  const [fileName, setFileName] = useState("");
+  const [claims, setClaims] = useState<MerkleClaimsResult | null>(null);
+  const { run: runMerkleJob, cancel, progress, isBusy } = useMerkleWorker();
+
+  // The worker streams the CSV and keeps its rows, so changing decimals re-uses the last upload
+  const generateClaims = async (file: File | undefined, decimalsValue: string) => {
+    const tokenDecimals = Number(decimalsValue);
+    if (!Number.isInteger(tokenDecimals) || tokenDecimals < 0 || tokenDecimals > 18) {
+      toast.error("Decimals must be a whole number between 0 and 18");
+      return;
+    }
+
+    try {
+      const result = await runMerkleJob({ type: "buildClaims", file, decimals: tokenDecimals });
+      setClaims(result);
+
+      if (result.invalidRows.length > 0) {
+        toast.error(`Skipped ${result.invalidRows.length} invalid rows (e.g. line ${result.invalidRows[0]})`);
+      }
+      toast.success(`Generated claims for ${result.count} recipients`);
+    } catch (error) {
+      if (isMerkleJobCancelled(error)) {
+        toast.info("Claims generation cancelled");
+        return;
+      }
+      setClaims(null);
+      toast.error(error instanceof Error ? error.message : "Error generating claims");
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    generateClaims(file, decimals);
+    event.target.value = "";
+  };
+
+  const handleDecimalsChange = (value: string) => {
+    setDecimals(value);
+    if (fileName) {
+      generateClaims(undefined, value);
+    }
+  };
+
+  const downloadClaims = () => {
+    if (!claims) return;
+
+    saveAs(claims.blob, `merkle-claims-${claims.merkleRoot.slice(0, 10)}.json`);
+    toast.success("Claims file downloaded successfully");
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard");
+  };
+
+  const tokenDecimals = Number(decimals) || 0;
+
+  return (
+    <div className="space-y-6">
+      <MerkleWorkerProgress isBusy={isBusy} progress={progress} onCancel={cancel} />
+
+      {/* CSV Upload Section */}
+      <div className="rounded-lg p-6 bg-[#1c2941]">
+        <h3 className="text-lg font-semibold mb-4 text-white">Upload Airdrop Allocations</h3>
+        <div className="space-y-4">
+          <input
+            type="file"
+            accept=".csv,.txt"
+            onChange={handleFileUpload}
+            className="block w-full text-sm text-gray-400
+              file:mr-4 file:py-2 file:px-4
+              file:rounded-full file:border-0
+              file:text-sm file:font-semibold
+              file:bg-purple-900/30 file:text-purple-300
+              hover:file:bg-purple-900/40
+              file:transition-colors"
+            disabled={isBusy}
+          />
+          <p className="text-sm text-gray-400">
+            Upload a CSV with one <span className="font-mono">address,amount</span> row per recipient. Amounts are in
+            whole tokens and converted to base units with the decimals below.
+          </p>
+          {fileName && <p className="text-xs text-gray-500">Loaded: {fileName}</p>}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Token Decimals</label>
+            <input
+              type="number"
+              min="0"
+              max="18"
+              value={decimals}
+              onChange={e => handleDecimalsChange(e.target.value)}
+              className="w-full p-2 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Claims Summary */}
+      {claims && (
+        <div className="rounded-lg p-6 bg-[#1c2941]">
+          <h3 className="text-lg font-semibold mb-4 text-white">Distributor Claims</h3>
+          <div className="flex items-center space-x-2 overflow-x-auto mb-4 bg-gray-700 p-3 rounded">
+            <span className="text-sm font-mono text-gray-300 break-all">{claims.merkleRoot}</span>
+            <button
+              onClick={() => copyToClipboard(claims.merkleRoot)}
+              className="text-purple-400 ml-2 flex-shrink-0"
+              title="Copy to Clipboard"
+            >
+              <ClipboardDocumentIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-sm text-gray-300">
+            <p>
+              <span className="font-medium">Recipients:</span> {claims.count}
+            </p>
+            <p>
+              <span className="font-medium">Token Total:</span> {ethers.formatUnits(claims.tokenTotal, tokenDecimals)}{" "}
+              <span className="text-gray-500">({claims.tokenTotal} base units)</span>
+            </p>
+          </div>
+
+          <div className="max-h-60 overflow-y-auto border border-gray-700 rounded-lg mb-4">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-700 text-gray-300">
+                <tr>
+                  <th className="p-2 text-left">Index</th>
+                  <th className="p-2 text-left">Address</th>
+                  <th className="p-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {claims.preview.map(([address, claim]) => (
+                  <tr key={address} className="text-gray-200">
+                    <td className="p-2">{claim.index}</td>
+                    <td className="p-2 font-mono truncate max-w-xs">{address}</td>
+                    <td className="p-2 text-right">{ethers.formatUnits(claim.amount, tokenDecimals)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {claims.count > claims.preview.length && (
+            <p className="text-xs text-gray-500 mb-4">
+              Showing the first {claims.preview.length} of {claims.count} claims
+            </p>
+          )}
+
+          <div className="bg-purple-900/20 p-3 rounded-lg border border-purple-800 text-sm text-purple-300 mb-4">
+            Deploy a Merkle Distributor from Contract Templates with this root and a total amount of{" "}
+            <span className="font-mono">{claims.tokenTotal}</span>, then share the claims file with recipients.
+          </div>
+
+          <button
+            onClick={downloadClaims}
+            className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            Export Claims JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
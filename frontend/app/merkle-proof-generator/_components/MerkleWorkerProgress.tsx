@@ -0,0 +1,48 @@
+"use client";
+
+import { MerkleWorkerPhase, MerkleWorkerProgress as Progress } from "../../../utils/merkleWorkerTypes";
+
+const PHASE_LABELS: Record<MerkleWorkerPhase, string> = {
+  parsing: "Reading file",
+  hashing: "Hashing leaves",
+  building: "Building tree",
+  proofs: "Generating proofs",
+  archiving: "Packaging export",
+};
+
+interface MerkleWorkerProgressProps {
+  isBusy: boolean;
+  progress: Progress | null;
+  onCancel: () => void;
+}
+
+/**
+ * Progress bar and cancel button for a running Merkle worker job
+ */
+export const MerkleWorkerProgress = ({ isBusy, progress, onCancel }: MerkleWorkerProgressProps) => {
+  if (!isBusy) return null;
+
+  // Phases without a measurable total (such as building the tree) show a pulsing full bar
+  const percent =
+    progress && progress.total > 0 ? Math.min(100, Math.round((progress.processed / progress.total) * 100)) : null;
+
+  return (
+    <div className="rounded-lg p-4 bg-purple-900/20 border border-purple-800">
+      <div className="flex items-center justify-between mb-2 text-sm text-purple-300">
+        <span>
+          {progress ? PHASE_LABELS[progress.phase] : "Working"}
+          {percent !== null && ` — ${percent}%`}
+        </span>
+        <button onClick={onCancel} className="text-xs text-red-400 hover:text-red-300">
+          Cancel
+        </button>
+      </div>
+      <div className="h-2 w-full bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-2 bg-purple-500 rounded-full transition-all ${percent === null ? "animate-pulse" : ""}`}
+          style={{ width: `${percent ?? 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
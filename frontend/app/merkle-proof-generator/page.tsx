@@ -1,17 +1,17 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { generateMerkleTree as buildMerkleTree } from "../../utils/Merkle";
-import { MerkleTree } from "../../utils/Merkle";
+import { isMerkleJobCancelled, useMerkleWorker } from "../../hooks/useMerkleWorker";
+import { DEFAULT_LEAF_ENCODING, LEAF_ENCODINGS, LeafEncoding, isLeafEncoding } from "../../utils/merkleLeaf";
+import { PROOF_EXPORT_EXTENSIONS, ProofExportFormat } from "../../utils/merkleExport";
+import { MerkleListJob, MerkleListUpdate, MerkleWorkerJobOf } from "../../utils/merkleWorkerTypes";
 import { ethers } from "ethers";
 import { saveAs } from "file-saver";
-import Papa from "papaparse";
-import type { ParseResult } from "papaparse";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import { formatEther } from "viem";
 import { useAccount } from "wagmi";
-import { NETWORK_INFO, CONTRACT_ADDRESSES, CONTRACT_ABIS } from "../../contracts/deployedContracts";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
 import {
   CheckCircleIcon,
   ClipboardDocumentIcon,
@@ -20,9 +20,14 @@ import {
   TrashIcon,
   XCircleIcon,
 } from "@heroicons/react/24/outline";
+import { AirdropClaimsGenerator } from "./_components/AirdropClaimsGenerator";
+import { MerkleWorkerProgress } from "./_components/MerkleWorkerProgress";
 
-// Contract address - use the actual deployed contract address from deployedContracts
-const CONTRACT_ADDRESS = CONTRACT_ADDRESSES.MerkleProof;
+// Addresses shown per page of the list; the full list stays in the Merkle worker
+const ADDRESS_PAGE_SIZE = 100;
+
+// Address list for allowlists, or address/amount rows for MerkleDistributor airdrops
+type GeneratorMode = "allowlist" | "airdrop";
 
 // Define interface for tree info
 interface TreeInfo {
@@ -34,12 +39,14 @@ interface TreeInfo {
 
 const MerkleGenerator = () => {
   const { address: connectedAddress, isConnected } = useAccount();
+  const { chainId, networkName, blockExplorer, getContract } = useContractRegistry();
 
   // UI state
-  const [addresses, setAddresses] = useState<string[]>([]);
+  const [listSize, setListSize] = useState(0);
+  const [listPage, setListPage] = useState(0);
+  const [pageAddresses, setPageAddresses] = useState<string[]>([]);
   const [inputAddress, setInputAddress] = useState("");
   const [merkleRoot, setMerkleRoot] = useState("");
-  const [merkleTree, setMerkleTree] = useState<MerkleTree | null>(null);
   const [selectedAddress, setSelectedAddress] = useState("");
   const [proof, setProof] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -48,6 +55,15 @@ const MerkleGenerator = () => {
   const [showContractSection, setShowContractSection] = useState(false);
   const [txHash, setTxHash] = useState("");
   const [txStatus, setTxStatus] = useState("");
+  const [leafEncoding, setLeafEncoding] = useState<LeafEncoding>(DEFAULT_LEAF_ENCODING);
+  const [generatorMode, setGeneratorMode] = useState<GeneratorMode>("allowlist");
+  const {
+    run: runMerkleJob,
+    cancel: cancelMerkleJob,
+    progress: workerProgress,
+    isBusy,
+    resetCount: workerResetCount,
+  } = useMerkleWorker();
 
   // Contract state
   const [contract, setContract] = useState<ethers.Contract | null>(null);
@@ -67,7 +83,8 @@ const MerkleGenerator = () => {
       try {
         const provider = new ethers.BrowserProvider(window.ethereum);
         const signer = await provider.getSigner();
-        const contractInstance = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABIS.MerkleProof, signer);
+        const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+        const contractInstance = new ethers.Contract(registryAddress, registryAbi, signer);
 
         setContract(contractInstance);
         setSigner(signer);
@@ -96,7 +113,7 @@ const MerkleGenerator = () => {
     };
 
     initializeContract();
-  }, [isConnected, connectedAddress]);
+  }, [isConnected, connectedAddress, getContract]);
 
   // Check merkle root validity when it changes
   useEffect(() => {
@@ -137,7 +154,44 @@ const MerkleGenerator = () => {
     checkMerkleRoot();
   }, [merkleRoot, contract]);
 
-  const isPageLoading = isLoading || isContractLoading || isCheckingContract;
+  // Rebuild the tree whenever the leaf encoding changes so root and proofs stay consistent
+  useEffect(() => {
+    // Jobs that add addresses carry the encoding, so an empty list has nothing to rebuild
+    if (listSize === 0) return;
+
+    runListJob({ type: "setEncoding", encoding: leafEncoding });
+    setProof([]);
+    setSelectedAddress("");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [leafEncoding]);
+
+  // The address list lives in the worker, so a crash loses it along with the root built from it
+  useEffect(() => {
+    if (workerResetCount === 0 || listSize === 0) return;
+
+    setListSize(0);
+    setMerkleRoot("");
+    setListPage(0);
+    setProof([]);
+    setSelectedAddress("");
+    toast.error("The address list was lost when the Merkle worker stopped. Re-import it to continue.");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workerResetCount]);
+
+  // Fetch the visible page of addresses from the worker whenever the list changes
+  useEffect(() => {
+    if (listSize === 0) {
+      setPageAddresses([]);
+      return;
+    }
+
+    runMerkleJob({ type: "getPage", offset: listPage * ADDRESS_PAGE_SIZE, limit: ADDRESS_PAGE_SIZE }, false)
+      .then(page => setPageAddresses(page.addresses))
+      .catch(error => console.error("Error loading addresses:", error));
+  }, [listSize, listPage, merkleRoot, runMerkleJob]);
+
+  const isPageLoading = isLoading || isBusy || isContractLoading || isCheckingContract;
+  const pageCount = Math.ceil(listSize / ADDRESS_PAGE_SIZE);
 
   const validateAddress = (address: string) => {
     try {
@@ -147,7 +201,52 @@ const MerkleGenerator = () => {
     }
   };
 
-  const handleAddAddress = () => {
+  const applyListUpdate = (update: MerkleListUpdate) => {
+    setListSize(update.count);
+    setMerkleRoot(update.merkleRoot);
+    setListPage(page => Math.min(page, Math.max(0, Math.ceil(update.count / ADDRESS_PAGE_SIZE) - 1)));
+  };
+
+  // Run a job that changes the address list in the worker and sync the root and count back
+  const runListJob = async (job: MerkleListJob) => {
+    try {
+      setIsLoading(true);
+      const update = await runMerkleJob(job as MerkleWorkerJobOf<MerkleListJob["type"]>);
+      applyListUpdate(update);
+      return update;
+    } catch (error) {
+      if (isMerkleJobCancelled(error)) {
+        toast.info("Operation cancelled");
+      } else {
+        toast.error(error instanceof Error ? error.message : "Error generating Merkle tree");
+        console.error(error);
+      }
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Toast how many addresses were added, skipped or rejected by an update
+  const reportAddedAddresses = (update: MerkleListUpdate | null) => {
+    if (!update) return;
+
+    if (update.added > 0) {
+      toast.success(`Added ${update.added} valid addresses`);
+    } else if (update.invalid === 0) {
+      toast.warning("No new addresses found");
+    }
+
+    if (update.duplicates > 0) {
+      toast.info(`Skipped ${update.duplicates} duplicate addresses`);
+    }
+
+    if (update.invalid > 0) {
+      toast.error(`Found ${update.invalid} invalid addresses`);
+    }
+  };
+
+  const handleAddAddress = async () => {
     if (!inputAddress.trim()) {
       toast.error("Please enter an address");
       return;
@@ -159,149 +258,64 @@ const MerkleGenerator = () => {
       return;
     }
 
-    if (addresses.includes(normalizedAddress)) {
+    const update = await runListJob({ type: "addAddresses", addresses: [normalizedAddress], encoding: leafEncoding });
+    if (!update) return;
+
+    if (update.duplicates > 0) {
       toast.warning("Address already added");
       return;
     }
 
-    setAddresses(prevAddresses => {
-      const newAddresses = [...prevAddresses, normalizedAddress];
-      generateMerkleTree(newAddresses);
-      return newAddresses;
-    });
     setInputAddress("");
     toast.success("Address added successfully");
   };
 
-  const handleRemoveAddress = (addressToRemove: string) => {
-    setAddresses(prevAddresses => {
-      const newAddresses = prevAddresses.filter(addr => addr !== addressToRemove);
-      generateMerkleTree(newAddresses);
-      return newAddresses;
-    });
-    toast.info("Address removed");
+  const handleRemoveAddress = async (addressToRemove: string) => {
+    const update = await runListJob({ type: "removeAddress", address: addressToRemove });
+    if (update) {
+      toast.info("Address removed");
+    }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // The worker streams the file through Papa.parse in chunks, so large lists never sit in React state
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setIsLoading(true);
     setFileName(file.name);
+    event.target.value = "";
 
-    const reader = new FileReader();
-
-    reader.onload = e => {
-      try {
-        const text = e.target?.result as string | undefined;
-        if (!text) {
-          toast.error("Error reading file");
-          setIsLoading(false);
-          return;
-        }
-        Papa.parse(text, {
-          complete: (results: ParseResult<string[]>) => {
-            const lines = results.data
-              .flat()
-              .map((line: string | number) => (typeof line === "string" ? line.trim() : String(line).trim()))
-              .filter((line: string) => line)
-              .map((line: string) => line.toLowerCase());
-
-            const validAddresses = lines.filter((addr: string) => validateAddress(addr));
-            const invalidAddresses = lines.filter((addr: string) => !validateAddress(addr) && addr.length > 0);
-
-            if (validAddresses.length > 0) {
-              setAddresses(prevAddresses => {
-                const newAddresses = [...new Set([...prevAddresses, ...validAddresses])];
-                generateMerkleTree(newAddresses);
-                return newAddresses;
-              });
-              toast.success(`Added ${validAddresses.length} valid addresses`);
-            }
-
-            if (invalidAddresses.length > 0) {
-              toast.error(`Found ${invalidAddresses.length} invalid addresses`);
-            }
-          },
-          error: (error: any) => {
-            toast.error("Error parsing file: " + error.message);
-          },
-        });
-      } catch (error) {
-        toast.error("Error processing file");
-        console.error(error);
-      } finally {
-        setIsLoading(false);
-        if (event.target) {
-          event.target.value = "";
-        }
-      }
-    };
-
-    reader.onerror = () => {
-      toast.error("Error reading file");
-      setIsLoading(false);
-      if (event.target) {
-        event.target.value = "";
-      }
-    };
-
-    reader.readAsText(file);
+    reportAddedAddresses(await runListJob({ type: "loadFile", file, encoding: leafEncoding }));
   };
 
-  const handlePasteAddresses = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+  const handlePasteAddresses = async (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     const text = event.target.value;
+    event.target.value = "";
+
     const lines = text
       .split(/[\n,]/) // Split by newlines or commas
       .map(line => line.trim())
-      .filter(line => line)
-      .map(line => line.toLowerCase());
-
-    const validAddresses = lines.filter(addr => validateAddress(addr));
-    const invalidAddresses = lines.filter(addr => !validateAddress(addr) && addr.length > 0);
-
-    if (validAddresses.length > 0) {
-      setAddresses(prevAddresses => {
-        const newAddresses = [...new Set([...prevAddresses, ...validAddresses])];
-        generateMerkleTree(newAddresses);
-        return newAddresses;
-      });
-      toast.success(`Added ${validAddresses.length} valid addresses`);
-    } else {
-      toast.warning("No valid addresses found in pasted text");
-    }
+      .filter(line => line);
 
-    if (invalidAddresses.length > 0) {
-      toast.error(`Found ${invalidAddresses.length} invalid addresses`);
-    }
+    if (lines.length === 0) return;
 
-    event.target.value = "";
+    reportAddedAddresses(await runListJob({ type: "addAddresses", addresses: lines, encoding: leafEncoding }));
   };
 
-  const generateMerkleTree = (addressList: string[]) => {
-    if (!addressList || addressList.length === 0) {
-      setMerkleTree(null);
-      setMerkleRoot("");
-      return null;
-    }
-
-    try {
-      const tree = buildMerkleTree(addressList);
-      setMerkleTree(tree);
-      setMerkleRoot(tree.getHexRoot());
-      return tree;
-    } catch (error) {
-      toast.error("Error generating Merkle tree");
-      console.error(error);
-      return null;
+  const handleClearAddresses = async () => {
+    const update = await runListJob({ type: "clear" });
+    if (update) {
+      setProof([]);
+      setSelectedAddress("");
+      toast.info("All addresses cleared");
     }
   };
 
-  const handleGenerateProof = (address: string) => {
-    if (!merkleTree || !address) return;
+  const handleGenerateProof = async (address: string) => {
+    if (!merkleRoot || !address) return;
 
     try {
-      const proof = merkleTree.getHexProof(ethers.keccak256(address));
+      const proof = await runMerkleJob({ type: "getProof", address }, false);
       setProof(proof);
       setSelectedAddress(address);
       toast.success("Proof generated successfully");
@@ -318,6 +332,7 @@ const MerkleGenerator = () => {
       address: selectedAddress,
       proof: proof,
       merkleRoot: merkleRoot,
+      leafEncoding,
     };
 
     const blob = new Blob([JSON.stringify(proofData, null, 2)], { type: "application/json" });
@@ -325,21 +340,22 @@ const MerkleGenerator = () => {
     toast.success("Proof downloaded successfully");
   };
 
-  const downloadAllData = () => {
-    if (!merkleTree || !addresses.length) return;
+  // Bulk export of every proof plus the root, leaf encoding and tree dump
+  const downloadBulkExport = async (format: ProofExportFormat) => {
+    if (!merkleRoot || listSize === 0) return;
 
-    const allData = {
-      merkleRoot,
-      addresses,
-      proofs: addresses.map(address => ({
-        address,
-        proof: merkleTree.getHexProof(ethers.keccak256(address)),
-      })),
-    };
-
-    const blob = new Blob([JSON.stringify(allData, null, 2)], { type: "application/json" });
-    saveAs(blob, `merkle-tree-data.json`);
-    toast.success("All data downloaded successfully");
+    try {
+      const { blob, count } = await runMerkleJob({ type: "exportProofs", format });
+      saveAs(blob, `merkle-proofs-${merkleRoot.slice(0, 10)}.${PROOF_EXPORT_EXTENSIONS[format]}`);
+      toast.success(`Exported ${count} proofs`);
+    } catch (error) {
+      if (isMerkleJobCancelled(error)) {
+        toast.info("Export cancelled");
+        return;
+      }
+      toast.error("Error exporting proofs");
+      console.error(error);
+    }
   };
 
   const copyToClipboard = (text: string) => {
@@ -349,7 +365,7 @@ const MerkleGenerator = () => {
 
   // Contract interaction handlers using ethers
   const handlePublishMerkleRoot = async () => {
-    if (!merkleRoot || !addresses.length || !treeDescription || !contract) {
+    if (!merkleRoot || !listSize || !treeDescription || !contract) {
       toast.error("Missing required information to publish Merkle root");
       return;
     }
@@ -364,7 +380,7 @@ const MerkleGenerator = () => {
       // Estimate gas with a buffer
       let gasEstimate;
       try {
-        gasEstimate = await contract.addMerkleTree.estimateGas(merkleRoot, treeDescription, addresses.length, {
+        gasEstimate = await contract.addMerkleTree.estimateGas(merkleRoot, treeDescription, listSize, {
           value: fee,
         });
         // Add 20% buffer to gas estimate
@@ -375,7 +391,7 @@ const MerkleGenerator = () => {
       }
 
       // Send transaction with manual gas settings
-      const tx = await contract.addMerkleTree(merkleRoot, treeDescription, addresses.length, {
+      const tx = await contract.addMerkleTree(merkleRoot, treeDescription, listSize, {
         value: fee,
         gasLimit: gasEstimate,
       });
@@ -574,7 +590,7 @@ const MerkleGenerator = () => {
             your Merkle root and proofs.
           </p>
           <p className="text-xs text-gray-400 mb-4">
-            Network: {NETWORK_INFO.name} (Chain ID: {NETWORK_INFO.chainId})
+            Network: {networkName} (Chain ID: {chainId})
           </p>
 
           <div className="bg-purple-900/20 p-4 rounded-lg border border-purple-800">
@@ -589,357 +605,446 @@ const MerkleGenerator = () => {
           </div>
         </div>
 
-        <div className="space-y-6">
-          {/* Debug Import Test */}
-          <div className="rounded-lg p-6 bg-red-900/20 border border-red-500/30">
-            <h3 className="text-lg font-semibold mb-4 text-white">Debug Import Test</h3>
-            <p className="text-sm text-gray-400">
-              This section is for debugging the address import functionality. It will generate a Merkle tree from a
-              predefined list of addresses.
-            </p>
+        {/* Mode Selector */}
+        <div className="flex gap-2 mb-6">
+          {(["allowlist", "airdrop"] as GeneratorMode[]).map(mode => (
             <button
-              onClick={() => {
-                const testAddresses = [
-                  "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
-                  "0x1234567890123456789012345678901234567890",
-                  "0xabcdef1234567890abcdef1234567890abcdef1234",
-                  "0x1122334455667788990011223344556677889900",
-                ];
-                generateMerkleTree(testAddresses);
-                toast.success("Merkle tree generated from test addresses.");
-              }}
-              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              key={mode}
+              onClick={() => setGeneratorMode(mode)}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                generatorMode === mode ? "bg-purple-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+              }`}
             >
-              Generate Test Merkle Tree
+              {mode === "allowlist" ? "Address List" : "Airdrop Claims"}
             </button>
-            <p className="mt-4 text-sm text-gray-400">
-              Current Merkle Root: <span className="font-mono text-gray-300">{merkleRoot || "N/A"}</span>
-            </p>
-            <p className="mt-2 text-sm text-gray-400">
-              Current Tree Size: <span className="font-mono text-gray-300">{merkleTree?.getHexRoot() ? "Valid" : "Invalid"}</span>
-            </p>
-          </div>
+          ))}
+        </div>
 
-          {/* File Upload Section */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Upload Addresses</h3>
-            <div className="space-y-4">
-              <input
-                type="file"
-                accept=".csv,.txt"
-                onChange={handleFileUpload}
-                className="block w-full text-sm text-gray-400
-                  file:mr-4 file:py-2 file:px-4
-                  file:rounded-full file:border-0
-                  file:text-sm file:font-semibold
-                  file:bg-purple-900/30 file:text-purple-300
-                  hover:file:bg-purple-900/40
-                  dark:hover:file:text-purple-300
-                  file:transition-colors"
-                disabled={isPageLoading}
-              />
-              <p className="text-sm text-gray-400">Upload a CSV or TXT file with one address per line</p>
+        {generatorMode === "airdrop" ? (
+          <AirdropClaimsGenerator />
+        ) : (
+          <div className="space-y-6">
+            {/* Worker Progress */}
+            <MerkleWorkerProgress isBusy={isBusy} progress={workerProgress} onCancel={cancelMerkleJob} />
+
+            {/* Debug Import Test */}
+            <div className="rounded-lg p-6 bg-red-900/20 border border-red-500/30">
+              <h3 className="text-lg font-semibold mb-4 text-white">Debug Import Test</h3>
+              <p className="text-sm text-gray-400">
+                This section is for debugging the address import functionality. It will generate a Merkle tree from a
+                predefined list of addresses.
+              </p>
+              <button
+                onClick={() => {
+                  const testAddresses = [
+                    "0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+                    "0x1234567890123456789012345678901234567890",
+                    "0xabcdef1234567890abcdef1234567890abcdef12",
+                    "0x1122334455667788990011223344556677889900",
+                  ];
+                  runListJob({ type: "addAddresses", addresses: testAddresses, encoding: leafEncoding }).then(
+                    update => update && toast.success("Merkle tree generated from test addresses."),
+                  );
+                }}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                Generate Test Merkle Tree
+              </button>
+              <p className="mt-4 text-sm text-gray-400">
+                Current Merkle Root: <span className="font-mono text-gray-300">{merkleRoot || "N/A"}</span>
+              </p>
+              <p className="mt-2 text-sm text-gray-400">
+                Current Tree Size: <span className="font-mono text-gray-300">{merkleRoot ? "Valid" : "Invalid"}</span>
+              </p>
             </div>
-          </div>
 
-          {/* Paste Addresses Section */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Add Multiple Addresses</h3>
-            <div className="space-y-4">
-              <div className="relative">
-                <textarea
-                  placeholder="Paste addresses here (one per line or comma-separated)"
-                  onChange={handlePasteAddresses}
-                  className="block w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+            {/* Leaf Encoding Section */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Leaf Encoding</h3>
+              <div className="space-y-4">
+                <select
+                  value={leafEncoding}
+                  onChange={e => isLeafEncoding(e.target.value) && setLeafEncoding(e.target.value)}
+                  className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                  disabled={isPageLoading}
+                >
+                  {(Object.keys(LEAF_ENCODINGS) as LeafEncoding[])
+                    .filter(encoding => !LEAF_ENCODINGS[encoding].requiresAmount)
+                    .map(encoding => (
+                      <option key={encoding} value={encoding}>
+                        {LEAF_ENCODINGS[encoding].label}
+                      </option>
+                    ))}
+                </select>
+                <p className="text-sm text-gray-400">{LEAF_ENCODINGS[leafEncoding].description}</p>
+                <p className="text-xs font-mono text-purple-300">{LEAF_ENCODINGS[leafEncoding].solidity}</p>
+              </div>
+            </div>
+
+            {/* File Upload Section */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Upload Addresses</h3>
+              <div className="space-y-4">
+                <input
+                  type="file"
+                  accept=".csv,.txt"
+                  onChange={handleFileUpload}
+                  className="block w-full text-sm text-gray-400
+                    file:mr-4 file:py-2 file:px-4
+                    file:rounded-full file:border-0
+                    file:text-sm file:font-semibold
+                    file:bg-purple-900/30 file:text-purple-300
+                    hover:file:bg-purple-900/40
+                    dark:hover:file:text-purple-300
+                    file:transition-colors"
                   disabled={isPageLoading}
-                  rows={4}
                 />
+                <p className="text-sm text-gray-400">Upload a CSV or TXT file with one address per line</p>
               </div>
             </div>
-          </div>
 
-          {/* Address Input Section */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Add Single Address</h3>
-            <div className="flex space-x-4">
-              <input
-                type="text"
-                value={inputAddress}
-                onChange={e => setInputAddress(e.target.value)}
-                placeholder="Enter Ethereum address"
-                className="flex-1 p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
-                disabled={isPageLoading}
-              />
-              <button
-                onClick={handleAddAddress}
-                className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
-                disabled={isPageLoading || !inputAddress.trim()}
-              >
-                Add
-              </button>
+            {/* Paste Addresses Section */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Add Multiple Addresses</h3>
+              <div className="space-y-4">
+                <div className="relative">
+                  <textarea
+                    placeholder="Paste addresses here (one per line or comma-separated)"
+                    onChange={handlePasteAddresses}
+                    className="block w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                    disabled={isPageLoading}
+                    rows={4}
+                  />
+                </div>
+              </div>
             </div>
-          </div>
 
-          {/* Address List Section */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Addresses List</h3>
-            {addresses.length === 0 ? (
-              <p className="text-gray-400">No addresses added yet</p>
-            ) : (
-              <>
-                <div className="flex justify-between items-center mb-4">
-                  <p className="text-sm text-gray-400">
-                    Total Addresses: <span className="font-semibold">{addresses.length}</span>
-                  </p>
+            {/* Address Input Section */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Add Single Address</h3>
+              <div className="flex space-x-4">
+                <input
+                  type="text"
+                  value={inputAddress}
+                  onChange={e => setInputAddress(e.target.value)}
+                  placeholder="Enter Ethereum address"
+                  className="flex-1 p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                  disabled={isPageLoading}
+                />
+                <button
+                  onClick={handleAddAddress}
+                  className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                  disabled={isPageLoading || !inputAddress.trim()}
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+
+            {/* Address List Section */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Addresses List</h3>
+              {listSize === 0 ? (
+                <p className="text-gray-400">No addresses added yet</p>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center mb-4">
+                    <p className="text-sm text-gray-400">
+                      Total Addresses: <span className="font-semibold">{listSize}</span>
+                    </p>
+                    <button
+                      onClick={() => {
+                        if (window.confirm("Are you sure you want to clear all addresses?")) {
+                          handleClearAddresses();
+                        }
+                      }}
+                      className="text-xs text-red-400 hover:text-red-300"
+                      disabled={isPageLoading}
+                    >
+                      Clear All
+                    </button>
+                  </div>
+                  <div className="max-h-60 overflow-y-auto border border-gray-700 rounded-lg">
+                    <ul className="divide-y divide-gray-700">
+                      {pageAddresses.map(address => (
+                        <li key={address} className="p-3 flex items-center justify-between text-sm hover:bg-gray-700">
+                          <span className="text-gray-200 font-mono truncate max-w-xs">{address}</span>
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => handleRemoveAddress(address)}
+                              className="text-red-400 hover:text-red-300"
+                              title="Remove Address"
+                              disabled={isPageLoading}
+                            >
+                              <TrashIcon className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => handleGenerateProof(address)}
+                              className="text-green-400 hover:text-green-300"
+                              title="Generate Proof"
+                              disabled={isPageLoading}
+                            >
+                              <DocumentCheckIcon className="h-5 w-5" />
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  {pageCount > 1 && (
+                    <div className="flex items-center justify-between mt-3 text-sm text-gray-400">
+                      <button
+                        onClick={() => setListPage(page => Math.max(0, page - 1))}
+                        className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                        disabled={listPage === 0}
+                      >
+                        Previous
+                      </button>
+                      <span>
+                        Page {listPage + 1} of {pageCount}
+                      </span>
+                      <button
+                        onClick={() => setListPage(page => Math.min(pageCount - 1, page + 1))}
+                        className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                        disabled={listPage >= pageCount - 1}
+                      >
+                        Next
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Merkle Root Display */}
+            {merkleRoot && (
+              <div className="rounded-lg p-6 bg-[#1c2941]">
+                <h3 className="text-lg font-semibold mb-4 text-white">Merkle Root</h3>
+                <div className="flex items-center space-x-2 overflow-x-auto mb-4 bg-gray-700 p-3 rounded">
+                  <span className="text-sm font-mono text-gray-300 break-all">{merkleRoot}</span>
                   <button
-                    onClick={() => {
-                      if (window.confirm("Are you sure you want to clear all addresses?")) {
-                        setAddresses([]);
-                        setMerkleTree(null);
-                        setMerkleRoot("");
-                        setProof([]);
-                        setSelectedAddress("");
-                        toast.info("All addresses cleared");
-                      }
-                    }}
-                    className="text-xs text-red-400 hover:text-red-300"
-                    disabled={isPageLoading}
+                    onClick={() => copyToClipboard(merkleRoot)}
+                    className="text-purple-400 ml-2 flex-shrink-0"
+                    title="Copy to Clipboard"
                   >
-                    Clear All
+                    <ClipboardDocumentIcon className="h-5 w-5" />
                   </button>
                 </div>
-                <div className="max-h-60 overflow-y-auto border border-gray-700 rounded-lg">
-                  <ul className="divide-y divide-gray-700">
-                    {addresses.map(address => (
-                      <li key={address} className="p-3 flex items-center justify-between text-sm hover:bg-gray-700">
-                        <span className="text-gray-200 font-mono truncate max-w-xs">{address}</span>
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => handleRemoveAddress(address)}
-                            className="text-red-400 hover:text-red-300"
-                            title="Remove Address"
+
+                {/* Root Status & Contract Interaction Section */}
+                {isConnected && (
+                  <div className="space-y-4">
+                    {/* Root status */}
+                    <div className="p-4 bg-gray-700 rounded-lg">
+                      <h4 className="text-sm font-medium mb-2 text-gray-300">Blockchain Status</h4>
+
+                      {isCheckingContract ? (
+                        <p className="text-sm text-gray-400">Checking root status...</p>
+                      ) : merkleRootValid ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center text-green-400 text-sm">
+                            <CheckCircleIcon className="h-5 w-5 mr-2" />
+                            <span>Root is registered on-chain</span>
+                          </div>
+
+                          {treeInfo && (
+                            <div className="mt-2 text-sm text-gray-300">
+                              <p>
+                                <span className="font-medium">Description:</span> {treeInfo.description}
+                              </p>
+                              <p>
+                                <span className="font-medium">Creator:</span> {treeInfo.creator?.slice(0, 6)}...
+                                {treeInfo.creator?.slice(-4)}
+                              </p>
+                              <p>
+                                <span className="font-medium">Size:</span> {treeInfo.listSize} addresses
+                              </p>
+                              <p>
+                                <span className="font-medium">Created:</span> {formatDate(treeInfo.timestamp)}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center text-amber-400 text-sm">
+                          <XCircleIcon className="h-5 w-5 mr-2" />
+                          <span>Root is not yet registered on-chain</span>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Contract interaction buttons */}
+                    <div className="flex flex-wrap gap-4">
+                      <button
+                        onClick={() => {
+                          setShowContractSection(!showContractSection);
+                          if (!showContractSection) {
+                            toast.info("Expanded blockchain operations");
+                          }
+                        }}
+                        className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                      >
+                        {showContractSection ? "Hide Contract Options" : "Manage on Blockchain"}
+                      </button>
+                    </div>
+
+                    {/* Contract interaction section */}
+                    {showContractSection && (
+                      <div className="mt-4 p-4 border border-gray-700 rounded-lg">
+                        <h4 className="text-lg font-medium mb-4 text-gray-200">Blockchain Operations</h4>
+
+                        {/* Description input */}
+                        <div className="mb-4">
+                          <label className="block text-sm font-medium text-gray-300 mb-1">Tree Description</label>
+                          <input
+                            type="text"
+                            value={treeDescription}
+                            onChange={e => setTreeDescription(e.target.value)}
+                            placeholder="e.g., NFT Whitelist Phase 1"
+                            className="w-full p-2 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
                             disabled={isPageLoading}
+                          />
+                        </div>
+
+                        {/* Fee info */}
+                        {platformFee && BigInt(platformFee) > 0 && (
+                          <div className="mb-4 p-3 bg-gray-700 rounded-lg text-sm">
+                            <p className="text-gray-300">
+                              <span className="font-medium">Platform Fee:</span> {formatEther(BigInt(platformFee))} ETH
+                              {isNewcomer && <span className="ml-2 text-green-400">(First tree is free!)</span>}
+                            </p>
+                          </div>
+                        )}
+
+                        {/* Action buttons */}
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                          {/* Publish button */}
+                          <button
+                            onClick={handlePublishMerkleRoot}
+                            disabled={isPageLoading || !merkleRoot || !treeDescription || merkleRootValid}
+                            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                           >
-                            <TrashIcon className="h-5 w-5" />
+                            {isContractLoading ? "Processing..." : "Publish Root"}
                           </button>
+
+                          {/* Update button */}
                           <button
-                            onClick={() => handleGenerateProof(address)}
-                            className="text-green-400 hover:text-green-300"
-                            title="Generate Proof"
-                            disabled={isPageLoading}
+                            onClick={handleUpdateDescription}
+                            disabled={isPageLoading || !merkleRoot || !treeDescription || !merkleRootValid}
+                            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                           >
-                            <DocumentCheckIcon className="h-5 w-5" />
+                            {isContractLoading ? "Processing..." : "Update Description"}
                           </button>
-                        </div>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              </>
-            )}
-          </div>
 
-          {/* Merkle Root Display */}
-          {merkleRoot && (
-            <div className="rounded-lg p-6 bg-[#1c2941]">
-              <h3 className="text-lg font-semibold mb-4 text-white">Merkle Root</h3>
-              <div className="flex items-center space-x-2 overflow-x-auto mb-4 bg-gray-700 p-3 rounded">
-                <span className="text-sm font-mono text-gray-300 break-all">{merkleRoot}</span>
-                <button
-                  onClick={() => copyToClipboard(merkleRoot)}
-                  className="text-purple-400 ml-2 flex-shrink-0"
-                  title="Copy to Clipboard"
-                >
-                  <ClipboardDocumentIcon className="h-5 w-5" />
-                </button>
-              </div>
-
-              {/* Root Status & Contract Interaction Section */}
-              {isConnected && (
-                <div className="space-y-4">
-                  {/* Root status */}
-                  <div className="p-4 bg-gray-700 rounded-lg">
-                    <h4 className="text-sm font-medium mb-2 text-gray-300">Blockchain Status</h4>
-
-                    {isCheckingContract ? (
-                      <p className="text-sm text-gray-400">Checking root status...</p>
-                    ) : merkleRootValid ? (
-                      <div className="space-y-2">
-                        <div className="flex items-center text-green-400 text-sm">
-                          <CheckCircleIcon className="h-5 w-5 mr-2" />
-                          <span>Root is registered on-chain</span>
+                          {/* Remove button */}
+                          <button
+                            onClick={handleRemoveMerkleRoot}
+                            disabled={isPageLoading || !merkleRoot || !merkleRootValid}
+                            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            {isContractLoading ? "Processing..." : "Remove Root"}
+                          </button>
                         </div>
 
-                        {treeInfo && (
-                          <div className="mt-2 text-sm text-gray-300">
-                            <p>
-                              <span className="font-medium">Description:</span> {treeInfo.description}
-                            </p>
-                            <p>
-                              <span className="font-medium">Creator:</span> {treeInfo.creator?.slice(0, 6)}...
-                              {treeInfo.creator?.slice(-4)}
+                        {/* Transaction status */}
+                        {txHash && (
+                          <div className="mt-4 p-3 bg-purple-900/20 rounded-lg text-sm border border-purple-800">
+                            <p className="text-purple-300 break-all">
+                              <span className="font-medium">Transaction Hash:</span> {txHash}
                             </p>
-                            <p>
-                              <span className="font-medium">Size:</span> {treeInfo.listSize} addresses
-                            </p>
-                            <p>
-                              <span className="font-medium">Created:</span> {formatDate(treeInfo.timestamp)}
+                            <p className="mt-1 text-purple-300">
+                              <span className="font-medium">Status:</span> {txStatus}
                             </p>
+                            {txHash && (
+                              <p className="mt-1">
+                                <a
+                                  href={`${blockExplorer}/tx/${txHash}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-purple-400 hover:text-purple-300 underline text-sm"
+                                >
+                                  View on Explorer
+                                </a>
+                              </p>
+                            )}
                           </div>
                         )}
                       </div>
-                    ) : (
-                      <div className="flex items-center text-amber-400 text-sm">
-                        <XCircleIcon className="h-5 w-5 mr-2" />
-                        <span>Root is not yet registered on-chain</span>
-                      </div>
                     )}
                   </div>
+                )}
+              </div>
+            )}
 
-                  {/* Contract interaction buttons */}
-                  <div className="flex flex-wrap gap-4">
+            {/* Proof Generation Section */}
+            {proof.length > 0 && (
+              <div className="rounded-lg p-6 bg-[#1c2941]">
+                <h3 className="text-lg font-semibold mb-4 text-white">
+                  Merkle Proof for {selectedAddress.slice(0, 6)}...{selectedAddress.slice(-4)}
+                </h3>
+                <div className="space-y-4">
+                  <div className="bg-gray-700 p-4 rounded-lg overflow-x-auto">
+                    <pre className="text-sm text-white">{JSON.stringify(proof, null, 2)}</pre>
+                  </div>
+                  <div className="flex flex-wrap gap-3">
                     <button
-                      onClick={() => {
-                        setShowContractSection(!showContractSection);
-                        if (!showContractSection) {
-                          toast.info("Expanded blockchain operations");
-                        }
-                      }}
+                      onClick={() => copyToClipboard(JSON.stringify(proof, null, 2))}
                       className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
                     >
-                      {showContractSection ? "Hide Contract Options" : "Manage on Blockchain"}
+                      Copy Proof
+                    </button>
+                    <button
+                      onClick={downloadProof}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                      Download Proof
                     </button>
                   </div>
-
-                  {/* Contract interaction section */}
-                  {showContractSection && (
-                    <div className="mt-4 p-4 border border-gray-700 rounded-lg">
-                      <h4 className="text-lg font-medium mb-4 text-gray-200">Blockchain Operations</h4>
-
-                      {/* Description input */}
-                      <div className="mb-4">
-                        <label className="block text-sm font-medium text-gray-300 mb-1">Tree Description</label>
-                        <input
-                          type="text"
-                          value={treeDescription}
-                          onChange={e => setTreeDescription(e.target.value)}
-                          placeholder="e.g., NFT Whitelist Phase 1"
-                          className="w-full p-2 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
-                          disabled={isPageLoading}
-                        />
-                      </div>
-
-                      {/* Fee info */}
-                      {platformFee && BigInt(platformFee) > 0 && (
-                        <div className="mb-4 p-3 bg-gray-700 rounded-lg text-sm">
-                          <p className="text-gray-300">
-                            <span className="font-medium">Platform Fee:</span> {formatEther(BigInt(platformFee))} ETH
-                            {isNewcomer && <span className="ml-2 text-green-400">(First tree is free!)</span>}
-                          </p>
-                        </div>
-                      )}
-
-                      {/* Action buttons */}
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                        {/* Publish button */}
-                        <button
-                          onClick={handlePublishMerkleRoot}
-                          disabled={isPageLoading || !merkleRoot || !treeDescription || merkleRootValid}
-                          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                        >
-                          {isContractLoading ? "Processing..." : "Publish Root"}
-                        </button>
-
-                        {/* Update button */}
-                        <button
-                          onClick={handleUpdateDescription}
-                          disabled={isPageLoading || !merkleRoot || !treeDescription || !merkleRootValid}
-                          className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                        >
-                          {isContractLoading ? "Processing..." : "Update Description"}
-                        </button>
-
-                        {/* Remove button */}
-                        <button
-                          onClick={handleRemoveMerkleRoot}
-                          disabled={isPageLoading || !merkleRoot || !merkleRootValid}
-                          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                        >
-                          {isContractLoading ? "Processing..." : "Remove Root"}
-                        </button>
-                      </div>
-
-                      {/* Transaction status */}
-                      {txHash && (
-                        <div className="mt-4 p-3 bg-purple-900/20 rounded-lg text-sm border border-purple-800">
-                          <p className="text-purple-300 break-all">
-                            <span className="font-medium">Transaction Hash:</span> {txHash}
-                          </p>
-                          <p className="mt-1 text-purple-300">
-                            <span className="font-medium">Status:</span> {txStatus}
-                          </p>
-                          {txHash && (
-                            <p className="mt-1">
-                              <a
-                                href={`${NETWORK_INFO.blockExplorer}/tx/${txHash}`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-purple-400 hover:text-purple-300 underline text-sm"
-                              >
-                                View on Explorer
-                              </a>
-                            </p>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  )}
                 </div>
-              )}
-            </div>
-          )}
+              </div>
+            )}
 
-          {/* Proof Generation Section */}
-          {proof.length > 0 && (
-            <div className="rounded-lg p-6 bg-[#1c2941]">
-              <h3 className="text-lg font-semibold mb-4 text-white">
-                Merkle Proof for {selectedAddress.slice(0, 6)}...{selectedAddress.slice(-4)}
-              </h3>
-              <div className="space-y-4">
-                <div className="bg-gray-700 p-4 rounded-lg overflow-x-auto">
-                  <pre className="text-sm text-white">{JSON.stringify(proof, null, 2)}</pre>
-                </div>
-                <div className="flex flex-wrap gap-3">
+            {/* Bulk Export Section */}
+            {listSize > 0 && (
+              <div className="rounded-lg p-6 bg-[#1c2941]">
+                <h3 className="text-lg font-semibold mb-2 text-white">Bulk Export</h3>
+                <p className="text-sm text-gray-400 mb-4">
+                  Export the proof of every address together with the root, leaf encoding and tree dump.
+                  {leafEncoding === "standard"
+                    ? " The tree dump uses the StandardMerkleTree.dump() format and loads with StandardMerkleTree.load()."
+                    : " Pick the OpenZeppelin StandardMerkleTree encoding for a dump that StandardMerkleTree.load() accepts."}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <button
+                    onClick={() => downloadBulkExport("json")}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    disabled={isPageLoading}
+                  >
+                    JSON (keyed by address)
+                  </button>
                   <button
-                    onClick={() => copyToClipboard(JSON.stringify(proof, null, 2))}
-                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                    onClick={() => downloadBulkExport("csv")}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    disabled={isPageLoading}
                   >
-                    Copy Proof
+                    CSV
                   </button>
                   <button
-                    onClick={downloadProof}
-                    className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                    onClick={() => downloadBulkExport("sharded")}
+                    className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+                    disabled={isPageLoading}
                   >
-                    Download Proof
+                    Sharded Directory (.zip)
                   </button>
                 </div>
+                <p className="text-xs text-gray-500 mt-3">
+                  The sharded archive holds index.json, tree.json and proofs/&lt;prefix&gt;.json, where the prefix is the
+                  first two hex characters of the lowercase address. Host it on any static site.
+                </p>
               </div>
-            </div>
-          )}
-
-          {/* Download All Data Button */}
-          {addresses.length > 0 && (
-            <div className="mt-6">
-              <button
-                onClick={downloadAllData}
-                className="w-full px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
-                disabled={isPageLoading}
-              >
-                Download All Data (Merkle Root + All Proofs)
-              </button>
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
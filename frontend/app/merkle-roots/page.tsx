@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
+import { CreatorMerkleRoot, useCreatorMerkleRoots } from "../../hooks/useCreatorMerkleRoots";
+import { getErrorMessage } from "../../utils/errors";
+import { ethers } from "ethers";
+import { toast } from "react-toastify";
+import { useAccount } from "wagmi";
+import { ArrowPathIcon, ClipboardDocumentIcon } from "@heroicons/react/24/outline";
+
+// Which registry a lifecycle action targets
+type RootRegistry = "published" | "registered";
+
+const formatDate = (timestamp: number) => (timestamp ? new Date(timestamp * 1000).toLocaleString() : "-");
+
+const StatusBadge = ({ isActive }: { isActive: boolean }) => (
+  <span
+    className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+      isActive ? "bg-green-900/40 text-green-300 border border-green-700" : "bg-gray-700 text-gray-300"
+    }`}
+  >
+    {isActive ? "Active" : "Inactive"}
+  </span>
+);
+
+const MerkleRootsPage = () => {
+  const { isConnected } = useAccount();
+  const { networkName, getContract } = useContractRegistry();
+  const { roots, isLoading, error, refresh } = useCreatorMerkleRoots();
+  const [editingRoot, setEditingRoot] = useState<string | null>(null);
+  const [editDescription, setEditDescription] = useState("");
+  // "<registry>:<root>" of the transaction currently pending, so only that card shows a spinner
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const getSignedContracts = async () => {
+    if (!window.ethereum) {
+      throw new Error("MetaMask or wallet provider not found");
+    }
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const signer = await provider.getSigner();
+    const registryContract = getContract("MerkleProofX");
+    const validatorContract = getContract("MerkleProofValidator");
+    return {
+      signer,
+      merkleProof: new ethers.Contract(registryContract.address, registryContract.abi, signer),
+      validator: new ethers.Contract(validatorContract.address, validatorContract.abi, signer),
+    };
+  };
+
+  // Send one lifecycle transaction, wait for it and reload the list
+  const runAction = async (
+    key: string,
+    label: string,
+    send: (contracts: Awaited<ReturnType<typeof getSignedContracts>>) => Promise<ethers.ContractTransactionResponse>,
+  ) => {
+    setPendingAction(key);
+    try {
+      const tx = await send(await getSignedContracts());
+      toast.info(`Transaction sent: ${tx.hash.slice(0, 10)}...`);
+
+      const receipt = await tx.wait();
+      if (receipt?.status === 1) {
+        toast.success(`${label} confirmed`);
+        await refresh();
+      } else {
+        toast.error(`${label} failed`);
+      }
+    } catch (err) {
+      console.error(`${label} error:`, err);
+      toast.error(getErrorMessage(err, `${label} failed`));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSaveDescription = (root: string) => {
+    const description = editDescription.trim();
+    if (!description) {
+      toast.error("Description cannot be empty");
+      return;
+    }
+
+    runAction(`published:${root}`, "Description update", async ({ merkleProof }) => {
+      const tx = await merkleProof.updateMerkleTreeDescription(root, description);
+      setEditingRoot(null);
+      return tx;
+    });
+  };
+
+  const handleDeactivate = (entry: CreatorMerkleRoot, registry: RootRegistry) => {
+    runAction(`${registry}:${entry.root}`, "Deactivation", ({ merkleProof, validator }) =>
+      registry === "published"
+        ? merkleProof.removeMerkleTree(entry.root)
+        : validator.setMerkleRootStatus(entry.root, false),
+    );
+  };
+
+  // MerkleProofX has no status toggle, so a removed tree is reactivated by publishing it again (fee applies)
+  const handleReactivate = (entry: CreatorMerkleRoot, registry: RootRegistry) => {
+    runAction(`${registry}:${entry.root}`, "Reactivation", async ({ signer, merkleProof, validator }) => {
+      if (registry === "registered") {
+        return validator.setMerkleRootStatus(entry.root, true);
+      }
+
+      const tree = entry.published!;
+      const isNewcomer: boolean = await merkleProof.isUserNewcomer(await signer.getAddress());
+      const fee: bigint = isNewcomer ? 0n : await merkleProof.getPlatformFee();
+      return merkleProof.addMerkleTree(entry.root, tree.description, tree.listSize, { value: fee });
+    });
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard");
+  };
+
+  const renderActions = (entry: CreatorMerkleRoot, registry: RootRegistry, isActive: boolean) => {
+    const isPending = pendingAction === `${registry}:${entry.root}`;
+    return (
+      <button
+        onClick={() => (isActive ? handleDeactivate(entry, registry) : handleReactivate(entry, registry))}
+        disabled={pendingAction !== null}
+        className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          isActive
+            ? "bg-red-900/40 hover:bg-red-900/60 text-red-300"
+            : "bg-green-900/40 hover:bg-green-900/60 text-green-300"
+        }`}
+      >
+        {isPending ? "Pending..." : isActive ? "Deactivate" : "Reactivate"}
+      </button>
+    );
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-[#121d33] text-white flex items-center justify-center">
+        <p className="text-gray-300">Connect your wallet to manage your Merkle roots.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#121d33] text-white">
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-4 text-white">My Merkle Roots</h1>
+          <p className="text-xl text-gray-300">
+            Roots you published or registered on {networkName}, with their validation activity
+          </p>
+        </div>
+
+        <div className="flex justify-between items-center mb-6">
+          <p className="text-sm text-gray-400">
+            {isLoading ? "Indexing events..." : `${roots.length} root${roots.length === 1 ? "" : "s"} found`}
+          </p>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="flex items-center gap-2 px-4 py-2 bg-[#1c2941] hover:bg-[#243552] border border-[#2a3b54] rounded-lg text-sm disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-900/20 border border-red-800 text-red-300 text-sm">{error}</div>
+        )}
+
+        {!isLoading && !error && roots.length === 0 && (
+          <div className="bg-[#1c2941] p-8 rounded-xl border border-[#2a3b54] text-center text-gray-400">
+            No Merkle roots found for this wallet. Publish one from the Proof Generator or register it on the Merkle
+            Validator.
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {roots.map(entry => (
+            <div key={entry.root} className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54]">
+              <div className="flex items-center gap-2 mb-4">
+                <code className="text-sm text-purple-300 break-all">{entry.root}</code>
+                <button onClick={() => copyToClipboard(entry.root)} className="text-gray-400 hover:text-white">
+                  <ClipboardDocumentIcon className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* MerkleProofX registry */}
+                <div className="p-4 rounded-lg bg-[#0f1a2e] border border-[#2a3b54]">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="font-semibold">Published Tree</h3>
+                    {entry.published && <StatusBadge isActive={entry.published.isActive} />}
+                  </div>
+
+                  {entry.published ? (
+                    <div className="space-y-2 text-sm text-gray-300">
+                      {editingRoot === entry.root ? (
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={editDescription}
+                            onChange={e => setEditDescription(e.target.value)}
+                            className="flex-1 px-3 py-1.5 bg-[#121d33] border border-[#2a3b54] rounded-lg text-white focus:outline-none focus:border-purple-500"
+                          />
+                          <button
+                            onClick={() => handleSaveDescription(entry.root)}
+                            disabled={pendingAction !== null}
+                            className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 rounded-lg disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingRoot(null)}
+                            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <p>
+                          <span className="font-medium">Description:</span> {entry.published.description}
+                        </p>
+                      )}
+                      <p>
+                        <span className="font-medium">List Size:</span> {entry.published.listSize}
+                      </p>
+                      <p>
+                        <span className="font-medium">Published:</span> {formatDate(entry.published.timestamp)}
+                      </p>
+                      <div className="flex gap-2 pt-2">
+                        {entry.published.isActive && editingRoot !== entry.root && (
+                          <button
+                            onClick={() => {
+                              setEditingRoot(entry.root);
+                              setEditDescription(entry.published?.description ?? "");
+                            }}
+                            disabled={pendingAction !== null}
+                            className="px-3 py-1.5 rounded-lg text-sm bg-purple-900/40 hover:bg-purple-900/60 text-purple-300 disabled:opacity-50"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {renderActions(entry, "published", entry.published.isActive)}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-400">Not published to the Merkle registry.</p>
+                  )}
+                </div>
+
+                {/* MerkleProofValidator registry */}
+                <div className="p-4 rounded-lg bg-[#0f1a2e] border border-[#2a3b54]">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="font-semibold">Validator Registration</h3>
+                    {entry.registered && <StatusBadge isActive={entry.registered.isActive} />}
+                  </div>
+
+                  {entry.registered ? (
+                    <div className="space-y-2 text-sm text-gray-300">
+                      <p>
+                        <span className="font-medium">Description:</span> {entry.registered.description}
+                      </p>
+                      <p>
+                        <span className="font-medium">Validations:</span> {entry.registered.validationCount}
+                      </p>
+                      <p>
+                        <span className="font-medium">Registered:</span> {formatDate(entry.registered.timestamp)}
+                      </p>
+                      <div className="flex gap-2 pt-2">
+                        {renderActions(entry, "registered", entry.registered.isActive)}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-400">Not registered on the Merkle Proof Validator.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MerkleRootsPage;
@@ -4,10 +4,11 @@ import { useState } from "react";
 import { ethers } from "ethers";
 import { toast } from "react-toastify";
 import { useAccount } from "wagmi";
-import { NETWORK_INFO, CONTRACT_ADDRESSES, CONTRACT_ABIS } from "../../contracts/deployedContracts";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
 
 const MerkleValidatorPage = () => {
   const { address, isConnected } = useAccount();
+  const { getContract } = useContractRegistry();
   const [merkleRoot, setMerkleRoot] = useState("");
   const [proof, setProof] = useState("");
   const [leaf, setLeaf] = useState("");
@@ -43,11 +44,8 @@ const MerkleValidatorPage = () => {
     try {
       const provider = new ethers.BrowserProvider(window.ethereum);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(
-        CONTRACT_ADDRESSES.MerkleProofValidator,
-        CONTRACT_ABIS.MerkleProofValidator,
-        signer,
-      );
+      const { address: validatorAddress, abi: validatorAbi } = getContract("MerkleProofValidator");
+      const contract = new ethers.Contract(validatorAddress, validatorAbi, signer);
 
       toast.info("Registering Merkle root...");
 
@@ -110,11 +108,8 @@ const MerkleValidatorPage = () => {
     try {
       const provider = new ethers.BrowserProvider(window.ethereum);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(
-        CONTRACT_ADDRESSES.MerkleProofValidator,
-        CONTRACT_ABIS.MerkleProofValidator,
-        signer,
-      );
+      const { address: validatorAddress, abi: validatorAbi } = getContract("MerkleProofValidator");
+      const contract = new ethers.Contract(validatorAddress, validatorAbi, signer);
 
       // Parse proof - it should be an array of bytes32
       // The proof input might be a comma-separated string or JSON array
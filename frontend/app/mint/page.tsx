@@ -0,0 +1,343 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { getErrorMessage } from "../../utils/errors";
+import { MerkleProofExport } from "../../utils/merkleExport";
+import {
+  SALE_PHASES,
+  SALE_PHASE_LABELS,
+  SaleConfigs,
+  findAllowlistProof,
+  getMintPagePath,
+  getSaleStatus,
+  readSaleConfigs,
+} from "../../utils/nftSale";
+import { CUSTOM_ERC721_ABI, SalePhase } from "../../utils/tokenAbis";
+import { ethers } from "ethers";
+import { toast } from "react-toastify";
+import { useAccount } from "wagmi";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+interface CollectionSale {
+  name: string;
+  symbol: string;
+  currentSupply: bigint;
+  maxSupply: bigint;
+  isMintable: boolean;
+  isPaused: boolean;
+  sales: SaleConfigs;
+  // Tokens the connected wallet already minted in each phase
+  minted: Record<SalePhase, bigint>;
+}
+
+const formatTime = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+
+const readCollectionSale = async (collection: ethers.Contract, account: string): Promise<CollectionSale> => {
+  const [name, symbol, currentSupply, maxSupply, isMintable, isPaused, sales] = await Promise.all([
+    collection.name(),
+    collection.symbol(),
+    collection.currentSupply(),
+    collection.getMaxSupply(),
+    collection.isMintable(),
+    collection.isPaused(),
+    readSaleConfigs(collection),
+  ]);
+  if (!sales) {
+    throw new Error("This collection was deployed before public sales were available");
+  }
+  const [allowlistMinted, publicMinted] = await Promise.all(
+    SALE_PHASES.map(phase => collection.mintedInPhase(phase, account)),
+  );
+  return {
+    name,
+    symbol,
+    currentSupply,
+    maxSupply,
+    isMintable,
+    isPaused,
+    sales,
+    minted: { [SalePhase.Allowlist]: allowlistMinted, [SalePhase.Public]: publicMinted },
+  };
+};
+
+/**
+ * Public and allowlist sale of one CustomERC721 collection, chosen with the ?collection= query parameter so the
+ * page works in the static IPFS export
+ */
+const MintSale = () => {
+  const router = useRouter();
+  const collectionAddress = useSearchParams().get("collection") ?? "";
+  const isValidCollection = ethers.isAddress(collectionAddress);
+  const { address, isConnected } = useAccount();
+
+  const [addressInput, setAddressInput] = useState(collectionAddress);
+  const [sale, setSale] = useState<CollectionSale | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [quantities, setQuantities] = useState<Record<SalePhase, string>>({
+    [SalePhase.Allowlist]: "1",
+    [SalePhase.Public]: "1",
+  });
+  const [proofExport, setProofExport] = useState<MerkleProofExport | null>(null);
+  const [pastedProof, setPastedProof] = useState("");
+  const [pendingPhase, setPendingPhase] = useState<SalePhase | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isValidCollection || !address || !window.ethereum) {
+      setSale(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const collection = new ethers.Contract(collectionAddress, CUSTOM_ERC721_ABI, provider);
+      setSale(await readCollectionSale(collection, address));
+    } catch (err) {
+      console.error(`Error loading sale of ${collectionAddress}:`, err);
+      setSale(null);
+      setError(getErrorMessage(err, "Failed to load the collection"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, collectionAddress, isValidCollection]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleProofFile = async (file: File | undefined) => {
+    if (!file) {
+      setProofExport(null);
+      return;
+    }
+    try {
+      setProofExport(JSON.parse(await file.text()));
+    } catch {
+      setProofExport(null);
+      toast.error("The proof file is not valid JSON");
+    }
+  };
+
+  // Proof from the pasted JSON array, falling back to the address's entry in the uploaded proof export
+  const getAllowlistProof = (merkleRoot: string): string[] => {
+    if (pastedProof.trim()) {
+      const proof = JSON.parse(pastedProof);
+      if (!Array.isArray(proof) || proof.some(node => !ethers.isHexString(node, 32))) {
+        throw new Error("The pasted proof must be a JSON array of 32-byte hex strings");
+      }
+      return proof;
+    }
+    if (!proofExport) {
+      throw new Error("Load the allowlist proof file or paste your proof");
+    }
+    return findAllowlistProof(proofExport, merkleRoot, address!);
+  };
+
+  const handleMint = async (phase: SalePhase) => {
+    if (!sale || !window.ethereum) return;
+
+    setPendingPhase(phase);
+    try {
+      const quantity = quantities[phase].trim();
+      if (!/^[1-9]\d*$/.test(quantity)) {
+        throw new Error("Quantity must be a whole number above 0");
+      }
+      const config = sale.sales[phase];
+      const value = config.price * BigInt(quantity);
+
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const collection = new ethers.Contract(collectionAddress, CUSTOM_ERC721_ABI, await provider.getSigner());
+      const tx =
+        phase === SalePhase.Allowlist
+          ? await collection.allowlistMint(quantity, getAllowlistProof(config.merkleRoot), { value })
+          : await collection.publicMint(quantity, { value });
+      toast.info(`Transaction sent: ${tx.hash.slice(0, 10)}...`);
+
+      const receipt = await tx.wait();
+      if (receipt?.status === 1) {
+        toast.success(`Minted ${quantity} ${sale.symbol}`);
+        await refresh();
+      } else {
+        toast.error("Mint failed");
+      }
+    } catch (err) {
+      console.error("Mint error:", err);
+      toast.error(getErrorMessage(err, "Mint failed"));
+    } finally {
+      setPendingPhase(null);
+    }
+  };
+
+  const renderPhase = (phase: SalePhase) => {
+    if (!sale) return null;
+    const config = sale.sales[phase];
+    const status = getSaleStatus(config, Math.floor(Date.now() / 1000));
+    if (status === "closed") return null;
+
+    const remaining = config.maxPerWallet === 0n ? null : config.maxPerWallet - sale.minted[phase];
+    const canMint = status === "live" && sale.isMintable && !sale.isPaused && remaining !== 0n;
+    const quantity = quantities[phase].trim();
+    const total = /^\d+$/.test(quantity) ? config.price * BigInt(quantity) : null;
+
+    return (
+      <div key={phase} className="bg-[#1c2941] p-8 rounded-xl border border-[#2a3b54] space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white">{SALE_PHASE_LABELS[phase]} Sale</h2>
+          <span className="text-sm text-gray-300 capitalize">{status}</span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-gray-400">Price</div>
+            <div className="text-white">{config.price === 0n ? "Free" : `${ethers.formatEther(config.price)} ETH`}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Per wallet</div>
+            <div className="text-white">
+              {config.maxPerWallet === 0n ? "No limit" : `${sale.minted[phase]} / ${config.maxPerWallet} minted`}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-400">Starts</div>
+            <div className="text-white">{formatTime(config.startTime)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400">Ends</div>
+            <div className="text-white">{config.endTime === 0n ? "Never" : formatTime(config.endTime)}</div>
+          </div>
+        </div>
+
+        {phase === SalePhase.Allowlist && status === "live" && (
+          <div className="space-y-3">
+            <label className="block">
+              <span className="block text-sm text-gray-300 mb-1">Allowlist proof file (JSON export)</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={e => handleProofFile(e.target.files?.[0])}
+                className="text-sm text-gray-300"
+              />
+            </label>
+            <textarea
+              value={pastedProof}
+              onChange={e => setPastedProof(e.target.value)}
+              placeholder={'Or paste your proof: ["0x...", "0x..."]'}
+              rows={2}
+              className={`${INPUT_CLASS} font-mono text-sm`}
+            />
+          </div>
+        )}
+
+        {status === "live" && (
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={quantities[phase]}
+              onChange={e => setQuantities(prev => ({ ...prev, [phase]: e.target.value }))}
+              placeholder="Quantity"
+              className={`${INPUT_CLASS} max-w-[10rem]`}
+            />
+            <button
+              onClick={() => handleMint(phase)}
+              disabled={!canMint || pendingPhase !== null}
+              className={BUTTON_CLASS}
+            >
+              {pendingPhase === phase
+                ? "Minting..."
+                : remaining === 0n
+                  ? "Wallet limit reached"
+                  : total === null
+                    ? "Mint"
+                    : `Mint for ${ethers.formatEther(total)} ETH`}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const hasOpenPhase = !!sale && SALE_PHASES.some(phase => sale.sales[phase].startTime !== 0n);
+
+  return (
+    <div className="min-h-screen bg-[#121d33] text-white">
+      <div className="max-w-4xl mx-auto px-4 py-12">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-4 text-white">{sale ? `${sale.name} (${sale.symbol})` : "NFT Mint"}</h1>
+          {sale && (
+            <p className="text-xl text-gray-300">
+              {sale.currentSupply.toString()} / {sale.maxSupply === 0n ? "unlimited" : sale.maxSupply.toString()} minted
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-8">
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              if (!ethers.isAddress(addressInput.trim())) {
+                toast.error("Enter a valid collection address");
+                return;
+              }
+              router.push(getMintPagePath(ethers.getAddress(addressInput.trim())));
+            }}
+            className="flex gap-3"
+          >
+            <input
+              type="text"
+              value={addressInput}
+              onChange={e => setAddressInput(e.target.value)}
+              placeholder="Collection address (0x...)"
+              className={`${INPUT_CLASS} font-mono`}
+            />
+            <button type="submit" className={BUTTON_CLASS}>
+              Open
+            </button>
+            {isValidCollection && (
+              <button
+                type="button"
+                onClick={refresh}
+                disabled={isLoading}
+                className="p-3 rounded-lg transition-colors bg-[#1c2941] text-gray-400 hover:bg-[#1a2332] hover:text-white disabled:opacity-50"
+                title="Refresh sale"
+              >
+                <ArrowPathIcon className={`h-5 w-5 ${isLoading ? "animate-spin" : ""}`} />
+              </button>
+            )}
+          </form>
+
+          {!isConnected && <p className="text-center text-gray-400">Connect your wallet to see the sale.</p>}
+          {error && <p className="text-center text-red-400">{error}</p>}
+
+          {sale && (sale.isPaused || !sale.isMintable) && (
+            <p className="text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-700/40 rounded-lg p-3">
+              {sale.isPaused
+                ? "The collection is paused, so minting is on hold."
+                : "Minting is disabled for this collection."}
+            </p>
+          )}
+          {sale && !hasOpenPhase && (
+            <p className="text-center text-gray-400">No sale is scheduled for this collection.</p>
+          )}
+
+          {SALE_PHASES.map(renderPhase)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MintPage = () => (
+  <Suspense>
+    <MintSale />
+  </Suspense>
+);
+
+export default MintPage;
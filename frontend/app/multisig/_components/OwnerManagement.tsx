@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MultiSigCall,
+  buildAddOwner,
+  buildChangeRequirement,
+  buildRemoveOwner,
+  buildReplaceOwner,
+} from "../../../utils/multisig";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+type OwnerChangeKind = "add" | "remove" | "replace" | "threshold";
+
+const OWNER_CHANGE_KINDS: { kind: OwnerChangeKind; label: string }[] = [
+  { kind: "add", label: "Add Owner" },
+  { kind: "remove", label: "Remove Owner" },
+  { kind: "replace", label: "Replace Owner" },
+  { kind: "threshold", label: "Change Threshold" },
+];
+
+// The contract keeps at least 2 owners
+const MIN_OWNERS = 2;
+
+/**
+ * Proposes owner and threshold changes, which the wallet only accepts as an executed proposal calling itself
+ */
+export const OwnerManagement = ({
+  wallet,
+  owners,
+  requiredSignatures,
+  isSubmitting,
+  submitLabel = "Propose Change",
+  onSubmit,
+}: {
+  wallet: string;
+  owners: string[];
+  requiredSignatures: number;
+  isSubmitting: boolean;
+  submitLabel?: string;
+  // Resolves to whether the proposal was submitted, so the form can be cleared
+  onSubmit: (call: () => Promise<MultiSigCall>) => Promise<boolean>;
+}) => {
+  const [kind, setKind] = useState<OwnerChangeKind>("add");
+  const [owner, setOwner] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const [threshold, setThreshold] = useState(String(requiredSignatures));
+
+  const canRemove = owners.length > MIN_OWNERS;
+  // Removing an owner lowers the threshold when it would exceed the remaining owners
+  const thresholdAfterRemoval = Math.min(requiredSignatures, owners.length - 1);
+
+  const buildCall = async (): Promise<MultiSigCall> => {
+    switch (kind) {
+      case "add":
+        return buildAddOwner(wallet, newOwner);
+      case "remove":
+        if (!owner) throw new Error("Select the owner to remove");
+        return buildRemoveOwner(wallet, owner);
+      case "replace":
+        if (!owner) throw new Error("Select the owner to replace");
+        return buildReplaceOwner(wallet, owner, newOwner);
+      case "threshold": {
+        const value = Number(threshold);
+        if (!Number.isInteger(value) || value < 1 || value > owners.length) {
+          throw new Error(`Threshold must be between 1 and ${owners.length}`);
+        }
+        return buildChangeRequirement(wallet, value);
+      }
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (await onSubmit(buildCall)) {
+      setOwner("");
+      setNewOwner("");
+    }
+  };
+
+  const ownerSelect = (
+    <select value={owner} onChange={e => setOwner(e.target.value)} className={`${INPUT_CLASS} font-mono text-sm`}>
+      <option value="">Select an owner</option>
+      {owners.map(address => (
+        <option key={address} value={address}>
+          {address}
+        </option>
+      ))}
+    </select>
+  );
+
+  const newOwnerInput = (
+    <input
+      type="text"
+      value={newOwner}
+      onChange={e => setNewOwner(e.target.value)}
+      placeholder="New owner address (0x...)"
+      className={INPUT_CLASS}
+    />
+  );
+
+  return (
+    <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-4">
+      <div>
+        <h2 className="text-xl font-bold text-white">Owner Management</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          Changes are proposed as a call of the wallet to itself and take effect once executed. Adding, removing or
+          replacing an owner resets the confirmations of every pending proposal.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {OWNER_CHANGE_KINDS.map(option => (
+          <button
+            key={option.kind}
+            type="button"
+            onClick={() => setKind(option.kind)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              kind === option.kind ? "bg-blue-600 text-white" : "bg-[#0f1a2e] text-gray-300 hover:text-white"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {kind === "add" && newOwnerInput}
+
+      {kind === "remove" &&
+        (canRemove ? (
+          <>
+            {ownerSelect}
+            {thresholdAfterRemoval < requiredSignatures && (
+              <p className="text-xs text-yellow-300">
+                The threshold will be lowered to {thresholdAfterRemoval} of {owners.length - 1} owners.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-yellow-300">
+            The wallet needs at least {MIN_OWNERS} owners. Replace an owner instead.
+          </p>
+        ))}
+
+      {kind === "replace" && (
+        <>
+          {ownerSelect}
+          {newOwnerInput}
+        </>
+      )}
+
+      {kind === "threshold" && (
+        <div className="flex items-center gap-3">
+          <input
+            type="number"
+            min={1}
+            max={owners.length}
+            value={threshold}
+            onChange={e => setThreshold(e.target.value)}
+            className={`${INPUT_CLASS} max-w-[8rem]`}
+          />
+          <span className="text-gray-300">of {owners.length} owners</span>
+        </div>
+      )}
+
+      <button
+        onClick={handleSubmit}
+        disabled={isSubmitting || (kind === "remove" && !canRemove)}
+        className={BUTTON_CLASS}
+      >
+        {isSubmitting ? "Submitting..." : submitLabel}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+"use client";
+
+import { MultiSigTransaction } from "../../../hooks/useMultiSig";
+import { DecodedCall } from "../../../utils/multisig";
+import { ethers } from "ethers";
+import { CheckCircleIcon } from "@heroicons/react/24/solid";
+
+const BUTTON_CLASS =
+  "px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export type ProposalAction = "confirm" | "revoke" | "execute";
+
+/**
+ * One proposal of a multisig wallet: its decoded call, every owner's confirmation and the connected owner's actions
+ */
+export const ProposalCard = ({
+  transaction,
+  decoded,
+  targetLabel,
+  changesOwners,
+  owners,
+  requiredSignatures,
+  account,
+  pendingAction,
+  onAction,
+}: {
+  transaction: MultiSigTransaction;
+  decoded: DecodedCall | null;
+  // Name of the target when it is the wallet itself or a registry contract
+  targetLabel?: string;
+  // Executing it changes the owner set, resetting the confirmations of other pending proposals
+  changesOwners: boolean;
+  owners: string[];
+  requiredSignatures: number;
+  // Connected address, when it is an owner
+  account?: string;
+  pendingAction: string | null;
+  onAction: (action: ProposalAction, transaction: MultiSigTransaction) => void;
+}) => {
+  const confirmed = new Set(transaction.confirmedBy.map(owner => owner.toLowerCase()));
+  const hasConfirmed = !!account && confirmed.has(account.toLowerCase());
+  const isReady = transaction.numConfirmations >= requiredSignatures;
+  const actionKey = (action: ProposalAction) => `${action}-${transaction.id}`;
+
+  const actionButton = (action: ProposalAction, caption: string) => (
+    <button onClick={() => onAction(action, transaction)} disabled={pendingAction !== null} className={BUTTON_CLASS}>
+      {pendingAction === actionKey(action) ? "Pending..." : caption}
+    </button>
+  );
+
+  return (
+    <div className="bg-[#0f1a2e] rounded-xl p-5 border border-[#1e2a3a] space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-white">Proposal #{transaction.id}</h3>
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+            transaction.executed
+              ? "bg-gray-700 text-gray-300"
+              : isReady
+                ? "bg-green-900/40 text-green-300 border border-green-700"
+                : "bg-yellow-900/30 text-yellow-300 border border-yellow-700/50"
+          }`}
+        >
+          {transaction.executed ? "Executed" : `${transaction.numConfirmations} of ${requiredSignatures} confirmations`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <div>
+          <div className="text-gray-400">To</div>
+          <div className="text-white font-mono break-all">
+            {transaction.to}
+            {targetLabel && <span className="ml-2 font-sans text-xs text-blue-300">({targetLabel})</span>}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-400">Value</div>
+          <div className="text-white">{ethers.formatEther(transaction.value)} ETH</div>
+        </div>
+      </div>
+
+      {transaction.data !== "0x" && (
+        <div className="text-sm">
+          <div className="text-gray-400 mb-1">Call</div>
+          {decoded ? (
+            <div className="bg-[#1c2941] rounded-lg p-3 space-y-1">
+              <div className="text-white font-mono break-all">
+                {decoded.signature} <span className="font-sans text-xs text-gray-400">via {decoded.source} ABI</span>
+              </div>
+              {decoded.args.map(arg => (
+                <div key={arg.name} className="text-xs font-mono text-gray-300 break-all">
+                  <span className="text-gray-500">
+                    {arg.type} {arg.name}:
+                  </span>{" "}
+                  {arg.value}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="bg-[#1c2941] rounded-lg p-3 text-xs font-mono text-gray-300 break-all">
+              Unknown function: {transaction.data}
+            </div>
+          )}
+        </div>
+      )}
+
+      {changesOwners && !transaction.executed && (
+        <p className="text-xs text-yellow-300 bg-yellow-900/20 border border-yellow-700/40 rounded-lg p-2">
+          Changes the owners of this wallet. Executing it resets the confirmations of every other pending proposal.
+        </p>
+      )}
+
+      <div className="text-sm">
+        <div className="text-gray-400 mb-1">Confirmations</div>
+        <ul className="space-y-1">
+          {owners.map(owner => (
+            <li key={owner} className="flex items-center gap-2 font-mono text-xs break-all">
+              <CheckCircleIcon
+                className={`h-4 w-4 flex-shrink-0 ${confirmed.has(owner.toLowerCase()) ? "text-green-400" : "text-gray-600"}`}
+              />
+              <span className={confirmed.has(owner.toLowerCase()) ? "text-white" : "text-gray-500"}>{owner}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {account && !transaction.executed && (
+        <div className="flex flex-wrap gap-3">
+          {hasConfirmed ? actionButton("revoke", "Revoke") : actionButton("confirm", "Confirm")}
+          {isReady && actionButton("execute", "Execute")}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import { getErrorMessage } from "../../../utils/errors";
+import { DecodedCall } from "../../../utils/multisig";
+import {
+  SignatureBundle,
+  getExecutableSignatures,
+  getSignatureBundleFileName,
+  isSameSignedCall,
+  mergeSignatureBundles,
+  parseSignatureBundle,
+  serializeSignatureBundle,
+  signBundle,
+} from "../../../utils/multisigBundle";
+import { ethers } from "ethers";
+import { saveAs } from "file-saver";
+import { toast } from "react-toastify";
+import { CheckCircleIcon } from "@heroicons/react/24/solid";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const SECONDARY_BUTTON_CLASS =
+  "px-4 py-2 bg-[#0f1a2e] hover:bg-[#1a2332] text-gray-300 hover:text-white text-sm font-medium rounded-lg border border-[#2a3b54] transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Gathers owner signatures of one call in a shareable JSON bundle: owners load the bundle, sign it in their
+ * wallet and pass it on, and any owner submits it once enough owners signed
+ */
+export const SignatureCollector = ({
+  wallet,
+  chainId,
+  owners,
+  requiredSignatures,
+  nonce,
+  account,
+  bundle,
+  decoded,
+  targetLabel,
+  isExecuting,
+  onBundleChange,
+  onExecute,
+}: {
+  wallet: string;
+  chainId: number;
+  owners: string[];
+  requiredSignatures: number;
+  // Current nonce of the wallet; bundles signed for another nonce can no longer execute
+  nonce: bigint;
+  // Connected address, when it is an owner
+  account?: string;
+  bundle: SignatureBundle | null;
+  decoded: DecodedCall | null;
+  targetLabel?: string;
+  isExecuting: boolean;
+  onBundleChange: (bundle: SignatureBundle | null) => void;
+  onExecute: (bundle: SignatureBundle) => void;
+}) => {
+  const [bundleInput, setBundleInput] = useState("");
+  const [isSigning, setIsSigning] = useState(false);
+
+  const loadBundle = (json: string) => {
+    try {
+      const loaded = parseSignatureBundle(json);
+      if (loaded.wallet.toLowerCase() !== wallet.toLowerCase() || loaded.chainId !== chainId) {
+        throw new Error("The bundle belongs to another wallet or network");
+      }
+      // Signatures for the call already open are merged, anything else replaces it
+      onBundleChange(bundle && isSameSignedCall(bundle, loaded) ? mergeSignatureBundles(bundle, loaded) : loaded);
+      setBundleInput("");
+      toast.success(`Loaded a bundle with ${loaded.signatures.length} signature(s)`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Could not read the bundle"));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) loadBundle(await file.text());
+  };
+
+  const handleSign = async () => {
+    if (!bundle) return;
+    setIsSigning(true);
+    try {
+      if (!window.ethereum) throw new Error("MetaMask or wallet provider not found");
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      onBundleChange(await signBundle(bundle, await provider.getSigner()));
+      toast.success("Signature added. Download the bundle and share it with the other owners.");
+    } catch (err) {
+      console.error("Signing error:", err);
+      toast.error(getErrorMessage(err, "Signing failed"));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const copyBundle = (json: string) => {
+    navigator.clipboard.writeText(json);
+    toast.success("Copied to clipboard");
+  };
+
+  const renderImport = () => (
+    <div className="space-y-3">
+      <textarea
+        value={bundleInput}
+        onChange={e => setBundleInput(e.target.value)}
+        placeholder="Paste a signature bundle (JSON)"
+        rows={3}
+        className={`${INPUT_CLASS} font-mono text-xs`}
+      />
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={() => loadBundle(bundleInput)} disabled={!bundleInput.trim()} className={BUTTON_CLASS}>
+          Load Bundle
+        </button>
+        <label className={`${SECONDARY_BUTTON_CLASS} cursor-pointer`}>
+          Open File
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+
+  if (!bundle) {
+    return (
+      <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Signature Bundle</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Create a bundle from the forms above, or load one shared by another owner to sign or submit it.
+          </p>
+        </div>
+        {renderImport()}
+      </div>
+    );
+  }
+
+  const signed = new Set(bundle.signatures.map(entry => entry.signer.toLowerCase()));
+  const signatures = getExecutableSignatures(bundle, owners);
+  const isStale = BigInt(bundle.nonce) !== nonce;
+  const isReady = signatures.length >= requiredSignatures;
+  const hasSigned = !!account && signed.has(account.toLowerCase());
+  const json = serializeSignatureBundle(bundle);
+
+  return (
+    <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Signature Bundle #{bundle.nonce}</h2>
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+            isStale
+              ? "bg-gray-700 text-gray-300"
+              : isReady
+                ? "bg-green-900/40 text-green-300 border border-green-700"
+                : "bg-yellow-900/30 text-yellow-300 border border-yellow-700/50"
+          }`}
+        >
+          {isStale ? "Outdated" : `${signatures.length} of ${requiredSignatures} signatures`}
+        </span>
+      </div>
+
+      {isStale && (
+        <p className="text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-700/40 rounded-lg p-3">
+          The bundle was signed for nonce {bundle.nonce} but the wallet is at nonce {nonce.toString()}. It was already
+          executed or another signed call went first, so it can no longer be submitted.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <div>
+          <div className="text-gray-400">To</div>
+          <div className="text-white font-mono break-all">
+            {bundle.to}
+            {targetLabel && <span className="ml-2 font-sans text-xs text-blue-300">({targetLabel})</span>}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-400">Value</div>
+          <div className="text-white">{ethers.formatEther(bundle.value)} ETH</div>
+        </div>
+      </div>
+
+      {bundle.data !== "0x" && (
+        <div className="text-sm">
+          <div className="text-gray-400 mb-1">Call</div>
+          <div className="bg-[#0f1a2e] rounded-lg p-3 space-y-1">
+            {decoded ? (
+              <>
+                <div className="text-white font-mono break-all">
+                  {decoded.signature} <span className="font-sans text-xs text-gray-400">via {decoded.source} ABI</span>
+                </div>
+                {decoded.args.map(arg => (
+                  <div key={arg.name} className="text-xs font-mono text-gray-300 break-all">
+                    <span className="text-gray-500">
+                      {arg.type} {arg.name}:
+                    </span>{" "}
+                    {arg.value}
+                  </div>
+                ))}
+              </>
+            ) : (
+              <div className="text-xs font-mono text-gray-300 break-all">Unknown function: {bundle.data}</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="text-sm">
+        <div className="text-gray-400 mb-1">Signatures</div>
+        <ul className="space-y-1">
+          {owners.map(owner => (
+            <li key={owner} className="flex items-center gap-2 font-mono text-xs break-all">
+              <CheckCircleIcon
+                className={`h-4 w-4 flex-shrink-0 ${signed.has(owner.toLowerCase()) ? "text-green-400" : "text-gray-600"}`}
+              />
+              <span className={signed.has(owner.toLowerCase()) ? "text-white" : "text-gray-500"}>{owner}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {account && !isStale && !hasSigned && (
+          <button onClick={handleSign} disabled={isSigning} className={BUTTON_CLASS}>
+            {isSigning ? "Signing..." : "Sign"}
+          </button>
+        )}
+        {account && !isStale && isReady && (
+          <button onClick={() => onExecute(bundle)} disabled={isExecuting} className={BUTTON_CLASS}>
+            {isExecuting ? "Pending..." : "Execute"}
+          </button>
+        )}
+        <button
+          onClick={() => saveAs(new Blob([json], { type: "application/json" }), getSignatureBundleFileName(bundle))}
+          className={SECONDARY_BUTTON_CLASS}
+        >
+          Download JSON
+        </button>
+        <button onClick={() => copyBundle(json)} className={SECONDARY_BUTTON_CLASS}>
+          Copy JSON
+        </button>
+        <button onClick={() => onBundleChange(null)} className={SECONDARY_BUTTON_CLASS}>
+          Discard
+        </button>
+      </div>
+
+      <div className="border-t border-[#2a3b54] pt-4">
+        <div className="text-sm text-gray-400 mb-2">Add signatures from another owner&apos;s copy of this bundle</div>
+        {renderImport()}
+      </div>
+    </div>
+  );
+};
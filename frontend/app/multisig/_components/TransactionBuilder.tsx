@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MultiSigCall,
+  buildContractCall,
+  buildErc20Transfer,
+  buildEthTransfer,
+  readErc20Decimals,
+} from "../../../utils/multisig";
+import { ethers } from "ethers";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+type BuilderKind = "eth" | "erc20" | "call";
+
+const BUILDER_KINDS: { kind: BuilderKind; label: string }[] = [
+  { kind: "eth", label: "Send ETH" },
+  { kind: "erc20", label: "Send ERC20" },
+  { kind: "call", label: "Contract Call" },
+];
+
+const EMPTY_FORM = {
+  to: "",
+  amount: "",
+  token: "",
+  signature: "",
+  args: "",
+  data: "",
+  value: "",
+};
+
+/**
+ * Builds the (to, value, data) of a new multisig proposal: an ETH transfer, an ERC20 transfer or any contract call
+ */
+export const TransactionBuilder = ({
+  isSubmitting,
+  submitLabel = "Submit Proposal",
+  onSubmit,
+}: {
+  isSubmitting: boolean;
+  submitLabel?: string;
+  // Resolves to whether the proposal was submitted, so the form can be cleared
+  onSubmit: (call: () => Promise<MultiSigCall>) => Promise<boolean>;
+}) => {
+  const [kind, setKind] = useState<BuilderKind>("eth");
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const setField = (field: keyof typeof EMPTY_FORM, value: string) => setForm(prev => ({ ...prev, [field]: value }));
+
+  const buildCall = async (): Promise<MultiSigCall> => {
+    switch (kind) {
+      case "eth":
+        return buildEthTransfer(form.to, form.amount);
+      case "erc20": {
+        const provider = new ethers.BrowserProvider(window.ethereum);
+        const decimals = await readErc20Decimals(form.token, provider);
+        return buildErc20Transfer(form.token, form.to, form.amount, decimals);
+      }
+      case "call":
+        return buildContractCall(form.to, form.signature, form.args, form.data, form.value);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (await onSubmit(buildCall)) setForm(EMPTY_FORM);
+  };
+
+  const renderInput = (field: keyof typeof EMPTY_FORM, placeholder: string, mono = false) => (
+    <input
+      type="text"
+      value={form[field]}
+      onChange={e => setField(field, e.target.value)}
+      placeholder={placeholder}
+      className={`${INPUT_CLASS} ${mono ? "font-mono text-sm" : ""}`}
+    />
+  );
+
+  return (
+    <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-4">
+      <h2 className="text-xl font-bold text-white">New Proposal</h2>
+      <div className="flex gap-2">
+        {BUILDER_KINDS.map(option => (
+          <button
+            key={option.kind}
+            type="button"
+            onClick={() => setKind(option.kind)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              kind === option.kind ? "bg-blue-600 text-white" : "bg-[#0f1a2e] text-gray-300 hover:text-white"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {kind === "eth" && (
+        <>
+          {renderInput("to", "Recipient address (0x...)")}
+          {renderInput("amount", "Amount in ETH")}
+        </>
+      )}
+
+      {kind === "erc20" && (
+        <>
+          {renderInput("token", "Token address (0x...)")}
+          {renderInput("to", "Recipient address (0x...)")}
+          {renderInput("amount", "Amount in tokens, converted with the token's decimals")}
+        </>
+      )}
+
+      {kind === "call" && (
+        <>
+          {renderInput("to", "Contract address (0x...)")}
+          {renderInput("signature", "Function signature, e.g. setGreeting(string)", true)}
+          {renderInput("args", 'Arguments as a JSON array, e.g. ["hello"]', true)}
+          {!form.signature.trim() && renderInput("data", "Or raw calldata (0x...)", true)}
+          {renderInput("value", "ETH sent with the call (optional)")}
+        </>
+      )}
+
+      <button onClick={handleSubmit} disabled={isSubmitting} className={BUTTON_CLASS}>
+        {isSubmitting ? "Submitting..." : submitLabel}
+      </button>
+    </div>
+  );
+};
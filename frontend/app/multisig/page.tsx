@@ -0,0 +1,345 @@
+"use client";
+
+import { Suspense, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
+import { MultiSigTransaction, useMultiSig } from "../../hooks/useMultiSig";
+import { getErrorMessage } from "../../utils/errors";
+import {
+  MULTISIG_ABI,
+  MultiSigCall,
+  decodeCall,
+  getKnownAbis,
+  getMultiSigPagePath,
+  isOwnerSetChange,
+} from "../../utils/multisig";
+import {
+  SignatureBundle,
+  createSignatureBundle,
+  getBundleCall,
+  getExecutableSignatures,
+} from "../../utils/multisigBundle";
+import { OwnerManagement } from "./_components/OwnerManagement";
+import { ProposalAction, ProposalCard } from "./_components/ProposalCard";
+import { SignatureCollector } from "./_components/SignatureCollector";
+import { TransactionBuilder } from "./_components/TransactionBuilder";
+import { ethers } from "ethers";
+import { toast } from "react-toastify";
+import { useAccount } from "wagmi";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ACTION_LABELS: Record<ProposalAction, string> = {
+  confirm: "Confirmation",
+  revoke: "Revocation",
+  execute: "Execution",
+};
+
+// New calls become on-chain proposals confirmed one transaction per owner, or a bundle of off-chain signatures
+type ProposalMode = "onchain" | "signatures";
+
+const PROPOSAL_MODES: { mode: ProposalMode; label: string }[] = [
+  { mode: "onchain", label: "On-chain Proposal" },
+  { mode: "signatures", label: "Collect Signatures" },
+];
+
+/**
+ * Dashboard of a BasicMultiSig wallet deployed from the contract templates, chosen with the ?address= query
+ * parameter so the page works in the static IPFS export
+ */
+const MultiSigDashboard = () => {
+  const router = useRouter();
+  const wallet = useSearchParams().get("address") ?? "";
+  const { address } = useAccount();
+  const { contracts, chainId } = useContractRegistry();
+  const { state, isLoading, error, refresh } = useMultiSig(wallet);
+
+  const [addressInput, setAddressInput] = useState(wallet);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [hideExecuted, setHideExecuted] = useState(false);
+  const [selectedMode, setSelectedMode] = useState<ProposalMode>("onchain");
+  const [bundle, setBundle] = useState<SignatureBundle | null>(null);
+
+  const knownAbis = useMemo(() => getKnownAbis(contracts), [contracts]);
+  const account = state?.owners.find(owner => owner.toLowerCase() === address?.toLowerCase());
+  // Wallets deployed before executeWithSignatures existed only take on-chain proposals
+  const supportsSignatures = state?.nonce != null;
+  const proposalMode = supportsSignatures ? selectedMode : "onchain";
+
+  const getTargetLabel = (to: string) => {
+    if (to.toLowerCase() === wallet.toLowerCase()) return "this wallet";
+    return Object.entries(contracts ?? {}).find(
+      ([, contract]) => contract!.address.toLowerCase() === to.toLowerCase(),
+    )?.[0];
+  };
+
+  // Send one wallet transaction, wait for it and reload the wallet. Resolves to whether it succeeded.
+  const runAction = async (
+    key: string,
+    label: string,
+    send: (multiSig: ethers.Contract) => Promise<ethers.ContractTransactionResponse>,
+  ): Promise<boolean> => {
+    setPendingAction(key);
+    try {
+      if (!window.ethereum) throw new Error("MetaMask or wallet provider not found");
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const tx = await send(new ethers.Contract(wallet, MULTISIG_ABI, await provider.getSigner()));
+      toast.info(`Transaction sent: ${tx.hash.slice(0, 10)}...`);
+
+      const receipt = await tx.wait();
+      if (receipt?.status === 1) {
+        toast.success(`${label} confirmed`);
+        await refresh();
+        return true;
+      }
+      toast.error(`${label} failed`);
+    } catch (err) {
+      console.error(`${label} error:`, err);
+      toast.error(getErrorMessage(err, `${label} failed`));
+    } finally {
+      setPendingAction(null);
+    }
+    return false;
+  };
+
+  const handleSubmit = (key: string, buildCall: () => Promise<MultiSigCall>) =>
+    runAction(key, "Proposal", async multiSig => {
+      const call = await buildCall();
+      return multiSig.submitTransaction(call.to, call.value, call.data);
+    });
+
+  // Starts a signature bundle for the call instead of proposing it on-chain
+  const handleCreateBundle = async (buildCall: () => Promise<MultiSigCall>) => {
+    try {
+      if (state?.nonce == null) throw new Error("This wallet does not support signature execution");
+      setBundle(createSignatureBundle(chainId, wallet, state.nonce, await buildCall()));
+      toast.success("Signature bundle created. Sign it, then share it with the other owners.");
+      return true;
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Could not create the signature bundle"));
+      return false;
+    }
+  };
+
+  const handleBuild = (key: string) => (buildCall: () => Promise<MultiSigCall>) =>
+    proposalMode === "signatures" ? handleCreateBundle(buildCall) : handleSubmit(key, buildCall);
+
+  const handleExecuteBundle = async (signed: SignatureBundle) => {
+    const executed = await runAction("execute-bundle", `Signed call #${signed.nonce}`, multiSig =>
+      multiSig.executeWithSignatures(
+        signed.to,
+        signed.value,
+        signed.data,
+        getExecutableSignatures(signed, state?.owners ?? []),
+      ),
+    );
+    if (executed) setBundle(null);
+  };
+
+  const handleAction = (action: ProposalAction, transaction: MultiSigTransaction) => {
+    const label = `${ACTION_LABELS[action]} of proposal #${transaction.id}`;
+    runAction(`${action}-${transaction.id}`, label, multiSig => {
+      switch (action) {
+        case "confirm":
+          return multiSig.confirmTransaction(transaction.id);
+        case "revoke":
+          return multiSig.revokeConfirmation(transaction.id);
+        case "execute":
+          return multiSig.executeTransaction(transaction.id);
+      }
+    });
+  };
+
+  // A bundle started for another wallet is not shown after switching wallets
+  const activeBundle = bundle?.wallet.toLowerCase() === wallet.toLowerCase() ? bundle : null;
+  const submitLabel = proposalMode === "signatures" ? "Create Signature Bundle" : undefined;
+
+  const transactions = state?.transactions.filter(transaction => !hideExecuted || !transaction.executed) ?? [];
+
+  return (
+    <div className="min-h-screen bg-[#121d33] text-white">
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-4 text-white">Multi-Sig Wallet</h1>
+          <p className="text-xl text-gray-300">Propose, confirm and execute transactions of a BasicMultiSig wallet</p>
+        </div>
+
+        <div className="space-y-8">
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              if (!ethers.isAddress(addressInput.trim())) {
+                toast.error("Enter a valid wallet address");
+                return;
+              }
+              router.push(getMultiSigPagePath(ethers.getAddress(addressInput.trim())));
+            }}
+            className="flex gap-3"
+          >
+            <input
+              type="text"
+              value={addressInput}
+              onChange={e => setAddressInput(e.target.value)}
+              placeholder="Multi-sig wallet address (0x...)"
+              className={`${INPUT_CLASS} font-mono`}
+            />
+            <button type="submit" className={BUTTON_CLASS}>
+              Open
+            </button>
+            {state && (
+              <button
+                type="button"
+                onClick={refresh}
+                disabled={isLoading}
+                className="p-3 rounded-lg transition-colors bg-[#1c2941] text-gray-400 hover:bg-[#1a2332] hover:text-white disabled:opacity-50"
+                title="Refresh wallet"
+              >
+                <ArrowPathIcon className={`h-5 w-5 ${isLoading ? "animate-spin" : ""}`} />
+              </button>
+            )}
+          </form>
+
+          {error && <p className="text-center text-red-400">{error}</p>}
+          {isLoading && !state && <p className="text-center text-gray-400">Loading wallet...</p>}
+
+          {state && (
+            <>
+              <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Balance</div>
+                  <div className="text-white">{ethers.formatEther(state.balance)} ETH</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Threshold</div>
+                  <div className="text-white">
+                    {state.requiredSignatures} of {state.owners.length} owners
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Proposals</div>
+                  <div className="text-white">{state.transactions.length}</div>
+                </div>
+                <div className="md:col-span-3">
+                  <div className="text-sm text-gray-400 mb-1">Owners</div>
+                  <ul className="space-y-1">
+                    {state.owners.map(owner => (
+                      <li key={owner} className="text-white font-mono text-sm break-all">
+                        {owner}
+                        {owner === account && <span className="ml-2 font-sans text-xs text-blue-300">(you)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+
+              {account ? (
+                <>
+                  {supportsSignatures && (
+                    <div className="flex gap-2">
+                      {PROPOSAL_MODES.map(option => (
+                        <button
+                          key={option.mode}
+                          type="button"
+                          onClick={() => setSelectedMode(option.mode)}
+                          className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            proposalMode === option.mode
+                              ? "bg-blue-600 text-white"
+                              : "bg-[#1c2941] text-gray-300 hover:text-white"
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <TransactionBuilder
+                    isSubmitting={pendingAction === "submit"}
+                    submitLabel={submitLabel}
+                    onSubmit={handleBuild("submit")}
+                  />
+                  {state.supportsOwnerManagement ? (
+                    <OwnerManagement
+                      wallet={wallet}
+                      owners={state.owners}
+                      requiredSignatures={state.requiredSignatures}
+                      isSubmitting={pendingAction === "submit-owners"}
+                      submitLabel={submitLabel}
+                      onSubmit={handleBuild("submit-owners")}
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-400 bg-[#1c2941] border border-[#2a3b54] rounded-lg p-3">
+                      This wallet was deployed before owner management existed, so its owners and threshold are fixed.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-700/40 rounded-lg p-3">
+                  Only owners can propose, confirm and execute transactions. Connect an owner wallet to act.
+                </p>
+              )}
+
+              {state.nonce !== null && (
+                <SignatureCollector
+                  wallet={wallet}
+                  chainId={chainId}
+                  owners={state.owners}
+                  requiredSignatures={state.requiredSignatures}
+                  nonce={state.nonce}
+                  account={account}
+                  bundle={activeBundle}
+                  decoded={activeBundle && decodeCall(getBundleCall(activeBundle), knownAbis)}
+                  targetLabel={activeBundle ? getTargetLabel(activeBundle.to) : undefined}
+                  isExecuting={pendingAction === "execute-bundle"}
+                  onBundleChange={setBundle}
+                  onExecute={handleExecuteBundle}
+                />
+              )}
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-bold text-white">Proposals</h2>
+                  <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={hideExecuted}
+                      onChange={e => setHideExecuted(e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                    Hide executed
+                  </label>
+                </div>
+                {transactions.length === 0 && <p className="text-gray-400">No proposals yet.</p>}
+                {transactions.map(transaction => (
+                  <ProposalCard
+                    key={transaction.id}
+                    transaction={transaction}
+                    decoded={decodeCall(transaction, knownAbis)}
+                    targetLabel={getTargetLabel(transaction.to)}
+                    changesOwners={isOwnerSetChange(transaction, wallet)}
+                    owners={state.owners}
+                    requiredSignatures={state.requiredSignatures}
+                    account={account}
+                    pendingAction={pendingAction}
+                    onAction={handleAction}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MultiSigPage = () => (
+  <Suspense>
+    <MultiSigDashboard />
+  </Suspense>
+);
+
+export default MultiSigPage;
@@ -10,8 +10,10 @@ import {
   ChartBarIcon,
   CodeBracketIcon,
   DocumentTextIcon,
+  FingerPrintIcon,
   GlobeAltIcon,
   KeyIcon,
+  RectangleStackIcon,
   ShieldCheckIcon,
   CurrencyDollarIcon,
 } from "@heroicons/react/24/outline";
@@ -53,6 +55,18 @@ const features = [
     icon: KeyIcon,
     link: "/merkle-proof-generator",
   },
+  {
+    title: "My Merkle Roots",
+    description: "Track validations and edit, deactivate or reactivate the Merkle roots you published.",
+    icon: RectangleStackIcon,
+    link: "/merkle-roots",
+  },
+  {
+    title: "Verifier Console",
+    description: "Sign, export and submit EIP-712 verifier claims and check which claimers are verified.",
+    icon: FingerPrintIcon,
+    link: "/verifier-console",
+  },
   {
     title: "Contract Debugger",
     description: "Read contract state and interact with deployed contracts.",
@@ -0,0 +1,73 @@
+"use client";
+
+import { randomSalt } from "../../../utils/create2";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+
+/**
+ * CREATE2 option of the create form: the salt to deploy with and the address the factory's predictAddress
+ * returns for it, shown before the user signs
+ */
+export const DeterministicAddress = ({
+  enabled,
+  onEnabledChange,
+  salt,
+  onSaltChange,
+  predictedAddress,
+  error,
+}: {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  salt: string;
+  onSaltChange: (salt: string) => void;
+  predictedAddress: string | null;
+  error: string | null;
+}) => (
+  <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 space-y-3">
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={e => onEnabledChange(e.target.checked)}
+        className="mt-1 w-4 h-4 text-blue-600 bg-[#0f1a2e] border-[#2a3b54] rounded focus:ring-blue-500 focus:ring-2"
+      />
+      <div>
+        <div className="text-sm text-white">Deterministic address (CREATE2)</div>
+        <div className="text-xs text-gray-400">
+          Know the contract address before signing. The address depends on your wallet, the salt and every setting
+          below.
+        </div>
+      </div>
+    </label>
+
+    {enabled && (
+      <>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={salt}
+            onChange={e => onSaltChange(e.target.value)}
+            placeholder="0x... (32 bytes)"
+            className="flex-1 px-4 py-2 bg-[#1c2941] border border-[#2a3b54] rounded-lg text-white font-mono text-xs placeholder-gray-400 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => onSaltChange(randomSalt())}
+            className="p-2 rounded-lg bg-[#1c2941] text-gray-400 hover:bg-[#1a2332] hover:text-white transition-colors"
+            title="New random salt"
+          >
+            <ArrowPathIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div>
+          <div className="text-xs text-gray-400 mb-1">Predicted address</div>
+          {error ? (
+            <div className="text-sm text-red-400">{error}</div>
+          ) : (
+            <code className="text-blue-400 font-mono text-sm break-all">{predictedAddress ?? "Calculating..."}</code>
+          )}
+        </div>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,219 @@
+"use client";
+
+import { TokenConfig } from "../../../utils/tokenAbis";
+import { ethers } from "ethers";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+
+// Baseline gas of a plain ERC20Token, measured on a local Hardhat network
+const BASE_DEPLOY_GAS = 2_690_000;
+const BASE_TRANSFER_GAS = 35_300;
+
+type FeatureToggle = "pausable" | "permit" | "votes" | "blocklist";
+
+export interface Erc20FeatureForm {
+  cap: string;
+  pausable: boolean;
+  permit: boolean;
+  votes: boolean;
+  blocklist: boolean;
+  // Percentage entered by the user, converted to basis points on submit
+  transferTaxPercent: string;
+  taxRecipient: string;
+}
+
+export const DEFAULT_ERC20_FEATURES: Erc20FeatureForm = {
+  cap: "",
+  pausable: false,
+  permit: false,
+  votes: false,
+  blocklist: false,
+  transferTaxPercent: "",
+  taxRecipient: "",
+};
+
+interface FeatureInfo {
+  label: string;
+  description: string;
+  deployGas: number;
+  transferGas: number;
+  note?: string;
+}
+
+// Extra gas each feature adds over the baseline
+const FEATURES: Record<FeatureToggle | "cap" | "transferTax", FeatureInfo> = {
+  cap: {
+    label: "Supply cap",
+    description: "Mints revert once the total supply would exceed the cap.",
+    deployGas: 3_100,
+    transferGas: 0,
+    note: "checked on mints only",
+  },
+  pausable: {
+    label: "Pausable",
+    description: "The owner can freeze all transfers, mints and burns.",
+    deployGas: 3_000,
+    transferGas: 2_100,
+  },
+  permit: {
+    label: "Permit (EIP-2612)",
+    description: "Holders approve spenders with a signature instead of a transaction.",
+    deployGas: 2_800,
+    transferGas: 0,
+  },
+  votes: {
+    label: "Votes (ERC20Votes)",
+    description: "Balances are checkpointed for delegation and on-chain governance.",
+    deployGas: 53_000,
+    transferGas: 70_000,
+    note: "when both holders have delegated",
+  },
+  blocklist: {
+    label: "Blocklist",
+    description: "The owner can stop addresses from sending or receiving.",
+    deployGas: 7_200,
+    transferGas: 4_400,
+  },
+  transferTax: {
+    label: "Transfer tax",
+    description: "A percentage of every transfer is sent to the tax recipient. Mints and burns are not taxed.",
+    deployGas: 3_100,
+    transferGas: 8_000,
+  },
+};
+
+const TOGGLES: FeatureToggle[] = ["pausable", "permit", "votes", "blocklist"];
+
+const formatGas = (gas: number) => (gas >= 1000 ? `${Math.round(gas / 100) / 10}k` : gas.toString());
+
+export const hasErc20Features = (features: Erc20FeatureForm) =>
+  !!features.cap.trim() || TOGGLES.some(toggle => features[toggle]) || !!features.transferTaxPercent.trim();
+
+// Convert the form to the on-chain struct, throwing on invalid input so the deploy handler can surface it
+export const toTokenConfig = (features: Erc20FeatureForm, decimals: number): TokenConfig => {
+  const taxPercent = features.transferTaxPercent.trim() ? Number(features.transferTaxPercent) : 0;
+  if (!Number.isFinite(taxPercent) || taxPercent < 0 || taxPercent > 10) {
+    throw new Error("Transfer tax must be between 0 and 10%");
+  }
+
+  const transferTaxBps = Math.round(taxPercent * 100);
+  if (transferTaxBps > 0 && !ethers.isAddress(features.taxRecipient.trim())) {
+    throw new Error("Enter a valid tax recipient address");
+  }
+
+  return {
+    cap: features.cap.trim() ? ethers.parseUnits(features.cap.trim(), decimals) : 0n,
+    pausable: features.pausable,
+    permit: features.permit,
+    votes: features.votes,
+    blocklist: features.blocklist,
+    transferTaxBps,
+    taxRecipient: transferTaxBps > 0 ? ethers.getAddress(features.taxRecipient.trim()) : ethers.ZeroAddress,
+  };
+};
+
+const GasImpact = ({ feature }: { feature: FeatureInfo }) => (
+  <div className="text-xs text-gray-400 text-right whitespace-nowrap">
+    <div>deploy +{formatGas(feature.deployGas)}</div>
+    <div>
+      transfer {feature.transferGas ? `+${formatGas(feature.transferGas)}` : "+0"}
+      {feature.note && <span className="block text-gray-500">{feature.note}</span>}
+    </div>
+  </div>
+);
+
+/**
+ * Optional ERC20Token features with the gas each one adds, for ERC20Factory.createConfiguredToken
+ */
+export const Erc20FeatureOptions = ({
+  value,
+  onChange,
+}: {
+  value: Erc20FeatureForm;
+  onChange: (value: Erc20FeatureForm) => void;
+}) => {
+  const update = (patch: Partial<Erc20FeatureForm>) => onChange({ ...value, ...patch });
+
+  const enabled = [
+    ...(value.cap.trim() ? [FEATURES.cap] : []),
+    ...TOGGLES.filter(toggle => value[toggle]).map(toggle => FEATURES[toggle]),
+    ...(value.transferTaxPercent.trim() && Number(value.transferTaxPercent) > 0 ? [FEATURES.transferTax] : []),
+  ];
+  const deployGas = BASE_DEPLOY_GAS + enabled.reduce((sum, feature) => sum + feature.deployGas, 0);
+  const transferGas = BASE_TRANSFER_GAS + enabled.reduce((sum, feature) => sum + feature.transferGas, 0);
+
+  return (
+    <div className="space-y-4">
+      <label className="block text-sm font-medium text-gray-300">Token Features</label>
+
+      <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 space-y-2">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="text-sm text-white">{FEATURES.cap.label}</div>
+            <div className="text-xs text-gray-400">{FEATURES.cap.description}</div>
+          </div>
+          <GasImpact feature={FEATURES.cap} />
+        </div>
+        <input
+          type="text"
+          value={value.cap}
+          onChange={e => update({ cap: e.target.value })}
+          placeholder="Maximum supply in whole tokens (empty for uncapped)"
+          className={INPUT_CLASS}
+        />
+      </div>
+
+      {TOGGLES.map(toggle => (
+        <label
+          key={toggle}
+          className="flex items-start justify-between gap-4 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 cursor-pointer"
+        >
+          <div className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={value[toggle]}
+              onChange={e => update({ [toggle]: e.target.checked })}
+              className="mt-1 w-4 h-4 text-blue-600 bg-[#0f1a2e] border-[#2a3b54] rounded focus:ring-blue-500 focus:ring-2"
+            />
+            <div>
+              <div className="text-sm text-white">{FEATURES[toggle].label}</div>
+              <div className="text-xs text-gray-400">{FEATURES[toggle].description}</div>
+            </div>
+          </div>
+          <GasImpact feature={FEATURES[toggle]} />
+        </label>
+      ))}
+
+      <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 space-y-2">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="text-sm text-white">{FEATURES.transferTax.label}</div>
+            <div className="text-xs text-gray-400">{FEATURES.transferTax.description}</div>
+          </div>
+          <GasImpact feature={FEATURES.transferTax} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={value.transferTaxPercent}
+            onChange={e => update({ transferTaxPercent: e.target.value })}
+            placeholder="Tax % (max 10)"
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={value.taxRecipient}
+            onChange={e => update({ taxRecipient: e.target.value })}
+            placeholder="Tax recipient address (0x...)"
+            className={`${INPUT_CLASS} md:col-span-2`}
+          />
+        </div>
+      </div>
+
+      <div className="text-sm text-gray-300 bg-blue-900/20 border border-blue-500/30 rounded-lg p-3">
+        Estimated gas: ~{formatGas(deployGas)} to deploy, ~{formatGas(transferGas)} per transfer
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+"use client";
+
+type TokenType = "erc20" | "erc721" | "erc1155";
+
+// Deployment gas of each factory's full and clone create function, measured on a local Hardhat network.
+// Clones pay extra on every call for the delegatecall to the implementation (~7k per ERC20 transfer).
+const DEPLOY_GAS: Record<TokenType, { full: string; clone: string }> = {
+  erc20: { full: "2.7M", clone: "0.3M" },
+  erc721: { full: "3.0M", clone: "0.5M" },
+  erc1155: { full: "2.3M", clone: "0.4M" },
+};
+
+/**
+ * Clone option of the create form: deploy the token as an EIP-1167 minimal proxy of the factory's
+ * implementation contract instead of a full copy of its bytecode
+ */
+export const LightweightClone = ({
+  tokenType,
+  enabled,
+  onEnabledChange,
+}: {
+  tokenType: TokenType;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+}) => (
+  <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4">
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={enabled}
+        onChange={e => onEnabledChange(e.target.checked)}
+        className="mt-1 w-4 h-4 text-blue-600 bg-[#0f1a2e] border-[#2a3b54] rounded focus:ring-blue-500 focus:ring-2"
+      />
+      <div>
+        <div className="text-sm text-white">Lightweight clone (EIP-1167)</div>
+        <div className="text-xs text-gray-400">
+          Deploy a minimal proxy of the factory&apos;s implementation for ~{DEPLOY_GAS[tokenType].clone} gas instead of
+          ~{DEPLOY_GAS[tokenType].full}. Every later call costs slightly more, and the address cannot be chosen in
+          advance.
+        </div>
+      </div>
+    </label>
+  </div>
+);
@@ -0,0 +1,244 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { DEFAULT_IPFS_API_URL, pinDirectory } from "../../../utils/ipfs";
+import {
+  MetadataStandard,
+  buildMetadataFiles,
+  findMissingImages,
+  getCollectionUri,
+  getTokenUri,
+  parseTraitsCsv,
+} from "../../../utils/nftMetadata";
+import { toast } from "react-toastify";
+import { useLocalStorage } from "usehooks-ts";
+
+const INPUT_CLASS =
+  "w-full px-4 py-2 bg-[#1c2941] border border-[#2a3b54] rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:border-blue-500";
+const BUTTON_CLASS =
+  "px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Not in React's input typings; lets the picker select a whole folder
+const FOLDER_PICKER = { webkitdirectory: "", directory: "" } as Record<string, string>;
+
+export interface PinnedCollection {
+  imagesCid: string;
+  metadataCid: string;
+  // Value for createCollection/setBaseURI (ERC721) or createMultiToken/setURI (ERC1155)
+  collectionUri: string;
+  tokens: { tokenId: bigint; uri: string; recipient?: string }[];
+}
+
+type PinStage = "idle" | "images" | "metadata";
+
+/**
+ * Builds OpenSea metadata from an image folder and a traits CSV, pins images and metadata to an IPFS node,
+ * then hands the resulting URIs to the caller
+ */
+export const MetadataStudio = ({
+  standard,
+  collectionName,
+  firstTokenId = 1n,
+  onPinned,
+}: {
+  standard: MetadataStandard;
+  collectionName: string;
+  firstTokenId?: bigint;
+  onPinned: (collection: PinnedCollection) => void;
+}) => {
+  const [apiUrl, setApiUrl] = useLocalStorage("ipfsApiUrl", DEFAULT_IPFS_API_URL);
+  const [images, setImages] = useState<File[]>([]);
+  const [csv, setCsv] = useState<{ name: string; text: string } | null>(null);
+  const [description, setDescription] = useState("");
+  const [stage, setStage] = useState<PinStage>("idle");
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [pinned, setPinned] = useState<PinnedCollection | null>(null);
+
+  const { rows, error } = useMemo(() => {
+    if (!csv) return { rows: [], error: null };
+    try {
+      const parsed = parseTraitsCsv(csv.text, firstTokenId);
+      const missing = findMissingImages(
+        parsed,
+        images.map(image => image.name),
+      );
+      if (images.length > 0 && missing.length > 0) {
+        return {
+          rows: parsed,
+          error: `Missing images: ${missing.slice(0, 5).join(", ")}${missing.length > 5 ? "…" : ""}`,
+        };
+      }
+      return { rows: parsed, error: null };
+    } catch (err: any) {
+      return { rows: [], error: err.message as string };
+    }
+  }, [csv, images, firstTokenId]);
+
+  const preview = useMemo(
+    () =>
+      rows.length > 0
+        ? buildMetadataFiles(rows.slice(0, 1), standard, "<images-cid>", { collectionName, description })[0]
+        : null,
+    [rows, standard, collectionName, description],
+  );
+
+  // Only the images the CSV uses are pinned, so stray files in the folder are not published
+  const usedImages = useMemo(() => {
+    const used = new Set(rows.map(row => row.file));
+    return images.filter(image => used.has(image.name));
+  }, [rows, images]);
+  const totalBytes = usedImages.reduce((sum, image) => sum + image.size, 0);
+  const canPin = rows.length > 0 && images.length > 0 && !error && stage === "idle";
+
+  const handleCsv = async (file: File | undefined) => {
+    setPinned(null);
+    setCsv(file ? { name: file.name, text: await file.text() } : null);
+  };
+
+  const handlePin = async () => {
+    setPinned(null);
+    setUploadedBytes(0);
+    try {
+      setStage("images");
+      const imagesCid = await pinDirectory(
+        apiUrl,
+        usedImages.map(image => ({ path: image.name, content: image })),
+        setUploadedBytes,
+      );
+
+      setStage("metadata");
+      const files = buildMetadataFiles(rows, standard, imagesCid, { collectionName, description });
+      const metadataCid = await pinDirectory(
+        apiUrl,
+        files.map(file => ({ path: file.path, content: JSON.stringify(file.metadata, null, 2) })),
+      );
+
+      const collection: PinnedCollection = {
+        imagesCid,
+        metadataCid,
+        collectionUri: getCollectionUri(standard, metadataCid),
+        tokens: files.map(file => ({
+          tokenId: file.tokenId,
+          uri: getTokenUri(metadataCid, file),
+          recipient: file.recipient,
+        })),
+      };
+      setPinned(collection);
+      onPinned(collection);
+      toast.success(`Pinned ${files.length} tokens to IPFS`);
+    } catch (err: any) {
+      console.error("IPFS pinning error:", err);
+      toast.error(
+        err?.message?.includes("Failed to fetch")
+          ? `Could not reach the IPFS node at ${apiUrl}. Is it running, with this site allowed by its CORS settings?`
+          : err?.message || "Pinning failed",
+      );
+    } finally {
+      setStage("idle");
+    }
+  };
+
+  return (
+    <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 space-y-4">
+      <div>
+        <div className="text-sm text-white">Metadata Studio</div>
+        <div className="text-xs text-gray-400">
+          Pick an image folder and a traits CSV with a <code>file</code> column naming each token&apos;s image. Optional
+          columns: <code>token_id</code>, <code>name</code>, <code>description</code>, <code>external_url</code>
+          {standard === "ERC721" && (
+            <>
+              , <code>recipient</code>
+            </>
+          )}
+          . Every other column becomes a trait.
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Image folder</span>
+          <input
+            type="file"
+            multiple
+            {...FOLDER_PICKER}
+            onChange={e => {
+              setPinned(null);
+              setImages(Array.from(e.target.files ?? []).filter(file => file.type.startsWith("image/")));
+            }}
+            className="text-sm text-gray-300"
+          />
+          {images.length > 0 && (
+            <span className="block text-xs text-gray-500 mt-1">
+              {images.length} images{rows.length > 0 && `, ${(totalBytes / 1024 / 1024).toFixed(1)} MB used by the CSV`}
+            </span>
+          )}
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Traits CSV</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={e => handleCsv(e.target.files?.[0])}
+            className="text-sm text-gray-300"
+          />
+          {csv && rows.length > 0 && (
+            <span className="block text-xs text-gray-500 mt-1">
+              {csv.name}: {rows.length} tokens
+            </span>
+          )}
+        </label>
+      </div>
+
+      <input
+        type="text"
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        placeholder="Description for tokens without their own (optional)"
+        className={INPUT_CLASS}
+      />
+
+      <label className="block">
+        <span className="block text-xs text-gray-400 mb-1">IPFS RPC endpoint (Kubo)</span>
+        <input
+          type="text"
+          value={apiUrl}
+          onChange={e => setApiUrl(e.target.value)}
+          className={`${INPUT_CLASS} font-mono`}
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {preview && (
+        <div>
+          <div className="text-xs text-gray-400 mb-1">
+            Preview of {preview.path} (token {preview.tokenId.toString()})
+          </div>
+          <pre className="bg-[#1c2941] rounded-lg p-3 text-xs text-gray-300 overflow-x-auto max-h-48">
+            {JSON.stringify(preview.metadata, null, 2)}
+          </pre>
+        </div>
+      )}
+
+      <button type="button" onClick={handlePin} disabled={!canPin} className={BUTTON_CLASS}>
+        {stage === "images"
+          ? `Pinning images... ${totalBytes ? Math.min(100, Math.round((uploadedBytes / totalBytes) * 100)) : 0}%`
+          : stage === "metadata"
+            ? "Pinning metadata..."
+            : "Pin to IPFS"}
+      </button>
+
+      {pinned && (
+        <div className="text-xs space-y-1">
+          <div className="text-gray-400">
+            Images: <code className="text-blue-400 break-all">ipfs://{pinned.imagesCid}</code>
+          </div>
+          <div className="text-gray-400">
+            {standard === "ERC721" ? "Base URI" : "Metadata URI"}:{" "}
+            <code className="text-blue-400 break-all">{pinned.collectionUri}</code>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+"use client";
+
+import { RoyaltyConfig } from "../../../utils/tokenAbis";
+import { ethers } from "ethers";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+
+// Marketplaces rarely honour more than this, and a typo could otherwise take the whole sale price
+const MAX_ROYALTY_PERCENT = 50;
+
+export interface RoyaltyForm {
+  // Percentage entered by the user, converted to basis points on submit
+  percent: string;
+  receiver: string;
+  // One "tokenId,receiver,percent" override per line
+  tokenRoyalties: string;
+}
+
+export const DEFAULT_ROYALTIES: RoyaltyForm = { percent: "", receiver: "", tokenRoyalties: "" };
+
+export const NO_ROYALTIES: RoyaltyConfig = { receiver: ethers.ZeroAddress, feeNumerator: 0, tokenRoyalties: [] };
+
+export const hasRoyalties = (royalties: RoyaltyForm) => !!royalties.percent.trim() || !!royalties.tokenRoyalties.trim();
+
+const toBasisPoints = (percent: string, label: string) => {
+  const value = Number(percent.trim());
+  if (!percent.trim() || !Number.isFinite(value) || value < 0 || value > MAX_ROYALTY_PERCENT) {
+    throw new Error(`${label} must be between 0 and ${MAX_ROYALTY_PERCENT}%`);
+  }
+  return Math.round(value * 100);
+};
+
+const toReceiver = (receiver: string, fallback: string, label: string) => {
+  const value = receiver.trim() || fallback;
+  if (!ethers.isAddress(value)) {
+    throw new Error(`${label} is not a valid address`);
+  }
+  return ethers.getAddress(value);
+};
+
+// Convert the form to the on-chain struct, throwing on invalid input so the deploy handler can surface it.
+// Receivers left empty default to the creator.
+export const toRoyaltyConfig = (royalties: RoyaltyForm, creator: string): RoyaltyConfig => {
+  const hasDefault = !!royalties.percent.trim();
+
+  const tokenRoyalties = royalties.tokenRoyalties
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const [tokenId, receiver = "", percent = ""] = line.split(",").map(part => part.trim());
+      if (!/^\d+$/.test(tokenId)) {
+        throw new Error(`Royalty line ${index + 1}: token ID must be a whole number`);
+      }
+      return {
+        tokenId: BigInt(tokenId),
+        receiver: toReceiver(receiver, creator, `Royalty receiver on line ${index + 1}`),
+        feeNumerator: toBasisPoints(percent, `Royalty on line ${index + 1}`),
+      };
+    });
+
+  return {
+    receiver: hasDefault ? toReceiver(royalties.receiver, creator, "Royalty receiver") : ethers.ZeroAddress,
+    feeNumerator: hasDefault ? toBasisPoints(royalties.percent, "Royalty") : 0,
+    tokenRoyalties,
+  };
+};
+
+/**
+ * ERC-2981 royalties of an ERC721 or ERC1155 contract, for the NFT factories' royalty-aware create functions
+ */
+export const RoyaltyOptions = ({ value, onChange }: { value: RoyaltyForm; onChange: (value: RoyaltyForm) => void }) => {
+  const update = (patch: Partial<RoyaltyForm>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 space-y-3">
+      <div>
+        <div className="text-sm text-white">Royalties (ERC-2981)</div>
+        <div className="text-xs text-gray-400">
+          Share of each resale that marketplaces honouring ERC-2981 pay out. The owner can change royalties after
+          deployment.
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          type="text"
+          value={value.percent}
+          onChange={e => update({ percent: e.target.value })}
+          placeholder={`Royalty % (max ${MAX_ROYALTY_PERCENT})`}
+          className={INPUT_CLASS}
+        />
+        <input
+          type="text"
+          value={value.receiver}
+          onChange={e => update({ receiver: e.target.value })}
+          placeholder="Receiver (defaults to you)"
+          className={`${INPUT_CLASS} md:col-span-2`}
+        />
+      </div>
+      <textarea
+        value={value.tokenRoyalties}
+        onChange={e => update({ tokenRoyalties: e.target.value })}
+        placeholder={"Per-token overrides, one per line as: tokenId,receiver,percent\n1,0x...,10"}
+        rows={3}
+        className={`${INPUT_CLASS} font-mono text-sm`}
+      />
+    </div>
+  );
+};
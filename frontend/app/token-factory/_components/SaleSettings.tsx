@@ -0,0 +1,141 @@
+"use client";
+
+import { SaleStatus, fromDateTimeInput, getSaleStatus, toDateTimeInput } from "../../../utils/nftSale";
+import { SaleConfig, SalePhase } from "../../../utils/tokenAbis";
+import { ethers } from "ethers";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+
+const STATUS_CLASSES: Record<SaleStatus, string> = {
+  closed: "bg-gray-700 text-gray-400",
+  upcoming: "bg-blue-900/40 text-blue-300 border border-blue-700",
+  live: "bg-green-900/40 text-green-300 border border-green-700",
+  ended: "bg-gray-700 text-gray-400",
+};
+
+export interface SaleForm {
+  // Price per token in ETH
+  price: string;
+  maxPerWallet: string;
+  // datetime-local values in the browser's time zone
+  start: string;
+  end: string;
+  merkleRoot: string;
+}
+
+export const toSaleForm = (config: SaleConfig): SaleForm => ({
+  price: config.startTime === 0n && config.price === 0n ? "" : ethers.formatEther(config.price),
+  maxPerWallet: config.maxPerWallet === 0n ? "" : config.maxPerWallet.toString(),
+  start: toDateTimeInput(config.startTime),
+  end: toDateTimeInput(config.endTime),
+  merkleRoot: config.merkleRoot === ethers.ZeroHash ? "" : config.merkleRoot,
+});
+
+// Convert the form to the on-chain struct, throwing on invalid input so the owner console can surface it.
+// An empty start time opens the phase immediately.
+export const toSaleConfig = (form: SaleForm, phase: SalePhase): SaleConfig => {
+  if (form.maxPerWallet.trim() && !/^\d+$/.test(form.maxPerWallet.trim())) {
+    throw new Error("Wallet limit must be a whole number");
+  }
+  const merkleRoot = form.merkleRoot.trim() || ethers.ZeroHash;
+  if (!ethers.isHexString(merkleRoot, 32)) {
+    throw new Error("Merkle root must be 0x followed by 64 hex characters");
+  }
+  if (phase === SalePhase.Allowlist && merkleRoot === ethers.ZeroHash) {
+    throw new Error("The allowlist phase needs a Merkle root");
+  }
+
+  const startTime = fromDateTimeInput(form.start) || BigInt(Math.floor(Date.now() / 1000));
+  const endTime = fromDateTimeInput(form.end);
+  if (endTime !== 0n && endTime <= startTime) {
+    throw new Error("End time must be after start time");
+  }
+
+  return {
+    price: ethers.parseEther(form.price.trim() || "0"),
+    maxPerWallet: form.maxPerWallet.trim() ? BigInt(form.maxPerWallet.trim()) : 0n,
+    startTime,
+    endTime,
+    merkleRoot,
+  };
+};
+
+/**
+ * Price, wallet limit, schedule and (for the allowlist phase) Merkle root of one CustomERC721 sale phase
+ */
+export const SaleSettings = ({
+  phase,
+  config,
+  value,
+  onChange,
+}: {
+  phase: SalePhase;
+  // Configuration currently on chain
+  config: SaleConfig;
+  value: SaleForm;
+  onChange: (value: SaleForm) => void;
+}) => {
+  const update = (patch: Partial<SaleForm>) => onChange({ ...value, ...patch });
+  const status = getSaleStatus(config, Math.floor(Date.now() / 1000));
+
+  return (
+    <div className="bg-[#0f1a2e] border border-[#2a3b54] rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-white">{phase === SalePhase.Allowlist ? "Allowlist Sale" : "Public Sale"}</div>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_CLASSES[status]}`}>
+          {status}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={value.price}
+          onChange={e => update({ price: e.target.value })}
+          placeholder="Price per token in ETH (empty for free)"
+          className={INPUT_CLASS}
+        />
+        <input
+          type="text"
+          value={value.maxPerWallet}
+          onChange={e => update({ maxPerWallet: e.target.value })}
+          placeholder="Per-wallet limit (empty for none)"
+          className={INPUT_CLASS}
+        />
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Start (empty for now)</span>
+          <input
+            type="datetime-local"
+            value={value.start}
+            onChange={e => update({ start: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">End (empty for no end)</span>
+          <input
+            type="datetime-local"
+            value={value.end}
+            onChange={e => update({ end: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+      {phase === SalePhase.Allowlist && (
+        <div>
+          <input
+            type="text"
+            value={value.merkleRoot}
+            onChange={e => update({ merkleRoot: e.target.value })}
+            placeholder="Allowlist Merkle root (0x...)"
+            className={`${INPUT_CLASS} font-mono text-sm`}
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Build the allowlist on the Merkle Proof Generator with the &quot;Packed address&quot; leaf encoding and
+            share its JSON proof export with buyers.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
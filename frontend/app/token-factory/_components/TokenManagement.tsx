@@ -0,0 +1,724 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { MANAGED_TOKEN_ABIS, ManagedTokenType, useManagedToken } from "../../../hooks/useManagedToken";
+import { getErrorMessage } from "../../../utils/errors";
+import { SALE_PHASES, SALE_PHASE_LABELS, getMintPagePath } from "../../../utils/nftSale";
+import { SaleConfig, SalePhase } from "../../../utils/tokenAbis";
+import { MetadataStudio } from "./MetadataStudio";
+import { SaleForm, SaleSettings, toSaleConfig, toSaleForm } from "./SaleSettings";
+import { ethers } from "ethers";
+import { toast } from "react-toastify";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const EMPTY_FORM = {
+  mintTo: "",
+  mintAmount: "",
+  burnAmount: "",
+  newOwner: "",
+  mintUri: "",
+  batchMint: "",
+  baseUri: "",
+  tokenId: "",
+  mintBatch: "",
+  newUri: "",
+  supplyIds: "",
+  blockAddress: "",
+  royaltyTokenId: "",
+  royaltyReceiver: "",
+  royaltyPercent: "",
+  withdrawTo: "",
+};
+
+type FormField = keyof typeof EMPTY_FORM;
+
+const requireAddress = (value: string, label: string) => {
+  if (!ethers.isAddress(value.trim())) {
+    throw new Error(`${label} is not a valid address`);
+  }
+  return ethers.getAddress(value.trim());
+};
+
+const requireInteger = (value: string, label: string) => {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`${label} must be a whole number`);
+  }
+  return BigInt(value.trim());
+};
+
+// ERC-2981 royalties are fractions of 10,000
+const requireRoyaltyBps = (percent: string) => {
+  const value = Number(percent.trim());
+  if (!percent.trim() || !Number.isFinite(value) || value < 0 || value > 100) {
+    throw new Error("Royalty must be between 0 and 100%");
+  }
+  return Math.round(value * 100);
+};
+
+// Split "first,second" lines of a batch textarea, skipping blank lines
+const parseBatchLines = (text: string) =>
+  text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const separator = line.indexOf(",");
+      if (separator === -1) {
+        throw new Error(`Line ${index + 1} must have two comma-separated values`);
+      }
+      return { line: index + 1, first: line.slice(0, separator).trim(), second: line.slice(separator + 1).trim() };
+    });
+
+const ActionCard = ({ title, description, children }: { title: string; description?: string; children: any }) => (
+  <div className="bg-[#0f1a2e] rounded-xl p-6 border border-[#1e2a3a] space-y-3">
+    <div>
+      <h4 className="font-semibold text-white">{title}</h4>
+      {description && <p className="text-xs text-gray-400 mt-1">{description}</p>}
+    </div>
+    {children}
+  </div>
+);
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <div className="text-sm text-gray-400 mb-1">{label}</div>
+    <div className="text-white font-mono text-sm break-all">{value}</div>
+  </div>
+);
+
+const FlagBadge = ({ label, enabled }: { label: string; enabled: boolean }) => (
+  <span
+    className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+      enabled ? "bg-green-900/40 text-green-300 border border-green-700" : "bg-gray-700 text-gray-400"
+    }`}
+  >
+    {label}
+  </span>
+);
+
+/**
+ * Owner console for a token deployed through the factories. Actions are only offered when the token's
+ * isMintable/isPausable flags or ERC20 TokenConfig allow them; ERC20 mint and burn are always available.
+ */
+export const TokenManagement = ({ tokenAddress, type }: { tokenAddress: string; type: ManagedTokenType }) => {
+  const { state, isOwner, isLoading, error, refresh, getSignedToken } = useManagedToken(tokenAddress, type);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [supplies, setSupplies] = useState<{ id: string; supply: bigint }[]>([]);
+  const [royalty, setRoyalty] = useState<{ tokenId: string; receiver: string; bps: bigint } | null>(null);
+  // Unsaved sale edits; phases without edits show the on-chain configuration
+  const [saleForms, setSaleForms] = useState<Partial<Record<SalePhase, SaleForm>>>({});
+
+  const setField = (field: FormField, value: string) => setForm(prev => ({ ...prev, [field]: value }));
+
+  // Send one management transaction, wait for it, then clear the action's inputs and reload the token.
+  // Resolves to whether the transaction succeeded.
+  const runAction = async (
+    label: string,
+    fields: FormField[],
+    send: (token: ethers.Contract) => Promise<ethers.ContractTransactionResponse>,
+  ): Promise<boolean> => {
+    setPendingAction(label);
+    try {
+      const tx = await send(await getSignedToken());
+      toast.info(`Transaction sent: ${tx.hash.slice(0, 10)}...`);
+
+      const receipt = await tx.wait();
+      if (receipt?.status === 1) {
+        toast.success(`${label} confirmed`);
+        setForm(prev => ({ ...prev, ...Object.fromEntries(fields.map(field => [field, ""])) }));
+        await refresh();
+        return true;
+      }
+      toast.error(`${label} failed`);
+    } catch (err) {
+      console.error(`${label} error:`, err);
+      toast.error(getErrorMessage(err, `${label} failed`));
+    } finally {
+      setPendingAction(null);
+    }
+    return false;
+  };
+
+  const handleSupplyLookup = async () => {
+    try {
+      const ids = form.supplyIds
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(id => requireInteger(id, `Token ID "${id}"`));
+      if (ids.length === 0) {
+        throw new Error("Enter at least one token ID");
+      }
+
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const token = new ethers.Contract(tokenAddress, MANAGED_TOKEN_ABIS.ERC1155, provider);
+      const totals: bigint[] = await Promise.all(ids.map(id => token.getTotalSupply(id)));
+      setSupplies(ids.map((id, index) => ({ id: id.toString(), supply: totals[index] })));
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Supply lookup failed"));
+    }
+  };
+
+  const handleRoyaltyLookup = async () => {
+    try {
+      const tokenId = requireInteger(form.royaltyTokenId, "Token ID");
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const token = new ethers.Contract(tokenAddress, MANAGED_TOKEN_ABIS[type], provider);
+      const [receiver, bps]: [string, bigint] = await token.royaltyInfo(tokenId, 10_000);
+      setRoyalty({ tokenId: tokenId.toString(), receiver, bps });
+    } catch (err) {
+      toast.error(getErrorMessage(err, "Royalty lookup failed"));
+    }
+  };
+
+  const actionButton = (label: string, onClick: () => void, caption = label) => (
+    <button onClick={onClick} disabled={pendingAction !== null} className={BUTTON_CLASS}>
+      {pendingAction === label ? "Pending..." : caption}
+    </button>
+  );
+
+  const renderInput = (field: FormField, placeholder: string) => (
+    <input
+      type="text"
+      value={form[field]}
+      onChange={e => setField(field, e.target.value)}
+      placeholder={placeholder}
+      className={INPUT_CLASS}
+    />
+  );
+
+  const renderTextarea = (field: FormField, placeholder: string) => (
+    <textarea
+      value={form[field]}
+      onChange={e => setField(field, e.target.value)}
+      placeholder={placeholder}
+      rows={4}
+      className={`${INPUT_CLASS} font-mono text-sm`}
+    />
+  );
+
+  const renderErc20 = () => {
+    if (state?.type !== "ERC20") return null;
+    const { decimals } = state;
+
+    return (
+      <>
+        {isOwner && (
+          <ActionCard title="Mint" description="Create new tokens and send them to any address.">
+            {renderInput("mintTo", "Recipient address (0x...)")}
+            {renderInput("mintAmount", `Amount (${decimals} decimals)`)}
+            {actionButton("Mint", () =>
+              runAction("Mint", ["mintTo", "mintAmount"], token =>
+                token.mint(
+                  requireAddress(form.mintTo, "Recipient"),
+                  ethers.parseUnits(form.mintAmount.trim(), decimals),
+                ),
+              ),
+            )}
+          </ActionCard>
+        )}
+
+        <ActionCard title="Burn" description="Destroy tokens from your own balance.">
+          {renderInput("burnAmount", `Amount, up to ${ethers.formatUnits(state.balance, decimals)}`)}
+          {actionButton("Burn", () =>
+            runAction("Burn", ["burnAmount"], token => token.burn(ethers.parseUnits(form.burnAmount.trim(), decimals))),
+          )}
+        </ActionCard>
+
+        {isOwner && state.config?.pausable && (
+          <ActionCard
+            title={state.isPaused ? "Unpause" : "Pause"}
+            description={
+              state.isPaused
+                ? "Transfers, mints and burns are currently blocked."
+                : "Freeze all transfers, mints and burns."
+            }
+          >
+            {state.isPaused
+              ? actionButton("Unpause", () => runAction("Unpause", [], token => token.unpause()))
+              : actionButton("Pause", () => runAction("Pause", [], token => token.pause()))}
+          </ActionCard>
+        )}
+
+        {isOwner && state.config?.blocklist && (
+          <ActionCard title="Blocklist" description="Blocked addresses can neither send nor receive the token.">
+            {renderInput("blockAddress", "Address (0x...)")}
+            <div className="flex gap-3">
+              {actionButton("Block", () =>
+                runAction("Block", ["blockAddress"], token =>
+                  token.setBlocked(requireAddress(form.blockAddress, "Address"), true),
+                ),
+              )}
+              {actionButton("Unblock", () =>
+                runAction("Unblock", ["blockAddress"], token =>
+                  token.setBlocked(requireAddress(form.blockAddress, "Address"), false),
+                ),
+              )}
+            </div>
+          </ActionCard>
+        )}
+
+        {isOwner && (
+          <ActionCard
+            title="Transfer Ownership"
+            description="The new owner becomes the only account able to mint. This cannot be undone from this wallet."
+          >
+            {renderInput("newOwner", "New owner address (0x...)")}
+            {actionButton(
+              "Ownership transfer",
+              () => {
+                if (!window.confirm("Transfer ownership of this token? You will no longer be able to mint.")) return;
+                runAction("Ownership transfer", ["newOwner"], token =>
+                  token.transferOwnership(requireAddress(form.newOwner, "New owner")),
+                );
+              },
+              "Transfer Ownership",
+            )}
+          </ActionCard>
+        )}
+      </>
+    );
+  };
+
+  const renderRoyalties = () => {
+    if (state?.type === "ERC20" || !state?.supportsRoyalties) return null;
+
+    return (
+      <ActionCard
+        title="Royalties (ERC-2981)"
+        description="Share of each resale paid by marketplaces that honour ERC-2981. Token IDs without their own royalty use the default."
+      >
+        <div className="flex gap-3">
+          {renderInput("royaltyTokenId", "Token ID")}
+          <button onClick={handleRoyaltyLookup} className={BUTTON_CLASS}>
+            Look Up
+          </button>
+        </div>
+        {royalty && (
+          <p className="text-sm text-gray-300">
+            {royalty.bps === 0n ? (
+              `Token #${royalty.tokenId} pays no royalty.`
+            ) : (
+              <>
+                Token #{royalty.tokenId} pays {Number(royalty.bps) / 100}% to{" "}
+                <span className="font-mono break-all">{royalty.receiver}</span>
+              </>
+            )}
+          </p>
+        )}
+
+        {isOwner && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {renderInput("royaltyPercent", "Royalty %")}
+              <div className="md:col-span-2">{renderInput("royaltyReceiver", "Receiver address (0x...)")}</div>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {actionButton(
+                "Default royalty update",
+                () =>
+                  runAction("Default royalty update", ["royaltyReceiver", "royaltyPercent"], token =>
+                    token.setDefaultRoyalty(
+                      requireAddress(form.royaltyReceiver, "Receiver"),
+                      requireRoyaltyBps(form.royaltyPercent),
+                    ),
+                  ),
+                "Set Default",
+              )}
+              {actionButton(
+                "Token royalty update",
+                () =>
+                  runAction("Token royalty update", ["royaltyReceiver", "royaltyPercent"], token =>
+                    token.setTokenRoyalty(
+                      requireInteger(form.royaltyTokenId, "Token ID"),
+                      requireAddress(form.royaltyReceiver, "Receiver"),
+                      requireRoyaltyBps(form.royaltyPercent),
+                    ),
+                  ),
+                "Set for Token ID",
+              )}
+              {actionButton(
+                "Token royalty reset",
+                () =>
+                  runAction("Token royalty reset", [], token =>
+                    token.resetTokenRoyalty(requireInteger(form.royaltyTokenId, "Token ID")),
+                  ),
+                "Reset Token ID",
+              )}
+              {actionButton(
+                "Default royalty removal",
+                () => runAction("Default royalty removal", [], token => token.deleteDefaultRoyalty()),
+                "Remove Default",
+              )}
+            </div>
+          </>
+        )}
+      </ActionCard>
+    );
+  };
+
+  const renderSales = () => {
+    if (state?.type !== "ERC721" || !isOwner || !state.sales || !state.isMintable) return null;
+    const { sales } = state;
+
+    // Drop the phase's edits once saved so the form shows the new on-chain configuration
+    const saveSale = async (phase: SalePhase, label: string, config: () => SaleConfig) => {
+      if (await runAction(label, [], token => token.setSaleConfig(phase, config()))) {
+        setSaleForms(prev => ({ ...prev, [phase]: undefined }));
+      }
+    };
+
+    return (
+      <>
+        <ActionCard
+          title="Sales"
+          description="Let buyers mint the next token IDs themselves. Sold tokens have no URI of their own and resolve to baseURI/tokenId."
+        >
+          <p className="text-sm text-gray-300">
+            Buyers mint on the{" "}
+            <Link href={getMintPagePath(tokenAddress)} className="text-blue-400 hover:underline">
+              public mint page
+            </Link>{" "}
+            of this collection.
+          </p>
+          {SALE_PHASES.map(phase => {
+            const label = SALE_PHASE_LABELS[phase];
+            return (
+              <div key={phase} className="space-y-3">
+                <SaleSettings
+                  phase={phase}
+                  config={sales[phase]}
+                  value={saleForms[phase] ?? toSaleForm(sales[phase])}
+                  onChange={value => setSaleForms(prev => ({ ...prev, [phase]: value }))}
+                />
+                <div className="flex gap-3">
+                  {actionButton(
+                    `${label} sale update`,
+                    () =>
+                      saveSale(phase, `${label} sale update`, () =>
+                        toSaleConfig(saleForms[phase] ?? toSaleForm(sales[phase]), phase),
+                      ),
+                    `Save ${label} Sale`,
+                  )}
+                  {sales[phase].startTime !== 0n &&
+                    actionButton(
+                      `${label} sale closure`,
+                      () =>
+                        saveSale(phase, `${label} sale closure`, () => ({
+                          ...sales[phase],
+                          startTime: 0n,
+                          endTime: 0n,
+                        })),
+                      `Close ${label} Sale`,
+                    )}
+                </div>
+              </div>
+            );
+          })}
+        </ActionCard>
+
+        <ActionCard title="Sale Proceeds" description="ETH paid by buyers, held by the collection until withdrawn.">
+          <Stat label="Balance" value={`${ethers.formatEther(state.proceeds)} ETH`} />
+          {renderInput("withdrawTo", `Recipient address (defaults to ${state.owner})`)}
+          {actionButton(
+            "Withdrawal",
+            () =>
+              runAction("Withdrawal", ["withdrawTo"], token =>
+                token.withdraw(form.withdrawTo.trim() ? requireAddress(form.withdrawTo, "Recipient") : state.owner),
+              ),
+            "Withdraw",
+          )}
+        </ActionCard>
+      </>
+    );
+  };
+
+  const renderErc721 = () => {
+    if (state?.type !== "ERC721" || !isOwner) return null;
+
+    return (
+      <>
+        {state.isMintable && (
+          <>
+            <ActionCard title="Mint" description="Mint the next token ID with its own metadata URI.">
+              {renderInput("mintTo", "Recipient address (0x...)")}
+              {renderInput("mintUri", "Token URI (ipfs://...)")}
+              {actionButton("Mint", () =>
+                runAction("Mint", ["mintTo", "mintUri"], token =>
+                  token.mint(requireAddress(form.mintTo, "Recipient"), form.mintUri.trim()),
+                ),
+              )}
+            </ActionCard>
+
+            <ActionCard
+              title="Metadata Studio"
+              description="Pin the next tokens' images and metadata to IPFS and fill in the batch mint below. Tokens without a recipient column go to you."
+            >
+              <MetadataStudio
+                standard="ERC721"
+                collectionName={state.name}
+                firstTokenId={state.currentSupply + 1n}
+                onPinned={collection =>
+                  setField(
+                    "batchMint",
+                    collection.tokens.map(token => `${token.recipient ?? state.owner},${token.uri}`).join("\n"),
+                  )
+                }
+              />
+            </ActionCard>
+
+            <ActionCard title="Batch Mint" description="One token per line as: recipient,tokenURI">
+              {renderTextarea("batchMint", "0xRecipient,ipfs://metadata/1.json")}
+              {actionButton(
+                "Batch mint",
+                () =>
+                  runAction("Batch mint", ["batchMint"], token => {
+                    const rows = parseBatchLines(form.batchMint);
+                    if (rows.length === 0) throw new Error("Add at least one line");
+                    return token.batchMint(
+                      rows.map(row => requireAddress(row.first, `Recipient on line ${row.line}`)),
+                      rows.map(row => row.second),
+                    );
+                  }),
+                "Batch Mint",
+              )}
+            </ActionCard>
+          </>
+        )}
+
+        <ActionCard title="Base URI" description="Used for tokens minted without their own URI, as baseURI/tokenId.">
+          {renderInput("baseUri", "ipfs://collection-cid")}
+          {actionButton(
+            "Base URI update",
+            () => runAction("Base URI update", ["baseUri"], token => token.setBaseURI(form.baseUri.trim())),
+            "Set Base URI",
+          )}
+        </ActionCard>
+
+        {state.isPausable && (
+          <ActionCard
+            title={state.isPaused ? "Unpause" : "Pause"}
+            description={
+              state.isPaused
+                ? "Transfers, mints and burns are currently blocked."
+                : "Freeze all transfers, mints and burns until the collection is unpaused."
+            }
+          >
+            {state.isPaused
+              ? actionButton("Unpause", () => runAction("Unpause", [], token => token.unpause()))
+              : actionButton("Pause", () => runAction("Pause", [], token => token.pause()))}
+          </ActionCard>
+        )}
+      </>
+    );
+  };
+
+  const renderErc1155 = () => {
+    if (state?.type !== "ERC1155") return null;
+
+    return (
+      <>
+        {isOwner && state.isMintable && (
+          <>
+            <ActionCard title="Mint" description="Mint an amount of a single token ID.">
+              {renderInput("mintTo", "Recipient address (0x...)")}
+              <div className="grid grid-cols-2 gap-3">
+                {renderInput("tokenId", "Token ID")}
+                {renderInput("mintAmount", "Amount")}
+              </div>
+              {actionButton("Mint", () =>
+                runAction("Mint", ["mintTo", "tokenId", "mintAmount"], token =>
+                  token.mint(
+                    requireAddress(form.mintTo, "Recipient"),
+                    requireInteger(form.tokenId, "Token ID"),
+                    requireInteger(form.mintAmount, "Amount"),
+                    "0x",
+                  ),
+                ),
+              )}
+            </ActionCard>
+
+            <ActionCard title="Mint Batch" description="Several token IDs to one recipient, one per line as: id,amount">
+              {renderInput("mintTo", "Recipient address (0x...)")}
+              {renderTextarea("mintBatch", "1,100\n2,5")}
+              {actionButton(
+                "Batch mint",
+                () =>
+                  runAction("Batch mint", ["mintTo", "mintBatch"], token => {
+                    const rows = parseBatchLines(form.mintBatch);
+                    if (rows.length === 0) throw new Error("Add at least one line");
+                    return token.mintBatch(
+                      requireAddress(form.mintTo, "Recipient"),
+                      rows.map(row => requireInteger(row.first, `Token ID on line ${row.line}`)),
+                      rows.map(row => requireInteger(row.second, `Amount on line ${row.line}`)),
+                      "0x",
+                    );
+                  }),
+                "Mint Batch",
+              )}
+            </ActionCard>
+          </>
+        )}
+
+        {isOwner && (
+          <ActionCard title="Metadata URI" description="Shared URI for every token ID; clients substitute {id}.">
+            <MetadataStudio
+              standard="ERC1155"
+              collectionName={state.name}
+              onPinned={collection => setField("newUri", collection.collectionUri)}
+            />
+            {renderInput("newUri", "ipfs://collection-cid/{id}.json")}
+            {actionButton(
+              "URI update",
+              () => runAction("URI update", ["newUri"], token => token.setURI(form.newUri.trim())),
+              "Set URI",
+            )}
+          </ActionCard>
+        )}
+
+        {isOwner && state.isPausable && (
+          <ActionCard
+            title={state.isPaused ? "Unpause" : "Pause"}
+            description={
+              state.isPaused
+                ? "Transfers, mints and burns are currently blocked."
+                : "Freeze all transfers, mints and burns until the contract is unpaused."
+            }
+          >
+            {state.isPaused
+              ? actionButton("Unpause", () => runAction("Unpause", [], token => token.unpause()))
+              : actionButton("Pause", () => runAction("Pause", [], token => token.pause()))}
+          </ActionCard>
+        )}
+
+        <ActionCard
+          title="Supply by Token ID"
+          description={
+            state.isSupplyTracked
+              ? "Total minted minus burned, per token ID."
+              : "Supply tracking was disabled at deployment, so every ID reports 0."
+          }
+        >
+          {renderInput("supplyIds", "Token IDs, e.g. 1, 2, 3")}
+          <button onClick={handleSupplyLookup} className={BUTTON_CLASS}>
+            Look Up
+          </button>
+          {supplies.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1">Token ID</th>
+                  <th className="py-1">Total Supply</th>
+                </tr>
+              </thead>
+              <tbody>
+                {supplies.map(({ id, supply }) => (
+                  <tr key={id} className="border-t border-[#1e2a3a] text-white font-mono">
+                    <td className="py-1">{id}</td>
+                    <td className="py-1">{supply.toString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </ActionCard>
+      </>
+    );
+  };
+
+  const renderStats = () => {
+    if (!state) return null;
+
+    if (state.type === "ERC20") {
+      return (
+        <>
+          <Stat label="Total Supply" value={ethers.formatUnits(state.totalSupply, state.decimals)} />
+          <Stat label="Your Balance" value={ethers.formatUnits(state.balance, state.decimals)} />
+        </>
+      );
+    }
+    if (state.type === "ERC721") {
+      return (
+        <Stat
+          label="Minted"
+          value={`${state.currentSupply} / ${state.maxSupply === 0n ? "unlimited" : state.maxSupply.toString()}`}
+        />
+      );
+    }
+    return <Stat label="Metadata URI" value={state.uri || "-"} />;
+  };
+
+  return (
+    <div className="bg-[#0f1a2e] rounded-xl p-6 border border-[#1e2a3a] space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Manage Token</h3>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          className="p-2 rounded-lg transition-colors bg-[#1c2941] text-gray-400 hover:bg-[#1a2332] hover:text-white disabled:opacity-50"
+          title="Refresh token state"
+        >
+          <ArrowPathIcon className={`h-5 w-5 ${isLoading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {state && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Stat label="Owner" value={state.owner} />
+            {renderStats()}
+          </div>
+
+          {state.type === "ERC20" && state.config && (
+            <div className="flex flex-wrap gap-2">
+              <FlagBadge
+                label={state.config.cap ? `Cap ${ethers.formatUnits(state.config.cap, state.decimals)}` : "Uncapped"}
+                enabled={state.config.cap > 0n}
+              />
+              <FlagBadge label="Pausable" enabled={state.config.pausable} />
+              <FlagBadge label="Permit" enabled={state.config.permit} />
+              <FlagBadge label="Votes" enabled={state.config.votes} />
+              <FlagBadge label="Blocklist" enabled={state.config.blocklist} />
+              <FlagBadge
+                label={`Tax ${state.config.transferTaxBps / 100}%`}
+                enabled={state.config.transferTaxBps > 0}
+              />
+              {state.isPaused && <FlagBadge label="Paused" enabled />}
+            </div>
+          )}
+
+          {state.type !== "ERC20" && (
+            <div className="flex flex-wrap gap-2">
+              <FlagBadge label="Mintable" enabled={state.isMintable} />
+              <FlagBadge label="Burnable" enabled={state.isBurnable} />
+              <FlagBadge label="Pausable" enabled={state.isPausable} />
+              {state.isPaused && <FlagBadge label="Paused" enabled />}
+            </div>
+          )}
+
+          {!isOwner && (
+            <p className="text-sm text-yellow-300 bg-yellow-900/20 border border-yellow-700/40 rounded-lg p-3">
+              Only the owner can mint or change this token&apos;s settings.
+            </p>
+          )}
+
+          <div className="space-y-4">
+            {renderErc20()}
+            {renderErc721()}
+            {renderSales()}
+            {renderErc1155()}
+            {renderRoyalties()}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
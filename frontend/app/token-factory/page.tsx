@@ -1,15 +1,55 @@
 "use client";
 
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
 import { toast } from "react-toastify";
 import { useAccount } from "wagmi";
 import { DocumentDuplicateIcon, ArrowTopRightOnSquareIcon, CheckCircleIcon, PlusIcon, ArrowPathIcon } from "@heroicons/react/24/outline";
 import ContractVerification from "../../components/ContractVerification";
-import { NETWORK_INFO, CONTRACT_ADDRESSES, CONTRACT_ABIS } from "../../contracts/deployedContracts";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
+import { CreatedToken, useCreatedTokens } from "../../hooks/useCreatedTokens";
+import {
+  DEFAULT_ERC20_FEATURES,
+  Erc20FeatureForm,
+  Erc20FeatureOptions,
+  hasErc20Features,
+  toTokenConfig,
+} from "./_components/Erc20FeatureOptions";
+import { TokenManagement } from "./_components/TokenManagement";
+import { DeterministicAddress } from "./_components/DeterministicAddress";
+import { LightweightClone } from "./_components/LightweightClone";
+import { MetadataStudio } from "./_components/MetadataStudio";
+import {
+  DEFAULT_ROYALTIES,
+  NO_ROYALTIES,
+  RoyaltyForm,
+  RoyaltyOptions,
+  hasRoyalties,
+  toRoyaltyConfig,
+} from "./_components/RoyaltyOptions";
+import { randomSalt } from "../../utils/create2";
+import { getErrorMessage } from "../../utils/errors";
+import { toInitialSupplyArgs, toLegacyInitialSupply } from "../../utils/tokenSupply";
 
 type TokenType = "erc20" | "erc721" | "erc1155";
 
+// Factory deploying each token type, with its CREATE2 and EIP-1167 clone variants of the create function
+const FACTORIES = {
+  erc20: { name: "ERC20Factory", createDeterministic: "createTokenDeterministic", createClone: "createTokenClone" },
+  erc721: {
+    name: "ERC721Factory",
+    createDeterministic: "createCollectionDeterministic",
+    createClone: "createCollectionClone",
+    createWithRoyalties: "createCollectionWithRoyalties",
+  },
+  erc1155: {
+    name: "ERC1155Factory",
+    createDeterministic: "createMultiTokenDeterministic",
+    createClone: "createMultiTokenClone",
+    createWithRoyalties: "createMultiTokenWithRoyalties",
+  },
+} as const;
+
 interface DeploymentResult {
   type: string;
   address: string;
@@ -18,24 +58,6 @@ interface DeploymentResult {
   inputs: Record<string, string>;
 }
 
-interface StoredToken {
-  id: string;
-  type: string;
-  name: string;
-  symbol: string;
-  address: string;
-  createdAt: number;
-  txHash?: string;
-}
-
-const EXPLORER_URL = NETWORK_INFO.blockExplorer;
-
-// Standard ERC20/ERC721 ABI for name() and symbol()
-const TOKEN_ABI = [
-  "function name() view returns (string)",
-  "function symbol() view returns (string)",
-] as const;
-
 // Helper function to get liquidity URL
 const getLiquidityUrl = (tokenAddress: string, chainId: number): string => {
   return `https://app.uniswap.org/#/add/ETH/${tokenAddress}/${chainId}`;
@@ -43,177 +65,34 @@ const getLiquidityUrl = (tokenAddress: string, chainId: number): string => {
 
 const TokenFactoryPage = () => {
   const { address, isConnected } = useAccount();
+  const { chainId, contracts, blockExplorer, getContract } = useContractRegistry();
   const [selectedTokenType, setSelectedTokenType] = useState<TokenType>("erc20");
   const [isDeploying, setIsDeploying] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [deploymentResult, setDeploymentResult] = useState<DeploymentResult | null>(null);
-  const [myTokens, setMyTokens] = useState<StoredToken[]>([]);
-  const [isLoadingTokens, setIsLoadingTokens] = useState(false);
+  const {
+    tokens: myTokens,
+    hasMore: hasMoreTokens,
+    isLoading: isLoadingTokens,
+    refresh: refreshMyTokens,
+    loadMore: loadMoreTokens,
+  } = useCreatedTokens();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
-  const [selectedToken, setSelectedToken] = useState<StoredToken | null>(null);
+  const [selectedToken, setSelectedToken] = useState<CreatedToken | null>(null);
   const [viewMode, setViewMode] = useState<"create" | "view">("create");
 
-  // Fetch tokens from smart contracts
-  const fetchMyTokens = useCallback(async () => {
-    if (!isConnected || !address || !window.ethereum) return;
-
-    setIsLoadingTokens(true);
-    try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const allTokens: StoredToken[] = [];
-
-      // Fetch ERC20 tokens
-      try {
-        const erc20FactoryAddress = CONTRACT_ADDRESSES.ERC20Factory;
-        const erc20Factory = new ethers.Contract(erc20FactoryAddress, CONTRACT_ABIS.ERC20Factory, provider);
-        
-        // Check if the function exists before calling
-        try {
-          const erc20Addresses = await erc20Factory.getTokensByCreator(address);
-          
-          for (const tokenAddress of erc20Addresses) {
-            try {
-              const tokenContract = new ethers.Contract(tokenAddress, TOKEN_ABI, provider);
-              const [name, symbol] = await Promise.all([
-                tokenContract.name(),
-                tokenContract.symbol(),
-              ]);
-              
-              allTokens.push({
-                id: `${tokenAddress}-erc20`,
-                type: "ERC20",
-                name,
-                symbol,
-                address: tokenAddress,
-                createdAt: Date.now(),
-              });
-            } catch (err) {
-              console.error(`Error fetching ERC20 token ${tokenAddress}:`, err);
-              allTokens.push({
-                id: `${tokenAddress}-erc20`,
-                type: "ERC20",
-                name: "Unknown",
-                symbol: "UNK",
-                address: tokenAddress,
-                createdAt: Date.now(),
-              });
-            }
-          }
-        } catch (err: any) {
-          // If function doesn't exist or returns empty data, silently skip
-          if (err.code !== 'BAD_DATA') {
-            console.error("Error fetching ERC20 tokens:", err);
-          }
-        }
-      } catch (err) {
-        console.error("Error with ERC20 factory:", err);
-      }
-
-      // Fetch ERC721 tokens
-      try {
-        const erc721FactoryAddress = CONTRACT_ADDRESSES.ERC721Factory;
-        const erc721Factory = new ethers.Contract(erc721FactoryAddress, CONTRACT_ABIS.ERC721Factory, provider);
-        
-        try {
-          const erc721Addresses = await erc721Factory.getCollectionsByCreator(address);
-          
-          for (const tokenAddress of erc721Addresses) {
-            try {
-              const tokenContract = new ethers.Contract(tokenAddress, TOKEN_ABI, provider);
-              const [name, symbol] = await Promise.all([
-                tokenContract.name(),
-                tokenContract.symbol(),
-              ]);
-              
-              allTokens.push({
-                id: `${tokenAddress}-erc721`,
-                type: "ERC721",
-                name,
-                symbol,
-                address: tokenAddress,
-                createdAt: Date.now(),
-              });
-            } catch (err) {
-              console.error(`Error fetching ERC721 token ${tokenAddress}:`, err);
-              allTokens.push({
-                id: `${tokenAddress}-erc721`,
-                type: "ERC721",
-                name: "Unknown",
-                symbol: "UNK",
-                address: tokenAddress,
-                createdAt: Date.now(),
-              });
-            }
-          }
-        } catch (err: any) {
-          if (err.code !== 'BAD_DATA') {
-            console.error("Error fetching ERC721 tokens:", err);
-          }
-        }
-      } catch (err) {
-        console.error("Error with ERC721 factory:", err);
-      }
-
-      // Fetch ERC1155 tokens
-      try {
-        const erc1155FactoryAddress = CONTRACT_ADDRESSES.ERC1155Factory;
-        const erc1155Factory = new ethers.Contract(erc1155FactoryAddress, CONTRACT_ABIS.ERC1155Factory, provider);
-        
-        try {
-          const erc1155Addresses = await erc1155Factory.getContractsByCreator(address);
-          
-          for (const tokenAddress of erc1155Addresses) {
-            try {
-              const tokenContract = new ethers.Contract(tokenAddress, [
-                "function name() view returns (string)",
-              ], provider);
-              const name = await tokenContract.name();
-              
-              allTokens.push({
-                id: `${tokenAddress}-erc1155`,
-                type: "ERC1155",
-                name,
-                symbol: "MT",
-                address: tokenAddress,
-                createdAt: Date.now(),
-              });
-            } catch (err) {
-              console.error(`Error fetching ERC1155 token ${tokenAddress}:`, err);
-              allTokens.push({
-                id: `${tokenAddress}-erc1155`,
-                type: "ERC1155",
-                name: "Unknown",
-                symbol: "MT",
-                address: tokenAddress,
-                createdAt: Date.now(),
-              });
-            }
-          }
-        } catch (err: any) {
-          if (err.code !== 'BAD_DATA') {
-            console.error("Error fetching ERC1155 tokens:", err);
-          }
-        }
-      } catch (err) {
-        console.error("Error with ERC1155 factory:", err);
-      }
-
-      setMyTokens(allTokens);
-    } catch (error) {
-      console.error("Error fetching tokens:", error);
-      // Don't show error toast if it's just empty data
-    } finally {
-      setIsLoadingTokens(false);
-    }
-  }, [isConnected, address]);
-
+  // Load the next page of tokens when the end of the sidebar list scrolls into view
   useEffect(() => {
-    if (isConnected && address) {
-      fetchMyTokens();
-    } else {
-      setMyTokens([]);
-    }
-  }, [isConnected, address, fetchMyTokens]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreTokens) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMoreTokens();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreTokens, loadMoreTokens]);
 
   const [formData, setFormData] = useState({
     name: "",
@@ -228,6 +107,14 @@ const TokenFactoryPage = () => {
     pausable: true,
     supplyTracked: true,
   });
+  const [erc20Features, setErc20Features] = useState<Erc20FeatureForm>(DEFAULT_ERC20_FEATURES);
+  const [royalties, setRoyalties] = useState<RoyaltyForm>(DEFAULT_ROYALTIES);
+  const [isDeterministic, setIsDeterministic] = useState(false);
+  const [isClone, setIsClone] = useState(false);
+  const [showMetadataStudio, setShowMetadataStudio] = useState(false);
+  const [salt, setSalt] = useState(randomSalt);
+  const [predictedAddress, setPredictedAddress] = useState<string | null>(null);
+  const [predictionError, setPredictionError] = useState<string | null>(null);
 
   const handleInputChange = useCallback((field: string, value: string | number | boolean) => {
     setFormData(prev => ({
@@ -250,8 +137,85 @@ const TokenFactoryPage = () => {
       pausable: true,
       supplyTracked: true,
     });
+    setErc20Features(DEFAULT_ERC20_FEATURES);
+    setRoyalties(DEFAULT_ROYALTIES);
+    setSalt(randomSalt());
   };
 
+  const getRoyaltyConfig = useCallback(
+    () => (hasRoyalties(royalties) ? toRoyaltyConfig(royalties, address ?? "") : NO_ROYALTIES),
+    [royalties, address],
+  );
+
+  // Arguments shared by the factories' predictAddress, deterministic and clone create functions, in parameter order
+  const getCreateArgs = useCallback((): unknown[] => {
+    switch (selectedTokenType) {
+      case "erc20": {
+        const [initialSupply, supplyUnit] = toInitialSupplyArgs(formData.initialSupply, formData.decimals);
+        return [
+          formData.name,
+          formData.symbol,
+          initialSupply,
+          formData.decimals,
+          supplyUnit,
+          toTokenConfig(erc20Features, formData.decimals),
+        ];
+      }
+      case "erc721":
+        return [
+          formData.name,
+          formData.symbol,
+          formData.baseURI,
+          formData.maxSupply ? parseInt(formData.maxSupply) : 0,
+          formData.mintable,
+          formData.burnable,
+          formData.pausable,
+          getRoyaltyConfig(),
+        ];
+      case "erc1155":
+        return [
+          formData.name,
+          formData.uri,
+          formData.mintable,
+          formData.burnable,
+          formData.pausable,
+          formData.supplyTracked,
+          getRoyaltyConfig(),
+        ];
+    }
+  }, [selectedTokenType, formData, erc20Features, getRoyaltyConfig]);
+
+  // Ask the factory where the current settings would deploy, debounced while the user types
+  useEffect(() => {
+    setPredictedAddress(null);
+    setPredictionError(null);
+    if (!isDeterministic || !address || !contracts || !window.ethereum) return;
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        if (!ethers.isHexString(salt, 32) || BigInt(salt) === 0n) {
+          throw new Error("Salt must be a non-zero 32-byte hex value");
+        }
+        const { address: factoryAddress, abi } = getContract(FACTORIES[selectedTokenType].name);
+        const factory = new ethers.Contract(factoryAddress, abi, new ethers.BrowserProvider(window.ethereum));
+        if (!factory.interface.getFunction("predictAddress")) {
+          throw new Error("The deployed factory does not support deterministic deployment yet");
+        }
+
+        const predicted: string = await factory.predictAddress(address, salt, ...getCreateArgs());
+        if (!isCancelled) setPredictedAddress(predicted);
+      } catch (error) {
+        if (!isCancelled) setPredictionError(getErrorMessage(error, "Could not predict the address"));
+      }
+    }, 400);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isDeterministic, salt, address, contracts, selectedTokenType, getContract, getCreateArgs]);
+
   const deployAnother = () => {
     setShowSuccessModal(false);
     setDeploymentResult(null);
@@ -280,7 +244,7 @@ const TokenFactoryPage = () => {
     });
   };
 
-  const handleTokenClick = (token: StoredToken) => {
+  const handleTokenClick = (token: CreatedToken) => {
     setSelectedToken(token);
     setViewMode("view");
   };
@@ -312,12 +276,31 @@ const TokenFactoryPage = () => {
       const provider = new ethers.BrowserProvider(window.ethereum);
       const network = await provider.getNetwork();
       
-      if (Number(network.chainId) !== NETWORK_INFO.chainId) {
-        toast.error(`Please switch to ${NETWORK_INFO.name} (Chain ID: ${NETWORK_INFO.chainId})`);
+      if (Number(network.chainId) !== chainId || !contracts) {
+        toast.error(`The token factories are not deployed on chain ${network.chainId}`);
         setIsDeploying(false);
         return;
       }
 
+      if (isDeterministic || isClone) {
+        const { abi } = getContract(FACTORIES[selectedTokenType].name);
+        const createFunction = isClone
+          ? FACTORIES[selectedTokenType].createClone
+          : FACTORIES[selectedTokenType].createDeterministic;
+        if (!new ethers.Interface(abi).getFunction(createFunction)) {
+          throw new Error(
+            `The deployed factory does not support ${isClone ? "clone" : "deterministic"} deployment yet. Redeploy it and sync the frontend contracts.`,
+          );
+        }
+      }
+
+      // Factories deployed before royalties only have the plain create function
+      const requireRoyaltySupport = (factory: ethers.Contract) => {
+        if (selectedTokenType === "erc20" || !factory.interface.getFunction(FACTORIES[selectedTokenType].createWithRoyalties)) {
+          throw new Error("The deployed factory does not support royalties yet. Redeploy it and sync the frontend contracts.");
+        }
+      };
+
       const signer = await provider.getSigner();
       let deployedAddress: string = "";
       let txHash: string = "";
@@ -326,7 +309,7 @@ const TokenFactoryPage = () => {
 
       switch (selectedTokenType) {
         case "erc20": {
-          const erc20Address = CONTRACT_ADDRESSES.ERC20Factory;
+          const { address: erc20Address, abi: erc20Abi } = getContract("ERC20Factory");
           
           // Verify contract exists at address
           const code = await provider.getCode(erc20Address);
@@ -336,17 +319,46 @@ const TokenFactoryPage = () => {
           
           console.log("✅ Contract verified at address:", erc20Address);
           
-          const erc20Contract = new ethers.Contract(erc20Address, CONTRACT_ABIS.ERC20Factory, signer);
-          const initialSupplyWei = ethers.parseUnits(formData.initialSupply, formData.decimals);
+          const erc20Contract = new ethers.Contract(erc20Address, erc20Abi, signer);
+          const [initialSupply, supplyUnit] = toInitialSupplyArgs(formData.initialSupply, formData.decimals);
 
           // Send transaction
           console.log("🚀 Sending createToken transaction...");
-          const erc20Tx = await erc20Contract.createToken(
-            formData.name,
-            formData.symbol,
-            initialSupplyWei,
-            formData.decimals,
-          );
+          // Plain tokens keep using createToken so factories deployed before createConfiguredToken still work
+          let erc20Tx;
+          if (isClone) {
+            erc20Tx = await erc20Contract.createTokenClone(...getCreateArgs());
+          } else if (isDeterministic) {
+            erc20Tx = await erc20Contract.createTokenDeterministic(...getCreateArgs(), salt);
+          } else if (hasErc20Features(erc20Features)) {
+            if (!erc20Contract.interface.getFunction("createConfiguredToken")) {
+              throw new Error("The deployed ERC20Factory does not support token features yet. Redeploy it and sync the frontend contracts.");
+            }
+            erc20Tx = await erc20Contract.createConfiguredToken(
+              formData.name,
+              formData.symbol,
+              initialSupply,
+              formData.decimals,
+              supplyUnit,
+              toTokenConfig(erc20Features, formData.decimals),
+            );
+          } else if (erc20Contract.interface.getFunction("createToken")?.inputs.length === 4) {
+            // Factory deployed before SupplyUnit: it scales the supply itself
+            erc20Tx = await erc20Contract.createToken(
+              formData.name,
+              formData.symbol,
+              toLegacyInitialSupply(formData.initialSupply),
+              formData.decimals,
+            );
+          } else {
+            erc20Tx = await erc20Contract.createToken(
+              formData.name,
+              formData.symbol,
+              initialSupply,
+              formData.decimals,
+              supplyUnit,
+            );
+          }
 
           txHash = erc20Tx.hash;
           console.log("📝 Transaction hash:", txHash);
@@ -388,7 +400,7 @@ const TokenFactoryPage = () => {
           if (!deployedAddress) {
             console.log("🔍 Receipt logs empty, querying events from block...");
             try {
-              const readContract = new ethers.Contract(erc20Address, CONTRACT_ABIS.ERC20Factory, provider);
+              const readContract = new ethers.Contract(erc20Address, erc20Abi, provider);
               const filter = readContract.filters.TokenCreated();
               const events = await readContract.queryFilter(filter, receipt.blockNumber, receipt.blockNumber);
               
@@ -409,7 +421,7 @@ const TokenFactoryPage = () => {
         }
 
         case "erc721": {
-          const erc721Address = CONTRACT_ADDRESSES.ERC721Factory;
+          const { address: erc721Address, abi: erc721Abi } = getContract("ERC721Factory");
           
           // Verify contract exists
           const code = await provider.getCode(erc721Address);
@@ -417,19 +429,28 @@ const TokenFactoryPage = () => {
             throw new Error(`No contract found at address ${erc721Address} on this network.`);
           }
           
-          const erc721Contract = new ethers.Contract(erc721Address, CONTRACT_ABIS.ERC721Factory, signer);
+          const erc721Contract = new ethers.Contract(erc721Address, erc721Abi, signer);
           const maxSupply = formData.maxSupply ? parseInt(formData.maxSupply) : 0;
+          if (!isClone && !isDeterministic && hasRoyalties(royalties)) {
+            requireRoyaltySupport(erc721Contract);
+          }
 
           // Send transaction
-          const erc721Tx = await erc721Contract.createCollection(
-            formData.name,
-            formData.symbol,
-            formData.baseURI,
-            maxSupply,
-            formData.mintable,
-            formData.burnable,
-            formData.pausable,
-          );
+          const erc721Tx = isClone
+            ? await erc721Contract.createCollectionClone(...getCreateArgs())
+            : isDeterministic
+            ? await erc721Contract.createCollectionDeterministic(...getCreateArgs(), salt)
+            : hasRoyalties(royalties)
+            ? await erc721Contract.createCollectionWithRoyalties(...getCreateArgs())
+            : await erc721Contract.createCollection(
+                formData.name,
+                formData.symbol,
+                formData.baseURI,
+                maxSupply,
+                formData.mintable,
+                formData.burnable,
+                formData.pausable,
+              );
 
           txHash = erc721Tx.hash;
           toast.info(`Transaction sent: ${txHash.slice(0, 10)}... Waiting for confirmation...`);
@@ -462,7 +483,7 @@ const TokenFactoryPage = () => {
           // Fallback: Query events from block if not in receipt
           if (!deployedAddress) {
             try {
-              const readContract = new ethers.Contract(erc721Address, CONTRACT_ABIS.ERC721Factory, provider);
+              const readContract = new ethers.Contract(erc721Address, erc721Abi, provider);
               const filter = readContract.filters.CollectionCreated();
               const events = await readContract.queryFilter(filter, receipt.blockNumber, receipt.blockNumber);
               
@@ -480,7 +501,7 @@ const TokenFactoryPage = () => {
         }
 
         case "erc1155": {
-          const erc1155Address = CONTRACT_ADDRESSES.ERC1155Factory;
+          const { address: erc1155Address, abi: erc1155Abi } = getContract("ERC1155Factory");
           
           // Verify contract exists
           const code = await provider.getCode(erc1155Address);
@@ -488,17 +509,26 @@ const TokenFactoryPage = () => {
             throw new Error(`No contract found at address ${erc1155Address} on this network.`);
           }
           
-          const erc1155Contract = new ethers.Contract(erc1155Address, CONTRACT_ABIS.ERC1155Factory, signer);
+          const erc1155Contract = new ethers.Contract(erc1155Address, erc1155Abi, signer);
+          if (!isClone && !isDeterministic && hasRoyalties(royalties)) {
+            requireRoyaltySupport(erc1155Contract);
+          }
 
           // Send transaction
-          const erc1155Tx = await erc1155Contract.createMultiToken(
-            formData.name,
-            formData.uri,
-            formData.mintable,
-            formData.burnable,
-            formData.pausable,
-            formData.supplyTracked,
-          );
+          const erc1155Tx = isClone
+            ? await erc1155Contract.createMultiTokenClone(...getCreateArgs())
+            : isDeterministic
+            ? await erc1155Contract.createMultiTokenDeterministic(...getCreateArgs(), salt)
+            : hasRoyalties(royalties)
+            ? await erc1155Contract.createMultiTokenWithRoyalties(...getCreateArgs())
+            : await erc1155Contract.createMultiToken(
+                formData.name,
+                formData.uri,
+                formData.mintable,
+                formData.burnable,
+                formData.pausable,
+                formData.supplyTracked,
+              );
 
           txHash = erc1155Tx.hash;
           toast.info(`Transaction sent: ${txHash.slice(0, 10)}... Waiting for confirmation...`);
@@ -531,7 +561,7 @@ const TokenFactoryPage = () => {
           // Fallback: Query events from block if not in receipt
           if (!deployedAddress) {
             try {
-              const readContract = new ethers.Contract(erc1155Address, CONTRACT_ABIS.ERC1155Factory, provider);
+              const readContract = new ethers.Contract(erc1155Address, erc1155Abi, provider);
               const filter = readContract.filters.MultiTokenCreated();
               const events = await readContract.queryFilter(filter, receipt.blockNumber, receipt.blockNumber);
               
@@ -552,6 +582,10 @@ const TokenFactoryPage = () => {
           throw new Error("Invalid token type");
       }
 
+      if (isDeterministic && deployedAddress && predictedAddress && deployedAddress.toLowerCase() !== predictedAddress.toLowerCase()) {
+        toast.warn(`Deployed to ${deployedAddress}, not the predicted ${predictedAddress}. Settings changed after the prediction.`);
+      }
+
       // Show success
       if (deployedAddress) {
         const result: DeploymentResult = {
@@ -576,6 +610,10 @@ const TokenFactoryPage = () => {
             Mintable: formData.mintable ? "Yes" : "No",
             Burnable: formData.burnable ? "Yes" : "No",
             Pausable: formData.pausable ? "Yes" : "No",
+            ...(selectedTokenType !== "erc20" &&
+              hasRoyalties(royalties) && {
+                Royalty: royalties.percent.trim() ? `${royalties.percent.trim()}%` : "Per token",
+              }),
             ...(selectedTokenType === "erc1155" && {
               "Supply Tracked": formData.supplyTracked ? "Yes" : "No",
             }),
@@ -588,7 +626,7 @@ const TokenFactoryPage = () => {
         toast.success(`${selectedTokenType.toUpperCase()} token deployed successfully!`);
         
         setTimeout(() => {
-          fetchMyTokens();
+          refreshMyTokens();
         }, 3000);
         
         resetForm();
@@ -598,10 +636,10 @@ const TokenFactoryPage = () => {
         toast.success("Transaction confirmed!");
         toast.info("Opening transaction in explorer...");
         
-        window.open(`${EXPLORER_URL}/tx/${txHash}`, '_blank');
+        window.open(`${blockExplorer}/tx/${txHash}`, '_blank');
         
         setTimeout(() => {
-          fetchMyTokens();
+          refreshMyTokens();
         }, 3000);
         
         resetForm();
@@ -685,7 +723,7 @@ const TokenFactoryPage = () => {
           <div className="mb-6">
             <ContractVerification
               contractAddress={deploymentResult.address}
-              networkChainId={NETWORK_INFO.chainId.toString()}
+              networkChainId={chainId.toString()}
               contractType="token"
               contractName={deploymentResult.name}
             />
@@ -706,7 +744,7 @@ const TokenFactoryPage = () => {
                   </p>
                   
                   <a
-                    href={getLiquidityUrl(deploymentResult.address, NETWORK_INFO.chainId)}
+                    href={getLiquidityUrl(deploymentResult.address, chainId)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
@@ -721,7 +759,7 @@ const TokenFactoryPage = () => {
 
           <div className="flex gap-4">
             <a
-              href={`${EXPLORER_URL}/address/${deploymentResult.address}`}
+              href={`${blockExplorer}/address/${deploymentResult.address}`}
               target="_blank"
               rel="noopener noreferrer"
               className="flex-1 py-3 px-6 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors text-center flex items-center justify-center gap-2"
@@ -748,7 +786,7 @@ const TokenFactoryPage = () => {
   };
 
   // Token Details View Component
-  const TokenDetailsView = ({ token }: { token: StoredToken }) => {
+  const TokenDetailsView = ({ token }: { token: CreatedToken }) => {
     return (
       <div className="space-y-6">
         <div className="flex items-center justify-between">
@@ -782,7 +820,7 @@ const TokenFactoryPage = () => {
             </div>
             <div>
               <div className="text-sm text-gray-400 mb-1">Created</div>
-              <div className="text-white">{formatDate(token.createdAt)}</div>
+              <div className="text-white">{token.createdAt ? formatDate(token.createdAt) : "Unknown"}</div>
             </div>
           </div>
         </div>
@@ -790,7 +828,7 @@ const TokenFactoryPage = () => {
         <div className="mb-6">
           <ContractVerification
             contractAddress={token.address}
-            networkChainId={NETWORK_INFO.chainId.toString()}
+            networkChainId={chainId.toString()}
             contractType="token"
             contractName={token.name}
           />
@@ -811,7 +849,7 @@ const TokenFactoryPage = () => {
                 </p>
                 
                 <a
-                  href={getLiquidityUrl(token.address, NETWORK_INFO.chainId)}
+                  href={getLiquidityUrl(token.address, chainId)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
@@ -826,7 +864,7 @@ const TokenFactoryPage = () => {
 
         <div className="flex gap-4">
           <a
-            href={`${EXPLORER_URL}/address/${token.address}`}
+            href={`${blockExplorer}/address/${token.address}`}
             target="_blank"
             rel="noopener noreferrer"
             className="flex-1 py-3 px-6 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors text-center flex items-center justify-center gap-2"
@@ -862,7 +900,7 @@ const TokenFactoryPage = () => {
                   <h2 className="text-lg font-bold text-white">My Tokens</h2>
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={fetchMyTokens}
+                      onClick={refreshMyTokens}
                       disabled={isLoadingTokens}
                       className="p-2 rounded-lg transition-colors bg-[#0f1a2e] text-gray-400 hover:bg-[#1a2332] hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
                       title="Refresh tokens"
@@ -883,7 +921,7 @@ const TokenFactoryPage = () => {
                   </div>
                 </div>
                 <div className="max-h-[calc(100vh-200px)] overflow-y-auto">
-                  {isLoadingTokens ? (
+                  {isLoadingTokens && myTokens.length === 0 ? (
                     <div className="p-6 text-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
                       <p className="text-gray-400 text-sm">Loading tokens...</p>
@@ -909,7 +947,7 @@ const TokenFactoryPage = () => {
                             <div className="flex-1 min-w-0">
                               <div className="font-medium text-white truncate">{token.name}</div>
                               <div className="text-sm text-gray-400 truncate">{token.symbol}</div>
-                              <div className="text-xs text-gray-500 mt-1">{formatDate(token.createdAt)}</div>
+                              <div className="text-xs text-gray-500 mt-1">{token.createdAt ? formatDate(token.createdAt) : "Unknown"}</div>
                             </div>
                             <span className="flex-shrink-0 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-500/20 text-blue-400">
                               {token.type}
@@ -917,6 +955,11 @@ const TokenFactoryPage = () => {
                           </div>
                         </button>
                       ))}
+                      {hasMoreTokens && (
+                        <div ref={loadMoreRef} className="p-4 text-center text-xs text-gray-500">
+                          {isLoadingTokens ? "Loading more tokens..." : "Scroll for more"}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -985,7 +1028,7 @@ const TokenFactoryPage = () => {
                       {selectedTokenType === "erc20" && (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
-                            <label className="block text-sm font-medium text-gray-300 mb-2">Initial Supply *</label>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">Initial Supply (tokens) *</label>
                             <input
                               type="text"
                               value={formData.initialSupply}
@@ -1012,6 +1055,10 @@ const TokenFactoryPage = () => {
                         </div>
                       )}
 
+                      {selectedTokenType === "erc20" && (
+                        <Erc20FeatureOptions value={erc20Features} onChange={setErc20Features} />
+                      )}
+
                       {(selectedTokenType === "erc721" || selectedTokenType === "erc1155") && (
                         <div>
                           <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -1025,6 +1072,25 @@ const TokenFactoryPage = () => {
                             className="w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors"
                             required
                           />
+                          <button
+                            type="button"
+                            onClick={() => setShowMetadataStudio(prev => !prev)}
+                            className="mt-2 text-sm text-blue-400 hover:text-blue-300"
+                          >
+                            {showMetadataStudio ? "Hide Metadata Studio" : "Generate and pin metadata from images and a traits CSV"}
+                          </button>
+                          {showMetadataStudio && (
+                            <div className="mt-3">
+                              <MetadataStudio
+                                key={selectedTokenType}
+                                standard={selectedTokenType === "erc721" ? "ERC721" : "ERC1155"}
+                                collectionName={formData.name}
+                                onPinned={collection =>
+                                  handleInputChange(selectedTokenType === "erc721" ? "baseURI" : "uri", collection.collectionUri)
+                                }
+                              />
+                            </div>
+                          )}
                         </div>
                       )}
 
@@ -1088,6 +1154,29 @@ const TokenFactoryPage = () => {
                         )}
                       </div>
 
+                      {selectedTokenType !== "erc20" && <RoyaltyOptions value={royalties} onChange={setRoyalties} />}
+
+                      <LightweightClone
+                        tokenType={selectedTokenType}
+                        enabled={isClone}
+                        onEnabledChange={enabled => {
+                          setIsClone(enabled);
+                          if (enabled) setIsDeterministic(false);
+                        }}
+                      />
+
+                      <DeterministicAddress
+                        enabled={isDeterministic}
+                        onEnabledChange={enabled => {
+                          setIsDeterministic(enabled);
+                          if (enabled) setIsClone(false);
+                        }}
+                        salt={salt}
+                        onSaltChange={setSalt}
+                        predictedAddress={predictedAddress}
+                        error={predictionError}
+                      />
+
                       <button
                         type="submit"
                         disabled={isDeploying}
@@ -1121,6 +1210,13 @@ const TokenFactoryPage = () => {
                       </button>
                     </div>
                     <TokenDetailsView token={selectedToken} />
+                    <div className="mt-6">
+                      <TokenManagement
+                        key={selectedToken.address}
+                        tokenAddress={selectedToken.address}
+                        type={selectedToken.type}
+                      />
+                    </div>
                   </>
                 )}
               </div>
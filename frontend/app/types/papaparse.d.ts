@@ -5,6 +5,15 @@ declare module "papaparse" {
     header?: boolean;
     dynamicTyping?: boolean;
     skipEmptyLines?: boolean;
+    // Streaming: called once per chunk of `chunkSize` bytes instead of collecting every row
+    chunk?: (results: ParseResult<any>, parser: Parser) => void;
+    chunkSize?: number;
+  }
+
+  export interface Parser {
+    abort(): void;
+    pause(): void;
+    resume(): void;
   }
 
   export interface ParseResult<T> {
@@ -21,6 +30,14 @@ declare module "papaparse" {
   }
 
   export function parse<T>(input: string, config?: ParseConfig): ParseResult<T>;
+  export function parse(input: File, config?: ParseConfig): void;
+
+  export interface UnparseObject {
+    fields: string[];
+    data: unknown[][];
+  }
+
+  export function unparse(data: unknown[] | UnparseObject): string;
 
   // Add other PapaParse functions and types as needed
 }
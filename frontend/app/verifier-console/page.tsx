@@ -0,0 +1,498 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useMerkleContracts } from "../../components/index";
+import { useTargetNetwork } from "../../hooks/core";
+import { hasFunction, unsupportedFeatureError } from "../../utils/contractHelpers";
+import { getErrorMessage } from "../../utils/errors";
+import {
+  SUBMIT_VERIFIED_PROOF_SIGNATURE,
+  VERIFIED_CLAIM_ABI,
+  VERIFIED_CLAIM_DOMAIN_NAME,
+  VERIFIED_CLAIM_DOMAIN_VERSION,
+  VERIFIED_CLAIM_TYPES,
+  SignedVerifiedClaim,
+  VerifiedClaimBundle,
+  parseVerifiedClaimBundle,
+  recoverVerifiedClaimSigner,
+  toSignedVerifiedClaim,
+  verifiedClaimDomain,
+} from "../../utils/verifiedClaims";
+import { ethers } from "ethers";
+import { saveAs } from "file-saver";
+import { toast } from "react-toastify";
+import { Address, Hex, parseEventLogs } from "viem";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+
+// Hours a new signature stays valid unless the verifier picks another window
+const DEFAULT_VALIDITY_HOURS = 24;
+
+type ClaimStatus = "ready" | "consumed" | "expired" | "nonce-mismatch" | "wrong-signer";
+
+interface ClaimRow {
+  claim: SignedVerifiedClaim;
+  status: ClaimStatus;
+  isKosVerified: boolean;
+}
+
+interface ClaimerLookup {
+  address: string;
+  isKosVerified: boolean;
+  nonce: bigint;
+}
+
+const STATUS_LABELS: Record<ClaimStatus, { label: string; className: string }> = {
+  ready: { label: "Ready to submit", className: "text-blue-300" },
+  consumed: { label: "Submitted", className: "text-green-400" },
+  expired: { label: "Expired", className: "text-yellow-400" },
+  "nonce-mismatch": { label: "Nonce mismatch", className: "text-yellow-400" },
+  "wrong-signer": { label: "Not signed by verifier", className: "text-red-400" },
+};
+
+const VerifierConsolePage = () => {
+  const { address: userAddress, isConnected } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient({ chainId: targetNetwork.id });
+  const { registry: registryContract } = useMerkleContracts();
+  const contractAddress = registryContract.address;
+  // Registries deployed before verified claims only have the old two-argument submitVerifiedProof
+  const supportsVerifiedClaims = hasFunction(registryContract.abi, SUBMIT_VERIFIED_PROOF_SIGNATURE);
+
+  const [trustedVerifier, setTrustedVerifier] = useState<string | null>(null);
+  const [claimerInput, setClaimerInput] = useState("");
+  const [validityHours, setValidityHours] = useState(String(DEFAULT_VALIDITY_HOURS));
+  const [bundle, setBundle] = useState<VerifiedClaimBundle | null>(null);
+  const [rows, setRows] = useState<ClaimRow[]>([]);
+  const [lookupAddress, setLookupAddress] = useState("");
+  const [lookup, setLookup] = useState<ClaimerLookup | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const isVerifier = !!userAddress && !!trustedVerifier && userAddress.toLowerCase() === trustedVerifier.toLowerCase();
+
+  const readClaimer = useCallback(
+    async (claimer: string) => {
+      if (!supportsVerifiedClaims) throw unsupportedFeatureError("MerkleProofX", "verified claims");
+      const [isKosVerified, nonce] = await Promise.all([
+        publicClient!.readContract({
+          address: contractAddress,
+          abi: registryContract.abi,
+          functionName: "isKosVerified",
+          args: [claimer as Address],
+        }) as Promise<boolean>,
+        publicClient!.readContract({
+          address: contractAddress,
+          abi: VERIFIED_CLAIM_ABI,
+          functionName: "nonces",
+          args: [claimer as Address],
+        }),
+      ]);
+      return { isKosVerified, nonce };
+    },
+    [publicClient, contractAddress, supportsVerifiedClaims],
+  );
+
+  useEffect(() => {
+    if (!publicClient) return;
+
+    publicClient
+      .readContract({ address: contractAddress, abi: registryContract.abi, functionName: "trustedVerifier" })
+      .then(verifier => setTrustedVerifier(verifier === ethers.ZeroAddress ? null : (verifier as string)))
+      .catch(error => console.error("Error reading trusted verifier:", error));
+  }, [publicClient, contractAddress]);
+
+  // Classify every claim of a bundle against the current nonces, deadlines and trusted verifier
+  const refreshRows = useCallback(
+    async (current: VerifiedClaimBundle) => {
+      if (!publicClient) return;
+
+      setIsRefreshing(true);
+      try {
+        const domain = verifiedClaimDomain(current.chainId, current.contract);
+        const now = BigInt(Math.floor(Date.now() / 1000));
+        const nextRows = await Promise.all(
+          current.claims.map(async (claim): Promise<ClaimRow> => {
+            const { isKosVerified, nonce } = await readClaimer(claim.claimer);
+            const claimNonce = BigInt(claim.nonce);
+
+            let status: ClaimStatus = "ready";
+            if (
+              !trustedVerifier ||
+              recoverVerifiedClaimSigner(domain, claim).toLowerCase() !== trustedVerifier.toLowerCase()
+            ) {
+              status = "wrong-signer";
+            } else if (nonce > claimNonce) {
+              status = "consumed";
+            } else if (nonce < claimNonce) {
+              status = "nonce-mismatch";
+            } else if (BigInt(claim.deadline) < now) {
+              status = "expired";
+            }
+
+            return { claim, status, isKosVerified };
+          }),
+        );
+        setRows(nextRows);
+      } catch (error) {
+        console.error("Error reading claim status:", error);
+        toast.error(getErrorMessage(error, "Failed to read claim status"));
+      } finally {
+        setIsRefreshing(false);
+      }
+    },
+    [publicClient, readClaimer, trustedVerifier],
+  );
+
+  useEffect(() => {
+    if (bundle) refreshRows(bundle);
+  }, [bundle, refreshRows]);
+
+  // Sign a VerifiedClaim for each pasted claimer at its current nonce; the wallet prompts once per claimer
+  const signClaims = async () => {
+    if (!publicClient || !walletClient || !userAddress) {
+      toast.error(`Please connect your wallet on ${targetNetwork.name}`);
+      return;
+    }
+    if (!isVerifier) {
+      toast.error("Only the trusted verifier's signatures are accepted by the contract");
+      return;
+    }
+
+    const pasted = claimerInput.split(/[\s,;]+/).filter(Boolean);
+    const invalid = pasted.filter(claimer => !ethers.isAddress(claimer));
+    if (invalid.length > 0) {
+      toast.error(`Invalid address: ${invalid[0]}`);
+      return;
+    }
+    const claimers = Array.from(new Set(pasted.map(claimer => ethers.getAddress(claimer))));
+    if (claimers.length === 0) {
+      toast.error("Paste at least one claimer address");
+      return;
+    }
+
+    const hours = Number(validityHours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      toast.error("Validity must be a positive number of hours");
+      return;
+    }
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + Math.round(hours * 3600));
+
+    setIsSigning(true);
+    try {
+      const claims: SignedVerifiedClaim[] = [];
+      for (const claimer of claimers) {
+        const { nonce } = await readClaimer(claimer);
+        const signature = await walletClient.signTypedData({
+          account: userAddress,
+          domain: {
+            name: VERIFIED_CLAIM_DOMAIN_NAME,
+            version: VERIFIED_CLAIM_DOMAIN_VERSION,
+            chainId: targetNetwork.id,
+            verifyingContract: contractAddress,
+          },
+          types: VERIFIED_CLAIM_TYPES,
+          primaryType: "VerifiedClaim",
+          message: { claimer: claimer as Address, nonce, deadline },
+        });
+        claims.push(toSignedVerifiedClaim({ claimer, nonce, deadline }, signature));
+      }
+
+      setBundle({ contract: contractAddress, chainId: targetNetwork.id, verifier: userAddress, claims });
+      toast.success(`Signed ${claims.length} claim${claims.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      console.error("Signing error:", error);
+      toast.error(getErrorMessage(error, "Signing failed"));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const exportBundle = () => {
+    if (!bundle) return;
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+    saveAs(blob, `verified-claims-${Date.now()}.json`);
+  };
+
+  const handleBundleUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = e => {
+      try {
+        const content = parseVerifiedClaimBundle(JSON.parse(e.target?.result as string));
+        if (content.chainId !== targetNetwork.id || content.contract.toLowerCase() !== contractAddress.toLowerCase()) {
+          toast.error(`These signatures were made for another deployment (chain ${content.chainId})`);
+          return;
+        }
+
+        setBundle(content);
+        toast.success(`Loaded ${content.claims.length} signed claims`);
+      } catch (error) {
+        console.error("Error loading signatures:", error);
+        toast.error(`Error loading signatures: ${error instanceof Error ? error.message : "Invalid file"}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  // Submit every ready claim with submitVerifiedProof; anyone can relay a verifier signature
+  const submitClaims = async () => {
+    if (!publicClient || !walletClient || !userAddress || !bundle) {
+      toast.error(`Please connect your wallet on ${targetNetwork.name}`);
+      return;
+    }
+
+    if (!supportsVerifiedClaims) {
+      toast.error(unsupportedFeatureError("MerkleProofX", "verified claims").message);
+      return;
+    }
+
+    const ready = rows.filter(row => row.status === "ready");
+    if (ready.length === 0) {
+      toast.info("No claims are ready to submit");
+      return;
+    }
+
+    setIsSubmitting(true);
+    let verified = 0;
+    try {
+      for (const { claim } of ready) {
+        const { request, result } = await publicClient.simulateContract({
+          address: contractAddress,
+          abi: VERIFIED_CLAIM_ABI,
+          functionName: "submitVerifiedProof",
+          args: [claim.claimer as Address, BigInt(claim.deadline), claim.signature as Hex],
+          account: userAddress,
+        });
+        if (!result) {
+          toast.error(`Signature for ${claim.claimer.slice(0, 10)}... was rejected`);
+          continue;
+        }
+
+        const hash = await walletClient.writeContract(request);
+        toast.info(`Transaction sent: ${hash.slice(0, 10)}...`);
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        const events = parseEventLogs({
+          abi: VERIFIED_CLAIM_ABI,
+          eventName: "ClaimerVerified",
+          logs: receipt.logs,
+        });
+        if (events.length > 0) verified++;
+      }
+
+      toast.success(`Verified ${verified} of ${ready.length} claimers`);
+    } catch (error) {
+      console.error("Submission error:", error);
+      toast.error(getErrorMessage(error, "Submission failed"));
+    } finally {
+      setIsSubmitting(false);
+      refreshRows(bundle);
+    }
+  };
+
+  const handleLookup = async () => {
+    if (!publicClient) return;
+    if (!ethers.isAddress(lookupAddress.trim())) {
+      toast.error("Enter a valid address");
+      return;
+    }
+
+    try {
+      const address = ethers.getAddress(lookupAddress.trim());
+      setLookup({ address, ...(await readClaimer(address)) });
+    } catch (error) {
+      console.error("Lookup error:", error);
+      toast.error(getErrorMessage(error, "Lookup failed"));
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-[#121d33] text-white flex items-center justify-center">
+        <p className="text-gray-300">Connect your wallet to use the verifier console.</p>
+      </div>
+    );
+  }
+
+  const readyCount = rows.filter(row => row.status === "ready").length;
+
+  return (
+    <div className="min-h-screen bg-[#121d33] text-white">
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-4 text-white">Verifier Console</h1>
+          <p className="text-xl text-gray-300">
+            Sign EIP-712 claims as the trusted verifier, export them and submit them to mark claimers as verified
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          {/* Verifier status */}
+          <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] text-sm text-gray-300 space-y-2">
+            <p className="break-all">
+              <span className="font-medium">Registry:</span> {contractAddress}
+            </p>
+            <p className="break-all">
+              <span className="font-medium">Trusted Verifier:</span> {trustedVerifier ?? "Not set"}
+            </p>
+            <p className={isVerifier ? "text-green-400" : "text-yellow-400"}>
+              {isVerifier
+                ? "Your wallet is the trusted verifier and can sign claims."
+                : "Your wallet is not the trusted verifier: you can submit and check signatures, but not sign new ones."}
+            </p>
+            {!supportsVerifiedClaims && (
+              <p className="text-yellow-400">{unsupportedFeatureError("MerkleProofX", "verified claims").message}</p>
+            )}
+          </div>
+
+          {/* Sign claims */}
+          <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54]">
+            <h2 className="text-2xl font-bold mb-4 text-white">Sign Claims</h2>
+            <textarea
+              value={claimerInput}
+              onChange={e => setClaimerInput(e.target.value)}
+              placeholder="Paste claimer addresses separated by commas, spaces or new lines"
+              rows={6}
+              className="w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white font-mono placeholder-gray-400 focus:outline-none focus:border-purple-500"
+            />
+            <div className="flex flex-wrap items-end gap-4 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Valid for (hours)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={validityHours}
+                  onChange={e => setValidityHours(e.target.value)}
+                  className="w-32 px-4 py-2 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white focus:outline-none focus:border-purple-500"
+                />
+              </div>
+              <button
+                onClick={signClaims}
+                disabled={isSigning || !isVerifier || !supportsVerifiedClaims || !claimerInput.trim()}
+                className="px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSigning ? "Signing..." : "Sign Claims"}
+              </button>
+            </div>
+            <p className="text-sm text-gray-400 mt-2">
+              Each signature covers the claimer, its current nonce and the expiry, so it can be used once and only until
+              the deadline.
+            </p>
+          </div>
+
+          {/* Signed claims */}
+          <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54]">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+              <h2 className="text-2xl font-bold text-white">Signed Claims</h2>
+              <div className="flex flex-wrap gap-2">
+                <label className="px-4 py-2 bg-[#0f1a2e] hover:bg-[#243552] border border-[#2a3b54] rounded-lg text-sm cursor-pointer">
+                  Load Signatures
+                  <input type="file" accept=".json" onChange={handleBundleUpload} className="hidden" />
+                </label>
+                <button
+                  onClick={exportBundle}
+                  disabled={!bundle}
+                  className="px-4 py-2 bg-[#0f1a2e] hover:bg-[#243552] border border-[#2a3b54] rounded-lg text-sm disabled:opacity-50"
+                >
+                  Export JSON
+                </button>
+                <button
+                  onClick={() => bundle && refreshRows(bundle)}
+                  disabled={!bundle || isRefreshing}
+                  className="flex items-center gap-2 px-4 py-2 bg-[#0f1a2e] hover:bg-[#243552] border border-[#2a3b54] rounded-lg text-sm disabled:opacity-50"
+                >
+                  <ArrowPathIcon className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+                  Refresh
+                </button>
+                <button
+                  onClick={submitClaims}
+                  disabled={isSubmitting || !supportsVerifiedClaims || readyCount === 0}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? "Submitting..." : `Submit ${readyCount} Ready`}
+                </button>
+              </div>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-400">Sign claims above or load a signature file exported earlier.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="p-2">Claimer</th>
+                      <th className="p-2">Nonce</th>
+                      <th className="p-2">Expires</th>
+                      <th className="p-2">Signature</th>
+                      <th className="p-2 text-right">Verified</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={`${row.claim.claimer}:${row.claim.nonce}`} className="border-t border-gray-700">
+                        <td className="p-2 font-mono text-gray-300 break-all">{row.claim.claimer}</td>
+                        <td className="p-2 text-gray-300">{row.claim.nonce}</td>
+                        <td className="p-2 text-gray-300">
+                          {new Date(Number(row.claim.deadline) * 1000).toLocaleString()}
+                        </td>
+                        <td className={`p-2 ${STATUS_LABELS[row.status].className}`}>
+                          {STATUS_LABELS[row.status].label}
+                        </td>
+                        <td className={`p-2 text-right ${row.isKosVerified ? "text-green-400" : "text-gray-400"}`}>
+                          {row.isKosVerified ? "Yes" : "No"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Status lookup */}
+          <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54]">
+            <h2 className="text-2xl font-bold mb-4 text-white">Check Verification Status</h2>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={lookupAddress}
+                onChange={e => setLookupAddress(e.target.value)}
+                placeholder="0x..."
+                className="flex-1 px-4 py-2 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white font-mono placeholder-gray-400 focus:outline-none focus:border-purple-500"
+              />
+              <button onClick={handleLookup} className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg">
+                Check
+              </button>
+            </div>
+            {lookup && (
+              <div className="mt-4 text-sm text-gray-300 space-y-1">
+                <p className="break-all">
+                  <span className="font-medium">Address:</span> {lookup.address}
+                </p>
+                <p>
+                  <span className="font-medium">isKosVerified:</span>{" "}
+                  <span className={lookup.isKosVerified ? "text-green-400" : "text-red-400"}>
+                    {lookup.isKosVerified ? "Verified" : "Not verified"}
+                  </span>
+                </p>
+                <p>
+                  <span className="font-medium">Next Nonce:</span> {lookup.nonce.toString()}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifierConsolePage;
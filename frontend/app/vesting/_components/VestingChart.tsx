@@ -0,0 +1,102 @@
+"use client";
+
+import { VestingRelease, VestingSchedule, releasedAt } from "../../../utils/vesting";
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = 12;
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+/**
+ * Timeline of the amount vested against the amount released, from the start of the schedule until it ends or
+ * the last release, with today marked
+ */
+export const VestingChart = ({
+  schedule,
+  releases,
+  now,
+}: {
+  schedule: VestingSchedule;
+  releases: VestingRelease[];
+  // Unix seconds
+  now: number;
+}) => {
+  const end = schedule.startTime + schedule.duration;
+  const lastRelease = releases.length > 0 ? releases[releases.length - 1].timestamp : 0;
+  const from = schedule.startTime;
+  const to = Math.max(end, lastRelease, from + 1);
+
+  const x = (timestamp: number) => PADDING + ((timestamp - from) / (to - from)) * (WIDTH - 2 * PADDING);
+  const y = (amount: bigint) => {
+    const share = schedule.totalAmount === 0n ? 0 : Number((amount * 10000n) / schedule.totalAmount) / 10000;
+    return HEIGHT - PADDING - share * (HEIGHT - 2 * PADDING);
+  };
+
+  const vestedPoints = [
+    [x(from), y(0n)],
+    [x(end), y(schedule.totalAmount)],
+    [x(to), y(schedule.totalAmount)],
+  ];
+
+  // Released tokens step up at each release, and the line stops today
+  const releasedUntil = Math.min(Math.max(now, from), to);
+  const releasedPoints = [[x(from), y(0n)]];
+  for (const release of releases) {
+    const before = releasedAt(releases, release.timestamp - 1);
+    releasedPoints.push(
+      [x(release.timestamp), y(before)],
+      [x(release.timestamp), y(releasedAt(releases, release.timestamp))],
+    );
+  }
+  releasedPoints.push([x(releasedUntil), y(releasedAt(releases, releasedUntil))]);
+
+  const toPath = (points: number[][]) => points.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(" ");
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-[#0f1a2e] rounded-lg">
+        {[0.25, 0.5, 0.75, 1].map(share => (
+          <line
+            key={share}
+            x1={PADDING}
+            x2={WIDTH - PADDING}
+            y1={HEIGHT - PADDING - share * (HEIGHT - 2 * PADDING)}
+            y2={HEIGHT - PADDING - share * (HEIGHT - 2 * PADDING)}
+            className="stroke-[#2a3b54]"
+            strokeDasharray="4 4"
+          />
+        ))}
+        <polyline points={toPath(vestedPoints)} fill="none" className="stroke-blue-400" strokeWidth={2} />
+        <polyline points={toPath(releasedPoints)} fill="none" className="stroke-emerald-400" strokeWidth={2} />
+        {now > from && now < to && (
+          <line
+            x1={x(now)}
+            x2={x(now)}
+            y1={PADDING}
+            y2={HEIGHT - PADDING}
+            className="stroke-yellow-400"
+            strokeDasharray="2 3"
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{formatDate(from)}</span>
+        <span>{formatDate(to)}</span>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-300">
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-0.5 bg-blue-400" /> Vested
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-3 h-0.5 bg-emerald-400" /> Released
+        </span>
+        {now > from && now < to && (
+          <span className="flex items-center gap-2">
+            <span className="w-3 h-0.5 bg-yellow-400" /> Today
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
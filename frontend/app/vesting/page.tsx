@@ -0,0 +1,261 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useBeneficiaryVestings } from "../../hooks/useBeneficiaryVestings";
+import { useContractRegistry } from "../../hooks/useContractRegistry";
+import { useVestingContract } from "../../hooks/useVestingContract";
+import { getErrorMessage } from "../../utils/errors";
+import {
+  BASIC_VESTING_ABI,
+  getVestingPagePath,
+  getVestingScheduleFileName,
+  vestingScheduleToCsv,
+} from "../../utils/vesting";
+import { VestingChart } from "./_components/VestingChart";
+import { ethers } from "ethers";
+import { saveAs } from "file-saver";
+import { toast } from "react-toastify";
+import { useAccount } from "wagmi";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+
+const INPUT_CLASS =
+  "w-full px-4 py-3 bg-[#0f1a2e] border border-[#2a3b54] rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 transition-colors";
+const BUTTON_CLASS =
+  "px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const SECONDARY_BUTTON_CLASS =
+  "px-6 py-3 bg-[#0f1a2e] hover:bg-[#1a2332] text-gray-300 hover:text-white font-medium rounded-lg border border-[#2a3b54] transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+/**
+ * Beneficiary view of a BasicVesting contract deployed from the contract templates, chosen with the ?address=
+ * query parameter so the page works in the static IPFS export
+ */
+const VestingDashboard = () => {
+  const router = useRouter();
+  const vesting = useSearchParams().get("address") ?? "";
+  const { address } = useAccount();
+  const { blockExplorer } = useContractRegistry();
+  const { state, isLoading, error, refresh } = useVestingContract(vesting);
+  const discovered = useBeneficiaryVestings();
+
+  const [addressInput, setAddressInput] = useState(vesting);
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  const openVesting = (contract: string) => {
+    setAddressInput(contract);
+    router.push(getVestingPagePath(contract));
+  };
+
+  const handleRelease = async () => {
+    setIsReleasing(true);
+    try {
+      if (!window.ethereum) throw new Error("MetaMask or wallet provider not found");
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const contract = new ethers.Contract(vesting, BASIC_VESTING_ABI, await provider.getSigner());
+      const tx = await contract.release();
+      toast.info(`Transaction sent: ${tx.hash.slice(0, 10)}...`);
+
+      const receipt = await tx.wait();
+      if (receipt?.status === 1) {
+        toast.success("Tokens released");
+        await refresh();
+      } else {
+        toast.error("Release failed");
+      }
+    } catch (err) {
+      console.error("Release error:", err);
+      toast.error(getErrorMessage(err, "Release failed"));
+    } finally {
+      setIsReleasing(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!state) return;
+    const csv = vestingScheduleToCsv(state, state.releases, state.decimals);
+    saveAs(new Blob([csv], { type: "text/csv;charset=utf-8" }), getVestingScheduleFileName(vesting));
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const format = (amount: bigint) => `${ethers.formatUnits(amount, state?.decimals ?? 18)} ${state?.symbol ?? ""}`;
+  const isBeneficiary = !!state && state.beneficiary.toLowerCase() === address?.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-[#121d33] text-white">
+      <div className="max-w-5xl mx-auto px-4 py-12">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl font-bold mb-4 text-white">Token Vesting</h1>
+          <p className="text-xl text-gray-300">Follow and release the tokens vesting to you</p>
+        </div>
+
+        <div className="space-y-8">
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              if (!ethers.isAddress(addressInput.trim())) {
+                toast.error("Enter a valid vesting contract address");
+                return;
+              }
+              openVesting(ethers.getAddress(addressInput.trim()));
+            }}
+            className="flex gap-3"
+          >
+            <input
+              type="text"
+              value={addressInput}
+              onChange={e => setAddressInput(e.target.value)}
+              placeholder="Vesting contract address (0x...)"
+              className={`${INPUT_CLASS} font-mono`}
+            />
+            <button type="submit" className={BUTTON_CLASS}>
+              Open
+            </button>
+            {state && (
+              <button
+                type="button"
+                onClick={refresh}
+                disabled={isLoading}
+                className="p-3 rounded-lg transition-colors bg-[#1c2941] text-gray-400 hover:bg-[#1a2332] hover:text-white disabled:opacity-50"
+                title="Refresh vesting"
+              >
+                <ArrowPathIcon className={`h-5 w-5 ${isLoading ? "animate-spin" : ""}`} />
+              </button>
+            )}
+          </form>
+
+          <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-3">
+            <h2 className="text-xl font-bold text-white">Your Vesting Contracts</h2>
+            {discovered.error && <p className="text-sm text-red-400">{discovered.error}</p>}
+            {discovered.isLoading && <p className="text-sm text-gray-400">Searching deployment events...</p>}
+            {!discovered.isLoading && !discovered.error && discovered.vestings.length === 0 && (
+              <p className="text-sm text-gray-400">
+                No vesting contract was deployed for the connected wallet. Paste a contract address above instead.
+              </p>
+            )}
+            <ul className="space-y-2">
+              {discovered.vestings.map(entry => (
+                <li key={entry.address}>
+                  <button
+                    onClick={() => openVesting(entry.address)}
+                    className={`w-full flex justify-between items-center px-4 py-2 rounded-lg text-sm transition-colors ${
+                      entry.address.toLowerCase() === vesting.toLowerCase()
+                        ? "bg-blue-600 text-white"
+                        : "bg-[#0f1a2e] text-gray-300 hover:text-white"
+                    }`}
+                  >
+                    <span className="font-mono break-all">{entry.address}</span>
+                    <span className="text-xs">block {entry.blockNumber.toString()}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {error && <p className="text-center text-red-400">{error}</p>}
+          {isLoading && !state && <p className="text-center text-gray-400">Loading vesting contract...</p>}
+
+          {state && (
+            <>
+              <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Total</div>
+                  <div className="text-white">{format(state.totalAmount)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Vested</div>
+                  <div className="text-white">{format(state.vestedAmount)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Released</div>
+                  <div className="text-white">{format(state.released)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Start</div>
+                  <div className="text-white">{formatDate(state.startTime)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">End</div>
+                  <div className="text-white">{formatDate(state.startTime + state.duration)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Releasable now</div>
+                  <div className="text-emerald-400 font-medium">{format(state.releasable)}</div>
+                </div>
+                <div className="md:col-span-3">
+                  <div className="text-sm text-gray-400 mb-1">Beneficiary</div>
+                  <div className="text-white font-mono text-sm break-all">
+                    {state.beneficiary}
+                    {isBeneficiary && <span className="ml-2 font-sans text-xs text-blue-300">(you)</span>}
+                  </div>
+                </div>
+                <div className="md:col-span-3">
+                  <div className="text-sm text-gray-400 mb-1">Token</div>
+                  <div className="text-white font-mono text-sm break-all">{state.token}</div>
+                </div>
+              </div>
+
+              <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-4">
+                <h2 className="text-xl font-bold text-white">Schedule</h2>
+                <VestingChart schedule={state} releases={state.releases} now={now} />
+                <div className="flex flex-wrap gap-3">
+                  {/* Anyone may call release, the tokens always go to the beneficiary */}
+                  <button
+                    onClick={handleRelease}
+                    disabled={isReleasing || state.releasable === 0n || !address}
+                    className={BUTTON_CLASS}
+                  >
+                    {isReleasing ? "Releasing..." : `Release ${format(state.releasable)}`}
+                  </button>
+                  <button onClick={handleExport} className={SECONDARY_BUTTON_CLASS}>
+                    Export CSV
+                  </button>
+                </div>
+                {!isBeneficiary && (
+                  <p className="text-xs text-gray-400">Released tokens are sent to the beneficiary, not the caller.</p>
+                )}
+              </div>
+
+              <div className="bg-[#1c2941] p-6 rounded-xl border border-[#2a3b54] space-y-3">
+                <h2 className="text-xl font-bold text-white">Releases</h2>
+                {state.releases.length === 0 && <p className="text-sm text-gray-400">Nothing released yet.</p>}
+                <ul className="space-y-2">
+                  {[...state.releases].reverse().map(release => (
+                    <li
+                      key={release.transactionHash}
+                      className="flex flex-wrap justify-between gap-2 text-sm bg-[#0f1a2e] rounded-lg px-4 py-2"
+                    >
+                      <span className="text-white">{format(release.amount)}</span>
+                      <span className="text-gray-400">{formatDate(release.timestamp)}</span>
+                      {blockExplorer ? (
+                        <a
+                          href={`${blockExplorer}/tx/${release.transactionHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-blue-300 hover:underline"
+                        >
+                          {release.transactionHash.slice(0, 10)}...
+                        </a>
+                      ) : (
+                        <span className="font-mono text-gray-400">{release.transactionHash.slice(0, 10)}...</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const VestingPage = () => (
+  <Suspense>
+    <VestingDashboard />
+  </Suspense>
+);
+
+export default VestingPage;
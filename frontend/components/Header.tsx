@@ -21,10 +21,14 @@ export const Header = () => {
     if (
       (pathname === "/merkle-proof-generator" ||
         pathname === "/merkle-validator" ||
+        pathname === "/merkle-roots" ||
+        pathname === "/verifier-console" ||
         pathname === "/token-factory" ||
         pathname === "/defi-utils" ||
         pathname === "/contract-analyzer" ||
-        pathname === "/contract-templates") &&
+        pathname === "/contract-templates" ||
+        pathname === "/multisig" ||
+        pathname === "/vesting") &&
       !isConnected
     ) {
       notification.error("Please connect your wallet to access this feature");
@@ -131,6 +135,15 @@ export const Header = () => {
               Proof Generator
             </button>
           </li>
+          <li>
+            <button
+              className={`px-4 py-2 rounded-lg text-sm transition-colors text-left ${isActive("/merkle-roots")} ${!isConnected ? "opacity-50 cursor-not-allowed" : ""}`}
+              onClick={e => handleProtectedNavigation(e, "/merkle-roots")}
+              disabled={!isConnected}
+            >
+              My Roots
+            </button>
+          </li>
         </ul>
       </div>
 
@@ -152,7 +165,9 @@ export const Header = () => {
                         ? "Merkle Validator"
                         : pathname === "/merkle-proof-generator"
                           ? "Proof Generator"
-                          : "Menu"}
+                          : pathname === "/merkle-roots"
+                            ? "My Roots"
+                            : "Menu"}
             <svg className="h-5 w-5 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
             </svg>
@@ -212,6 +227,15 @@ export const Header = () => {
                 Proof Generator
               </button>
             </li>
+            <li className={!isConnected ? "disabled opacity-50" : ""}>
+              <button
+                className={`${pathname === "/merkle-roots" ? "bg-purple-900/40 text-white" : "text-gray-200"}`}
+                onClick={e => handleProtectedNavigation(e, "/merkle-roots")}
+                disabled={!isConnected}
+              >
+                My Roots
+              </button>
+            </li>
           </ul>
         </div>
       </div>
@@ -0,0 +1,350 @@
+import React, { useEffect, useState } from "react";
+import { useMerkleContracts } from "../components/index";
+import { useTargetNetwork } from "../hooks/core";
+import { hasFunction, unsupportedFeatureError } from "../utils/contractHelpers";
+import { MerkleTreeLike, MultiProof, generateMultiProofs } from "../utils/Merkle";
+import { MerkleProofExport, loadProofExportTree } from "../utils/merkleExport";
+import { LEAF_ENCODINGS } from "../utils/merkleLeaf";
+import { ethers } from "ethers";
+import { toast } from "react-toastify";
+import { Hex, parseAbi, parseEventLogs } from "viem";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+
+// Multiproof functions of MerkleProofValidator. Validators deployed before them lack these, see hasFunction.
+const MULTIPROOF_ABI = parseAbi([
+  "function validateMultiProof(bytes32 merkleRoot, bytes32[] proof, bool[] proofFlags, bytes32[] leaves) returns (bool)",
+  "function validateMultiProofView(bytes32 merkleRoot, bytes32[] proof, bool[] proofFlags, bytes32[] leaves) view returns (bool)",
+  "event MultiProofValidated(bytes32 indexed merkleRoot, address indexed user, uint256 leafCount, bool isValid)",
+]);
+
+const VALIDATE_MULTIPROOF_SIGNATURE = "validateMultiProof(bytes32,bytes32[],bool[],bytes32[])";
+
+type BatchStatus = "valid" | "invalid" | "not-listed" | "bad-address";
+
+interface BatchResult {
+  address: string;
+  status: BatchStatus;
+}
+
+const STATUS_LABELS: Record<BatchStatus, { label: string; className: string }> = {
+  valid: { label: "Valid", className: "text-green-400" },
+  invalid: { label: "Invalid proof", className: "text-red-400" },
+  "not-listed": { label: "Not in list", className: "text-yellow-400" },
+  "bad-address": { label: "Invalid address", className: "text-gray-400" },
+};
+
+/**
+ * Batch check mode of the validator: verifies many addresses of a proof export with OpenZeppelin multiproofs,
+ * so a whole list costs one view call or transaction instead of one per address
+ */
+export const MerkleBatchValidator = () => {
+  const [proofExport, setProofExport] = useState<MerkleProofExport | null>(null);
+  const [tree, setTree] = useState<MerkleTreeLike | null>(null);
+  const [addressInput, setAddressInput] = useState("");
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [isRootActive, setIsRootActive] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+
+  const { address: userAddress, isConnected } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient({ chainId: targetNetwork.id });
+  const { validator: validatorContract } = useMerkleContracts();
+  const contractAddress = validatorContract.address;
+  const merkleRoot = proofExport?.merkleRoot as Hex | undefined;
+  const supportsMultiProofs = hasFunction(validatorContract.abi, VALIDATE_MULTIPROOF_SIGNATURE);
+
+  // validateMultiProof reverts unless the root is registered and active
+  useEffect(() => {
+    if (!publicClient || !merkleRoot) {
+      setIsRootActive(false);
+      return;
+    }
+
+    publicClient
+      .readContract({
+        address: contractAddress,
+        abi: validatorContract.abi,
+        functionName: "getValidationStats",
+        args: [merkleRoot],
+      })
+      .then(stats => setIsRootActive((stats as [string, string, bigint, bigint, boolean])[4]))
+      .catch(error => {
+        console.error("Error checking registration:", error);
+        setIsRootActive(false);
+      });
+  }, [merkleRoot, publicClient, contractAddress]);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = e => {
+      try {
+        const content = JSON.parse(e.target?.result as string);
+        if (!content.merkleRoot || !content.proofs || !content.tree) {
+          toast.error("Upload the JSON proof export from the generator's Bulk Export section");
+          return;
+        }
+
+        setTree(loadProofExportTree(content));
+        setProofExport(content);
+        setResults([]);
+        toast.success(`Loaded ${content.count} proofs for root ${content.merkleRoot.slice(0, 10)}...`);
+      } catch (error) {
+        console.error("Error loading proof export:", error);
+        toast.error(`Error loading proof export: ${error instanceof Error ? error.message : "Invalid file"}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  // Split the pasted addresses into per-address results and the leaves that need a multiproof
+  const prepareBatch = () => {
+    if (!proofExport || !tree) {
+      toast.error("Upload a proof export first");
+      return null;
+    }
+
+    // Dedupe case-insensitively so each leaf belongs to a single row
+    const pasted = addressInput.split(/[\s,;]+/).filter(Boolean);
+    const addresses = Array.from(new Map(pasted.map(address => [address.toLowerCase(), address])).values());
+    if (addresses.length === 0) {
+      toast.error("Paste at least one address");
+      return null;
+    }
+
+    const batch: BatchResult[] = [];
+    const leafOwners = new Map<string, number>();
+    for (const address of addresses) {
+      if (!ethers.isAddress(address)) {
+        batch.push({ address, status: "bad-address" });
+        continue;
+      }
+
+      const record = proofExport.proofs[ethers.getAddress(address)];
+      if (!record) {
+        batch.push({ address, status: "not-listed" });
+        continue;
+      }
+
+      leafOwners.set(record.leaf.toLowerCase(), batch.length);
+      batch.push({ address, status: "invalid" });
+    }
+
+    const leaves = Array.from(leafOwners.keys());
+    const multiProofs = leaves.length > 0 ? generateMultiProofs(tree, leaves) : [];
+    return { batch, leafOwners, multiProofs };
+  };
+
+  // Mark every address covered by a multiproof with the contract's answer for it
+  const applyResult = (
+    batch: BatchResult[],
+    leafOwners: Map<string, number>,
+    multiProof: MultiProof,
+    isValid: boolean,
+  ) => {
+    for (const leaf of multiProof.leaves) {
+      const index = leafOwners.get(leaf.toLowerCase());
+      if (index !== undefined) batch[index].status = isValid ? "valid" : "invalid";
+    }
+  };
+
+  const checkBatch = async () => {
+    if (!publicClient || !merkleRoot) return;
+    if (!supportsMultiProofs) {
+      toast.error(unsupportedFeatureError("MerkleProofValidator", "multiproofs").message);
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      const prepared = prepareBatch();
+      if (!prepared) return;
+
+      const { batch, leafOwners, multiProofs } = prepared;
+      for (const multiProof of multiProofs) {
+        const isValid = await publicClient.readContract({
+          address: contractAddress,
+          abi: MULTIPROOF_ABI,
+          functionName: "validateMultiProofView",
+          args: [merkleRoot, multiProof.proof as Hex[], multiProof.proofFlags, multiProof.leaves as Hex[]],
+        });
+        applyResult(batch, leafOwners, multiProof, isValid);
+      }
+
+      setResults(batch);
+      toast.success(
+        `Checked ${batch.length} addresses with ${multiProofs.length} multiproof call${multiProofs.length === 1 ? "" : "s"}`,
+      );
+    } catch (error) {
+      console.error("Batch check error:", error);
+      toast.error(`Batch check failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Record the batch with validateMultiProof: one transaction per multiproof, each emitting MultiProofValidated
+  const recordBatch = async () => {
+    if (!publicClient || !walletClient || !userAddress || !merkleRoot) {
+      toast.error(`Please connect your wallet on ${targetNetwork.name}`);
+      return;
+    }
+    if (!supportsMultiProofs) {
+      toast.error(unsupportedFeatureError("MerkleProofValidator", "multiproofs").message);
+      return;
+    }
+    if (!isRootActive) {
+      toast.error("Register this Merkle root (and keep it active) before recording validations");
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      const prepared = prepareBatch();
+      if (!prepared) return;
+
+      const { batch, leafOwners, multiProofs } = prepared;
+      for (const multiProof of multiProofs) {
+        const { request } = await publicClient.simulateContract({
+          address: contractAddress,
+          abi: MULTIPROOF_ABI,
+          functionName: "validateMultiProof",
+          args: [merkleRoot, multiProof.proof as Hex[], multiProof.proofFlags, multiProof.leaves as Hex[]],
+          account: userAddress,
+        });
+        const hash = await walletClient.writeContract(request);
+        toast.info(`Transaction sent: ${hash.slice(0, 10)}...`);
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        const [event] = parseEventLogs({
+          abi: MULTIPROOF_ABI,
+          eventName: "MultiProofValidated",
+          logs: receipt.logs,
+        });
+        applyResult(batch, leafOwners, multiProof, event?.args.isValid ?? false);
+      }
+
+      setResults(batch);
+      toast.success(`Recorded ${leafOwners.size} validations on-chain`);
+    } catch (error) {
+      console.error("Batch recording error:", error);
+      toast.error(`Recording failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const validCount = results.filter(result => result.status === "valid").length;
+
+  return (
+    <div className="space-y-6">
+      {/* Proof Export Upload */}
+      <div className="rounded-lg p-6 bg-[#1c2941]">
+        <h3 className="text-lg font-semibold mb-4 text-white">Proof Export</h3>
+        <input
+          type="file"
+          accept=".json"
+          onChange={handleFileUpload}
+          className="block w-full text-sm text-gray-400
+            file:mr-4 file:py-2 file:px-4
+            file:rounded-full file:border-0
+            file:text-sm file:font-semibold
+            file:bg-purple-900/30 file:text-purple-300
+            hover:file:bg-purple-900/40"
+        />
+        <p className="text-sm text-gray-400 mt-2">
+          Use the JSON file from the generator&apos;s Bulk Export; the full tree is needed to build multiproofs.
+        </p>
+
+        {proofExport && (
+          <div className="mt-4 text-sm text-gray-300 space-y-1">
+            <p className="break-all">
+              <span className="font-medium">Merkle Root:</span> {proofExport.merkleRoot}
+            </p>
+            <p>
+              <span className="font-medium">Leaf Encoding:</span> {LEAF_ENCODINGS[proofExport.leafEncoding].label}
+            </p>
+            <p>
+              <span className="font-medium">Addresses:</span> {proofExport.count}
+            </p>
+            <p>
+              <span className="font-medium">On-chain Status:</span>{" "}
+              {isRootActive ? "Registered and active" : "Not registered or inactive"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Addresses */}
+      <div className="rounded-lg p-6 bg-[#1c2941]">
+        <h3 className="text-lg font-semibold mb-4 text-white">Addresses to Check</h3>
+        <textarea
+          value={addressInput}
+          onChange={e => setAddressInput(e.target.value)}
+          placeholder="Paste addresses separated by commas, spaces or new lines"
+          className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white font-mono"
+          rows={8}
+        />
+      </div>
+
+      {!supportsMultiProofs && (
+        <p className="text-center text-sm text-yellow-400">
+          {unsupportedFeatureError("MerkleProofValidator", "multiproofs").message}
+        </p>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-4">
+        <button
+          onClick={checkBatch}
+          disabled={isChecking || !supportsMultiProofs || !proofExport || !addressInput.trim()}
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? "Checking..." : "Check Batch (no gas)"}
+        </button>
+        {isConnected && (
+          <button
+            onClick={recordBatch}
+            disabled={isRecording || !supportsMultiProofs || !proofExport || !addressInput.trim()}
+            className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRecording ? "Recording..." : "Record Batch On-Chain"}
+          </button>
+        )}
+      </div>
+
+      {/* Per-address Results */}
+      {results.length > 0 && (
+        <div className="rounded-lg p-6 bg-[#1c2941]">
+          <h3 className="text-lg font-semibold mb-4 text-white">
+            Results ({validCount} of {results.length} valid)
+          </h3>
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="p-2">Address</th>
+                  <th className="p-2 text-right">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.address} className="border-t border-gray-700">
+                    <td className="p-2 font-mono text-gray-300 break-all">{result.address}</td>
+                    <td className={`p-2 text-right ${STATUS_LABELS[result.status].className}`}>
+                      {STATUS_LABELS[result.status].label}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,12 +2,23 @@
 
 /* eslint-disable react/no-unescaped-entities */
 import React, { useCallback, useEffect, useState } from "react";
-import { MerkleVerifierContract } from "../components/index";
+import { MerkleBatchValidator } from "../components/MerkleBatchValidator";
+import { useMerkleContracts } from "../components/index";
+import { useTargetNetwork } from "../hooks/core";
+import { useMerkleWorker } from "../hooks/useMerkleWorker";
+import {
+  DEFAULT_LEAF_ENCODING,
+  LEAF_ENCODINGS,
+  LeafEncoding,
+  MerkleEntry,
+  encodeLeaf,
+  isLeafEncoding,
+} from "../utils/merkleLeaf";
 import { ethers } from "ethers";
 import { toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
-import { createPublicClient, http } from "viem";
-import { useAccount, useWalletClient } from "wagmi";
+import { Hex, parseEventLogs } from "viem";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { CodeBracketIcon, DocumentCheckIcon } from "@heroicons/react/24/outline";
 
 // Define TypeScript interface for tree info
@@ -19,43 +30,60 @@ interface TreeInfo {
   isActive: boolean;
 }
 
+type ValidatorMode = "single" | "batch";
+
+// ProofValidated event emitted by a recorded validateProof call
+interface ProofValidatedEvent {
+  merkleRoot: string;
+  user: string;
+  isValid: boolean;
+  txHash: string;
+  blockNumber: bigint;
+}
+
 const MerkleValidator: React.FC = () => {
   // UI states
+  const [validatorMode, setValidatorMode] = useState<ValidatorMode>("single");
   const [merkleRoot, setMerkleRoot] = useState<string>("");
   const [address, setAddress] = useState<string>("");
   const [proof, setProof] = useState<string>("");
+  const [leafEncoding, setLeafEncoding] = useState<LeafEncoding>(DEFAULT_LEAF_ENCODING);
+  const [amount, setAmount] = useState<string>("");
+  const [claimIndex, setClaimIndex] = useState<string>("");
   const [isValidating, setIsValidating] = useState<boolean>(false);
+  const [isViewValidating, setIsViewValidating] = useState<boolean>(false);
   const [isOnChainValidating, setIsOnChainValidating] = useState<boolean>(false);
+  const [proofEvent, setProofEvent] = useState<ProofValidatedEvent | null>(null);
   const [validationResult, setValidationResult] = useState<string | null>(null);
   const [resultColor, setResultColor] = useState<string>("");
 
+  const { run: runMerkleJob } = useMerkleWorker();
+
   // Contract states
   const [isRegistered, setIsRegistered] = useState<boolean>(false);
   const [treeInfo, setTreeInfo] = useState<TreeInfo | null>(null);
 
   // Wagmi hooks
-  const { address: userAddress, isConnected, chain } = useAccount();
-  const { data: walletClient } = useWalletClient();
+  const { address: userAddress, isConnected } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  // Reads go through the transports configured in wagmiConfig for the network the validator is deployed on
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient({ chainId: targetNetwork.id });
+  const { validator: validatorContract } = useMerkleContracts();
+  const contractAddress = validatorContract.address;
+  const explorerUrl = targetNetwork.blockExplorers?.default?.url;
 
   // Function to check if a Merkle root is registered on-chain
   const checkMerkleRootRegistration = useCallback(async (): Promise<void> => {
-    if (!merkleRoot || !chain?.id) return;
+    if (!merkleRoot || !publicClient) return;
 
     try {
-      // Create a read-only provider for the current chain
-      const publicClient = createPublicClient({
-        chain: chain,
-        transport: http("https://eth-sepolia.g.alchemy.com/v2/FIQ1qwifmra7ZqdkVHnZ2lHQAKG8j4Yd"),
-      });
-
-      const contractAddress = MerkleVerifierContract.address as `0x${string}`;
-
       // Call getValidationStats to check if registered
       const result = await publicClient.readContract({
         address: contractAddress,
-        abi: MerkleVerifierContract.abi,
+        abi: validatorContract.abi,
         functionName: "getValidationStats",
-        args: [merkleRoot],
+        args: [merkleRoot as Hex],
       });
 
       if (!Array.isArray(result) || result.length < 5) {
@@ -92,7 +120,7 @@ const MerkleValidator: React.FC = () => {
       setIsRegistered(false);
       setTreeInfo(null);
     }
-  }, [merkleRoot, chain]); // Dependencies for useCallback
+  }, [merkleRoot, publicClient, contractAddress]); // Dependencies for useCallback
 
   // Set user's address as default if connected
   useEffect(() => {
@@ -110,10 +138,21 @@ const MerkleValidator: React.FC = () => {
       setIsRegistered(false);
       setTreeInfo(null);
     }
-  }, [merkleRoot, chain?.id]);
+  }, [merkleRoot, publicClient]);
+
+  // Encodings that hash an amount (and, for airdrop claims, an index) next to the address
+  const supportsAmount = leafEncoding !== "raw" && leafEncoding !== "packed";
+
+  // Build the entry to hash from the address and the extra fields the encoding needs
+  const getEntry = (): MerkleEntry => {
+    const entry: MerkleEntry = { address };
+    if (supportsAmount && amount.trim()) entry.amount = BigInt(amount.trim());
+    if (LEAF_ENCODINGS[leafEncoding].requiresIndex && claimIndex.trim()) entry.index = BigInt(claimIndex.trim());
+    return entry;
+  };
 
   // Function to verify Merkle proof client-side
-  const verifyProof = (): void => {
+  const verifyProof = async (): Promise<void> => {
     setIsValidating(true);
 
     try {
@@ -134,9 +173,11 @@ const MerkleValidator: React.FC = () => {
         return;
       }
 
-      // Verify the proof
-      const leaf = ethers.keccak256(ethers.getBytes(ethers.getAddress(address)));
-      const isValid = verifyMerkleProof(parsedProof, merkleRoot, leaf);
+      // Verify the proof with the selected leaf encoding off the main thread
+      const isValid = await runMerkleJob(
+        { type: "verify", root: merkleRoot, proof: parsedProof, entry: getEntry(), encoding: leafEncoding },
+        false,
+      );
 
       // Set the result with appropriate color
       setValidationResult(
@@ -161,162 +202,152 @@ const MerkleValidator: React.FC = () => {
     }
   };
 
-  // Helper function for Merkle proof verification
-  const verifyMerkleProof = (proof: string[], root: string, leaf: string): boolean => {
-    let computedHash = leaf;
+  // Parse the proof textarea into bytes32 values, reporting format errors to the user
+  const parseProofInput = (): Hex[] | null => {
+    let parsedProof;
+    try {
+      parsedProof = typeof proof === "string" ? JSON.parse(proof) : proof;
+    } catch (e) {
+      toast.error("Invalid proof format. Please provide a valid JSON array.");
+      return null;
+    }
 
-    for (const proofElement of proof) {
-      if (computedHash < proofElement) {
-        // Hash(current computed hash + current element of the proof)
-        computedHash = ethers.keccak256(ethers.concat([computedHash as `0x${string}`, proofElement as `0x${string}`]));
-      } else {
-        // Hash(current element of the proof + current computed hash)
-        computedHash = ethers.keccak256(ethers.concat([proofElement as `0x${string}`, computedHash as `0x${string}`]));
-      }
+    // Check if proof is an array
+    if (!Array.isArray(parsedProof)) {
+      toast.error("The proof must be an array of strings.");
+      return null;
     }
 
-    // Check if the computed hash (root) is equal to the provided root
-    return computedHash === root;
+    // Ensure hex strings have 0x prefix
+    return parsedProof.map((item: string) => (item.startsWith("0x") ? (item as Hex) : (`0x${item}` as Hex)));
   };
 
-  // Function to verify on-chain
-  const verifyOnChain = async (): Promise<void> => {
-    if (!isConnected) {
-      toast.error("Please connect your wallet to verify on-chain");
-      return;
-    }
+  const showTransactionToast = (title: string, hash: string) => {
+    toast.info(
+      <div>
+        <p>{title}</p>
+        {explorerUrl && (
+          <a
+            href={`${explorerUrl}/tx/${hash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 underline"
+          >
+            View on block explorer
+          </a>
+        )}
+      </div>,
+      { autoClose: false },
+    );
+  };
 
-    if (!chain?.id) {
-      toast.error("Unable to determine current network");
+  // Gas-free check with validateProofView; nothing is recorded on-chain
+  const verifyWithView = async (): Promise<void> => {
+    if (!publicClient) {
+      toast.error("Unable to reach the network");
       return;
     }
 
-    setIsOnChainValidating(true);
+    const formattedProof = parseProofInput();
+    if (!formattedProof) return;
+
+    setIsViewValidating(true);
+    setProofEvent(null);
 
     try {
-      // Parse the proof JSON and ensure it's an array
-      let parsedProof;
-      try {
-        parsedProof = typeof proof === "string" ? JSON.parse(proof) : proof;
-      } catch (e) {
-        toast.error("Invalid proof format. Please provide a valid JSON array.");
-        setIsOnChainValidating(false);
-        return;
-      }
+      const leaf = encodeLeaf(getEntry(), leafEncoding) as Hex;
+      const isValid = await publicClient.readContract({
+        address: contractAddress,
+        abi: validatorContract.abi,
+        functionName: "validateProofView",
+        args: [merkleRoot as Hex, formattedProof, leaf],
+      });
 
-      // Check if proof is an array
-      if (!Array.isArray(parsedProof)) {
-        toast.error("The proof must be an array of strings.");
-        setIsOnChainValidating(false);
-        return;
+      setValidationResult(
+        isValid
+          ? "Valid proof! Confirmed by the validator contract (view call, no gas)."
+          : "Invalid proof. The validator contract rejected it (view call, no gas).",
+      );
+      setResultColor(isValid ? "text-green-400" : "text-red-400");
+      if (isValid) {
+        toast.success("Proof is valid!");
+      } else {
+        toast.error("Proof is invalid!");
       }
+    } catch (error) {
+      console.error("Error during validation view call:", error);
+      toast.error(
+        `Contract error: ${error instanceof Error ? error.message : "Unknown error during proof validation"}`,
+      );
+    } finally {
+      setIsViewValidating(false);
+    }
+  };
 
-      // Create contract instance
-      const contractAddress = MerkleVerifierContract.address as `0x${string}`;
+  // Recorded check with validateProof: costs gas, bumps the validation count and emits ProofValidated
+  const verifyOnChain = async (): Promise<void> => {
+    if (!isConnected || !userAddress) {
+      toast.error("Please connect your wallet to verify on-chain");
+      return;
+    }
 
-      // Prepare transaction data
-      const leaf = ethers.keccak256(ethers.getBytes(ethers.getAddress(address)));
+    if (!publicClient || !walletClient) {
+      toast.error(`Please switch your wallet to ${targetNetwork.name}`);
+      return;
+    }
 
-      // Use view function first to check validity without spending gas
-      const publicClient = createPublicClient({
-        chain: chain,
-        transport: http("https://eth-sepolia.g.alchemy.com/v2/FIQ1qwifmra7ZqdkVHnZ2lHQAKG8j4Yd"),
-      });
+    const formattedProof = parseProofInput();
+    if (!formattedProof) return;
 
-      // Ensure hex strings have 0x prefix
-      const formattedProof = parsedProof.map((item: string) =>
-        item.startsWith("0x") ? (item as `0x${string}`) : (`0x${item}` as `0x${string}`),
+    // validateProof reverts for unregistered or inactive roots, so offer to register first
+    if (!isRegistered) {
+      const registerFirst = window.confirm(
+        "This Merkle root is not registered on-chain. Would you like to register it first?\n\n" +
+          "Registering allows tracking validation statistics and ensures the root is recognized by other contracts.",
       );
+      if (!registerFirst || !(await registerMerkleRoot())) return;
+    } else if (treeInfo && !treeInfo.isActive) {
+      toast.error("This Merkle root is inactive. Its creator must reactivate it before proofs can be recorded.");
+      return;
+    }
 
-      try {
-        const isValidView = await publicClient.readContract({
-          address: contractAddress,
-          abi: MerkleVerifierContract.abi,
-          functionName: "validateProofView",
-          args: [merkleRoot, formattedProof, leaf],
-        });
+    setIsOnChainValidating(true);
+    setProofEvent(null);
 
-        // If not valid according to view function, no need to send transaction
-        if (!isValidView) {
-          setValidationResult("Invalid proof. Address is not in the Merkle tree.");
-          setResultColor("text-red-400");
-          toast.error("Proof is invalid! No transaction needed.");
-          setIsOnChainValidating(false);
-          return;
-        }
-      } catch (e) {
-        console.error("Error during validation view call:", e);
-        toast.error(`Contract error: ${e instanceof Error ? e.message : "Unknown error during proof validation"}`);
-        setIsOnChainValidating(false);
-        return;
-      }
+    try {
+      const leaf = encodeLeaf(getEntry(), leafEncoding) as Hex;
+      const { request } = await publicClient.simulateContract({
+        address: contractAddress,
+        abi: validatorContract.abi,
+        functionName: "validateProof",
+        args: [merkleRoot as Hex, formattedProof, leaf],
+        account: userAddress,
+      });
 
-      // If the tree is not registered, offer to register it
-      if (!isRegistered) {
-        const registerFirst = window.confirm(
-          "This Merkle root is not registered on-chain. Would you like to register it first?\n\n" +
-            "Registering allows tracking validation statistics and ensures the root is recognized by other contracts.",
-        );
-
-        if (registerFirst) {
-          // Register the Merkle root first
-          const success = await registerMerkleRoot();
-          if (!success) {
-            setIsOnChainValidating(false);
-            return;
-          }
-        }
-      }
+      const hash = await walletClient.writeContract(request);
+      showTransactionToast("Transaction submitted!", hash);
 
-      if (!userAddress) {
-        toast.error("Could not determine your address. Please reconnect your wallet.");
-        setIsOnChainValidating(false);
-        return;
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [event] = parseEventLogs({
+        abi: validatorContract.abi,
+        eventName: "ProofValidated",
+        logs: receipt.logs,
+      });
+      if (!event) {
+        throw new Error("No ProofValidated event found in the transaction receipt");
       }
 
-      // Execute the transaction
-      try {
-        const { request } = await publicClient.simulateContract({
-          address: contractAddress,
-          abi: MerkleVerifierContract.abi,
-          functionName: "validateProof",
-          args: [merkleRoot, formattedProof, leaf],
-          account: userAddress,
-        });
-
-        if (!walletClient) {
-          toast.error("Wallet client is not available. Please reconnect your wallet.");
-          setIsOnChainValidating(false);
-          return;
-        }
-
-        const hash = await walletClient.writeContract(request);
-
-        toast.info(
-          <div>
-            <p>Transaction submitted!</p>
-            <a
-              href={`${chain.blockExplorers?.default?.url}/tx/${hash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-blue-400 underline"
-            >
-              View on block explorer
-            </a>
-          </div>,
-          { autoClose: false },
-        );
-
-        setValidationResult("Proof validated on-chain successfully!");
-        setResultColor("text-green-400");
+      const args = event.args as unknown as { merkleRoot: string; user: string; isValid: boolean };
+      setProofEvent({ ...args, txHash: receipt.transactionHash, blockNumber: receipt.blockNumber });
+      setValidationResult(
+        args.isValid
+          ? "Proof validated on-chain and recorded successfully!"
+          : "Invalid proof. The failed validation was recorded on-chain.",
+      );
+      setResultColor(args.isValid ? "text-green-400" : "text-red-400");
 
-        // Refresh tree info after validation
-        setTimeout(checkMerkleRootRegistration, 5000);
-      } catch (e) {
-        console.error("Error during contract transaction:", e);
-        toast.error(`Transaction error: ${e instanceof Error ? e.message : "Unknown error during transaction"}`);
-        setIsOnChainValidating(false);
-      }
+      // Refresh the validation count
+      await checkMerkleRootRegistration();
     } catch (error) {
       console.error("On-chain validation error:", error);
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
@@ -339,58 +370,28 @@ const MerkleValidator: React.FC = () => {
 
     if (!description) return false; // User canceled
 
-    try {
-      if (!userAddress || !walletClient || !chain) {
-        toast.error("Wallet connection issues. Please reconnect your wallet.");
-        return false;
-      }
-
-      // Create contract instance
-      const contractAddress = MerkleVerifierContract.address as `0x${string}`;
+    if (!userAddress || !walletClient || !publicClient) {
+      toast.error(`Wallet connection issues. Please reconnect your wallet on ${targetNetwork.name}.`);
+      return false;
+    }
 
-      // Create public client for simulation
-      const publicClient = createPublicClient({
-        chain: chain,
-        transport: http("https://eth-sepolia.g.alchemy.com/v2/FIQ1qwifmra7ZqdkVHnZ2lHQAKG8j4Yd"),
+    try {
+      const { request } = await publicClient.simulateContract({
+        address: contractAddress,
+        abi: validatorContract.abi,
+        functionName: "registerMerkleRoot",
+        args: [merkleRoot as Hex, description],
+        account: userAddress,
       });
 
-      // Simulate transaction
-      try {
-        const { request } = await publicClient.simulateContract({
-          address: contractAddress,
-          abi: MerkleVerifierContract.abi,
-          functionName: "registerMerkleRoot",
-          args: [merkleRoot, description],
-          account: userAddress,
-        });
+      const hash = await walletClient.writeContract(request);
+      showTransactionToast("Registration submitted!", hash);
 
-        // Execute transaction
-        const hash = await walletClient.writeContract(request);
-
-        toast.info(
-          <div>
-            <p>Registration submitted!</p>
-            <a
-              href={`${chain.blockExplorers?.default?.url}/tx/${hash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-blue-400 underline"
-            >
-              View on block explorer
-            </a>
-          </div>,
-          { autoClose: false },
-        );
-
-        // Refresh tree info after registration
-        setTimeout(checkMerkleRootRegistration, 5000);
+      // Wait for the registration so a following validateProof does not revert
+      await publicClient.waitForTransactionReceipt({ hash });
+      await checkMerkleRootRegistration();
 
-        return true;
-      } catch (e) {
-        console.error("Simulation error:", e);
-        toast.error(`Contract error: ${e instanceof Error ? e.message : "Unknown error during contract simulation"}`);
-        return false;
-      }
+      return true;
     } catch (error) {
       console.error("Registration error:", error);
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
@@ -426,6 +427,10 @@ const MerkleValidator: React.FC = () => {
           setMerkleRoot(content.merkleRoot);
         }
 
+        if (typeof content.leafEncoding === "string" && isLeafEncoding(content.leafEncoding)) {
+          setLeafEncoding(content.leafEncoding);
+        }
+
         // Extract proof based on format
         if (content.proofs && Array.isArray(content.proofs)) {
           // For the format in your example with multiple proofs
@@ -451,6 +456,22 @@ const MerkleValidator: React.FC = () => {
           } else {
             toast.warning("Could not find a valid proof in the file");
           }
+        } else if ((content.proofs || content.claims) && typeof (content.proofs || content.claims) === "object") {
+          // Bulk export or airdrop claims file keyed by address
+          const records: Record<string, { proof?: string[]; amount?: string; index?: number }> =
+            content.proofs || content.claims;
+          const matchingKey = Object.keys(records).find(key => key.toLowerCase() === address.toLowerCase());
+          const recordAddress = matchingKey || Object.keys(records)[0];
+          const record = recordAddress ? records[recordAddress] : undefined;
+
+          if (record && Array.isArray(record.proof)) {
+            if (!matchingKey) setAddress(recordAddress);
+            setProof(JSON.stringify(record.proof, null, 2));
+            if (record.amount !== undefined) setAmount(String(record.amount));
+            if (record.index !== undefined) setClaimIndex(String(record.index));
+          } else {
+            toast.warning("Could not find a valid proof in the file");
+          }
         } else if (content.proof) {
           // Simple format with direct proof object
           if (Array.isArray(content.proof)) {
@@ -503,150 +524,178 @@ const MerkleValidator: React.FC = () => {
           </div>
         </div>
 
-        <div className="space-y-6">
-          {/* Merkle Root Input */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Merkle Root</h3>
-            <div className="space-y-4">
-              <input
-                type="text"
-                value={merkleRoot}
-                onChange={e => setMerkleRoot(e.target.value)}
-                placeholder="Enter Merkle root (0x...)"
-                className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
-              />
-              <p className="text-sm text-gray-400">
-                The Merkle root from your tree (32 bytes hex string starting with 0x)
-              </p>
-
-              {/* Display tree info if registered */}
-              {isRegistered && treeInfo && (
-                <div className="bg-gray-700/50 p-3 rounded-lg mt-2 border border-purple-800/50">
-                  <div className="flex items-center mb-2">
-                    <div className="bg-green-900/30 text-green-400 px-2 py-1 text-xs rounded mr-2">Registered</div>
-                    <span className="text-sm font-medium text-gray-300">On-Chain Tree Information</span>
+        {/* Mode Selector */}
+        <div className="flex gap-2 mb-6">
+          {(["single", "batch"] as ValidatorMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setValidatorMode(mode)}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                validatorMode === mode ? "bg-purple-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+              }`}
+            >
+              {mode === "single" ? "Single Proof" : "Batch Check"}
+            </button>
+          ))}
+        </div>
+
+        {validatorMode === "batch" ? (
+          <MerkleBatchValidator />
+        ) : (
+          <div className="space-y-6">
+            {/* Merkle Root Input */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Merkle Root</h3>
+              <div className="space-y-4">
+                <input
+                  type="text"
+                  value={merkleRoot}
+                  onChange={e => setMerkleRoot(e.target.value)}
+                  placeholder="Enter Merkle root (0x...)"
+                  className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                />
+                <p className="text-sm text-gray-400">
+                  The Merkle root from your tree (32 bytes hex string starting with 0x)
+                </p>
+
+                {/* Display tree info if registered */}
+                {isRegistered && treeInfo && (
+                  <div className="bg-gray-700/50 p-3 rounded-lg mt-2 border border-purple-800/50">
+                    <div className="flex items-center mb-2">
+                      <div className="bg-green-900/30 text-green-400 px-2 py-1 text-xs rounded mr-2">Registered</div>
+                      <span className="text-sm font-medium text-gray-300">On-Chain Tree Information</span>
+                    </div>
+                    <div className="text-sm grid grid-cols-1 gap-1 text-gray-300">
+                      <p>
+                        <span className="font-medium">Description:</span> {treeInfo.description}
+                      </p>
+                      <p>
+                        <span className="font-medium">Creator:</span> {treeInfo.creator.slice(0, 6)}...
+                        {treeInfo.creator.slice(-4)}
+                      </p>
+                      <p>
+                        <span className="font-medium">Created:</span> {treeInfo.timestamp}
+                      </p>
+                      <p>
+                        <span className="font-medium">Validation Count:</span> {treeInfo.validationCount}
+                      </p>
+                      <p>
+                        <span className="font-medium">Status:</span> {treeInfo.isActive ? "Active" : "Inactive"}
+                      </p>
+                    </div>
                   </div>
-                  <div className="text-sm grid grid-cols-1 gap-1 text-gray-300">
-                    <p>
-                      <span className="font-medium">Description:</span> {treeInfo.description}
-                    </p>
-                    <p>
-                      <span className="font-medium">Creator:</span> {treeInfo.creator.slice(0, 6)}...
-                      {treeInfo.creator.slice(-4)}
-                    </p>
-                    <p>
-                      <span className="font-medium">Created:</span> {treeInfo.timestamp}
-                    </p>
-                    <p>
-                      <span className="font-medium">Validation Count:</span> {treeInfo.validationCount}
-                    </p>
-                    <p>
-                      <span className="font-medium">Status:</span> {treeInfo.isActive ? "Active" : "Inactive"}
-                    </p>
+                )}
+              </div>
+            </div>
+
+            {/* Address Input */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Address to Verify</h3>
+              <div className="space-y-4">
+                <input
+                  type="text"
+                  value={address}
+                  onChange={e => setAddress(e.target.value)}
+                  placeholder="Enter Ethereum address (0x...)"
+                  className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                />
+                <p className="text-sm text-gray-400">The address you want to verify is in the Merkle tree</p>
+
+                {isConnected && userAddress && (
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => setAddress(userAddress)}
+                      className="px-3 py-1 bg-purple-600/30 text-purple-300 text-sm rounded hover:bg-purple-600/50 transition-colors border border-purple-600/50"
+                    >
+                      Use My Address
+                    </button>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          </div>
 
-          {/* Address Input */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Address to Verify</h3>
-            <div className="space-y-4">
-              <input
-                type="text"
-                value={address}
-                onChange={e => setAddress(e.target.value)}
-                placeholder="Enter Ethereum address (0x...)"
-                className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
-              />
-              <p className="text-sm text-gray-400">The address you want to verify is in the Merkle tree</p>
-
-              {isConnected && userAddress && (
-                <div className="flex items-center">
-                  <button
-                    onClick={() => setAddress(userAddress)}
-                    className="px-3 py-1 bg-purple-600/30 text-purple-300 text-sm rounded hover:bg-purple-600/50 transition-colors border border-purple-600/50"
-                  >
-                    Use My Address
-                  </button>
-                </div>
-              )}
+            {/* Leaf Encoding */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Leaf Encoding</h3>
+              <div className="space-y-4">
+                <select
+                  value={leafEncoding}
+                  onChange={e => isLeafEncoding(e.target.value) && setLeafEncoding(e.target.value)}
+                  className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                >
+                  {(Object.keys(LEAF_ENCODINGS) as LeafEncoding[]).map(encoding => (
+                    <option key={encoding} value={encoding}>
+                      {LEAF_ENCODINGS[encoding].label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-400">
+                  Must match the encoding the tree was generated with: {LEAF_ENCODINGS[leafEncoding].description}
+                </p>
+
+                {LEAF_ENCODINGS[leafEncoding].requiresIndex && (
+                  <input
+                    type="text"
+                    value={claimIndex}
+                    onChange={e => setClaimIndex(e.target.value)}
+                    placeholder="Claim index"
+                    className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                  />
+                )}
+
+                {supportsAmount && (
+                  <input
+                    type="text"
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    placeholder={
+                      LEAF_ENCODINGS[leafEncoding].requiresAmount
+                        ? "Amount (base units)"
+                        : "Amount (optional, base units)"
+                    }
+                    className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white"
+                  />
+                )}
+              </div>
             </div>
-          </div>
 
-          {/* Proof Input */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">Merkle Proof</h3>
-            <div className="space-y-4">
-              <textarea
-                value={proof}
-                onChange={e => setProof(e.target.value)}
-                placeholder={`Enter Merkle proof JSON array\n[\n  "0x123...",\n  "0x456..."\n]`}
-                className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white font-mono"
-                rows={6}
-              />
-
-              <div className="flex items-center space-x-4">
-                <span className="text-sm text-gray-400">Or upload proof JSON file:</span>
-                <input
-                  type="file"
-                  accept=".json"
-                  onChange={handleFileUpload}
-                  className="block w-full text-sm text-gray-400
+            {/* Proof Input */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">Merkle Proof</h3>
+              <div className="space-y-4">
+                <textarea
+                  value={proof}
+                  onChange={e => setProof(e.target.value)}
+                  placeholder={`Enter Merkle proof JSON array\n[\n  "0x123...",\n  "0x456..."\n]`}
+                  className="w-full p-3 border border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-gray-700 text-white font-mono"
+                  rows={6}
+                />
+
+                <div className="flex items-center space-x-4">
+                  <span className="text-sm text-gray-400">Or upload proof JSON file:</span>
+                  <input
+                    type="file"
+                    accept=".json"
+                    onChange={handleFileUpload}
+                    className="block w-full text-sm text-gray-400
                     file:mr-4 file:py-2 file:px-4
                     file:rounded-full file:border-0
                     file:text-sm file:font-semibold
                     file:bg-purple-900/30 file:text-purple-300
                     hover:file:bg-purple-900/40"
-                />
+                  />
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Validation Buttons */}
-          <div className="flex flex-wrap justify-center gap-4">
-            <button
-              onClick={verifyProof}
-              disabled={isValidating || !merkleRoot || !address || !proof}
-              className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isValidating ? (
-                <div className="flex items-center">
-                  <svg
-                    className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                  >
-                    <circle
-                      className="opacity-25"
-                      cx="12"
-                      cy="12"
-                      r="10"
-                      stroke="currentColor"
-                      strokeWidth="4"
-                    ></circle>
-                    <path
-                      className="opacity-75"
-                      fill="currentColor"
-                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                    ></path>
-                  </svg>
-                  Validating...
-                </div>
-              ) : (
-                "Validate Locally"
-              )}
-            </button>
-
-            {isConnected && (
+            {/* Validation Buttons */}
+            <div className="flex flex-wrap justify-center gap-4">
               <button
-                onClick={verifyOnChain}
-                disabled={isOnChainValidating || !merkleRoot || !address || !proof}
-                className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={verifyProof}
+                disabled={isValidating || !merkleRoot || !address || !proof}
+                className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isOnChainValidating ? (
+                {isValidating ? (
                   <div className="flex items-center">
                     <svg
                       className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
@@ -668,89 +717,167 @@ const MerkleValidator: React.FC = () => {
                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                       ></path>
                     </svg>
-                    Processing...
+                    Validating...
                   </div>
                 ) : (
-                  "Validate On-Chain"
+                  "Validate Locally"
                 )}
               </button>
-            )}
 
-            {!isRegistered && isConnected && merkleRoot && (
               <button
-                onClick={registerMerkleRoot}
-                className="bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 transition-colors"
+                onClick={verifyWithView}
+                disabled={isViewValidating || !merkleRoot || !address || !proof}
+                className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Register Merkle Root
+                {isViewValidating ? "Checking..." : "Check on Contract (no gas)"}
               </button>
-            )}
-          </div>
 
-          {/* Results Section */}
-          {validationResult && (
-            <div className="rounded-lg p-6 bg-[#1c2941]">
-              <h3 className="text-lg font-semibold mb-4 text-white flex items-center">
-                <DocumentCheckIcon className="h-5 w-5 mr-2" />
-                Validation Result
-              </h3>
-              <div
-                className={`p-4 rounded-lg ${
-                  resultColor === "text-green-400"
-                    ? "bg-green-900/20 border border-green-800"
-                    : "bg-red-900/20 border border-red-800"
-                }`}
-              >
-                <p className={`text-lg font-medium ${resultColor}`}>{validationResult}</p>
-              </div>
+              {isConnected && (
+                <button
+                  onClick={verifyOnChain}
+                  disabled={isOnChainValidating || !merkleRoot || !address || !proof}
+                  className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isOnChainValidating ? (
+                    <div className="flex items-center">
+                      <svg
+                        className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                        xmlns="http://www.w3.org/2000/svg"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                      >
+                        <circle
+                          className="opacity-25"
+                          cx="12"
+                          cy="12"
+                          r="10"
+                          stroke="currentColor"
+                          strokeWidth="4"
+                        ></circle>
+                        <path
+                          className="opacity-75"
+                          fill="currentColor"
+                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                        ></path>
+                      </svg>
+                      Processing...
+                    </div>
+                  ) : (
+                    "Validate On-Chain"
+                  )}
+                </button>
+              )}
 
-              {resultColor === "text-green-400" && (
-                <div className="mt-4 space-y-3">
-                  <h4 className="font-medium text-gray-300">You can use this proof for:</h4>
-                  <ul className="list-disc list-inside text-gray-300 text-sm space-y-1">
-                    <li>NFT whitelist verification</li>
-                    <li>Token airdrop claims</li>
-                    <li>DAO governance access</li>
-                    <li>Permission management in smart contracts</li>
-                  </ul>
-
-                  <div className="mt-4 p-3 bg-gray-700 rounded-lg">
-                    <h4 className="text-sm font-medium mb-2 text-gray-300">Sample Contract Code</h4>
-                    {}
-                    <pre className="text-xs overflow-x-auto text-gray-300 p-2 bg-gray-800 rounded">
-                      {`// Verify this address and proof in your smart contract
+              {!isRegistered && isConnected && merkleRoot && (
+                <button
+                  onClick={registerMerkleRoot}
+                  className="bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 transition-colors"
+                >
+                  Register Merkle Root
+                </button>
+              )}
+            </div>
+
+            {/* Results Section */}
+            {validationResult && (
+              <div className="rounded-lg p-6 bg-[#1c2941]">
+                <h3 className="text-lg font-semibold mb-4 text-white flex items-center">
+                  <DocumentCheckIcon className="h-5 w-5 mr-2" />
+                  Validation Result
+                </h3>
+                <div
+                  className={`p-4 rounded-lg ${
+                    resultColor === "text-green-400"
+                      ? "bg-green-900/20 border border-green-800"
+                      : "bg-red-900/20 border border-red-800"
+                  }`}
+                >
+                  <p className={`text-lg font-medium ${resultColor}`}>{validationResult}</p>
+                </div>
+
+                {proofEvent && (
+                  <div className="mt-4 p-4 rounded-lg bg-gray-800 text-sm text-gray-300 space-y-1">
+                    <h4 className="font-medium text-white mb-2">ProofValidated Event</h4>
+                    <p className="break-all">
+                      <span className="font-medium">Merkle Root:</span> {proofEvent.merkleRoot}
+                    </p>
+                    <p className="break-all">
+                      <span className="font-medium">User:</span> {proofEvent.user}
+                    </p>
+                    <p>
+                      <span className="font-medium">Valid:</span> {proofEvent.isValid ? "Yes" : "No"}
+                    </p>
+                    <p>
+                      <span className="font-medium">Block:</span> {proofEvent.blockNumber.toString()}
+                    </p>
+                    <p className="break-all">
+                      <span className="font-medium">Transaction:</span>{" "}
+                      {explorerUrl ? (
+                        <a
+                          href={`${explorerUrl}/tx/${proofEvent.txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-400 underline"
+                        >
+                          {proofEvent.txHash}
+                        </a>
+                      ) : (
+                        proofEvent.txHash
+                      )}
+                    </p>
+                  </div>
+                )}
+
+                {resultColor === "text-green-400" && (
+                  <div className="mt-4 space-y-3">
+                    <h4 className="font-medium text-gray-300">You can use this proof for:</h4>
+                    <ul className="list-disc list-inside text-gray-300 text-sm space-y-1">
+                      <li>NFT whitelist verification</li>
+                      <li>Token airdrop claims</li>
+                      <li>DAO governance access</li>
+                      <li>Permission management in smart contracts</li>
+                    </ul>
+
+                    <div className="mt-4 p-3 bg-gray-700 rounded-lg">
+                      <h4 className="text-sm font-medium mb-2 text-gray-300">Sample Contract Code</h4>
+                      {}
+                      <pre className="text-xs overflow-x-auto text-gray-300 p-2 bg-gray-800 rounded">
+                        {`// Verify this address and proof in your smart contract
 function verify(bytes32[] memory proof) public view returns (bool) {
-    bytes32 leaf = keccak256(abi.encodePacked(msg.sender));
+    bytes32 leaf = ${LEAF_ENCODINGS[leafEncoding].solidity.replace("account", "msg.sender")};
     return MerkleProof.verify(proof, merkleRoot, leaf);
 }`}
-                    </pre>
+                      </pre>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
+            )}
+
+            {/* Usage Guide */}
+            <div className="rounded-lg p-6 bg-[#1c2941]">
+              <h3 className="text-lg font-semibold mb-4 text-white">How to Use the Validator</h3>
+              <ol className="space-y-2 text-gray-300 list-decimal list-inside">
+                <li>Enter the Merkle root from your generated tree</li>
+                <li>Enter the Ethereum address you want to verify</li>
+                <li>
+                  Enter the Merkle proof array as JSON or upload a proof file
+                  <span className="block text-sm text-gray-400 ml-5 mt-1">
+                    (Generate this proof from the Merkle Proof Generator tool)
+                  </span>
+                </li>
+                <li>Click {}"Validate Locally" to check client-side</li>
+                <li>Click {}"Check on Contract" to ask the validator contract without sending a transaction</li>
+                <li>
+                  Click {}"Validate On-Chain" to verify and record the validation on the blockchain
+                  <span className="block text-sm text-gray-400 ml-5 mt-1">
+                    (Requires a connected wallet and a registered, active root; the ProofValidated event is shown)
+                  </span>
+                </li>
+              </ol>
             </div>
-          )}
-
-          {/* Usage Guide */}
-          <div className="rounded-lg p-6 bg-[#1c2941]">
-            <h3 className="text-lg font-semibold mb-4 text-white">How to Use the Validator</h3>
-            <ol className="space-y-2 text-gray-300 list-decimal list-inside">
-              <li>Enter the Merkle root from your generated tree</li>
-              <li>Enter the Ethereum address you want to verify</li>
-              <li>
-                Enter the Merkle proof array as JSON or upload a proof file
-                <span className="block text-sm text-gray-400 ml-5 mt-1">
-                  (Generate this proof from the Merkle Proof Generator tool)
-                </span>
-              </li>
-              <li>Click {}"Validate Locally" to check client-side</li>
-              <li>
-                Click {}"Validate On-Chain" to verify and record the validation on the blockchain
-                <span className="block text-sm text-gray-400 ml-5 mt-1">
-                  (Requires a connected wallet and will trigger a transaction)
-                </span>
-              </li>
-            </ol>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { MerkleProofContract } from "../ABI";
+import { useContractRegistry } from "../hooks/useContractRegistry";
 import { ethers } from "ethers";
 import { useAccount } from "wagmi";
 
@@ -14,6 +14,7 @@ interface TreeInfo {
 
 // Hook to check if a Merkle root is registered and valid
 export function useMerkleRootValid(root: string | undefined) {
+  const { getContract } = useContractRegistry();
   const [isValid, setIsValid] = useState<boolean | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [isError, setIsError] = useState(false);
@@ -35,7 +36,8 @@ export function useMerkleRootValid(root: string | undefined) {
 
       try {
         const provider = new ethers.BrowserProvider(window.ethereum);
-        const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, provider);
+        const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+        const contract = new ethers.Contract(registryAddress, registryAbi, provider);
         const result = await contract.isMerkleRootValid(root);
         setIsValid(result);
       } catch (error) {
@@ -47,7 +49,7 @@ export function useMerkleRootValid(root: string | undefined) {
     };
 
     fetchData();
-  }, [root]);
+  }, [root, getContract]);
 
   return {
     isValid,
@@ -58,6 +60,7 @@ export function useMerkleRootValid(root: string | undefined) {
 
 // Hook to get platform fee
 export function usePlatformFee() {
+  const { getContract } = useContractRegistry();
   const [fee, setFee] = useState<bigint | string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [isError, setIsError] = useState(false);
@@ -74,7 +77,8 @@ export function usePlatformFee() {
 
       try {
         const provider = new ethers.BrowserProvider(window.ethereum);
-        const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, provider);
+        const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+        const contract = new ethers.Contract(registryAddress, registryAbi, provider);
         const result = await contract.getPlatformFee();
         setFee(result);
       } catch (error) {
@@ -86,7 +90,7 @@ export function usePlatformFee() {
     };
 
     fetchData();
-  }, []);
+  }, [getContract]);
 
   return {
     fee,
@@ -97,6 +101,7 @@ export function usePlatformFee() {
 
 // Hook to check if user is a newcomer (first tree is free)
 export function useIsNewcomer() {
+  const { getContract } = useContractRegistry();
   const { address } = useAccount();
   const [isNewcomer, setIsNewcomer] = useState<boolean | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
@@ -114,7 +119,8 @@ export function useIsNewcomer() {
 
       try {
         const provider = new ethers.BrowserProvider(window.ethereum);
-        const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, provider);
+        const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+        const contract = new ethers.Contract(registryAddress, registryAbi, provider);
         const result = await contract.isUserNewcomer(address);
         setIsNewcomer(result);
       } catch (error) {
@@ -126,7 +132,7 @@ export function useIsNewcomer() {
     };
 
     fetchData();
-  }, [address]);
+  }, [address, getContract]);
 
   return {
     isNewcomer,
@@ -137,6 +143,7 @@ export function useIsNewcomer() {
 
 // Hook to get Merkle tree information
 export function useMerkleTreeInfo(root: string | undefined) {
+  const { getContract } = useContractRegistry();
   const [treeInfo, setTreeInfo] = useState<TreeInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isError, setIsError] = useState(false);
@@ -158,7 +165,8 @@ export function useMerkleTreeInfo(root: string | undefined) {
 
       try {
         const provider = new ethers.BrowserProvider(window.ethereum);
-        const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, provider);
+        const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+        const contract = new ethers.Contract(registryAddress, registryAbi, provider);
         const result = await contract.getMerkleTreeInfo(root);
 
         setTreeInfo({
@@ -178,7 +186,7 @@ export function useMerkleTreeInfo(root: string | undefined) {
     };
 
     fetchData();
-  }, [root]);
+  }, [root, getContract]);
 
   return {
     treeInfo,
@@ -189,6 +197,7 @@ export function useMerkleTreeInfo(root: string | undefined) {
 
 // Hook for all contract actions
 export function useMerkleContract() {
+  const { getContract } = useContractRegistry();
   const { address } = useAccount();
   const [isLoading, setIsLoading] = useState(false);
 
@@ -206,7 +215,8 @@ export function useMerkleContract() {
     try {
       const provider = new ethers.BrowserProvider(window.ethereum);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, signer);
+      const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+      const contract = new ethers.Contract(registryAddress, registryAbi, signer);
 
       const tx = await contract.addMerkleTree(root, description, BigInt(listSize), { value: feeValue });
       await tx.wait();
@@ -229,7 +239,8 @@ export function useMerkleContract() {
     try {
       const provider = new ethers.BrowserProvider(window.ethereum);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, signer);
+      const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+      const contract = new ethers.Contract(registryAddress, registryAbi, signer);
 
       const tx = await contract.removeMerkleTree(root);
       await tx.wait();
@@ -252,7 +263,8 @@ export function useMerkleContract() {
     try {
       const provider = new ethers.BrowserProvider(window.ethereum);
       const signer = await provider.getSigner();
-      const contract = new ethers.Contract(MerkleProofContract.address, MerkleProofContract.abi, signer);
+      const { address: registryAddress, abi: registryAbi } = getContract("MerkleProofX");
+      const contract = new ethers.Contract(registryAddress, registryAbi, signer);
 
       const tx = await contract.updateMerkleTreeDescription(root, newDescription);
       await tx.wait();
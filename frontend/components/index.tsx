@@ -1,11 +1,19 @@
-import { MerkleProofContract } from "../ABI";
+import { useMemo } from "react";
+import { useTargetNetwork } from "../hooks/core";
+import { getDeployedContract } from "../utils/contractHelpers";
 
-export const MerkleProofContractComponent = {
-  abi: MerkleProofContract.abi,
-  address: MerkleProofContract.address,
-};
+/**
+ * Merkle contracts deployed on the target network, typed with the ABIs they were deployed with. Functions added
+ * since then are called through their own ABI once hasFunction confirms the deployment has them.
+ */
+export const useMerkleContracts = () => {
+  const { targetNetwork } = useTargetNetwork();
 
-export const MerkleVerifierContract = {
-  abi: MerkleProofContract.abi, // Using MerkleProof ABI as fallback
-  address: MerkleProofContract.address, // Using MerkleProof address as fallback
+  return useMemo(
+    () => ({
+      validator: getDeployedContract("MerkleProofValidator", targetNetwork.id),
+      registry: getDeployedContract("MerkleProofX", targetNetwork.id),
+    }),
+    [targetNetwork.id],
+  );
 };
@@ -29,6 +29,13 @@ export const mantleSepolia = {
   blockExplorers: {
     default: { name: "Mantle Explorer", url: "https://explorer.sepolia.mantle.xyz" },
   },
+  // Needed by viem's multicall
+  contracts: {
+    multicall3: {
+      address: "0xcA11bde05977b3631167028862bE2a173976CA11",
+      blockCreated: 4584012,
+    },
+  },
   testnet: true,
 } as const;
 
@@ -1,99 +1,1256 @@
 /**
- * This file contains the deployed contract addresses and ABIs for OnchainLab on Mantle Sepolia Testnet.
- * These contracts were deployed to Chain ID: 5003
+ * This file is generated from the Hardhat Ignition deployments in smartcontract/ignition/deployments.
+ * You should not edit it manually or your changes might be overwritten.
+ * Regenerate it with `npx hardhat run scripts/generate-deployed-contracts.ts` in smartcontract/.
  */
-import {
-  ContractAnalyzerABI,
-  ContractTemplatesABI,
-  DeFiUtilsABI,
-  ERC20FactoryABI,
-  ERC721FactoryABI,
-  ERC1155FactoryABI,
-  MerkleProofABI,
-  MerkleProofValidatorABI,
-} from "../ABI";
+import { GenericContractsDeclaration } from "~~/utils/core/contract";
 
-// Contract addresses for easy access
-export const CONTRACT_ADDRESSES = {
-  ContractAnalyzer: "0xeAf73aee69441cA68166bc0E1BE63E70F2ce2c06",
-  ContractTemplates: "0x836E78d3059a17E9D11C509c0b82782490B9d84D",
-  DeFiUtils: "0x208Cc34f586b70c35d0Db69E3A1FCdF8B8Eb35cc",
-  ERC20Factory: "0x813a30B635e0925bA02fce2234B72F18c0B8F46F",
-  ERC721Factory: "0x05e4f6A15Ef1016691332c94037694031FC26F35",
-  ERC1155Factory: "0x74560D1B931c5A60A4Da31F24d2aB92aa9365190",
-  MerkleProofValidator: "0xE13e882Fd85071541700355C07A520926f3c11fa",
-  MerkleProof: "0xC51083720359DBaDe92d52f809a17Ef3e7180e2b",
-} as const;
-
-// Contract ABIs for easy access
-// Extract abi property if it's a full artifact object
-const extractABI = (abiOrArtifact: any) => {
-  if (abiOrArtifact && typeof abiOrArtifact === 'object' && 'abi' in abiOrArtifact) {
-    return abiOrArtifact.abi;
-  }
-  return abiOrArtifact;
-};
-
-export const CONTRACT_ABIS = {
-  ERC20Factory: extractABI(ERC20FactoryABI),
-  ERC721Factory: extractABI(ERC721FactoryABI),
-  ERC1155Factory: extractABI(ERC1155FactoryABI),
-  DeFiUtils: extractABI(DeFiUtilsABI),
-  ContractAnalyzer: extractABI(ContractAnalyzerABI),
-  ContractTemplates: extractABI(ContractTemplatesABI),
-  MerkleProofValidator: extractABI(MerkleProofValidatorABI),
-  MerkleProof: extractABI(MerkleProofABI),
-} as const;
-
-// Network information
-export const NETWORK_INFO = {
-  name: "Mantle Sepolia Testnet",
-  chainId: 5003,
-  rpcUrl: "https://rpc.sepolia.mantle.xyz",
-  blockExplorer: "https://sepolia.mantlescan.xyz",
-  nativeCurrency: {
-    name: "Mantle Sepolia ETH",
-    symbol: "ETH",
-    decimals: 18,
-  },
-} as const;
-
-// Default export for backward compatibility
 const deployedContracts = {
   5003: {
     ContractAnalyzer: {
-      address: CONTRACT_ADDRESSES.ContractAnalyzer,
-      abi: CONTRACT_ABIS.ContractAnalyzer,
+      address: "0xeAf73aee69441cA68166bc0E1BE63E70F2ce2c06",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            {
+              components: [
+                { internalType: "uint256", name: "contractSize", type: "uint256" },
+                { internalType: "uint256", name: "estimatedDeploymentGas", type: "uint256" },
+                { internalType: "bool", name: "isContract", type: "bool" },
+                { internalType: "bool", name: "hasFallback", type: "bool" },
+                { internalType: "bool", name: "hasReceive", type: "bool" },
+                { internalType: "uint256", name: "balance", type: "uint256" },
+                { internalType: "uint256", name: "codeSize", type: "uint256" },
+              ],
+              indexed: false,
+              internalType: "struct ContractAnalyzer.ContractAnalysis",
+              name: "analysis",
+              type: "tuple",
+            },
+          ],
+          name: "ContractAnalyzed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            { indexed: false, internalType: "bytes4", name: "functionSelector", type: "bytes4" },
+            {
+              components: [
+                { internalType: "uint256", name: "estimatedGas", type: "uint256" },
+                { internalType: "uint256", name: "gasPrice", type: "uint256" },
+                { internalType: "uint256", name: "totalCost", type: "uint256" },
+                { internalType: "bool", name: "success", type: "bool" },
+                { internalType: "string", name: "errorMessage", type: "string" },
+              ],
+              indexed: false,
+              internalType: "struct ContractAnalyzer.GasEstimate",
+              name: "estimate",
+              type: "tuple",
+            },
+          ],
+          name: "GasEstimated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          inputs: [{ internalType: "address", name: "contractAddress", type: "address" }],
+          name: "analyzeContract",
+          outputs: [
+            {
+              components: [
+                { internalType: "uint256", name: "contractSize", type: "uint256" },
+                { internalType: "uint256", name: "estimatedDeploymentGas", type: "uint256" },
+                { internalType: "bool", name: "isContract", type: "bool" },
+                { internalType: "bool", name: "hasFallback", type: "bool" },
+                { internalType: "bool", name: "hasReceive", type: "bool" },
+                { internalType: "uint256", name: "balance", type: "uint256" },
+                { internalType: "uint256", name: "codeSize", type: "uint256" },
+              ],
+              internalType: "struct ContractAnalyzer.ContractAnalysis",
+              name: "analysis",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "codeSize", type: "uint256" },
+            { internalType: "uint256", name: "gasPrice", type: "uint256" },
+          ],
+          name: "calculateDeploymentCost",
+          outputs: [{ internalType: "uint256", name: "deploymentCost", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "contractAddress", type: "address" },
+            { internalType: "bytes4", name: "functionSelector", type: "bytes4" },
+            { internalType: "bytes", name: "data", type: "bytes" },
+          ],
+          name: "estimateGas",
+          outputs: [
+            {
+              components: [
+                { internalType: "uint256", name: "estimatedGas", type: "uint256" },
+                { internalType: "uint256", name: "gasPrice", type: "uint256" },
+                { internalType: "uint256", name: "totalCost", type: "uint256" },
+                { internalType: "bool", name: "success", type: "bool" },
+                { internalType: "string", name: "errorMessage", type: "string" },
+              ],
+              internalType: "struct ContractAnalyzer.GasEstimate",
+              name: "estimate",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "contractAddress", type: "address" },
+            { internalType: "bytes", name: "data", type: "bytes" },
+          ],
+          name: "estimateGasCall",
+          outputs: [],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "contractAddress", type: "address" }],
+          name: "getBasicInfo",
+          outputs: [
+            { internalType: "uint256", name: "codeSize", type: "uint256" },
+            { internalType: "uint256", name: "balance", type: "uint256" },
+            { internalType: "bool", name: "isContract", type: "bool" },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "contractAddress", type: "address" },
+            { internalType: "bytes4", name: "", type: "bytes4" },
+          ],
+          name: "hasFunction",
+          outputs: [{ internalType: "bool", name: "result", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33355881,
     },
     ContractTemplates: {
-      address: CONTRACT_ADDRESSES.ContractTemplates,
-      abi: CONTRACT_ABIS.ContractTemplates,
+      address: "0x836E78d3059a17E9D11C509c0b82782490B9d84D",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        { inputs: [], name: "ReentrancyGuardReentrantCall", type: "error" },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            { indexed: false, internalType: "address[]", name: "owners", type: "address[]" },
+          ],
+          name: "MultiSigDeployed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            { indexed: true, internalType: "address", name: "owner", type: "address" },
+          ],
+          name: "StakingContractDeployed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            { indexed: true, internalType: "address", name: "beneficiary", type: "address" },
+          ],
+          name: "VestingContractDeployed",
+          type: "event",
+        },
+        {
+          inputs: [
+            { internalType: "address[]", name: "owners", type: "address[]" },
+            { internalType: "uint256", name: "requiredSignatures", type: "uint256" },
+          ],
+          name: "deployMultiSigWallet",
+          outputs: [{ internalType: "address", name: "contractAddress", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "stakingToken", type: "address" },
+            { internalType: "address", name: "rewardToken", type: "address" },
+            { internalType: "uint256", name: "rewardRate", type: "uint256" },
+          ],
+          name: "deployStakingContract",
+          outputs: [{ internalType: "address", name: "contractAddress", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "token", type: "address" },
+            { internalType: "address", name: "beneficiary", type: "address" },
+            { internalType: "uint256", name: "totalAmount", type: "uint256" },
+            { internalType: "uint256", name: "startTime", type: "uint256" },
+            { internalType: "uint256", name: "duration", type: "uint256" },
+          ],
+          name: "deployVestingContract",
+          outputs: [{ internalType: "address", name: "contractAddress", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33388278,
     },
     DeFiUtils: {
-      address: CONTRACT_ADDRESSES.DeFiUtils,
-      abi: CONTRACT_ABIS.DeFiUtils,
+      address: "0x208Cc34f586b70c35d0Db69E3A1FCdF8B8Eb35cc",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: false, internalType: "uint256", name: "tokenAAmount", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "tokenBAmount", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "liquidityTokens", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "fee", type: "uint256" },
+          ],
+          name: "LiquidityCalculated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: false, internalType: "uint256", name: "principal", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "rate", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "time", type: "uint256" },
+            { indexed: false, internalType: "uint256", name: "yield", type: "uint256" },
+          ],
+          name: "YieldCalculated",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "PRECISION",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "YEAR_IN_SECONDS",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "principal", type: "uint256" },
+            { internalType: "uint256", name: "rate", type: "uint256" },
+            { internalType: "uint256", name: "time", type: "uint256" },
+            { internalType: "uint256", name: "compoundFrequency", type: "uint256" },
+          ],
+          name: "calculateCompoundYield",
+          outputs: [{ internalType: "uint256", name: "yield", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "initialTokenAAmount", type: "uint256" },
+            { internalType: "uint256", name: "initialTokenBAmount", type: "uint256" },
+            { internalType: "uint256", name: "currentTokenAPrice", type: "uint256" },
+            { internalType: "uint256", name: "currentTokenBPrice", type: "uint256" },
+          ],
+          name: "calculateImpermanentLoss",
+          outputs: [{ internalType: "uint256", name: "lossPercentage", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "tokenAAmount", type: "uint256" },
+            { internalType: "uint256", name: "tokenBAmount", type: "uint256" },
+          ],
+          name: "calculateLiquidityTokens",
+          outputs: [{ internalType: "uint256", name: "liquidityTokens", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "tokenAPrice", type: "uint256" },
+            { internalType: "uint256", name: "tokenBPrice", type: "uint256" },
+            { internalType: "uint256", name: "totalValue", type: "uint256" },
+          ],
+          name: "calculateOptimalAmounts",
+          outputs: [
+            { internalType: "uint256", name: "tokenAAmount", type: "uint256" },
+            { internalType: "uint256", name: "tokenBAmount", type: "uint256" },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "principal", type: "uint256" },
+            { internalType: "uint256", name: "rate", type: "uint256" },
+            { internalType: "uint256", name: "time", type: "uint256" },
+          ],
+          name: "calculateSimpleYield",
+          outputs: [{ internalType: "uint256", name: "yield", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "inputAmount", type: "uint256" },
+            { internalType: "uint256", name: "outputAmount", type: "uint256" },
+            { internalType: "uint256", name: "expectedOutput", type: "uint256" },
+          ],
+          name: "calculateSlippage",
+          outputs: [{ internalType: "uint256", name: "slippagePercentage", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "uint256", name: "amount", type: "uint256" },
+            { internalType: "uint256", name: "feeRate", type: "uint256" },
+          ],
+          name: "calculateSwapFee",
+          outputs: [{ internalType: "uint256", name: "fee", type: "uint256" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33388298,
     },
     ERC20Factory: {
-      address: CONTRACT_ADDRESSES.ERC20Factory,
-      abi: CONTRACT_ABIS.ERC20Factory,
+      address: "0x813a30B635e0925bA02fce2234B72F18c0B8F46F",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "tokenAddress", type: "address" },
+            { indexed: false, internalType: "string", name: "name", type: "string" },
+            { indexed: false, internalType: "string", name: "symbol", type: "string" },
+            { indexed: false, internalType: "uint256", name: "initialSupply", type: "uint256" },
+            { indexed: false, internalType: "uint8", name: "decimals", type: "uint8" },
+            { indexed: true, internalType: "address", name: "creator", type: "address" },
+          ],
+          name: "TokenCreated",
+          type: "event",
+        },
+        {
+          inputs: [
+            { internalType: "string", name: "name", type: "string" },
+            { internalType: "string", name: "symbol", type: "string" },
+            { internalType: "uint256", name: "initialSupply", type: "uint256" },
+            { internalType: "uint8", name: "decimals", type: "uint8" },
+          ],
+          name: "createToken",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          name: "createdTokens",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getAllTokens",
+          outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getTokenCount",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "creator", type: "address" }],
+          name: "getTokensByCreator",
+          outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "tokenCreators",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33388341,
     },
     ERC721Factory: {
-      address: CONTRACT_ADDRESSES.ERC721Factory,
-      abi: CONTRACT_ABIS.ERC721Factory,
+      address: "0x05e4f6A15Ef1016691332c94037694031FC26F35",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            { indexed: false, internalType: "string", name: "name", type: "string" },
+            { indexed: false, internalType: "string", name: "symbol", type: "string" },
+            { indexed: true, internalType: "address", name: "creator", type: "address" },
+            { indexed: false, internalType: "uint256", name: "maxSupply", type: "uint256" },
+            { indexed: false, internalType: "bool", name: "mintable", type: "bool" },
+            { indexed: false, internalType: "bool", name: "burnable", type: "bool" },
+            { indexed: false, internalType: "bool", name: "pausable", type: "bool" },
+          ],
+          name: "CollectionCreated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "collectionCreators",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "collections",
+          outputs: [
+            { internalType: "string", name: "name", type: "string" },
+            { internalType: "string", name: "symbol", type: "string" },
+            { internalType: "address", name: "creator", type: "address" },
+            { internalType: "uint256", name: "maxSupply", type: "uint256" },
+            { internalType: "bool", name: "mintable", type: "bool" },
+            { internalType: "bool", name: "burnable", type: "bool" },
+            { internalType: "bool", name: "pausable", type: "bool" },
+            { internalType: "uint256", name: "createdAt", type: "uint256" },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "string", name: "name", type: "string" },
+            { internalType: "string", name: "symbol", type: "string" },
+            { internalType: "string", name: "baseURI", type: "string" },
+            { internalType: "uint256", name: "maxSupplyAmount", type: "uint256" },
+            { internalType: "bool", name: "mintable", type: "bool" },
+            { internalType: "bool", name: "burnable", type: "bool" },
+            { internalType: "bool", name: "pausable", type: "bool" },
+          ],
+          name: "createCollection",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          name: "createdCollections",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getAllCollections",
+          outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getCollectionCount",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "creator", type: "address" }],
+          name: "getCollectionsByCreator",
+          outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33388359,
     },
     ERC1155Factory: {
-      address: CONTRACT_ADDRESSES.ERC1155Factory,
-      abi: CONTRACT_ABIS.ERC1155Factory,
+      address: "0x74560D1B931c5A60A4Da31F24d2aB92aa9365190",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "contractAddress", type: "address" },
+            { indexed: false, internalType: "string", name: "name", type: "string" },
+            { indexed: false, internalType: "string", name: "uri", type: "string" },
+            { indexed: true, internalType: "address", name: "creator", type: "address" },
+            { indexed: false, internalType: "bool", name: "mintable", type: "bool" },
+            { indexed: false, internalType: "bool", name: "burnable", type: "bool" },
+            { indexed: false, internalType: "bool", name: "pausable", type: "bool" },
+            { indexed: false, internalType: "bool", name: "supplyTracked", type: "bool" },
+          ],
+          name: "MultiTokenCreated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "contractCreators",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "string", name: "name", type: "string" },
+            { internalType: "string", name: "uri", type: "string" },
+            { internalType: "bool", name: "mintable", type: "bool" },
+            { internalType: "bool", name: "burnable", type: "bool" },
+            { internalType: "bool", name: "pausable", type: "bool" },
+            { internalType: "bool", name: "supplyTracked", type: "bool" },
+          ],
+          name: "createMultiToken",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          name: "createdContracts",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getAllContracts",
+          outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getContractCount",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "creator", type: "address" }],
+          name: "getContractsByCreator",
+          outputs: [{ internalType: "address[]", name: "", type: "address[]" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "multiTokens",
+          outputs: [
+            { internalType: "string", name: "name", type: "string" },
+            { internalType: "string", name: "uri", type: "string" },
+            { internalType: "address", name: "creator", type: "address" },
+            { internalType: "bool", name: "mintable", type: "bool" },
+            { internalType: "bool", name: "burnable", type: "bool" },
+            { internalType: "bool", name: "pausable", type: "bool" },
+            { internalType: "bool", name: "supplyTracked", type: "bool" },
+            { internalType: "uint256", name: "createdAt", type: "uint256" },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33388376,
     },
     MerkleProofValidator: {
-      address: CONTRACT_ADDRESSES.MerkleProofValidator,
-      abi: CONTRACT_ABIS.MerkleProofValidator,
+      address: "0xE13e882Fd85071541700355C07A520926f3c11fa",
+      abi: [
+        { inputs: [], stateMutability: "nonpayable", type: "constructor" },
+        {
+          inputs: [{ internalType: "address", name: "owner", type: "address" }],
+          name: "OwnableInvalidOwner",
+          type: "error",
+        },
+        {
+          inputs: [{ internalType: "address", name: "account", type: "address" }],
+          name: "OwnableUnauthorizedAccount",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+            { indexed: false, internalType: "string", name: "description", type: "string" },
+            { indexed: false, internalType: "address", name: "creator", type: "address" },
+          ],
+          name: "MerkleRootRegistered",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "previousOwner", type: "address" },
+            { indexed: true, internalType: "address", name: "newOwner", type: "address" },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+            { indexed: true, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "bool", name: "isValid", type: "bool" },
+          ],
+          name: "ProofValidated",
+          type: "event",
+        },
+        {
+          inputs: [{ internalType: "address", name: "addr", type: "address" }],
+          name: "getLeaf",
+          outputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "bytes32", name: "merkleRoot", type: "bytes32" }],
+          name: "getValidationStats",
+          outputs: [
+            { internalType: "string", name: "description", type: "string" },
+            { internalType: "address", name: "creator", type: "address" },
+            { internalType: "uint256", name: "timestamp", type: "uint256" },
+            { internalType: "uint256", name: "validationCount", type: "uint256" },
+            { internalType: "bool", name: "isActive", type: "bool" },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+            { internalType: "string", name: "description", type: "string" },
+          ],
+          name: "registerMerkleRoot",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        { inputs: [], name: "renounceOwnership", outputs: [], stateMutability: "nonpayable", type: "function" },
+        {
+          inputs: [
+            { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+            { internalType: "bool", name: "isActive", type: "bool" },
+          ],
+          name: "setMerkleRootStatus",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "newOwner", type: "address" }],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+            { internalType: "bytes32[]", name: "proof", type: "bytes32[]" },
+            { internalType: "bytes32", name: "leaf", type: "bytes32" },
+          ],
+          name: "validateProof",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "bytes32", name: "merkleRoot", type: "bytes32" },
+            { internalType: "bytes32[]", name: "proof", type: "bytes32[]" },
+            { internalType: "bytes32", name: "leaf", type: "bytes32" },
+          ],
+          name: "validateProofView",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+          name: "validationData",
+          outputs: [
+            { internalType: "string", name: "description", type: "string" },
+            { internalType: "address", name: "creator", type: "address" },
+            { internalType: "uint256", name: "timestamp", type: "uint256" },
+            { internalType: "uint256", name: "validationCount", type: "uint256" },
+            { internalType: "bool", name: "isActive", type: "bool" },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 33388399,
     },
-    MerkleProof: {
-      address: CONTRACT_ADDRESSES.MerkleProof,
-      abi: CONTRACT_ABIS.MerkleProof,
+    MerkleProofX: {
+      address: "0xC51083720359DBaDe92d52f809a17Ef3e7180e2b",
+      abi: [
+        {
+          inputs: [{ internalType: "address", name: "_treasury", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: false, internalType: "address", name: "user", type: "address" },
+            { indexed: false, internalType: "uint256", name: "amount", type: "uint256" },
+          ],
+          name: "FeeCollected",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "bytes32", name: "root", type: "bytes32" },
+            { indexed: false, internalType: "string", name: "description", type: "string" },
+            { indexed: false, internalType: "uint256", name: "listSize", type: "uint256" },
+            { indexed: false, internalType: "address", name: "creator", type: "address" },
+            { indexed: false, internalType: "uint256", name: "feePaid", type: "uint256" },
+          ],
+          name: "MerkleTreeAdded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "bytes32", name: "root", type: "bytes32" },
+            { indexed: false, internalType: "address", name: "remover", type: "address" },
+          ],
+          name: "MerkleTreeRemoved",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "bytes32", name: "root", type: "bytes32" },
+            { indexed: false, internalType: "string", name: "newDescription", type: "string" },
+            { indexed: false, internalType: "address", name: "updater", type: "address" },
+          ],
+          name: "MerkleTreeUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [{ indexed: false, internalType: "uint256", name: "newFee", type: "uint256" }],
+          name: "PlatformFeeUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [{ indexed: false, internalType: "address", name: "newTreasury", type: "address" }],
+          name: "TreasuryUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [{ indexed: false, internalType: "address", name: "newVerifier", type: "address" }],
+          name: "TrustedVerifierUpdated",
+          type: "event",
+        },
+        {
+          inputs: [
+            { internalType: "bytes32", name: "_root", type: "bytes32" },
+            { internalType: "string", name: "_description", type: "string" },
+            { internalType: "uint256", name: "_listSize", type: "uint256" },
+          ],
+          name: "addMerkleTree",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "bytes32", name: "_root", type: "bytes32" }],
+          name: "getMerkleTreeInfo",
+          outputs: [
+            {
+              components: [
+                { internalType: "string", name: "description", type: "string" },
+                { internalType: "uint256", name: "timestamp", type: "uint256" },
+                { internalType: "uint256", name: "listSize", type: "uint256" },
+                { internalType: "address", name: "creator", type: "address" },
+                { internalType: "bool", name: "isActive", type: "bool" },
+              ],
+              internalType: "struct MerkleProofX.MerkleTreeInfo",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getPlatformFee",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "isKosVerified",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "bytes32", name: "_root", type: "bytes32" }],
+          name: "isMerkleRootValid",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "isNewcomer",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "_user", type: "address" }],
+          name: "isUserNewcomer",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "bytes32", name: "", type: "bytes32" }],
+          name: "merkleTrees",
+          outputs: [
+            { internalType: "string", name: "description", type: "string" },
+            { internalType: "uint256", name: "timestamp", type: "uint256" },
+            { internalType: "uint256", name: "listSize", type: "uint256" },
+            { internalType: "address", name: "creator", type: "address" },
+            { internalType: "bool", name: "isActive", type: "bool" },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "platformFee",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "platformTreasury",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "bytes32", name: "_root", type: "bytes32" }],
+          name: "removeMerkleTree",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "_user", type: "address" },
+            { internalType: "bool", name: "_isNewcomer", type: "bool" },
+          ],
+          name: "setNewcomerStatus",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "_verifier", type: "address" }],
+          name: "setTrustedVerifier",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "address", name: "_claimer", type: "address" },
+            { internalType: "bytes", name: "_signature", type: "bytes" },
+          ],
+          name: "submitVerifiedProof",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "trustedVerifier",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            { internalType: "bytes32", name: "_root", type: "bytes32" },
+            { internalType: "string", name: "_newDescription", type: "string" },
+          ],
+          name: "updateMerkleTreeDescription",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "uint256", name: "_newFee", type: "uint256" }],
+          name: "updatePlatformFee",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "_newTreasury", type: "address" }],
+          name: "updateTreasury",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+      ],
+      inheritedFunctions: {},
+      deployedOnBlock: 33388421,
+    },
+    YourContract: {
+      address: "0xc8F6fF01fd1D981e627a8102fc334D360Af7384b",
+      abi: [
+        {
+          inputs: [{ internalType: "address", name: "_owner", type: "address" }],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            { indexed: true, internalType: "address", name: "greetingSetter", type: "address" },
+            { indexed: false, internalType: "string", name: "newGreeting", type: "string" },
+            { indexed: false, internalType: "bool", name: "premium", type: "bool" },
+            { indexed: false, internalType: "uint256", name: "value", type: "uint256" },
+          ],
+          name: "GreetingChange",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "greeting",
+          outputs: [{ internalType: "string", name: "", type: "string" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [{ internalType: "address", name: "", type: "address" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "premium",
+          outputs: [{ internalType: "bool", name: "", type: "bool" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "string", name: "_newGreeting", type: "string" }],
+          name: "setGreeting",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "totalCounter",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [{ internalType: "address", name: "", type: "address" }],
+          name: "userGreetingCounter",
+          outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+          stateMutability: "view",
+          type: "function",
+        },
+        { inputs: [], name: "withdraw", outputs: [], stateMutability: "nonpayable", type: "function" },
+        { stateMutability: "payable", type: "receive" },
+      ],
+      inheritedFunctions: {},
+      deployedOnBlock: 33388439,
     },
   },
-};
+} as const;
 
-export default deployedContracts;
+export default deployedContracts satisfies GenericContractsDeclaration;
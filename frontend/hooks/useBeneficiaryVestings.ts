@@ -0,0 +1,46 @@
+import { VESTING_DEPLOYED_EVENT } from "../utils/vesting";
+import { getErrorMessage } from "../utils/errors";
+import { useContractRegistry } from "./useContractRegistry";
+import { useQuery } from "@tanstack/react-query";
+import { Address, parseAbiItem } from "viem";
+import { useAccount, usePublicClient } from "wagmi";
+
+const VESTING_DEPLOYED = parseAbiItem(VESTING_DEPLOYED_EVENT);
+
+export interface BeneficiaryVesting {
+  address: Address;
+  blockNumber: bigint;
+}
+
+/**
+ * Lists the BasicVesting contracts ContractTemplates deployed for the connected wallet, newest first, from the
+ * VestingContractDeployed events indexed by beneficiary
+ */
+export const useBeneficiaryVestings = () => {
+  const { address } = useAccount();
+  const { chainId, contracts } = useContractRegistry();
+  const publicClient = usePublicClient({ chainId });
+  const factory = contracts?.ContractTemplates;
+
+  const query = useQuery({
+    queryKey: ["beneficiaryVestings", { chainId, address }],
+    queryFn: async (): Promise<BeneficiaryVesting[]> => {
+      if (!publicClient || !factory || !address) return [];
+      const logs = await publicClient.getLogs({
+        address: factory.address,
+        event: VESTING_DEPLOYED,
+        args: { beneficiary: address },
+        fromBlock: factory.deployedOnBlock !== undefined ? BigInt(factory.deployedOnBlock) : "earliest",
+      });
+      return logs.map(log => ({ address: log.args.contractAddress!, blockNumber: log.blockNumber })).reverse();
+    },
+    enabled: Boolean(publicClient && factory && address),
+  });
+
+  return {
+    vestings: query.data ?? [],
+    isLoading: query.isFetching,
+    error: query.error ? getErrorMessage(query.error, "Failed to find vesting contracts") : null,
+    refresh: query.refetch,
+  };
+};
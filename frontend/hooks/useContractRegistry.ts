@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { useTargetNetwork } from "./core";
+import { getChainContracts, getDeployedContract } from "../utils/contractHelpers";
+import { ContractName } from "../utils/core/contract";
+import { useAccount } from "wagmi";
+
+/**
+ * Resolves the deployed contracts for the connected wallet's chain, falling back to the target network when no
+ * wallet is connected. `getContract` throws when the contract is not deployed there, so handlers can surface it.
+ */
+export const useContractRegistry = () => {
+  const { chain } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const chainId = chain?.id ?? targetNetwork.id;
+  const networkName = chain?.name ?? targetNetwork.name;
+  const blockExplorer = (chain ?? targetNetwork).blockExplorers?.default.url ?? "";
+
+  return useMemo(
+    () => ({
+      chainId,
+      networkName,
+      blockExplorer,
+      contracts: getChainContracts(chainId),
+      getContract: <TContractName extends ContractName>(contractName: TContractName) =>
+        getDeployedContract(contractName, chainId),
+    }),
+    [chainId, networkName, blockExplorer],
+  );
+};
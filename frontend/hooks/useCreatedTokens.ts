@@ -0,0 +1,331 @@
+import { useCallback } from "react";
+import { ChainContracts, hasFunction } from "../utils/contractHelpers";
+import { getErrorMessage } from "../utils/errors";
+import { useContractRegistry } from "./useContractRegistry";
+import { ManagedTokenType } from "./useManagedToken";
+import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
+import { Address, PublicClient, parseAbi } from "viem";
+import { useAccount, usePublicClient } from "wagmi";
+
+export const CREATED_TOKENS_PAGE_SIZE = 20;
+
+export interface CreatedToken {
+  id: string;
+  type: ManagedTokenType;
+  name: string;
+  symbol: string;
+  address: string;
+  // Milliseconds since the epoch, null when the factory has no record of the creation time
+  createdAt: number | null;
+}
+
+// Per-creator getters of each factory. Factories deployed before pagination only have the full-list getter.
+const FACTORY_SOURCES = [
+  {
+    type: "ERC20",
+    factory: "ERC20Factory",
+    count: "getTokenCountByCreator",
+    page: "getTokensByCreatorPage",
+    all: "getTokensByCreator",
+  },
+  {
+    type: "ERC721",
+    factory: "ERC721Factory",
+    count: "getCollectionCountByCreator",
+    page: "getCollectionsByCreatorPage",
+    all: "getCollectionsByCreator",
+  },
+  {
+    type: "ERC1155",
+    factory: "ERC1155Factory",
+    count: "getContractCountByCreator",
+    page: "getContractsByCreatorPage",
+    all: "getContractsByCreator",
+  },
+] as const;
+
+const FACTORY_REGISTRY_ABI = parseAbi([
+  "function getTokenCountByCreator(address creator) view returns (uint256)",
+  "function getTokensByCreatorPage(address creator, uint256 offset, uint256 limit) view returns (address[])",
+  "function getTokensByCreator(address creator) view returns (address[])",
+  "function getCollectionCountByCreator(address creator) view returns (uint256)",
+  "function getCollectionsByCreatorPage(address creator, uint256 offset, uint256 limit) view returns (address[])",
+  "function getCollectionsByCreator(address creator) view returns (address[])",
+  "function getContractCountByCreator(address creator) view returns (uint256)",
+  "function getContractsByCreatorPage(address creator, uint256 offset, uint256 limit) view returns (address[])",
+  "function getContractsByCreator(address creator) view returns (address[])",
+  // Creation records: the NFT factories store them, ERC20Factory only emits them
+  "function collections(address) view returns (string name, string symbol, address creator, uint256 maxSupply, bool mintable, bool burnable, bool pausable, uint256 createdAt)",
+  "function multiTokens(address) view returns (string name, string uri, address creator, bool mintable, bool burnable, bool pausable, bool supplyTracked, uint256 createdAt)",
+  "event TokenCreated(address indexed tokenAddress, string name, string symbol, uint256 initialSupply, uint8 decimals, address indexed creator)",
+]);
+
+const TOKEN_CREATED_EVENT = FACTORY_REGISTRY_ABI.find(item => item.type === "event" && item.name === "TokenCreated")!;
+
+const TOKEN_METADATA_ABI = parseAbi([
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+]);
+
+// A factory's tokens for the creator: how many there are, plus the whole list when the factory cannot paginate
+interface FactoryIndex {
+  source: (typeof FACTORY_SOURCES)[number];
+  factoryAddress: Address;
+  deployedOnBlock?: number;
+  total: number;
+  addresses?: readonly Address[];
+}
+
+interface TokenCreation {
+  name: string;
+  symbol: string;
+  createdAt: number;
+}
+
+interface TokensPage {
+  indexes: FactoryIndex[];
+  tokens: CreatedToken[];
+}
+
+// Later pages reuse the indexes read with the first one, so offsets stay consistent while scrolling
+interface TokensPageParam {
+  indexes: FactoryIndex[];
+  loaded: number;
+}
+
+const getTotal = (indexes: FactoryIndex[]) => indexes.reduce((sum, index) => sum + index.total, 0);
+
+const readFactoryIndexes = async (
+  publicClient: PublicClient,
+  chainContracts: ChainContracts | undefined,
+  creator: Address,
+): Promise<FactoryIndex[]> => {
+  const factories = FACTORY_SOURCES.flatMap(source => {
+    const factory = chainContracts?.[source.factory];
+    return factory
+      ? [
+          {
+            source,
+            factoryAddress: factory.address,
+            deployedOnBlock: factory.deployedOnBlock,
+            isPaginated: hasFunction(factory.abi, `${source.count}(address)`),
+          },
+        ]
+      : [];
+  });
+
+  const paginated = factories.filter(factory => factory.isPaginated);
+  // Factories deployed before pagination have nothing to count, so skip the empty multicall
+  const counts =
+    paginated.length === 0
+      ? []
+      : await publicClient.multicall({
+          contracts: paginated.map(({ source, factoryAddress }) => ({
+            address: factoryAddress,
+            abi: FACTORY_REGISTRY_ABI,
+            functionName: source.count,
+            args: [creator],
+          })),
+          allowFailure: false,
+        });
+
+  return Promise.all(
+    factories.map(async ({ isPaginated, ...factory }) => {
+      if (isPaginated) {
+        return { ...factory, total: Number(counts[paginated.findIndex(p => p.source === factory.source)]) };
+      }
+      const addresses = (await publicClient.readContract({
+        address: factory.factoryAddress,
+        abi: FACTORY_REGISTRY_ABI,
+        functionName: factory.source.all,
+        args: [creator],
+      })) as readonly Address[];
+      return { ...factory, total: addresses.length, addresses };
+    }),
+  );
+};
+
+// ERC20Factory keeps no creation record, so read it from the TokenCreated events and their block timestamps.
+// RPCs may reject the unbounded log range; the tokens are then listed without a creation time.
+const readErc20Creations = async (
+  publicClient: PublicClient,
+  index: FactoryIndex,
+  tokens: Address[],
+): Promise<Map<string, TokenCreation>> => {
+  if (tokens.length === 0) return new Map();
+
+  try {
+    const logs = await publicClient.getLogs({
+      address: index.factoryAddress,
+      event: TOKEN_CREATED_EVENT,
+      args: { tokenAddress: tokens },
+      fromBlock: index.deployedOnBlock !== undefined ? BigInt(index.deployedOnBlock) : "earliest",
+    });
+
+    const blockNumbers = [...new Set(logs.map(log => log.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map(blockNumber => publicClient.getBlock({ blockNumber })));
+    const timestamps = new Map(blocks.map(block => [block.number, Number(block.timestamp) * 1000]));
+
+    return new Map(
+      logs.map(log => [
+        log.args.tokenAddress!.toLowerCase(),
+        { name: log.args.name!, symbol: log.args.symbol!, createdAt: timestamps.get(log.blockNumber)! },
+      ]),
+    );
+  } catch (error) {
+    console.error("Error reading ERC20 creation events:", error);
+    return new Map();
+  }
+};
+
+const readTokensPage = async (
+  publicClient: PublicClient,
+  indexes: FactoryIndex[],
+  creator: Address,
+  loaded: number,
+): Promise<CreatedToken[]> => {
+  // Map the next page of the combined list onto newest-first slices of each factory's list
+  const slices: { index: FactoryIndex; offset: number; limit: number }[] = [];
+  let skip = loaded;
+  let remaining = CREATED_TOKENS_PAGE_SIZE;
+  for (const index of indexes) {
+    if (remaining === 0) break;
+    if (skip >= index.total) {
+      skip -= index.total;
+      continue;
+    }
+    const limit = Math.min(remaining, index.total - skip);
+    slices.push({ index, offset: index.total - skip - limit, limit });
+    remaining -= limit;
+    skip = 0;
+  }
+  if (slices.length === 0) return [];
+
+  const pagedSlices = slices.filter(slice => !slice.index.addresses);
+  const pages =
+    pagedSlices.length === 0
+      ? []
+      : await publicClient.multicall({
+          contracts: pagedSlices.map(({ index, offset, limit }) => ({
+            address: index.factoryAddress,
+            abi: FACTORY_REGISTRY_ABI,
+            functionName: index.source.page,
+            args: [creator, BigInt(offset), BigInt(limit)],
+          })),
+          allowFailure: false,
+        });
+
+  const entries = slices.flatMap(slice => {
+    const addresses = slice.index.addresses
+      ? slice.index.addresses.slice(slice.offset, slice.offset + slice.limit)
+      : (pages[pagedSlices.indexOf(slice)] as readonly Address[]);
+    return [...addresses].reverse().map(address => ({ address, index: slice.index }));
+  });
+
+  // One multicall for the name and symbol of every token, plus the NFT factories' creation records.
+  // ERC1155 contracts have a name but no symbol.
+  const calls = entries.map(({ address, index }) => {
+    const { type } = index.source;
+    return [
+      { address, abi: TOKEN_METADATA_ABI, functionName: "name" } as const,
+      type === "ERC1155" ? null : ({ address, abi: TOKEN_METADATA_ABI, functionName: "symbol" } as const),
+      type === "ERC20"
+        ? null
+        : ({
+            address: index.factoryAddress,
+            abi: FACTORY_REGISTRY_ABI,
+            functionName: type === "ERC721" ? "collections" : "multiTokens",
+            args: [address],
+          } as const),
+    ];
+  });
+  const erc20Index = indexes.find(index => index.source.type === "ERC20");
+  const erc20Tokens = entries.filter(entry => entry.index === erc20Index).map(entry => entry.address);
+
+  const [results, erc20Creations] = await Promise.all([
+    publicClient.multicall({ contracts: calls.flat().filter(call => call !== null) }),
+    erc20Index ? readErc20Creations(publicClient, erc20Index, erc20Tokens) : new Map<string, TokenCreation>(),
+  ]);
+
+  let cursor = 0;
+  return entries.map(({ address, index }, i) => {
+    const { type } = index.source;
+    const [name, symbol, record] = calls[i].map(call => (call ? results[cursor++] : null));
+
+    // The factory's record of the creation backs up the token's own name and symbol
+    let creation: TokenCreation | undefined;
+    if (type === "ERC20") {
+      creation = erc20Creations.get(address.toLowerCase());
+    } else if (record?.status === "success") {
+      const fields = record.result as readonly [string, string, ...unknown[]];
+      const createdAt = fields[7] as bigint;
+      creation = { name: fields[0], symbol: type === "ERC721" ? fields[1] : "MT", createdAt: Number(createdAt) * 1000 };
+    }
+
+    return {
+      id: `${address}-${type.toLowerCase()}`,
+      type,
+      name: name?.status === "success" ? (name.result as string) : (creation?.name ?? "Unknown"),
+      symbol:
+        type === "ERC1155"
+          ? "MT"
+          : symbol?.status === "success"
+            ? (symbol.result as string)
+            : (creation?.symbol ?? "UNK"),
+      address,
+      createdAt: creation?.createdAt ?? null,
+    };
+  });
+};
+
+/**
+ * Lists the tokens the connected wallet created with the factories, newest first within each token type,
+ * CREATED_TOKENS_PAGE_SIZE at a time. Each page reads the factories' paginated getters, then the name,
+ * symbol and creation record of every token in it with one multicall. Pages are cached by chain and creator.
+ */
+export const useCreatedTokens = () => {
+  const { address } = useAccount();
+  const { chainId, contracts } = useContractRegistry();
+  const publicClient = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey: ["createdTokens", { chainId, creator: address }],
+    queryFn: async ({ pageParam }): Promise<TokensPage> => {
+      if (!publicClient || !address) throw new Error("Wallet not connected");
+
+      const indexes = pageParam?.indexes ?? (await readFactoryIndexes(publicClient, contracts, address));
+      const tokens = await readTokensPage(publicClient, indexes, address, pageParam?.loaded ?? 0);
+      return { indexes, tokens };
+    },
+    initialPageParam: null as TokensPageParam | null,
+    getNextPageParam: (lastPage, allPages) => {
+      const loaded = allPages.reduce((sum, page) => sum + page.tokens.length, 0);
+      return loaded < getTotal(lastPage.indexes) ? { indexes: lastPage.indexes, loaded } : undefined;
+    },
+    enabled: Boolean(publicClient && address),
+    // Only the creator adds to this list, and the page refreshes it after each deployment
+    staleTime: 5 * 60_000,
+  });
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Start over from the first page, so new tokens show up at the top
+  const refresh = useCallback(
+    () => queryClient.resetQueries({ queryKey: ["createdTokens", { chainId, creator: address }] }),
+    [queryClient, chainId, address],
+  );
+
+  return {
+    tokens: address ? (query.data?.pages.flatMap(page => page.tokens) ?? []) : [],
+    total: query.data ? getTotal(query.data.pages[0].indexes) : 0,
+    hasMore: Boolean(address && hasNextPage),
+    isLoading: query.isFetching,
+    error: query.error ? getErrorMessage(query.error, "Failed to load tokens") : null,
+    refresh,
+    loadMore,
+  };
+};
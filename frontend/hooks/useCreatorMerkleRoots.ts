@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from "react";
+import { useContractRegistry } from "./useContractRegistry";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+
+// Smallest block range queried before giving up when an RPC rejects a large getLogs range
+const MIN_LOG_RANGE = 2000;
+
+// A root published to MerkleProofX with addMerkleTree
+export interface PublishedTree {
+  description: string;
+  listSize: number;
+  timestamp: number;
+  isActive: boolean;
+}
+
+// A root registered on MerkleProofValidator with registerMerkleRoot
+export interface RegisteredRoot {
+  description: string;
+  timestamp: number;
+  validationCount: number;
+  isActive: boolean;
+}
+
+export interface CreatorMerkleRoot {
+  root: string;
+  published?: PublishedTree;
+  registered?: RegisteredRoot;
+}
+
+// Query logs over [fromBlock, toBlock], splitting the range in half whenever the RPC rejects it as too large
+const queryLogs = async (
+  contract: ethers.Contract,
+  filter: ethers.DeferredTopicFilter,
+  fromBlock: number,
+  toBlock: number,
+): Promise<ethers.EventLog[]> => {
+  try {
+    const logs = await contract.queryFilter(filter, fromBlock, toBlock);
+    return logs.filter((log): log is ethers.EventLog => log instanceof ethers.EventLog);
+  } catch (error) {
+    if (toBlock - fromBlock < MIN_LOG_RANGE) throw error;
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    const lower = await queryLogs(contract, filter, fromBlock, middle);
+    const upper = await queryLogs(contract, filter, middle + 1, toBlock);
+    return [...lower, ...upper];
+  }
+};
+
+// Roots named in the creation events that the given wallet emitted (creator is not an indexed topic)
+const rootsCreatedBy = (logs: ethers.EventLog[], creator: string) =>
+  new Set(logs.filter(log => String(log.args.creator).toLowerCase() === creator.toLowerCase()).map(log => log.args[0]));
+
+/**
+ * Lists the Merkle roots the connected wallet published to MerkleProofX or registered on
+ * MerkleProofValidator, by indexing MerkleTreeAdded and MerkleRootRegistered events
+ */
+export const useCreatorMerkleRoots = () => {
+  const { address } = useAccount();
+  const { getContract } = useContractRegistry();
+  const [roots, setRoots] = useState<CreatorMerkleRoot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!address || !window.ethereum) {
+      setRoots([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const registryContract = getContract("MerkleProofX");
+      const validatorContract = getContract("MerkleProofValidator");
+      const merkleProof = new ethers.Contract(registryContract.address, registryContract.abi, provider);
+      const validator = new ethers.Contract(validatorContract.address, validatorContract.abi, provider);
+      const latestBlock = await provider.getBlockNumber();
+      // No event predates its contract, so each scan starts at the block the contract was deployed on
+      const registryFromBlock = registryContract.deployedOnBlock ?? 0;
+      const validatorFromBlock = validatorContract.deployedOnBlock ?? 0;
+
+      const [addedLogs, registeredLogs] = await Promise.all([
+        queryLogs(merkleProof, merkleProof.filters.MerkleTreeAdded(), registryFromBlock, latestBlock),
+        queryLogs(validator, validator.filters.MerkleRootRegistered(), validatorFromBlock, latestBlock),
+      ]);
+      const publishedRoots = rootsCreatedBy(addedLogs, address);
+      const registeredRoots = rootsCreatedBy(registeredLogs, address);
+
+      const allRoots = Array.from(new Set([...publishedRoots, ...registeredRoots]));
+      const results = await Promise.all(
+        allRoots.map(async (root): Promise<CreatorMerkleRoot> => {
+          const entry: CreatorMerkleRoot = { root };
+
+          // A removed root can be re-added by another wallet, so trust the current creator over the event
+          if (publishedRoots.has(root)) {
+            const tree = await merkleProof.merkleTrees(root);
+            if (tree.creator.toLowerCase() === address.toLowerCase()) {
+              entry.published = {
+                description: tree.description,
+                listSize: Number(tree.listSize),
+                timestamp: Number(tree.timestamp),
+                isActive: tree.isActive,
+              };
+            }
+          }
+
+          if (registeredRoots.has(root)) {
+            const [description, , timestamp, validationCount, isActive] = await validator.getValidationStats(root);
+            entry.registered = {
+              description,
+              timestamp: Number(timestamp),
+              validationCount: Number(validationCount),
+              isActive,
+            };
+          }
+
+          return entry;
+        }),
+      );
+
+      const latestTimestamp = (entry: CreatorMerkleRoot) =>
+        Math.max(entry.published?.timestamp ?? 0, entry.registered?.timestamp ?? 0);
+      setRoots(
+        results
+          .filter(entry => entry.published || entry.registered)
+          .sort((a, b) => latestTimestamp(b) - latestTimestamp(a)),
+      );
+    } catch (err) {
+      console.error("Error loading Merkle roots:", err);
+      setError(err instanceof Error ? err.message : "Failed to load Merkle roots");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, getContract]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { roots, isLoading, error, refresh };
+};
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from "react";
+import { SaleConfigs, readSaleConfigs } from "../utils/nftSale";
+import { getErrorMessage } from "../utils/errors";
+import { CUSTOM_ERC1155_ABI, CUSTOM_ERC721_ABI, ERC20_TOKEN_ABI, TokenConfig } from "../utils/tokenAbis";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+
+export type ManagedTokenType = "ERC20" | "ERC721" | "ERC1155";
+
+// Name and feature flags fixed at deployment by the ERC721 and ERC1155 factories
+export interface TokenFeatures {
+  name: string;
+  isMintable: boolean;
+  isBurnable: boolean;
+  isPausable: boolean;
+  isPaused: boolean;
+  // ERC-2981, missing from contracts deployed before royalties
+  supportsRoyalties: boolean;
+}
+
+export type ManagedTokenState =
+  | {
+      type: "ERC20";
+      owner: string;
+      decimals: number;
+      totalSupply: bigint;
+      balance: bigint;
+      // Null for tokens created before ERC20Factory supported optional features
+      config: TokenConfig | null;
+      isPaused: boolean;
+    }
+  | ({
+      type: "ERC721";
+      owner: string;
+      maxSupply: bigint;
+      currentSupply: bigint;
+      // Null for collections deployed before ERC721 sales
+      sales: SaleConfigs | null;
+      // Unwithdrawn sale proceeds held by the collection
+      proceeds: bigint;
+    } & TokenFeatures)
+  | ({ type: "ERC1155"; owner: string; uri: string; isSupplyTracked: boolean } & TokenFeatures);
+
+const ERC2981_INTERFACE_ID = "0x2a55205a";
+
+export const MANAGED_TOKEN_ABIS: Record<ManagedTokenType, readonly string[]> = {
+  ERC20: ERC20_TOKEN_ABI,
+  ERC721: CUSTOM_ERC721_ABI,
+  ERC1155: CUSTOM_ERC1155_ABI,
+};
+
+const readTokenState = async (
+  token: ethers.Contract,
+  type: ManagedTokenType,
+  account: string,
+): Promise<ManagedTokenState> => {
+  if (type === "ERC20") {
+    const [owner, decimals, totalSupply, balance, rawConfig] = await Promise.all([
+      token.owner(),
+      token.decimals(),
+      token.totalSupply(),
+      token.balanceOf(account),
+      token.getConfig().catch(() => null),
+    ]);
+    const config: TokenConfig | null = rawConfig && {
+      cap: rawConfig.cap,
+      pausable: rawConfig.pausable,
+      permit: rawConfig.permit,
+      votes: rawConfig.votes,
+      blocklist: rawConfig.blocklist,
+      transferTaxBps: Number(rawConfig.transferTaxBps),
+      taxRecipient: rawConfig.taxRecipient,
+    };
+    const isPaused: boolean = config?.pausable ? await token.paused() : false;
+    return { type, owner, decimals: Number(decimals), totalSupply, balance, config, isPaused };
+  }
+
+  const [owner, name, isMintable, isBurnable, isPausable, isPaused, supportsRoyalties] = await Promise.all([
+    token.owner(),
+    token.name(),
+    token.isMintable(),
+    token.isBurnable(),
+    token.isPausable(),
+    token.isPaused(),
+    token.supportsInterface(ERC2981_INTERFACE_ID),
+  ]);
+  const features = { name, isMintable, isBurnable, isPausable, isPaused, supportsRoyalties };
+
+  if (type === "ERC721") {
+    const [maxSupply, currentSupply, sales, proceeds] = await Promise.all([
+      token.getMaxSupply(),
+      token.currentSupply(),
+      readSaleConfigs(token),
+      token.runner!.provider!.getBalance(token.target),
+    ]);
+    return { type, owner, maxSupply, currentSupply, sales, proceeds, ...features };
+  }
+
+  // CustomERC1155 ignores the ID and returns the shared {id} URI
+  const [uri, isSupplyTracked] = await Promise.all([token.uri(0), token.isSupplyTracked()]);
+  return { type, owner, uri, isSupplyTracked, ...features };
+};
+
+/**
+ * Reads the owner, feature flags and supply of a token deployed by one of the factories, and exposes
+ * signer-bound contract instances for the management actions
+ */
+export const useManagedToken = (tokenAddress: string, type: ManagedTokenType) => {
+  const { address } = useAccount();
+  const [state, setState] = useState<ManagedTokenState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!address || !window.ethereum) {
+      setState(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      const token = new ethers.Contract(tokenAddress, MANAGED_TOKEN_ABIS[type], provider);
+      setState(await readTokenState(token, type, address));
+    } catch (err) {
+      console.error(`Error loading ${type} token ${tokenAddress}:`, err);
+      setState(null);
+      setError(getErrorMessage(err, "Failed to load token"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, tokenAddress, type]);
+
+  const getSignedToken = useCallback(async () => {
+    if (!window.ethereum) {
+      throw new Error("MetaMask or wallet provider not found");
+    }
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    return new ethers.Contract(tokenAddress, MANAGED_TOKEN_ABIS[type], await provider.getSigner());
+  }, [tokenAddress, type]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const isOwner = !!state && !!address && state.owner.toLowerCase() === address.toLowerCase();
+
+  return { state, isOwner, isLoading, error, refresh, getSignedToken };
+};
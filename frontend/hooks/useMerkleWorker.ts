@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  MerkleWorkerJobOf,
+  MerkleWorkerJobType,
+  MerkleWorkerProgress,
+  MerkleWorkerResponse,
+  MerkleWorkerResults,
+} from "~~/utils/merkleWorkerTypes";
+
+interface PendingJob {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Rejection reason of a job stopped with cancel()
+export const isMerkleJobCancelled = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+const MERKLE_WORKER_LOAD_ERROR = "The Merkle worker could not be loaded. Reload the page to try again.";
+
+/**
+ * Runs Merkle tree building, proof generation and validation in a Web Worker
+ * so large lists do not block the main thread. `resetCount` goes up each time the worker crashes,
+ * so callers that keep state in the worker know it is gone.
+ */
+export const useMerkleWorker = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingJob>());
+  const nextIdRef = useRef(1);
+  const activeJobRef = useRef<number | null>(null);
+  const [progress, setProgress] = useState<MerkleWorkerProgress | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Bumped whenever the worker stops and loses the state earlier jobs built up in it
+  const [resetCount, setResetCount] = useState(0);
+  const loadFailedRef = useRef(false);
+
+  const startWorker = useCallback(() => {
+    const pending = pendingRef.current;
+    const worker = new Worker(new URL("../utils/merkle.worker.ts", import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<MerkleWorkerResponse>) => {
+      const response = event.data;
+
+      if (response.type === "progress") {
+        if (response.id === activeJobRef.current) {
+          setProgress({ phase: response.phase, processed: response.processed, total: response.total });
+        }
+        return;
+      }
+
+      const job = pending.get(response.id);
+      if (!job) return;
+      pending.delete(response.id);
+
+      if (response.id === activeJobRef.current) {
+        activeJobRef.current = null;
+        setProgress(null);
+        setIsBusy(false);
+      }
+
+      if (response.type === "result") {
+        job.resolve(response.result);
+      } else if (response.cancelled) {
+        job.reject(new DOMException(response.message, "AbortError"));
+      } else {
+        job.reject(new Error(response.message));
+      }
+    };
+
+    // An uncaught error leaves the worker unable to answer, so fail every job and drop it. The next job starts
+    // a fresh worker, unless the script itself failed to load (reported without a message), which would fail again.
+    worker.onerror = event => {
+      console.error("Merkle worker error:", event.message);
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      loadFailedRef.current = !event.message;
+
+      const error = new Error(
+        loadFailedRef.current ? MERKLE_WORKER_LOAD_ERROR : `Merkle worker crashed: ${event.message}`,
+      );
+      pending.forEach(job => job.reject(error));
+      pending.clear();
+      activeJobRef.current = null;
+      setProgress(null);
+      setIsBusy(false);
+      setResetCount(count => count + 1);
+    };
+
+    return worker;
+  }, []);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pending.forEach(job => job.reject(new DOMException("Merkle worker stopped", "AbortError")));
+      pending.clear();
+    };
+  }, []);
+
+  // Long-running jobs report progress and can be cancelled; quick lookups pass track = false
+  const run = useCallback(
+    <T extends MerkleWorkerJobType>(job: MerkleWorkerJobOf<T>, track = true): Promise<MerkleWorkerResults[T]> => {
+      if (loadFailedRef.current) {
+        return Promise.reject(new Error(MERKLE_WORKER_LOAD_ERROR));
+      }
+      // The worker starts with the first job, and again with the first job after a crash
+      const worker = workerRef.current ?? startWorker();
+      workerRef.current = worker;
+
+      const id = nextIdRef.current++;
+      if (track) {
+        activeJobRef.current = id;
+        setProgress(null);
+        setIsBusy(true);
+      }
+
+      return new Promise<MerkleWorkerResults[T]>((resolve, reject) => {
+        pendingRef.current.set(id, { resolve, reject });
+        worker.postMessage({ ...job, id });
+      });
+    },
+    [startWorker],
+  );
+
+  const cancel = useCallback(() => {
+    if (activeJobRef.current !== null) {
+      workerRef.current?.postMessage({ id: activeJobRef.current, type: "cancel" });
+    }
+  }, []);
+
+  return { run, cancel, progress, isBusy, resetCount };
+};
@@ -0,0 +1,121 @@
+import { useCallback } from "react";
+import { getErrorMessage } from "../utils/errors";
+import { MULTISIG_ABI } from "../utils/multisig";
+import { useContractRegistry } from "./useContractRegistry";
+import { useQuery } from "@tanstack/react-query";
+import { Address, Hex, PublicClient, isAddress, parseAbi } from "viem";
+import { usePublicClient } from "wagmi";
+
+const MULTISIG_READ_ABI = parseAbi(MULTISIG_ABI);
+
+export interface MultiSigTransaction {
+  id: number;
+  to: Address;
+  value: bigint;
+  data: Hex;
+  executed: boolean;
+  numConfirmations: number;
+  // Owners that confirmed the transaction, in owner order
+  confirmedBy: Address[];
+}
+
+export interface MultiSigState {
+  owners: Address[];
+  requiredSignatures: number;
+  balance: bigint;
+  // False for wallets deployed before owners and the threshold could be changed
+  supportsOwnerManagement: boolean;
+  // Nonce of the next signature execution, or null for wallets deployed before executeWithSignatures existed
+  nonce: bigint | null;
+  // Newest first
+  transactions: MultiSigTransaction[];
+}
+
+const readMultiSig = async (publicClient: PublicClient, wallet: Address): Promise<MultiSigState> => {
+  const contract = { address: wallet, abi: MULTISIG_READ_ABI } as const;
+  const [[config, count], balance, ownerSetVersion, nonce] = await Promise.all([
+    publicClient.multicall({
+      contracts: [
+        { ...contract, functionName: "getMultiSigConfig" },
+        { ...contract, functionName: "getTransactionCount" },
+      ],
+      allowFailure: false,
+    }),
+    publicClient.getBalance({ address: wallet }),
+    publicClient.readContract({ ...contract, functionName: "ownerSetVersion" }).catch(() => null),
+    publicClient.readContract({ ...contract, functionName: "nonce" }).catch(() => null),
+  ]);
+  const [owners, requiredSignatures] = config;
+  const ids = Array.from({ length: Number(count) }, (_, id) => id);
+
+  // One multicall for every transaction followed by each owner's confirmation of it
+  const results =
+    ids.length === 0
+      ? []
+      : await publicClient.multicall({
+          contracts: ids.flatMap(id => [
+            { ...contract, functionName: "getTransaction", args: [BigInt(id)] } as const,
+            ...owners.map(owner => ({ ...contract, functionName: "isConfirmed", args: [BigInt(id), owner] }) as const),
+          ]),
+          allowFailure: false,
+        });
+
+  const stride = owners.length + 1;
+  const transactions = ids.map(id => {
+    const [to, value, data, executed, numConfirmations] = results[id * stride] as readonly [
+      Address,
+      bigint,
+      Hex,
+      boolean,
+      bigint,
+    ];
+    const confirmations = results.slice(id * stride + 1, (id + 1) * stride) as boolean[];
+    return {
+      id,
+      to,
+      value,
+      data,
+      executed,
+      numConfirmations: Number(numConfirmations),
+      confirmedBy: owners.filter((_, index) => confirmations[index]),
+    };
+  });
+
+  return {
+    owners: [...owners],
+    requiredSignatures: Number(requiredSignatures),
+    balance,
+    supportsOwnerManagement: ownerSetVersion !== null,
+    nonce,
+    transactions: transactions.reverse(),
+  };
+};
+
+/**
+ * Reads the owners, threshold, balance and every proposal of a BasicMultiSig wallet, with each owner's
+ * confirmation, cached per chain and wallet
+ */
+export const useMultiSig = (wallet: string) => {
+  const { chainId } = useContractRegistry();
+  const publicClient = usePublicClient({ chainId });
+  const isValidWallet = isAddress(wallet);
+
+  const query = useQuery({
+    queryKey: ["multiSig", { chainId, wallet }],
+    queryFn: () => {
+      if (!publicClient) throw new Error("Wallet not connected");
+      return readMultiSig(publicClient, wallet as Address);
+    },
+    enabled: Boolean(publicClient && isValidWallet),
+  });
+
+  const { refetch } = query;
+  const refresh = useCallback(() => refetch(), [refetch]);
+
+  return {
+    state: isValidWallet ? (query.data ?? null) : null,
+    isLoading: query.isFetching,
+    error: query.error ? getErrorMessage(query.error, "Failed to load the multisig wallet") : null,
+    refresh,
+  };
+};
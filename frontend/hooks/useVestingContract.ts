@@ -0,0 +1,113 @@
+import { useCallback } from "react";
+import { getErrorMessage } from "../utils/errors";
+import { BASIC_VESTING_ABI, VestingRelease, VestingSchedule } from "../utils/vesting";
+import { useContractRegistry } from "./useContractRegistry";
+import { useQuery } from "@tanstack/react-query";
+import { Address, PublicClient, isAddress, parseAbi } from "viem";
+import { usePublicClient } from "wagmi";
+
+const VESTING_READ_ABI = parseAbi(BASIC_VESTING_ABI);
+
+const TOKENS_RELEASED_EVENT = VESTING_READ_ABI.find(item => item.type === "event" && item.name === "TokensReleased")!;
+
+const TOKEN_METADATA_ABI = parseAbi([
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+]);
+
+export interface VestingState extends VestingSchedule {
+  beneficiary: Address;
+  token: Address;
+  symbol: string;
+  decimals: number;
+  released: bigint;
+  vestedAmount: bigint;
+  releasable: bigint;
+  // Oldest first
+  releases: VestingRelease[];
+}
+
+const readVesting = async (
+  publicClient: PublicClient,
+  vesting: Address,
+  fromBlock: bigint | undefined,
+): Promise<VestingState> => {
+  const contract = { address: vesting, abi: VESTING_READ_ABI } as const;
+  const [[info, token, releasable], logs] = await Promise.all([
+    publicClient.multicall({
+      contracts: [
+        { ...contract, functionName: "getVestingInfo" },
+        { ...contract, functionName: "token" },
+        { ...contract, functionName: "releasableAmount" },
+      ],
+      allowFailure: false,
+    }),
+    publicClient.getLogs({ address: vesting, event: TOKENS_RELEASED_EVENT, fromBlock: fromBlock ?? "earliest" }),
+  ]);
+  const [beneficiary, totalAmount, startTime, duration, released, vestedAmount] = info;
+
+  const blockNumbers = [...new Set(logs.map(log => log.blockNumber))];
+  const [[symbol, decimals], blocks] = await Promise.all([
+    publicClient.multicall({
+      contracts: [
+        { address: token, abi: TOKEN_METADATA_ABI, functionName: "symbol" },
+        { address: token, abi: TOKEN_METADATA_ABI, functionName: "decimals" },
+      ],
+    }),
+    Promise.all(blockNumbers.map(blockNumber => publicClient.getBlock({ blockNumber }))),
+  ]);
+  const timestamps = new Map(blocks.map(block => [block.number, Number(block.timestamp)]));
+
+  return {
+    beneficiary,
+    token,
+    // Tokens without metadata are shown with 18 decimals, as most ERC20s use
+    symbol: symbol.status === "success" ? symbol.result : "tokens",
+    decimals: decimals.status === "success" ? decimals.result : 18,
+    totalAmount,
+    startTime: Number(startTime),
+    duration: Number(duration),
+    released,
+    vestedAmount,
+    releasable,
+    releases: logs.map(log => ({
+      amount: log.args.amount!,
+      timestamp: timestamps.get(log.blockNumber)!,
+      transactionHash: log.transactionHash,
+    })),
+  };
+};
+
+/**
+ * Reads the schedule, token and release history of a BasicVesting contract, cached per chain and contract
+ */
+export const useVestingContract = (vesting: string) => {
+  const { chainId, contracts } = useContractRegistry();
+  const publicClient = usePublicClient({ chainId });
+  const isValidVesting = isAddress(vesting);
+  // Vesting contracts are deployed by the template factory, so their events cannot predate it
+  const deployedOnBlock = contracts?.ContractTemplates?.deployedOnBlock;
+
+  const query = useQuery({
+    queryKey: ["vestingContract", { chainId, vesting }],
+    queryFn: () => {
+      if (!publicClient) throw new Error("Wallet not connected");
+      return readVesting(
+        publicClient,
+        vesting as Address,
+        deployedOnBlock !== undefined ? BigInt(deployedOnBlock) : undefined,
+      );
+    },
+    enabled: Boolean(publicClient && isValidVesting),
+  });
+
+  const { refetch } = query;
+  const refresh = useCallback(() => refetch(), [refetch]);
+
+  return {
+    state: isValidVesting ? (query.data ?? null) : null,
+    isLoading: query.isFetching,
+    error: query.error ? getErrorMessage(query.error, "Failed to load the vesting contract") : null,
+    refresh,
+  };
+};
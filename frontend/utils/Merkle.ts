@@ -1,5 +1,15 @@
+import {
+  DEFAULT_LEAF_ENCODING,
+  LeafEncoding,
+  MerkleEntry,
+  MerkleInput,
+  encodeLeaf,
+  standardLeafTypes,
+  toMerkleEntry,
+} from "./merkleLeaf";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
 import { ethers } from "ethers";
-import { keccak256 } from "ethers";
+import { concat, keccak256 } from "ethers";
 import { MerkleTree } from "merkletreejs";
 
 // Helper function to check if a string is a valid Ethereum address
@@ -16,24 +26,317 @@ export const sortAddresses = (addresses: string[]): string[] => {
   return addresses.map(addr => addr.toLowerCase()).sort();
 };
 
-// Generate a Merkle tree from a list of addresses
-export const generateMerkleTree = (addresses: string[]): MerkleTree => {
-  // Convert addresses to lowercase and hash them
-  const leaves = addresses.map(addr => keccak256(addr.toLowerCase()));
-  // Create the Merkle tree
+// Values hashed into a StandardMerkleTree leaf: [address] or [address, amount]
+export type StandardTreeValue = [string] | [string, string];
+
+// Output of StandardMerkleTree.dump(), loadable with StandardMerkleTree.load()
+export type StandardTreeDump = ReturnType<StandardMerkleTree<StandardTreeValue>["dump"]>;
+
+// Arguments of OpenZeppelin's MerkleProof.multiProofVerify, with leaves in the order the proof expects
+export interface MultiProof {
+  leaves: string[];
+  proof: string[];
+  proofFlags: boolean[];
+}
+
+// OpenZeppelin StandardMerkleTree behind the merkletreejs accessors used across the app. It keeps
+// OpenZeppelin's sorted, complete-tree layout so roots match StandardMerkleTree.of() in other tooling.
+export class StandardTree {
+  readonly tree: StandardMerkleTree<StandardTreeValue>;
+  private readonly leaves: string[];
+  private readonly leafIndex: Map<string, number>;
+
+  constructor(inputs: MerkleInput[]) {
+    const entries = inputs.map(toMerkleEntry);
+    const leafEncoding = standardLeafTypes(entries[0]);
+    if (entries.some(entry => standardLeafTypes(entry).length !== leafEncoding.length)) {
+      throw new Error("Standard tree entries must either all have an amount or all omit it");
+    }
+
+    const values = entries.map(entry =>
+      entry.amount === undefined ? [entry.address] : [entry.address, BigInt(entry.amount).toString()],
+    ) as StandardTreeValue[];
+
+    this.tree = StandardMerkleTree.of(values, leafEncoding);
+    this.leaves = entries.map(entry => encodeLeaf(entry, "standard"));
+    this.leafIndex = new Map(this.leaves.map((leaf, index) => [leaf, index]));
+  }
+
+  getHexRoot(): string {
+    return this.tree.root;
+  }
+
+  // Values are kept in input order, so a leaf maps straight to its value index
+  getHexProof(leaf: string): string[] {
+    const index = this.leafIndex.get(leaf);
+    return index === undefined ? [] : this.tree.getProof(index);
+  }
+
+  getHexLeaves(): string[] {
+    return [...this.leaves];
+  }
+
+  getMultiProof(leaves: string[]): MultiProof {
+    const indices = leaves.map(leaf => {
+      const index = this.leafIndex.get(leaf);
+      if (index === undefined) throw new Error(`Leaf ${leaf} is not in the tree`);
+      return index;
+    });
+
+    const { leaves: values, proof, proofFlags } = this.tree.getMultiProof(indices);
+    return { leaves: values.map(value => this.tree.leafHash(value)), proof, proofFlags };
+  }
+
+  dump(): StandardTreeDump {
+    return this.tree.dump();
+  }
+}
+
+export type MerkleTreeLike = MerkleTree | StandardTree;
+
+// Build a sorted-pair tree from leaves that are already encoded (sorted pairs match OpenZeppelin's MerkleProof.verify)
+export const buildTreeFromLeaves = (leaves: string[]): MerkleTree => {
   return new MerkleTree(leaves, keccak256, { sortPairs: true });
 };
 
+// Generate a Merkle tree from a list of addresses (or address/amount entries)
+export const generateMerkleTree = (
+  entries: MerkleInput[],
+  encoding: LeafEncoding = DEFAULT_LEAF_ENCODING,
+): MerkleTreeLike => {
+  if (encoding === "standard") {
+    return new StandardTree(entries);
+  }
+
+  // Encode every entry with the selected leaf scheme
+  const leaves = entries.map(entry => encodeLeaf(entry, encoding));
+  return buildTreeFromLeaves(leaves);
+};
+
 // Generate a Merkle proof for a specific address
-export const generateMerkleProof = (tree: MerkleTree, address: string): string[] => {
-  const leaf = keccak256(address.toLowerCase());
+export const generateMerkleProof = (
+  tree: MerkleTreeLike,
+  entry: MerkleInput,
+  encoding: LeafEncoding = DEFAULT_LEAF_ENCODING,
+): string[] => {
+  const leaf = encodeLeaf(entry, encoding);
   return tree.getHexProof(leaf);
 };
 
+const hashSortedPair = (a: string, b: string) =>
+  BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+
+// JavaScript port of OpenZeppelin's MerkleProof.processMultiProof
+export const processMultiProof = ({ leaves, proof, proofFlags }: MultiProof): string => {
+  if (leaves.length + proof.length !== proofFlags.length + 1) {
+    throw new Error("Invalid multiproof: leaves, proof and flags lengths do not match");
+  }
+
+  const hashes: string[] = [];
+  let leafPos = 0;
+  let hashPos = 0;
+  let proofPos = 0;
+  const next = () => (leafPos < leaves.length ? leaves[leafPos++] : hashes[hashPos++]);
+
+  for (const flag of proofFlags) {
+    const a = next();
+    const b = flag ? next() : proof[proofPos++];
+    hashes.push(hashSortedPair(a, b));
+  }
+
+  if (proofFlags.length > 0) return hashes[proofFlags.length - 1];
+  return leaves.length > 0 ? leaves[0] : proof[0];
+};
+
+// Node graph of a merkletreejs sorted-pair tree. Odd nodes are promoted unhashed, so one node can fill several
+// layers and leaves can sit at different depths below the root.
+interface LayeredTreeNodes {
+  root: string;
+  hashes: string[];
+  children: ([number, number] | null)[];
+  // Breadth-first order from the root; multiProofVerify hashes nodes in the reverse of this order
+  order: number[];
+  position: Map<number, number>;
+  depth: Map<number, number>;
+  leafIndex: Map<string, number>;
+}
+
+const buildLayeredTreeNodes = (tree: MerkleTree): LayeredTreeNodes => {
+  const layers = tree.getHexLayers();
+  const hashes: string[] = [...layers[0]];
+  const children: ([number, number] | null)[] = layers[0].map(() => null);
+
+  // Map every layer position to a node, sharing the node when it is promoted
+  let layerNodes = layers[0].map((_, index) => index);
+  for (let level = 1; level < layers.length; level++) {
+    const nextNodes: number[] = [];
+    for (let i = 0; i < layerNodes.length; i += 2) {
+      if (i + 1 === layerNodes.length) {
+        nextNodes.push(layerNodes[i]);
+        continue;
+      }
+      hashes.push(layers[level][i / 2]);
+      children.push([layerNodes[i], layerNodes[i + 1]]);
+      nextNodes.push(hashes.length - 1);
+    }
+    layerNodes = nextNodes;
+  }
+
+  const order = [layerNodes[0]];
+  const depth = new Map([[layerNodes[0], 0]]);
+  for (let i = 0; i < order.length; i++) {
+    const pair = children[order[i]];
+    if (!pair) continue;
+    order.push(...pair);
+    pair.forEach(child => depth.set(child, depth.get(order[i])! + 1));
+  }
+
+  return {
+    root: tree.getHexRoot(),
+    hashes,
+    children,
+    order,
+    position: new Map(order.map((node, index) => [node, index])),
+    depth,
+    leafIndex: new Map(layers[0].map((leaf, index) => [leaf.toLowerCase(), index])),
+  };
+};
+
+// Multiproof for leaves at the same depth: every hashing step then sits above all of them, so processing
+// nodes deepest-first consumes the leaves and intermediate hashes in the order multiProofVerify expects
+const getLayeredMultiProof = (nodes: LayeredTreeNodes, leafNodes: number[]): MultiProof => {
+  const { hashes, children, order, position } = nodes;
+  const known = new Set(leafNodes);
+  const multiProof: MultiProof = {
+    leaves: [...known].sort((a, b) => position.get(b)! - position.get(a)!).map(node => hashes[node]),
+    proof: [],
+    proofFlags: [],
+  };
+
+  for (let i = order.length - 1; i >= 0; i--) {
+    const pair = children[order[i]];
+    if (!pair) continue;
+
+    const [left, right] = pair.map(child => known.has(child));
+    if (!left && !right) continue;
+
+    known.add(order[i]);
+    multiProof.proofFlags.push(left && right);
+    if (!left || !right) multiProof.proof.push(hashes[left ? pair[1] : pair[0]]);
+  }
+
+  if (processMultiProof(multiProof) !== nodes.root) {
+    throw new Error("Failed to build a multiproof for these leaves");
+  }
+  return multiProof;
+};
+
+// Generate the multiproofs covering several encoded leaves of the same tree. Standard trees always need one;
+// legacy trees need one per leaf depth, because multiProofVerify cannot mix promoted leaves with deeper ones.
+export const generateMultiProofs = (tree: MerkleTreeLike, leaves: string[]): MultiProof[] => {
+  if (leaves.length === 0) {
+    throw new Error("At least one leaf is required");
+  }
+  if (tree instanceof StandardTree) {
+    return [tree.getMultiProof(leaves)];
+  }
+
+  const nodes = buildLayeredTreeNodes(tree);
+  const groups = new Map<number, number[]>();
+  for (const leaf of leaves) {
+    const node = nodes.leafIndex.get(leaf.toLowerCase());
+    if (node === undefined) throw new Error(`Leaf ${leaf} is not in the tree`);
+
+    const depth = nodes.depth.get(node)!;
+    groups.set(depth, [...(groups.get(depth) ?? []), node]);
+  }
+
+  return [...groups.values()].map(group => getLayeredMultiProof(nodes, group));
+};
+
+// Generate a single multiproof, for trees and leaf sets where one is enough
+export const generateMultiProof = (tree: MerkleTreeLike, leaves: string[]): MultiProof => {
+  const multiProofs = generateMultiProofs(tree, leaves);
+  if (multiProofs.length > 1) {
+    throw new Error("These leaves cannot share a multiproof in this tree layout; use the standard encoding");
+  }
+  return multiProofs[0];
+};
+
+// Verify a multiproof against a Merkle root, like MerkleProof.multiProofVerify
+export const verifyMultiProof = (root: string, multiProof: MultiProof): boolean => {
+  try {
+    return processMultiProof(multiProof).toLowerCase() === root.toLowerCase();
+  } catch (error) {
+    return false;
+  }
+};
+
 // Verify a Merkle proof for a specific address
-export const verifyMerkleProof = (root: string, proof: string[], address: string): boolean => {
-  const leaf = keccak256(address.toLowerCase());
-  return MerkleTree.verify(proof, leaf, root, keccak256);
+export const verifyMerkleProof = (
+  root: string,
+  proof: string[],
+  entry: MerkleInput,
+  encoding: LeafEncoding = DEFAULT_LEAF_ENCODING,
+): boolean => {
+  const leaf = encodeLeaf(entry, encoding);
+  return MerkleTree.verify(proof, leaf, root, keccak256, { sortPairs: true });
+};
+
+// A single recipient entry of a MerkleDistributor claims file
+export interface DistributorClaim {
+  index: number;
+  amount: string;
+  proof: string[];
+}
+
+// Claims file consumed by MerkleDistributor front-ends (Uniswap merkle-distributor layout)
+export interface DistributorClaims {
+  merkleRoot: string;
+  tokenTotal: string;
+  leafEncoding: "claim";
+  claims: Record<string, DistributorClaim>;
+}
+
+// Build the Merkle root and per-recipient proofs for an airdrop of address/amount rows
+export const generateDistributorClaims = (rows: MerkleEntry[]): DistributorClaims => {
+  if (rows.length === 0) {
+    throw new Error("At least one claim is required");
+  }
+
+  const seen = new Set<string>();
+  const entries = rows.map((row, index) => {
+    const entry = toMerkleEntry(row);
+    if (seen.has(entry.address)) {
+      throw new Error(`Duplicate claim for ${entry.address}`);
+    }
+    seen.add(entry.address);
+
+    const amount = BigInt(entry.amount ?? 0);
+    if (amount <= 0n) {
+      throw new Error(`Claim amount for ${entry.address} must be greater than 0`);
+    }
+    return { address: entry.address, amount, index };
+  });
+
+  const leaves = entries.map(entry => encodeLeaf(entry, "claim"));
+  const tree = buildTreeFromLeaves(leaves);
+  const claims: Record<string, DistributorClaim> = {};
+  for (const entry of entries) {
+    claims[entry.address] = {
+      index: entry.index,
+      amount: entry.amount.toString(),
+      // Leaves keep the claim order, so the index skips merkletreejs' linear leaf lookup
+      proof: tree.getHexProof(leaves[entry.index], entry.index),
+    };
+  }
+
+  return {
+    merkleRoot: tree.getHexRoot(),
+    tokenTotal: entries.reduce((total, entry) => total + entry.amount, 0n).toString(),
+    leafEncoding: "claim",
+    claims,
+  };
 };
 
 // Export MerkleTree
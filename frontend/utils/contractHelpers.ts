@@ -1,55 +1,50 @@
-import deployedContracts from "../contracts/deployedContracts";
-import { useAccount, useContractRead, useContractWrite } from "wagmi";
+import { Abi, toFunctionSignature } from "viem";
+import { targetNetworks } from "~~/config/networks";
+import { Contract, ContractName, contracts } from "~~/utils/core/contract";
 
-// Helper function to get contract address by name and chain ID
-export const getContractAddress = (contractName: string, chainId: number = 50312) => {
-  const contracts = deployedContracts[chainId as keyof typeof deployedContracts];
-  if (!contracts) {
-    throw new Error(`No contracts found for chain ID ${chainId}`);
-  }
+// Chain whose contracts are used until a wallet reports another one: the first configured target network
+export const DEFAULT_CHAIN_ID: number = targetNetworks[0].id;
 
-  const contract = contracts[contractName as keyof typeof contracts];
-  if (!contract) {
-    throw new Error(`Contract ${contractName} not found on chain ${chainId}`);
-  }
+export type ChainContracts = { [TContractName in ContractName]?: Contract<TContractName> };
 
-  return contract.address;
-};
+// Every contract deployed on a chain, from the registry generated in contracts/deployedContracts.ts
+export const getChainContracts = (chainId: number = DEFAULT_CHAIN_ID): ChainContracts | undefined =>
+  contracts?.[chainId] as ChainContracts | undefined;
 
-// Helper function to get contract ABI by name and chain ID
-export const getContractABI = (contractName: string, chainId: number = 50312) => {
-  const contracts = deployedContracts[chainId as keyof typeof deployedContracts];
-  if (!contracts) {
+export const getDeployedContract = <TContractName extends ContractName>(
+  contractName: TContractName,
+  chainId: number = DEFAULT_CHAIN_ID,
+): Contract<TContractName> => {
+  const chainContracts = getChainContracts(chainId);
+  if (!chainContracts) {
     throw new Error(`No contracts found for chain ID ${chainId}`);
   }
 
-  const contract = contracts[contractName as keyof typeof contracts];
+  const contract = chainContracts[contractName];
   if (!contract) {
     throw new Error(`Contract ${contractName} not found on chain ${chainId}`);
   }
 
-  return contract.abi;
+  return contract as Contract<TContractName>;
 };
 
-// Contract addresses for easy access
-export const CONTRACT_ADDRESSES = {
-  ERC20Factory: "0x4F6D41C9F94FdD64c8D82C4eb71a459075E5Ae57",
-  DeFiUtils: "0x8860C6081E3Dd957d225FEf12d718495EBa75255",
-  ContractAnalyzer: "0xB0170720d8BB751Ed8F7cC071b8D0d9b4e5f501F",
-  ContractTemplates: "0x157f375f0112837CA14c8dAFB9dFe26f83a94634",
-  MerkleProofValidator: "0x6FA75F5dc94A1Cec18a8a113851231c66e2Bb90f",
-  MerkleProof: "0x0f1d9F35bc1631D8C3eB6A2B35A2972bF5061E53",
-} as const;
-
-// Network information
-export const NETWORK_INFO = {
-  name: "Somnia Testnet",
-  chainId: 50312,
-  rpcUrl: "https://dream-rpc.somnia.network/",
-  blockExplorer: "https://shannon-explorer.somnia.network/",
-  nativeCurrency: {
-    name: "Somnia Test Token",
-    symbol: "STT",
-    decimals: 18,
-  },
-} as const;
+// Helper function to get contract address by name and chain ID
+export const getContractAddress = (contractName: ContractName, chainId: number = DEFAULT_CHAIN_ID) =>
+  getDeployedContract(contractName, chainId).address;
+
+// Helper function to get contract ABI by name and chain ID
+export const getContractABI = (contractName: ContractName, chainId: number = DEFAULT_CHAIN_ID) =>
+  getDeployedContract(contractName, chainId).abi;
+
+/**
+ * Whether a registry ABI has a function, matched by its full signature such as
+ * "submitVerifiedProof(address,uint256,bytes)" so an older version with other parameters does not count
+ */
+export const hasFunction = (abi: Abi, signature: string) =>
+  abi.some(item => item.type === "function" && toFunctionSignature(item) === signature);
+
+// Error for features the deployed contract predates: they need a redeployment and a registry sync
+export const unsupportedFeatureError = (contractName: string, feature: string) =>
+  new Error(
+    `The deployed ${contractName} does not support ${feature} yet. Redeploy it and sync the frontend contracts.`,
+  );
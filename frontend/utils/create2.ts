@@ -0,0 +1,53 @@
+import { AbiCoder, BytesLike, concat, getCreate2Address, hexlify, keccak256, randomBytes } from "ethers";
+
+// RoyaltyConfig of NFTRoyalties.sol
+export const ROYALTY_CONFIG_TYPE =
+  "tuple(address receiver, uint96 feeNumerator, tuple(uint256 tokenId, address receiver, uint96 feeNumerator)[] tokenRoyalties)";
+
+// Constructor parameter types of the contracts the factories deploy, in declaration order
+export const ERC20_TOKEN_CONSTRUCTOR_TYPES = [
+  "string",
+  "string",
+  "uint256",
+  "uint8",
+  "address",
+  "tuple(uint256 cap, bool pausable, bool permit, bool votes, bool blocklist, uint16 transferTaxBps, address taxRecipient)",
+];
+export const CUSTOM_ERC721_CONSTRUCTOR_TYPES = [
+  "string",
+  "string",
+  "string",
+  "uint256",
+  "bool",
+  "bool",
+  "bool",
+  "address",
+  ROYALTY_CONFIG_TYPE,
+];
+export const CUSTOM_ERC1155_CONSTRUCTOR_TYPES = [
+  "string",
+  "string",
+  "bool",
+  "bool",
+  "bool",
+  "bool",
+  "address",
+  ROYALTY_CONFIG_TYPE,
+];
+
+export const randomSalt = () => hexlify(randomBytes(32));
+
+// Mirrors creatorSalt in the factories: the CREATE2 salt is bound to the creator's address
+export const getCreatorSalt = (creator: string, salt: BytesLike) =>
+  keccak256(AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [creator, salt]));
+
+// Creation bytecode followed by the ABI-encoded constructor arguments
+export const getInitCode = (bytecode: BytesLike, constructorTypes: string[], constructorArgs: unknown[]) =>
+  concat([bytecode, AbiCoder.defaultAbiCoder().encode(constructorTypes, constructorArgs)]);
+
+/**
+ * Off-chain equivalent of the factories' predictAddress, to cross-check the address a deterministic
+ * create call will deploy to
+ */
+export const predictFactoryAddress = (factory: string, creator: string, salt: BytesLike, initCode: BytesLike) =>
+  getCreate2Address(factory, getCreatorSalt(creator, salt), keccak256(initCode));
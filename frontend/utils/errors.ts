@@ -0,0 +1,33 @@
+// Fields that ethers, viem and wallet errors use to describe what went wrong
+interface ErrorFields {
+  code?: unknown;
+  name?: unknown;
+  reason?: unknown;
+  shortMessage?: unknown;
+  message?: unknown;
+}
+
+const asText = (value: unknown) => (typeof value === "string" && value.length > 0 ? value : undefined);
+
+// Whether the wallet reported that the user declined the request
+export const isUserRejection = (error: unknown) => {
+  if (typeof error !== "object" || error === null) return false;
+  const { code, name, message } = error as ErrorFields;
+  return (
+    code === 4001 ||
+    code === "ACTION_REJECTED" ||
+    name === "UserRejectedRequestError" ||
+    Boolean(asText(message)?.includes("user rejected"))
+  );
+};
+
+/**
+ * Message to show for an error thrown by ethers, viem or a wallet: the revert reason when there is one,
+ * then viem's short message, then the full message, and the fallback when the error has none of them
+ */
+export const getErrorMessage = (error: unknown, fallback: string) => {
+  if (isUserRejection(error)) return "Request rejected by user";
+  if (typeof error !== "object" || error === null) return asText(error) ?? fallback;
+  const { reason, shortMessage, message } = error as ErrorFields;
+  return asText(reason) ?? asText(shortMessage) ?? asText(message) ?? fallback;
+};
@@ -0,0 +1,43 @@
+// Kubo RPC endpoint used to pin collection files; a local node (`ipfs daemon`) by default
+export const DEFAULT_IPFS_API_URL = process.env.NEXT_PUBLIC_IPFS_API_URL || "http://127.0.0.1:5001";
+
+export interface PinnedFile {
+  path: string;
+  content: Blob | string;
+}
+
+/**
+ * Add and pin files under a single wrapping directory through the Kubo RPC API and return the directory's
+ * CID (v1), so every file is reachable as `ipfs://<cid>/<path>`. The browser origin must be allowed in the
+ * node's API.HTTPHeaders.Access-Control-Allow-Origin.
+ */
+export const pinDirectory = async (
+  apiUrl: string,
+  files: PinnedFile[],
+  onProgress?: (bytes: number) => void,
+): Promise<string> => {
+  // Loaded on demand: the client is only needed once the user pins
+  const { create } = await import("kubo-rpc-client");
+  const client = create({ url: apiUrl });
+
+  // Kubo reports bytes per file, so sum the latest count of each
+  const progress = new Map<string, number>();
+  let directoryCid: string | null = null;
+  for await (const added of client.addAll(files, {
+    wrapWithDirectory: true,
+    cidVersion: 1,
+    pin: true,
+    progress: onProgress
+      ? (bytes, path) => {
+          progress.set(path ?? "", bytes);
+          onProgress([...progress.values()].reduce((sum, value) => sum + value, 0));
+        }
+      : undefined,
+  })) {
+    // The wrapping directory comes last, with an empty path
+    if (added.path === "") directoryCid = added.cid.toString();
+  }
+
+  if (!directoryCid) throw new Error("The IPFS node did not return a directory CID");
+  return directoryCid;
+};
@@ -0,0 +1,316 @@
+import {
+  MerkleTreeLike,
+  StandardTree,
+  buildTreeFromLeaves,
+  generateDistributorClaims,
+  isValidAddress,
+  verifyMerkleProof,
+} from "./Merkle";
+import { ProofExportFormat, ProofRecord, assembleProofExport, collectProof, proofExportToBlob } from "./merkleExport";
+import { DEFAULT_LEAF_ENCODING, LeafEncoding, MerkleEntry, encodeLeaf } from "./merkleLeaf";
+import {
+  MerkleClaimsResult,
+  MerkleListPage,
+  MerkleListUpdate,
+  MerkleProofExportResult,
+  MerkleWorkerJob,
+  MerkleWorkerPhase,
+  MerkleWorkerRequest,
+  MerkleWorkerResponse,
+  MerkleWorkerResults,
+} from "./merkleWorkerTypes";
+import { ethers } from "ethers";
+import Papa from "papaparse";
+
+// Leaves hashed (or proofs collected) between two progress reports / cancellation checks
+const BATCH_SIZE = 2000;
+// Bytes of CSV handed to each Papa.parse chunk callback
+const PARSE_CHUNK_SIZE = 512 * 1024;
+// Claims sent back for the preview table
+const CLAIMS_PREVIEW_LIMIT = 20;
+
+class CancelledJobError extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "CancelledJobError";
+  }
+}
+
+// The address list lives here instead of in React state; the UI only receives counts and pages
+const state = {
+  addresses: [] as string[],
+  addressSet: new Set<string>(),
+  encoding: DEFAULT_LEAF_ENCODING as LeafEncoding,
+  tree: null as MerkleTreeLike | null,
+  // Raw address,amount rows of the last airdrop CSV, kept so decimals can change without re-uploading
+  claimRows: [] as string[][],
+};
+
+const cancelledJobs = new Set<number>();
+// Jobs run one at a time so a rebuild never interleaves with another change to the list
+let queue: Promise<void> = Promise.resolve();
+
+const post = (response: MerkleWorkerResponse) => {
+  self.postMessage(response);
+};
+
+const yieldToEvents = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Report progress, then let pending messages (such as a cancel) run before the next batch
+const checkpoint = async (id: number, phase: MerkleWorkerPhase, processed: number, total: number) => {
+  post({ id, type: "progress", phase, processed, total });
+  await yieldToEvents();
+  if (cancelledJobs.has(id)) {
+    throw new CancelledJobError();
+  }
+};
+
+const buildTree = async (id: number, addresses: string[], encoding: LeafEncoding): Promise<MerkleTreeLike | null> => {
+  if (addresses.length === 0) return null;
+
+  if (encoding === "standard") {
+    await checkpoint(id, "building", 0, addresses.length);
+    return new StandardTree(addresses);
+  }
+
+  const leaves: string[] = new Array(addresses.length);
+  for (let i = 0; i < addresses.length; i++) {
+    if (i % BATCH_SIZE === 0) await checkpoint(id, "hashing", i, addresses.length);
+    leaves[i] = encodeLeaf(addresses[i], encoding);
+  }
+
+  await checkpoint(id, "building", addresses.length, addresses.length);
+  return buildTreeFromLeaves(leaves);
+};
+
+// Build the tree for a new list or encoding and only then swap it in, so a cancelled job leaves the state untouched
+const commitList = async (
+  id: number,
+  addresses: string[],
+  encoding: LeafEncoding,
+  changes: Pick<MerkleListUpdate, "added" | "invalid" | "duplicates">,
+): Promise<MerkleListUpdate> => {
+  const tree = await buildTree(id, addresses, encoding);
+
+  state.addresses = addresses;
+  state.addressSet = new Set(addresses);
+  state.encoding = encoding;
+  state.tree = tree;
+
+  return {
+    ...changes,
+    count: addresses.length,
+    merkleRoot: tree?.getHexRoot() ?? "",
+  };
+};
+
+// Split raw cells into new, invalid and duplicate addresses relative to the current list
+const collectAddresses = (cells: unknown[], incoming: string[], seen: Set<string>) => {
+  let invalid = 0;
+  let duplicates = 0;
+
+  for (const cell of cells) {
+    const address = String(cell ?? "")
+      .trim()
+      .toLowerCase();
+    if (!address) continue;
+
+    if (!isValidAddress(address)) {
+      invalid++;
+    } else if (state.addressSet.has(address) || seen.has(address)) {
+      duplicates++;
+    } else {
+      seen.add(address);
+      incoming.push(address);
+    }
+  }
+
+  return { invalid, duplicates };
+};
+
+// Stream a CSV file through Papa.parse chunk by chunk, reporting the bytes read
+const streamRows = (id: number, file: File, onRows: (rows: string[][]) => void) =>
+  new Promise<void>((resolve, reject) => {
+    Papa.parse(file, {
+      skipEmptyLines: true,
+      chunkSize: PARSE_CHUNK_SIZE,
+      chunk: (results, parser) => {
+        if (cancelledJobs.has(id)) {
+          parser.abort();
+          reject(new CancelledJobError());
+          return;
+        }
+
+        onRows(results.data as string[][]);
+        post({ id, type: "progress", phase: "parsing", processed: results.meta.cursor, total: file.size });
+      },
+      complete: () => resolve(),
+      error: error => reject(error),
+    });
+  });
+
+const loadFile = async (id: number, file: File, encoding: LeafEncoding): Promise<MerkleListUpdate> => {
+  const incoming: string[] = [];
+  const seen = new Set<string>();
+  let invalid = 0;
+  let duplicates = 0;
+
+  await streamRows(id, file, rows => {
+    const counts = collectAddresses(rows.flat(), incoming, seen);
+    invalid += counts.invalid;
+    duplicates += counts.duplicates;
+  });
+
+  return commitList(id, [...state.addresses, ...incoming], encoding, {
+    added: incoming.length,
+    invalid,
+    duplicates,
+  });
+};
+
+const addAddresses = (id: number, addresses: string[], encoding: LeafEncoding): Promise<MerkleListUpdate> => {
+  const incoming: string[] = [];
+  const { invalid, duplicates } = collectAddresses(addresses, incoming, new Set());
+  return commitList(id, [...state.addresses, ...incoming], encoding, {
+    added: incoming.length,
+    invalid,
+    duplicates,
+  });
+};
+
+const removeAddress = (id: number, address: string): Promise<MerkleListUpdate> => {
+  const normalized = address.trim().toLowerCase();
+  const addresses = state.addresses.filter(item => item !== normalized);
+  return commitList(id, addresses, state.encoding, { added: 0, invalid: 0, duplicates: 0 });
+};
+
+const getPage = (offset: number, limit: number): MerkleListPage => ({
+  offset,
+  count: state.addresses.length,
+  addresses: state.addresses.slice(offset, offset + limit),
+});
+
+const getProof = (address: string): string[] => {
+  const normalized = address.trim().toLowerCase();
+  const index = state.addresses.indexOf(normalized);
+  if (!state.tree || index === -1) {
+    throw new Error("Address is not in the current list");
+  }
+  return collectProof(state.tree, normalized, index, state.encoding)[1].proof;
+};
+
+const exportProofs = async (id: number, format: ProofExportFormat): Promise<MerkleProofExportResult> => {
+  const { addresses, encoding, tree } = state;
+  if (!tree) {
+    throw new Error("Add addresses before exporting proofs");
+  }
+
+  const proofs: Record<string, ProofRecord> = {};
+  for (let i = 0; i < addresses.length; i++) {
+    if (i % BATCH_SIZE === 0) await checkpoint(id, "proofs", i, addresses.length);
+    const [address, record] = collectProof(tree, addresses[i], i, encoding);
+    proofs[address] = record;
+  }
+
+  await checkpoint(id, "archiving", addresses.length, addresses.length);
+  const data = assembleProofExport(tree, encoding, proofs);
+  return { count: data.count, blob: await proofExportToBlob(data, format) };
+};
+
+// Turn address,amount rows into MerkleDistributor claims, skipping a header row and reporting invalid lines
+const buildClaims = async (id: number, file: File | undefined, decimals: number): Promise<MerkleClaimsResult> => {
+  if (file) {
+    const rows: string[][] = [];
+    await streamRows(id, file, chunk => rows.push(...chunk));
+    state.claimRows = rows;
+  }
+
+  const entries: MerkleEntry[] = [];
+  const invalidRows: number[] = [];
+
+  for (let rowIndex = 0; rowIndex < state.claimRows.length; rowIndex++) {
+    if (rowIndex % BATCH_SIZE === 0) await checkpoint(id, "hashing", rowIndex, state.claimRows.length);
+
+    const [address, amount] = state.claimRows[rowIndex].map(cell => String(cell ?? "").trim());
+    if (!address && !amount) continue;
+
+    if (!isValidAddress(address) || !amount) {
+      // Allow a header row such as "address,amount"
+      if (rowIndex !== 0) invalidRows.push(rowIndex + 1);
+      continue;
+    }
+
+    try {
+      entries.push({ address, amount: ethers.parseUnits(amount, decimals) });
+    } catch (error) {
+      invalidRows.push(rowIndex + 1);
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error("No valid address,amount rows found");
+  }
+
+  await checkpoint(id, "building", entries.length, entries.length);
+  const claims = generateDistributorClaims(entries);
+
+  return {
+    merkleRoot: claims.merkleRoot,
+    tokenTotal: claims.tokenTotal,
+    count: entries.length,
+    preview: Object.entries(claims.claims).slice(0, CLAIMS_PREVIEW_LIMIT),
+    invalidRows,
+    blob: new Blob([JSON.stringify(claims, null, 2)], { type: "application/json" }),
+  };
+};
+
+const runJob = async (id: number, job: MerkleWorkerJob): Promise<MerkleWorkerResults[MerkleWorkerJob["type"]]> => {
+  switch (job.type) {
+    case "loadFile":
+      return loadFile(id, job.file, job.encoding);
+    case "addAddresses":
+      return addAddresses(id, job.addresses, job.encoding);
+    case "removeAddress":
+      return removeAddress(id, job.address);
+    case "clear":
+      return commitList(id, [], state.encoding, { added: 0, invalid: 0, duplicates: 0 });
+    case "setEncoding":
+      return commitList(id, state.addresses, job.encoding, { added: 0, invalid: 0, duplicates: 0 });
+    case "getPage":
+      return getPage(job.offset, job.limit);
+    case "getProof":
+      return getProof(job.address);
+    case "exportProofs":
+      return exportProofs(id, job.format);
+    case "buildClaims":
+      return buildClaims(id, job.file, job.decimals);
+    case "verify":
+      return verifyMerkleProof(job.root, job.proof, job.entry, job.encoding);
+  }
+};
+
+self.onmessage = (event: MessageEvent<MerkleWorkerRequest>) => {
+  const { id, ...job } = event.data;
+
+  // Cancels bypass the queue so they reach a running job at its next checkpoint
+  if (job.type === "cancel") {
+    cancelledJobs.add(id);
+    return;
+  }
+
+  queue = queue.then(async () => {
+    try {
+      if (cancelledJobs.has(id)) throw new CancelledJobError();
+      post({ id, type: "result", result: await runJob(id, job as MerkleWorkerJob) });
+    } catch (error) {
+      post({
+        id,
+        type: "error",
+        message: error instanceof Error ? error.message : "Merkle worker error",
+        cancelled: error instanceof CancelledJobError,
+      });
+    } finally {
+      cancelledJobs.delete(id);
+    }
+  });
+};
@@ -0,0 +1,196 @@
+import { MerkleTree, MerkleTreeLike, StandardTree, StandardTreeDump, buildTreeFromLeaves } from "./Merkle";
+import { LeafEncoding, MerkleInput, encodeLeaf, toMerkleEntry } from "./merkleLeaf";
+import JSZip from "jszip";
+import Papa from "papaparse";
+
+// Number of hex characters after 0x used to pick an address's shard (2 => 256 shard files)
+export const DEFAULT_SHARD_PREFIX_LENGTH = 2;
+
+export type ProofExportFormat = "json" | "csv" | "sharded";
+
+export const PROOF_EXPORT_EXTENSIONS: Record<ProofExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  sharded: "zip",
+};
+
+// Dump of a tree built with a legacy encoding: the merkletreejs layers, leaves first and root last
+export interface LayeredTreeDump {
+  format: "merkletreejs-sorted-pairs";
+  leafEncoding: LeafEncoding;
+  layers: string[][];
+}
+
+// Standard trees dump in OpenZeppelin's StandardMerkleTree.dump() format ("standard-v1")
+export type MerkleTreeDump = StandardTreeDump | LayeredTreeDump;
+
+export interface ProofRecord {
+  amount?: string;
+  leaf: string;
+  proof: string[];
+}
+
+// Every proof of a tree keyed by checksummed address, plus what is needed to rebuild or verify it
+export interface MerkleProofExport {
+  merkleRoot: string;
+  leafEncoding: LeafEncoding;
+  count: number;
+  proofs: Record<string, ProofRecord>;
+  tree: MerkleTreeDump;
+}
+
+// Index file of the sharded layout: proofs for an address live in `proofs/<prefix>.json`
+export interface ShardedProofIndex {
+  merkleRoot: string;
+  leafEncoding: LeafEncoding;
+  count: number;
+  shardPrefixLength: number;
+  shards: string[];
+  tree: string;
+}
+
+export const dumpMerkleTree = (tree: MerkleTreeLike, encoding: LeafEncoding): MerkleTreeDump => {
+  if (tree instanceof StandardTree) {
+    return tree.dump();
+  }
+
+  return {
+    format: "merkletreejs-sorted-pairs",
+    leafEncoding: encoding,
+    layers: tree.getHexLayers(),
+  };
+};
+
+// Proof record of the entry at `index` of the list the tree was built from
+export const collectProof = (
+  tree: MerkleTreeLike,
+  input: MerkleInput,
+  index: number,
+  encoding: LeafEncoding,
+): [string, ProofRecord] => {
+  const entry = toMerkleEntry(input);
+  const leaf = encodeLeaf(entry, encoding);
+  // merkletreejs keeps leaves in input order; passing the index skips its linear leaf lookup
+  const proof = tree instanceof MerkleTree ? tree.getHexProof(leaf, index) : tree.getHexProof(leaf);
+
+  return [
+    entry.address,
+    {
+      ...(entry.amount !== undefined && { amount: BigInt(entry.amount).toString() }),
+      leaf,
+      proof,
+    },
+  ];
+};
+
+export const assembleProofExport = (
+  tree: MerkleTreeLike,
+  encoding: LeafEncoding,
+  proofs: Record<string, ProofRecord>,
+): MerkleProofExport => ({
+  merkleRoot: tree.getHexRoot(),
+  leafEncoding: encoding,
+  count: Object.keys(proofs).length,
+  proofs,
+  tree: dumpMerkleTree(tree, encoding),
+});
+
+// Collect the proof of every entry of a tree built with generateMerkleTree
+export const buildProofExport = (
+  tree: MerkleTreeLike,
+  entries: MerkleInput[],
+  encoding: LeafEncoding,
+): MerkleProofExport => {
+  const proofs = Object.fromEntries(entries.map((input, index) => collectProof(tree, input, index, encoding)));
+  return assembleProofExport(tree, encoding, proofs);
+};
+
+// Rebuild the tree behind a JSON proof export, so further proofs (such as multiproofs) can be derived from it
+export const loadProofExportTree = (data: MerkleProofExport): MerkleTreeLike => {
+  const tree =
+    "layers" in data.tree
+      ? buildTreeFromLeaves(data.tree.layers[0])
+      : new StandardTree(
+          Object.entries(data.proofs).map(([address, { amount }]) =>
+            amount === undefined ? address : { address, amount },
+          ),
+        );
+
+  if (tree.getHexRoot().toLowerCase() !== data.merkleRoot.toLowerCase()) {
+    throw new Error("The exported tree does not match its Merkle root");
+  }
+  return tree;
+};
+
+// One row per address; proof elements are separated by semicolons so they fit a single cell
+export const proofExportToCsv = (data: MerkleProofExport): string => {
+  const withAmount = Object.values(data.proofs).some(record => record.amount !== undefined);
+  const fields = withAmount ? ["address", "amount", "leaf", "proof"] : ["address", "leaf", "proof"];
+
+  const rows = Object.entries(data.proofs).map(([address, record]) => {
+    const row = [address, record.leaf, record.proof.join(";")];
+    if (withAmount) row.splice(1, 0, record.amount ?? "");
+    return row;
+  });
+
+  return Papa.unparse({ fields, data: rows });
+};
+
+export const shardKey = (address: string, prefixLength = DEFAULT_SHARD_PREFIX_LENGTH): string =>
+  address.toLowerCase().slice(2, 2 + prefixLength);
+
+// Split the proofs into `proofs/<prefix>.json` files so a static site only fetches the shard it needs
+export const shardProofs = (
+  data: MerkleProofExport,
+  prefixLength = DEFAULT_SHARD_PREFIX_LENGTH,
+): Record<string, Record<string, ProofRecord>> => {
+  const shards: Record<string, Record<string, ProofRecord>> = {};
+
+  for (const [address, record] of Object.entries(data.proofs)) {
+    const key = shardKey(address, prefixLength);
+    shards[key] ??= {};
+    shards[key][address] = record;
+  }
+
+  return shards;
+};
+
+// Zip archive laid out as index.json, tree.json and proofs/<prefix>.json
+export const buildShardedProofArchive = async (
+  data: MerkleProofExport,
+  prefixLength = DEFAULT_SHARD_PREFIX_LENGTH,
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const shards = shardProofs(data, prefixLength);
+
+  const index: ShardedProofIndex = {
+    merkleRoot: data.merkleRoot,
+    leafEncoding: data.leafEncoding,
+    count: data.count,
+    shardPrefixLength: prefixLength,
+    shards: Object.keys(shards).sort(),
+    tree: "tree.json",
+  };
+
+  zip.file("index.json", JSON.stringify(index, null, 2));
+  zip.file("tree.json", JSON.stringify(data.tree));
+
+  const folder = zip.folder("proofs")!;
+  for (const [key, records] of Object.entries(shards)) {
+    folder.file(`${key}.json`, JSON.stringify(records));
+  }
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+};
+
+// Serialise an export into the downloadable file for the chosen format
+export const proofExportToBlob = async (data: MerkleProofExport, format: ProofExportFormat): Promise<Blob> => {
+  switch (format) {
+    case "json":
+      return new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+    case "csv":
+      return new Blob([proofExportToCsv(data)], { type: "text/csv" });
+    case "sharded":
+      return buildShardedProofArchive(data);
+  }
+};
@@ -0,0 +1,112 @@
+import { AbiCoder, getAddress, keccak256, solidityPackedKeccak256, toUtf8Bytes } from "ethers";
+
+// Supported leaf encodings. Every scheme has an on-chain twin in MerkleProofValidator so that
+// proofs generated off-chain can be checked against the contract.
+export type LeafEncoding = "raw" | "packed" | "allowlist" | "standard" | "claim";
+
+export interface LeafEncodingInfo {
+  label: string;
+  description: string;
+  // Solidity expression producing the same leaf
+  solidity: string;
+  // Whether every entry must carry an amount
+  requiresAmount: boolean;
+  // Whether every entry must carry a claim index
+  requiresIndex: boolean;
+}
+
+// A single entry of a Merkle list: a bare address or an address with an amount (and claim index)
+export interface MerkleEntry {
+  address: string;
+  amount?: bigint | string | number;
+  index?: bigint | number;
+}
+
+export type MerkleInput = string | MerkleEntry;
+
+export const DEFAULT_LEAF_ENCODING: LeafEncoding = "packed";
+
+export const LEAF_ENCODINGS: Record<LeafEncoding, LeafEncodingInfo> = {
+  raw: {
+    label: "Raw address",
+    description: "Hash of the lowercase 0x-prefixed address string (legacy lists hashed as text)",
+    solidity: "keccak256(bytes(Strings.toHexString(account)))",
+    requiresAmount: false,
+    requiresIndex: false,
+  },
+  packed: {
+    label: "Packed address",
+    description: "Hash of the 20 address bytes, as used by most allowlist contracts",
+    solidity: "keccak256(abi.encodePacked(account))",
+    requiresAmount: false,
+    requiresIndex: false,
+  },
+  allowlist: {
+    label: "Address + amount",
+    description: "Hash of the packed (address, uint256) pair for allocations and mint limits",
+    solidity: "keccak256(abi.encodePacked(account, amount))",
+    requiresAmount: true,
+    requiresIndex: false,
+  },
+  standard: {
+    label: "OpenZeppelin StandardMerkleTree",
+    description: "Double keccak256 of the ABI-encoded (address) or (address, uint256) value",
+    solidity: "keccak256(bytes.concat(keccak256(abi.encode(account[, amount]))))",
+    requiresAmount: false,
+    requiresIndex: false,
+  },
+  claim: {
+    label: "Airdrop claim",
+    description: "Hash of the packed (index, address, amount) triple claimed through MerkleDistributor",
+    solidity: "keccak256(abi.encodePacked(index, account, amount))",
+    requiresAmount: true,
+    requiresIndex: true,
+  },
+};
+
+export const isLeafEncoding = (value: string): value is LeafEncoding => value in LEAF_ENCODINGS;
+
+// Normalise a bare address or an entry into an entry with a checksummed address
+export const toMerkleEntry = (input: MerkleInput): MerkleEntry => {
+  const entry = typeof input === "string" ? { address: input } : input;
+  return { ...entry, address: getAddress(entry.address.trim().toLowerCase()) };
+};
+
+// ABI types hashed by the StandardMerkleTree scheme for an entry
+export const standardLeafTypes = (input: MerkleInput): string[] => {
+  const entry = toMerkleEntry(input);
+  return entry.amount === undefined ? ["address"] : ["address", "uint256"];
+};
+
+// Encode a single entry into its bytes32 leaf (0x-prefixed hex)
+export const encodeLeaf = (input: MerkleInput, encoding: LeafEncoding = DEFAULT_LEAF_ENCODING): string => {
+  const entry = toMerkleEntry(input);
+
+  if (LEAF_ENCODINGS[encoding].requiresAmount && entry.amount === undefined) {
+    throw new Error(`Leaf encoding "${encoding}" requires an amount for ${entry.address}`);
+  }
+
+  if (LEAF_ENCODINGS[encoding].requiresIndex && entry.index === undefined) {
+    throw new Error(`Leaf encoding "${encoding}" requires a claim index for ${entry.address}`);
+  }
+
+  switch (encoding) {
+    case "raw":
+      return keccak256(toUtf8Bytes(entry.address.toLowerCase()));
+    case "packed":
+      return solidityPackedKeccak256(["address"], [entry.address]);
+    case "allowlist":
+      return solidityPackedKeccak256(["address", "uint256"], [entry.address, BigInt(entry.amount!)]);
+    case "standard": {
+      const values = entry.amount === undefined ? [entry.address] : [entry.address, BigInt(entry.amount)];
+      return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(standardLeafTypes(entry), values)));
+    }
+    case "claim":
+      return solidityPackedKeccak256(
+        ["uint256", "address", "uint256"],
+        [BigInt(entry.index!), entry.address, BigInt(entry.amount!)],
+      );
+    default:
+      throw new Error(`Unsupported leaf encoding: ${encoding}`);
+  }
+};
@@ -0,0 +1,90 @@
+import { DistributorClaim } from "./Merkle";
+import { ProofExportFormat } from "./merkleExport";
+import { LeafEncoding, MerkleEntry } from "./merkleLeaf";
+
+// Message protocol between the generator UI (useMerkleWorker) and utils/merkle.worker.ts
+
+export type MerkleWorkerPhase = "parsing" | "hashing" | "building" | "proofs" | "archiving";
+
+export interface MerkleWorkerProgress {
+  phase: MerkleWorkerPhase;
+  processed: number;
+  total: number;
+}
+
+// State of the address list held by the worker after a change
+export interface MerkleListUpdate {
+  count: number;
+  merkleRoot: string;
+  added: number;
+  invalid: number;
+  duplicates: number;
+}
+
+export interface MerkleListPage {
+  offset: number;
+  count: number;
+  addresses: string[];
+}
+
+export interface MerkleClaimsResult {
+  merkleRoot: string;
+  tokenTotal: string;
+  count: number;
+  preview: [string, DistributorClaim][];
+  invalidRows: number[];
+  blob: Blob;
+}
+
+export interface MerkleProofExportResult {
+  count: number;
+  blob: Blob;
+}
+
+// Payload of every job, keyed by job type
+export interface MerkleWorkerJobs {
+  loadFile: { file: File; encoding: LeafEncoding };
+  addAddresses: { addresses: string[]; encoding: LeafEncoding };
+  removeAddress: { address: string };
+  clear: Record<never, never>;
+  setEncoding: { encoding: LeafEncoding };
+  getPage: { offset: number; limit: number };
+  getProof: { address: string };
+  exportProofs: { format: ProofExportFormat };
+  buildClaims: { file?: File; decimals: number };
+  verify: { root: string; proof: string[]; entry: MerkleEntry; encoding: LeafEncoding };
+}
+
+// Value each job resolves with, keyed by job type
+export interface MerkleWorkerResults {
+  loadFile: MerkleListUpdate;
+  addAddresses: MerkleListUpdate;
+  removeAddress: MerkleListUpdate;
+  clear: MerkleListUpdate;
+  setEncoding: MerkleListUpdate;
+  getPage: MerkleListPage;
+  getProof: string[];
+  exportProofs: MerkleProofExportResult;
+  buildClaims: MerkleClaimsResult;
+  verify: boolean;
+}
+
+export type MerkleWorkerJobType = keyof MerkleWorkerJobs;
+
+export type MerkleWorkerJobOf<T extends MerkleWorkerJobType> = { type: T } & MerkleWorkerJobs[T];
+
+export type MerkleWorkerJob = { [T in MerkleWorkerJobType]: MerkleWorkerJobOf<T> }[MerkleWorkerJobType];
+
+// Jobs that change the address list and resolve with a MerkleListUpdate
+export type MerkleListJob = Extract<
+  MerkleWorkerJob,
+  { type: "loadFile" | "addAddresses" | "removeAddress" | "clear" | "setEncoding" }
+>;
+
+// A cancel request carries the id of the job to stop
+export type MerkleWorkerRequest = ({ id: number } & MerkleWorkerJob) | { id: number; type: "cancel" };
+
+export type MerkleWorkerResponse =
+  | ({ id: number; type: "progress" } & MerkleWorkerProgress)
+  | { id: number; type: "result"; result: MerkleWorkerResults[MerkleWorkerJobType] }
+  | { id: number; type: "error"; message: string; cancelled: boolean };
@@ -0,0 +1,206 @@
+import { ChainContracts } from "./contractHelpers";
+import { CUSTOM_ERC1155_ABI, CUSTOM_ERC721_ABI, ERC20_TOKEN_ABI } from "./tokenAbis";
+import { ethers } from "ethers";
+
+// BasicMultiSig instances are deployed by ContractTemplates and are not in the contract registry
+export const MULTISIG_ABI = [
+  "function getMultiSigConfig() view returns (address[] _owners, uint256 _requiredSignatures, uint256 _totalOwners)",
+  "function getTransactionCount() view returns (uint256)",
+  "function getTransaction(uint256 _txId) view returns (address to, uint256 value, bytes data, bool executed, uint256 numConfirmations)",
+  "function isConfirmed(uint256 txId, address owner) view returns (bool)",
+  "function submitTransaction(address _to, uint256 _value, bytes _data) returns (uint256 txId)",
+  "function confirmTransaction(uint256 _txId)",
+  "function revokeConfirmation(uint256 _txId)",
+  "function executeTransaction(uint256 _txId)",
+  "function ownerSetVersion() view returns (uint256)",
+  "function addOwner(address _owner)",
+  "function removeOwner(address _owner)",
+  "function replaceOwner(address _owner, address _newOwner)",
+  "function changeRequirement(uint256 _requiredSignatures)",
+  "function nonce() view returns (uint256)",
+  "function executeWithSignatures(address _to, uint256 _value, bytes _data, bytes[] _signatures)",
+] as const;
+
+// Owner management functions that change the owner set, which invalidates every pending confirmation
+const OWNER_SET_CHANGES = ["addOwner", "removeOwner", "replaceOwner"];
+
+const ERC20_TRANSFER_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+] as const;
+
+const ERC721_TRANSFER_ABI = [
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function setApprovalForAll(address operator, bool approved)",
+] as const;
+
+// Path of the dashboard of a BasicMultiSig wallet
+export const getMultiSigPagePath = (wallet: string) => `/multisig?address=${wallet}`;
+
+// A call the wallet makes once a proposal is executed
+export interface MultiSigCall {
+  to: string;
+  value: bigint;
+  data: string;
+}
+
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface DecodedCall {
+  // Contract or standard whose ABI matched the calldata
+  source: string;
+  signature: string;
+  args: DecodedArg[];
+}
+
+interface KnownAbi {
+  source: string;
+  address?: string;
+  iface: ethers.Interface;
+}
+
+const formatArg = (value: unknown): string => {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatArg).join(", ")}]`;
+  return String(value);
+};
+
+/**
+ * ABIs tried when decoding proposal calldata: the registry contracts of the chain (preferred when the target is
+ * the contract itself), the multisig's own functions for self-calls, then the token standards.
+ */
+export const getKnownAbis = (chainContracts: ChainContracts | undefined): KnownAbi[] => [
+  ...Object.entries(chainContracts ?? {}).map(([name, contract]) => ({
+    source: name,
+    address: contract!.address,
+    iface: new ethers.Interface(contract!.abi as ethers.InterfaceAbi),
+  })),
+  { source: "BasicMultiSig", iface: new ethers.Interface(MULTISIG_ABI) },
+  { source: "ERC20", iface: new ethers.Interface(ERC20_TRANSFER_ABI) },
+  { source: "ERC721", iface: new ethers.Interface(ERC721_TRANSFER_ABI) },
+  { source: "Factory ERC20", iface: new ethers.Interface(ERC20_TOKEN_ABI) },
+  { source: "Factory ERC721", iface: new ethers.Interface(CUSTOM_ERC721_ABI) },
+  { source: "Factory ERC1155", iface: new ethers.Interface(CUSTOM_ERC1155_ABI) },
+];
+
+// Readable form of a proposal's calldata, or null for plain ETH transfers and unknown functions
+export const decodeCall = (call: MultiSigCall, knownAbis: KnownAbi[]): DecodedCall | null => {
+  if (call.data === "0x") return null;
+
+  const target = call.to.toLowerCase();
+  const ordered = [
+    ...knownAbis.filter(known => known.address?.toLowerCase() === target),
+    ...knownAbis.filter(known => !known.address),
+  ];
+  for (const { source, iface } of ordered) {
+    try {
+      const parsed = iface.parseTransaction({ data: call.data, value: call.value });
+      if (!parsed) continue;
+      return {
+        source,
+        signature: parsed.signature,
+        args: parsed.fragment.inputs.map((input, index) => ({
+          name: input.name || `arg${index}`,
+          type: input.type,
+          value: formatArg(parsed.args[index]),
+        })),
+      };
+    } catch {
+      // Try the next ABI
+    }
+  }
+  return null;
+};
+
+const requireAddress = (value: string, label: string) => {
+  if (!ethers.isAddress(value.trim())) {
+    throw new Error(`${label} is not a valid address`);
+  }
+  return ethers.getAddress(value.trim());
+};
+
+export const buildEthTransfer = (to: string, amount: string): MultiSigCall => ({
+  to: requireAddress(to, "Recipient"),
+  value: ethers.parseEther(amount.trim()),
+  data: "0x",
+});
+
+// Amount is in whole tokens and converted with the token's decimals
+export const buildErc20Transfer = (
+  token: string,
+  recipient: string,
+  amount: string,
+  decimals: number,
+): MultiSigCall => ({
+  to: requireAddress(token, "Token"),
+  value: 0n,
+  data: new ethers.Interface(ERC20_TRANSFER_ABI).encodeFunctionData("transfer", [
+    requireAddress(recipient, "Recipient"),
+    ethers.parseUnits(amount.trim(), decimals),
+  ]),
+});
+
+// Owner management is only callable by the wallet itself, so it is proposed as a call of the wallet to itself
+const buildSelfCall = (wallet: string, functionName: string, args: unknown[]): MultiSigCall => ({
+  to: ethers.getAddress(wallet),
+  value: 0n,
+  data: new ethers.Interface(MULTISIG_ABI).encodeFunctionData(functionName, args),
+});
+
+export const buildAddOwner = (wallet: string, owner: string) =>
+  buildSelfCall(wallet, "addOwner", [requireAddress(owner, "New owner")]);
+
+export const buildRemoveOwner = (wallet: string, owner: string) =>
+  buildSelfCall(wallet, "removeOwner", [requireAddress(owner, "Owner")]);
+
+export const buildReplaceOwner = (wallet: string, owner: string, newOwner: string) =>
+  buildSelfCall(wallet, "replaceOwner", [requireAddress(owner, "Owner"), requireAddress(newOwner, "New owner")]);
+
+export const buildChangeRequirement = (wallet: string, requiredSignatures: number) =>
+  buildSelfCall(wallet, "changeRequirement", [requiredSignatures]);
+
+// Whether executing the call changes the wallet's owner set and so resets the confirmations of other proposals
+export const isOwnerSetChange = (call: MultiSigCall, wallet: string) => {
+  if (call.to.toLowerCase() !== wallet.toLowerCase() || call.data === "0x") return false;
+  const parsed = new ethers.Interface(MULTISIG_ABI).parseTransaction({ data: call.data });
+  return !!parsed && OWNER_SET_CHANGES.includes(parsed.name);
+};
+
+export const readErc20Decimals = async (token: string, provider: ethers.Provider): Promise<number> =>
+  Number(await new ethers.Contract(requireAddress(token, "Token"), ERC20_TRANSFER_ABI, provider).decimals());
+
+/**
+ * Arbitrary call from a function signature such as `setGreeting(string)` and its arguments as a JSON array,
+ * or from raw calldata when the signature is left empty
+ */
+export const buildContractCall = (
+  to: string,
+  signature: string,
+  args: string,
+  rawData: string,
+  value: string,
+): MultiSigCall => {
+  let data: string;
+  if (signature.trim()) {
+    const fragment = signature.trim().startsWith("function ") ? signature.trim() : `function ${signature.trim()}`;
+    const func = ethers.FunctionFragment.from(fragment);
+    const parsedArgs = args.trim() ? JSON.parse(args) : [];
+    if (!Array.isArray(parsedArgs)) {
+      throw new Error("Arguments must be a JSON array");
+    }
+    data = new ethers.Interface([func]).encodeFunctionData(func, parsedArgs);
+  } else {
+    data = rawData.trim() || "0x";
+    if (!ethers.isHexString(data)) {
+      throw new Error("Calldata must be a 0x-prefixed hex string");
+    }
+  }
+  return { to: requireAddress(to, "Contract"), value: value.trim() ? ethers.parseEther(value.trim()) : 0n, data };
+};
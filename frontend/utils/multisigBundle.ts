@@ -0,0 +1,171 @@
+import { MultiSigCall } from "./multisig";
+import { ethers } from "ethers";
+
+// EIP-712 message BasicMultiSig.executeWithSignatures verifies
+export const EXECUTE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Execute: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export interface BundleSignature {
+  signer: string;
+  signature: string;
+}
+
+/**
+ * Shareable JSON file in which owners gather their signatures of one call, until any owner submits them
+ * with executeWithSignatures. Amounts are strings so the file stays plain JSON.
+ */
+export interface SignatureBundle {
+  chainId: number;
+  wallet: string;
+  nonce: string;
+  to: string;
+  value: string;
+  data: string;
+  signatures: BundleSignature[];
+}
+
+export const getExecuteDomain = (chainId: number, wallet: string): ethers.TypedDataDomain => ({
+  name: "BasicMultiSig",
+  version: "1",
+  chainId,
+  verifyingContract: wallet,
+});
+
+const getExecuteMessage = (bundle: SignatureBundle) => ({
+  to: bundle.to,
+  value: BigInt(bundle.value),
+  data: bundle.data,
+  nonce: BigInt(bundle.nonce),
+});
+
+export const getBundleCall = (bundle: SignatureBundle): MultiSigCall => ({
+  to: bundle.to,
+  value: BigInt(bundle.value),
+  data: bundle.data,
+});
+
+export const createSignatureBundle = (
+  chainId: number,
+  wallet: string,
+  nonce: bigint,
+  call: MultiSigCall,
+): SignatureBundle => ({
+  chainId,
+  wallet: ethers.getAddress(wallet),
+  nonce: nonce.toString(),
+  to: ethers.getAddress(call.to),
+  value: call.value.toString(),
+  data: call.data,
+  signatures: [],
+});
+
+export const recoverBundleSigner = (bundle: SignatureBundle, signature: string) =>
+  ethers.verifyTypedData(
+    getExecuteDomain(bundle.chainId, bundle.wallet),
+    EXECUTE_TYPES,
+    getExecuteMessage(bundle),
+    signature,
+  );
+
+// Adds a signature, replacing an earlier one of the same signer
+export const addBundleSignature = (bundle: SignatureBundle, signature: string): SignatureBundle => {
+  const signer = recoverBundleSigner(bundle, signature);
+  return {
+    ...bundle,
+    signatures: [
+      ...bundle.signatures.filter(entry => entry.signer.toLowerCase() !== signer.toLowerCase()),
+      { signer, signature },
+    ],
+  };
+};
+
+// Signs the bundle's call in the owner's wallet
+export const signBundle = async (bundle: SignatureBundle, signer: ethers.Signer): Promise<SignatureBundle> => {
+  const signature = await signer.signTypedData(
+    getExecuteDomain(bundle.chainId, bundle.wallet),
+    EXECUTE_TYPES,
+    getExecuteMessage(bundle),
+  );
+  return addBundleSignature(bundle, signature);
+};
+
+// Whether both bundles carry signatures of the same call
+export const isSameSignedCall = (a: SignatureBundle, b: SignatureBundle) =>
+  a.chainId === b.chainId &&
+  a.wallet.toLowerCase() === b.wallet.toLowerCase() &&
+  a.nonce === b.nonce &&
+  a.to.toLowerCase() === b.to.toLowerCase() &&
+  a.value === b.value &&
+  a.data.toLowerCase() === b.data.toLowerCase();
+
+// Combines the signatures two owners collected for the same call
+export const mergeSignatureBundles = (bundle: SignatureBundle, other: SignatureBundle): SignatureBundle => {
+  if (!isSameSignedCall(bundle, other)) {
+    throw new Error("The bundles sign different calls");
+  }
+  return other.signatures.reduce((merged, entry) => addBundleSignature(merged, entry.signature), bundle);
+};
+
+// Signatures of current owners, sorted by ascending signer address as executeWithSignatures requires
+export const getExecutableSignatures = (bundle: SignatureBundle, owners: string[]): string[] => {
+  const ownerSet = new Set(owners.map(owner => owner.toLowerCase()));
+  return bundle.signatures
+    .filter(entry => ownerSet.has(entry.signer.toLowerCase()))
+    .sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1))
+    .map(entry => entry.signature);
+};
+
+/**
+ * Reads a bundle file, checking every signature recovers to the signer it claims so a tampered call or
+ * signature is rejected before anyone signs or submits it
+ */
+export const parseSignatureBundle = (json: string): SignatureBundle => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The bundle is not valid JSON");
+  }
+
+  if (
+    !Number.isInteger(raw?.chainId) ||
+    !ethers.isAddress(raw.wallet) ||
+    !ethers.isAddress(raw.to) ||
+    !/^\d+$/.test(String(raw.nonce)) ||
+    !/^\d+$/.test(String(raw.value)) ||
+    !ethers.isHexString(raw.data) ||
+    !Array.isArray(raw.signatures)
+  ) {
+    throw new Error("The file is not a multisig signature bundle");
+  }
+
+  const bundle: SignatureBundle = {
+    chainId: raw.chainId,
+    wallet: ethers.getAddress(raw.wallet),
+    nonce: String(raw.nonce),
+    to: ethers.getAddress(raw.to),
+    value: String(raw.value),
+    data: raw.data,
+    signatures: [],
+  };
+  for (const entry of raw.signatures) {
+    if (recoverBundleSigner(bundle, entry?.signature).toLowerCase() !== String(entry.signer).toLowerCase()) {
+      throw new Error(`The signature of ${entry.signer} does not match the bundle's call`);
+    }
+  }
+  return raw.signatures.reduce(
+    (merged: SignatureBundle, entry: BundleSignature) => addBundleSignature(merged, entry.signature),
+    bundle,
+  );
+};
+
+export const serializeSignatureBundle = (bundle: SignatureBundle) => JSON.stringify(bundle, null, 2);
+
+export const getSignatureBundleFileName = (bundle: SignatureBundle) =>
+  `multisig-${bundle.wallet.slice(0, 10)}-nonce-${bundle.nonce}.json`;
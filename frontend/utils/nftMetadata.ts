@@ -0,0 +1,143 @@
+import Papa from "papaparse";
+
+export type MetadataStandard = "ERC721" | "ERC1155";
+
+// Traits CSV columns with a fixed meaning; every other column becomes an OpenSea attribute
+export const RESERVED_COLUMNS = ["file", "token_id", "name", "description", "external_url", "recipient"] as const;
+
+export interface OpenSeaAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: "number";
+}
+
+// https://docs.opensea.io/docs/metadata-standards
+export interface OpenSeaMetadata {
+  name: string;
+  description?: string;
+  image: string;
+  external_url?: string;
+  attributes: OpenSeaAttribute[];
+}
+
+export interface MetadataRow {
+  line: number;
+  file: string;
+  tokenId: bigint;
+  name?: string;
+  description?: string;
+  externalUrl?: string;
+  recipient?: string;
+  attributes: OpenSeaAttribute[];
+}
+
+export interface MetadataFile {
+  tokenId: bigint;
+  // Path inside the pinned metadata directory
+  path: string;
+  metadata: OpenSeaMetadata;
+  recipient?: string;
+}
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Parse the traits CSV: one row per token, a `file` column naming its image and optional `token_id`, `name`,
+ * `description`, `external_url` and `recipient` columns. Rows without a `token_id` are numbered from
+ * `firstTokenId` in file order. Throws on the first invalid row.
+ */
+export const parseTraitsCsv = (text: string, firstTokenId: bigint): MetadataRow[] => {
+  const { data, errors, meta } = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  // A single-column CSV has no delimiter to detect, which Papa reports but parses fine
+  const error = errors.find(err => err.code !== "UndetectableDelimiter");
+  if (error) {
+    throw new Error(error.row !== undefined ? `CSV line ${error.row + 2}: ${error.message}` : error.message);
+  }
+
+  const fields = (meta.fields ?? []).map(field => field.trim());
+  if (!fields.includes("file")) {
+    throw new Error('The CSV needs a "file" column with the image file name of each token');
+  }
+  const traitColumns = fields.filter(field => !(RESERVED_COLUMNS as readonly string[]).includes(field));
+
+  const seen = new Set<bigint>();
+  let nextTokenId = firstTokenId;
+  return data.map((record, index) => {
+    const line = index + 2;
+    const cells = Object.fromEntries(Object.entries(record).map(([column, cell]) => [column.trim(), cell]));
+    const value = (column: string) => cells[column]?.trim() || undefined;
+
+    const file = value("file");
+    if (!file) throw new Error(`CSV line ${line}: "file" is empty`);
+
+    const rawTokenId = value("token_id");
+    if (rawTokenId !== undefined && !/^\d+$/.test(rawTokenId)) {
+      throw new Error(`CSV line ${line}: token_id must be a whole number`);
+    }
+    const tokenId = rawTokenId !== undefined ? BigInt(rawTokenId) : nextTokenId;
+    if (seen.has(tokenId)) throw new Error(`CSV line ${line}: token ID ${tokenId} is used twice`);
+    seen.add(tokenId);
+    nextTokenId = tokenId + 1n;
+
+    const attributes = traitColumns.flatMap((column): OpenSeaAttribute[] => {
+      const trait = value(column);
+      if (trait === undefined) return [];
+      return NUMERIC.test(trait)
+        ? [{ trait_type: column, value: Number(trait), display_type: "number" }]
+        : [{ trait_type: column, value: trait }];
+    });
+
+    return {
+      line,
+      file,
+      tokenId,
+      name: value("name"),
+      description: value("description"),
+      externalUrl: value("external_url"),
+      recipient: value("recipient"),
+      attributes,
+    };
+  });
+};
+
+// Image files are matched to CSV rows by file name, ignoring the folder they were picked from
+export const findMissingImages = (rows: MetadataRow[], imageNames: string[]) => {
+  const available = new Set(imageNames);
+  return rows.filter(row => !available.has(row.file)).map(row => row.file);
+};
+
+/**
+ * File name of a token's metadata. CustomERC721 resolves tokens without their own URI to `baseURI/<id>`;
+ * ERC-1155 clients replace `{id}` with the 64-character lowercase hex ID.
+ */
+export const getMetadataPath = (standard: MetadataStandard, tokenId: bigint) =>
+  standard === "ERC721" ? tokenId.toString() : `${tokenId.toString(16).padStart(64, "0")}.json`;
+
+export const buildMetadataFiles = (
+  rows: MetadataRow[],
+  standard: MetadataStandard,
+  imagesCid: string,
+  defaults: { collectionName: string; description?: string },
+): MetadataFile[] =>
+  rows.map(row => ({
+    tokenId: row.tokenId,
+    path: getMetadataPath(standard, row.tokenId),
+    recipient: row.recipient,
+    metadata: {
+      name: row.name ?? `${defaults.collectionName || "Token"} #${row.tokenId}`,
+      ...((row.description ?? defaults.description) && { description: row.description ?? defaults.description }),
+      image: `ipfs://${imagesCid}/${encodeURIComponent(row.file)}`,
+      ...(row.externalUrl && { external_url: row.externalUrl }),
+      attributes: row.attributes,
+    },
+  }));
+
+/**
+ * URI the contract stores for a pinned metadata directory: the ERC721 baseURI (the contract appends
+ * `/<id>`) or the ERC1155 `{id}` template
+ */
+export const getCollectionUri = (standard: MetadataStandard, metadataCid: string) =>
+  standard === "ERC721" ? `ipfs://${metadataCid}` : `ipfs://${metadataCid}/{id}.json`;
+
+// Per-token URI for CustomERC721.mint/batchMint
+export const getTokenUri = (metadataCid: string, file: MetadataFile) => `ipfs://${metadataCid}/${file.path}`;
@@ -0,0 +1,79 @@
+import { MerkleProofExport } from "./merkleExport";
+import { SaleConfig, SalePhase } from "./tokenAbis";
+import { ethers } from "ethers";
+
+export type SaleConfigs = Record<SalePhase, SaleConfig>;
+
+export type SaleStatus = "closed" | "upcoming" | "live" | "ended";
+
+export const SALE_PHASES = [SalePhase.Allowlist, SalePhase.Public] as const;
+
+export const SALE_PHASE_LABELS: Record<SalePhase, string> = {
+  [SalePhase.Allowlist]: "Allowlist",
+  [SalePhase.Public]: "Public",
+};
+
+export const CLOSED_SALE: SaleConfig = {
+  price: 0n,
+  maxPerWallet: 0n,
+  startTime: 0n,
+  endTime: 0n,
+  merkleRoot: ethers.ZeroHash,
+};
+
+// Path of the public mint page of a collection
+export const getMintPagePath = (collection: string) => `/mint?collection=${collection}`;
+
+/**
+ * Read both sale phases of a CustomERC721, or null for collections deployed before sales were added
+ */
+export const readSaleConfigs = async (token: ethers.Contract): Promise<SaleConfigs | null> => {
+  try {
+    const [allowlist, publicSale] = await Promise.all(SALE_PHASES.map(phase => token.getSaleConfig(phase)));
+    const toSaleConfig = (raw: any): SaleConfig => ({
+      price: raw.price,
+      maxPerWallet: raw.maxPerWallet,
+      startTime: raw.startTime,
+      endTime: raw.endTime,
+      merkleRoot: raw.merkleRoot,
+    });
+    return { [SalePhase.Allowlist]: toSaleConfig(allowlist), [SalePhase.Public]: toSaleConfig(publicSale) };
+  } catch {
+    return null;
+  }
+};
+
+// Same rule as CustomERC721.isSaleActive, with "now" in Unix seconds
+export const getSaleStatus = (config: SaleConfig, now: number): SaleStatus => {
+  if (config.startTime === 0n) return "closed";
+  if (BigInt(now) < config.startTime) return "upcoming";
+  if (config.endTime !== 0n && BigInt(now) >= config.endTime) return "ended";
+  return "live";
+};
+
+// Unix seconds to the value of a datetime-local input, in the browser's time zone
+export const toDateTimeInput = (seconds: bigint) => {
+  if (seconds === 0n) return "";
+  const date = new Date(Number(seconds) * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInput = (value: string) => (value ? BigInt(Math.floor(new Date(value).getTime() / 1000)) : 0n);
+
+/**
+ * Proof of an account in a JSON export of the Merkle proof generator. CustomERC721 hashes the caller's
+ * address as keccak256(abi.encodePacked(account)), so only the "packed" encoding is accepted.
+ */
+export const findAllowlistProof = (data: MerkleProofExport, merkleRoot: string, account: string): string[] => {
+  if (data.leafEncoding !== "packed") {
+    throw new Error(`The allowlist must use the "Packed address" leaf encoding, not "${data.leafEncoding}"`);
+  }
+  if (data.merkleRoot.toLowerCase() !== merkleRoot.toLowerCase()) {
+    throw new Error("This proof file belongs to a different allowlist");
+  }
+  const record = data.proofs?.[ethers.getAddress(account)];
+  if (!record) {
+    throw new Error("Your address is not on this allowlist");
+  }
+  return record.proof;
+};
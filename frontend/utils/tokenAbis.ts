@@ -0,0 +1,108 @@
+// Tokens deployed by the factories are not in the contract registry, so their ABIs are kept here in human-readable form
+
+// Matches the TokenConfig struct of ERC20Factory.createConfiguredToken and ERC20Token.getConfig
+export interface TokenConfig {
+  cap: bigint;
+  pausable: boolean;
+  permit: boolean;
+  votes: boolean;
+  blocklist: boolean;
+  transferTaxBps: number;
+  taxRecipient: string;
+}
+
+// Matches the RoyaltyConfig struct of NFTRoyalties.sol, taken by the NFT factories' royalty-aware create functions
+export interface RoyaltyConfig {
+  receiver: string;
+  // Basis points of the sale price
+  feeNumerator: number;
+  tokenRoyalties: { tokenId: bigint; receiver: string; feeNumerator: number }[];
+}
+
+// Values of the SalePhase enum of ERC721Factory.sol
+export enum SalePhase {
+  Allowlist = 0,
+  Public = 1,
+}
+
+// Matches the SaleConfig struct of CustomERC721.setSaleConfig and getSaleConfig
+export interface SaleConfig {
+  price: bigint;
+  // Tokens a wallet may mint in the phase (0 for no limit)
+  maxPerWallet: bigint;
+  // Unix seconds; a start time of 0 closes the phase and an end time of 0 never ends it
+  startTime: bigint;
+  endTime: bigint;
+  merkleRoot: string;
+}
+
+// ERC-2981 royalties of CustomERC721 and CustomERC1155 (NFTRoyalties.sol)
+const NFT_ROYALTY_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function royaltyInfo(uint256 tokenId, uint256 salePrice) view returns (address receiver, uint256 amount)",
+  "function setDefaultRoyalty(address receiver, uint96 feeNumerator)",
+  "function deleteDefaultRoyalty()",
+  "function setTokenRoyalty(uint256 tokenId, address receiver, uint96 feeNumerator)",
+  "function resetTokenRoyalty(uint256 tokenId)",
+] as const;
+
+export const ERC20_TOKEN_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function owner() view returns (address)",
+  "function getConfig() view returns (tuple(uint256 cap, bool pausable, bool permit, bool votes, bool blocklist, uint16 transferTaxBps, address taxRecipient))",
+  "function paused() view returns (bool)",
+  "function isBlocked(address account) view returns (bool)",
+  "function mint(address to, uint256 amount)",
+  "function burn(uint256 amount)",
+  "function pause()",
+  "function unpause()",
+  "function setBlocked(address account, bool blocked)",
+  "function transferOwnership(address newOwner)",
+] as const;
+
+export const CUSTOM_ERC721_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function owner() view returns (address)",
+  "function getMaxSupply() view returns (uint256)",
+  "function currentSupply() view returns (uint256)",
+  "function isMintable() view returns (bool)",
+  "function isBurnable() view returns (bool)",
+  "function isPausable() view returns (bool)",
+  "function isPaused() view returns (bool)",
+  "function mint(address to, string uri)",
+  "function batchMint(address[] to, string[] uris)",
+  "function setBaseURI(string baseURI)",
+  "function pause()",
+  "function unpause()",
+  "function getSaleConfig(uint8 phase) view returns (tuple(uint256 price, uint256 maxPerWallet, uint64 startTime, uint64 endTime, bytes32 merkleRoot))",
+  "function isSaleActive(uint8 phase) view returns (bool)",
+  "function mintedInPhase(uint8 phase, address account) view returns (uint256)",
+  "function setSaleConfig(uint8 phase, tuple(uint256 price, uint256 maxPerWallet, uint64 startTime, uint64 endTime, bytes32 merkleRoot) config)",
+  "function publicMint(uint256 quantity) payable",
+  "function allowlistMint(uint256 quantity, bytes32[] proof) payable",
+  "function withdraw(address to)",
+  ...NFT_ROYALTY_ABI,
+] as const;
+
+export const CUSTOM_ERC1155_ABI = [
+  "function name() view returns (string)",
+  "function uri(uint256 id) view returns (string)",
+  "function owner() view returns (address)",
+  "function isMintable() view returns (bool)",
+  "function isBurnable() view returns (bool)",
+  "function isPausable() view returns (bool)",
+  "function isSupplyTracked() view returns (bool)",
+  "function isPaused() view returns (bool)",
+  "function getTotalSupply(uint256 id) view returns (uint256)",
+  "function mint(address to, uint256 id, uint256 amount, bytes data)",
+  "function mintBatch(address to, uint256[] ids, uint256[] amounts, bytes data)",
+  "function setURI(string newuri)",
+  "function pause()",
+  "function unpause()",
+  ...NFT_ROYALTY_ABI,
+] as const;
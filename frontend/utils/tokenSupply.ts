@@ -0,0 +1,25 @@
+import { ethers } from "ethers";
+
+// Mirrors the SupplyUnit enum of ERC20Factory.sol
+export enum SupplyUnit {
+  WholeTokens = 0,
+  BaseUnits = 1,
+}
+
+/**
+ * Initial supply arguments for ERC20Factory.createToken/createConfiguredToken. The form takes a whole-token
+ * amount (fractions allowed up to the token's decimals), which is submitted in base units so the factory
+ * mints it unchanged.
+ */
+export const toInitialSupplyArgs = (amount: string, decimals: number): [bigint, SupplyUnit] => [
+  ethers.parseUnits(amount.trim(), decimals),
+  SupplyUnit.BaseUnits,
+];
+
+// Factories deployed before SupplyUnit take whole tokens only and always scale by 10 ** decimals
+export const toLegacyInitialSupply = (amount: string): bigint => {
+  if (!/^\d+$/.test(amount.trim())) {
+    throw new Error("The deployed ERC20Factory only accepts a whole-number initial supply");
+  }
+  return BigInt(amount.trim());
+};
@@ -0,0 +1,89 @@
+import { TypedDataDomain, getAddress, isAddress, verifyTypedData } from "ethers";
+import { parseAbi } from "viem";
+
+// EIP-712 domain and struct signed by the trusted verifier for MerkleProofX.submitVerifiedProof
+export const VERIFIED_CLAIM_DOMAIN_NAME = "MerkleProofX";
+export const VERIFIED_CLAIM_DOMAIN_VERSION = "1";
+
+// MerkleProofX functions of verified claims. Registries deployed before them lack these, see hasFunction.
+export const VERIFIED_CLAIM_ABI = parseAbi([
+  "function nonces(address claimer) view returns (uint256)",
+  "function submitVerifiedProof(address _claimer, uint256 _deadline, bytes _signature) returns (bool)",
+  "event ClaimerVerified(address indexed claimer, address indexed verifier, uint256 nonce)",
+]);
+
+export const SUBMIT_VERIFIED_PROOF_SIGNATURE = "submitVerifiedProof(address,uint256,bytes)";
+
+export const VERIFIED_CLAIM_TYPES = {
+  VerifiedClaim: [
+    { name: "claimer", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export interface VerifiedClaim {
+  claimer: string;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// A claim with its verifier signature; numbers are decimal strings so the bundle survives JSON
+export interface SignedVerifiedClaim {
+  claimer: string;
+  nonce: string;
+  deadline: string;
+  signature: string;
+}
+
+// Signatures exported by the verifier console and submitted later, possibly by someone else
+export interface VerifiedClaimBundle {
+  contract: string;
+  chainId: number;
+  verifier: string;
+  claims: SignedVerifiedClaim[];
+}
+
+export const verifiedClaimDomain = (chainId: number | bigint, verifyingContract: string): TypedDataDomain => ({
+  name: VERIFIED_CLAIM_DOMAIN_NAME,
+  version: VERIFIED_CLAIM_DOMAIN_VERSION,
+  chainId,
+  verifyingContract,
+});
+
+export const toSignedVerifiedClaim = (claim: VerifiedClaim, signature: string): SignedVerifiedClaim => ({
+  claimer: getAddress(claim.claimer),
+  nonce: claim.nonce.toString(),
+  deadline: claim.deadline.toString(),
+  signature,
+});
+
+// Address that produced a claim signature for the given domain, to check it against trustedVerifier
+export const recoverVerifiedClaimSigner = (domain: TypedDataDomain, claim: SignedVerifiedClaim): string =>
+  verifyTypedData(
+    domain,
+    { VerifiedClaim: [...VERIFIED_CLAIM_TYPES.VerifiedClaim] },
+    { claimer: claim.claimer, nonce: BigInt(claim.nonce), deadline: BigInt(claim.deadline) },
+    claim.signature,
+  );
+
+// Validate the shape of an uploaded bundle, throwing on the first malformed entry
+export const parseVerifiedClaimBundle = (content: unknown): VerifiedClaimBundle => {
+  const bundle = content as VerifiedClaimBundle;
+  if (!bundle || !isAddress(bundle.contract) || !Number.isInteger(bundle.chainId) || !Array.isArray(bundle.claims)) {
+    throw new Error("Not a verified claim bundle");
+  }
+
+  bundle.claims.forEach((claim, index) => {
+    if (
+      !isAddress(claim.claimer) ||
+      !/^\d+$/.test(String(claim.nonce)) ||
+      !/^\d+$/.test(String(claim.deadline)) ||
+      !/^0x[0-9a-fA-F]{130}$/.test(String(claim.signature))
+    ) {
+      throw new Error(`Malformed claim at position ${index + 1}`);
+    }
+  });
+
+  return bundle;
+};
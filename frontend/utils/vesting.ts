@@ -0,0 +1,98 @@
+import { MONTH_SECONDS } from "./vestingGrants";
+import { ethers } from "ethers";
+import Papa from "papaparse";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// BasicVesting instances are deployed by ContractTemplates and are not in the contract registry
+export const BASIC_VESTING_ABI = [
+  "function getVestingInfo() view returns (address _beneficiary, uint256 _totalAmount, uint256 _startTime, uint256 _duration, uint256 _released, uint256 _vestedAmount)",
+  "function releasableAmount() view returns (uint256)",
+  "function token() view returns (address)",
+  "function owner() view returns (address)",
+  "function release()",
+  "event TokensReleased(address indexed beneficiary, uint256 amount)",
+] as const;
+
+// ContractTemplates event announcing each BasicVesting, indexed by beneficiary so wallets can find theirs
+export const VESTING_DEPLOYED_EVENT =
+  "event VestingContractDeployed(address indexed contractAddress, address indexed beneficiary)";
+
+// Path of the beneficiary page of a BasicVesting contract
+export const getVestingPagePath = (vesting: string) => `/vesting?address=${vesting}`;
+
+export interface VestingSchedule {
+  totalAmount: bigint;
+  // Unix seconds
+  startTime: number;
+  duration: number;
+}
+
+export interface VestingRelease {
+  amount: bigint;
+  // Unix seconds
+  timestamp: number;
+  transactionHash: string;
+}
+
+// Amount vested at a timestamp, with the same rounding as BasicVesting.vestedAmount
+export const vestedAt = (schedule: VestingSchedule, timestamp: number) => {
+  if (timestamp < schedule.startTime) return 0n;
+  if (timestamp >= schedule.startTime + schedule.duration) return schedule.totalAmount;
+  return (schedule.totalAmount * BigInt(timestamp - schedule.startTime)) / BigInt(schedule.duration);
+};
+
+// Amount released up to a timestamp, from the contract's TokensReleased events
+export const releasedAt = (releases: VestingRelease[], timestamp: number) =>
+  releases.filter(release => release.timestamp <= timestamp).reduce((total, release) => total + release.amount, 0n);
+
+// Monthly periods for schedules of at least two months, daily ones for shorter schedules, and twelve periods below
+const getPeriodLength = (duration: number) => {
+  if (duration >= 2 * MONTH_SECONDS) return MONTH_SECONDS;
+  if (duration >= 2 * DAY_SECONDS) return DAY_SECONDS;
+  return Math.max(1, Math.ceil(duration / 12));
+};
+
+// Period boundaries from the start to the end of the schedule, both included
+export const getSchedulePeriods = (schedule: VestingSchedule) => {
+  const period = getPeriodLength(schedule.duration);
+  const end = schedule.startTime + schedule.duration;
+  const timestamps: number[] = [];
+  for (let timestamp = schedule.startTime; timestamp < end; timestamp += period) timestamps.push(timestamp);
+  return [...timestamps, end];
+};
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+/**
+ * Schedule as a CSV for accounting: one `vesting` row per period boundary with the amount vested in the period,
+ * and one `release` row per release transaction, in date order. Amounts are in whole tokens.
+ */
+export const vestingScheduleToCsv = (schedule: VestingSchedule, releases: VestingRelease[], decimals: number) => {
+  const format = (amount: bigint) => ethers.formatUnits(amount, decimals);
+  const periods = getSchedulePeriods(schedule);
+
+  const rows = [
+    ...periods.map((timestamp, index) => {
+      const vested = vestedAt(schedule, timestamp);
+      const previous = index === 0 ? 0n : vestedAt(schedule, periods[index - 1]);
+      return { timestamp, type: "vesting", amount: vested - previous, transactionHash: "" };
+    }),
+    ...releases.map(release => ({ ...release, type: "release" })),
+  ].sort((a, b) => a.timestamp - b.timestamp || (a.type === "vesting" ? -1 : 1));
+
+  return Papa.unparse({
+    fields: ["date", "timestamp", "type", "amount", "vested_total", "released_total", "transaction_hash"],
+    data: rows.map(row => [
+      formatTimestamp(row.timestamp),
+      row.timestamp,
+      row.type,
+      format(row.amount),
+      format(vestedAt(schedule, row.timestamp)),
+      format(releasedAt(releases, row.timestamp)),
+      row.transactionHash,
+    ]),
+  });
+};
+
+export const getVestingScheduleFileName = (vesting: string) => `vesting-${vesting.slice(0, 10)}-schedule.csv`;
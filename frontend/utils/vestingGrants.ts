@@ -0,0 +1,150 @@
+import { ethers } from "ethers";
+import Papa from "papaparse";
+
+// Months in vesting schedules are 30 days, as in the VestingVault docs
+export const MONTH_SECONDS = 30 * 24 * 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+
+// One grant read from the CSV; the amount stays in whole tokens until the token's decimals are known
+export interface VestingGrantRow {
+  beneficiary: string;
+  amount: string;
+  start: number;
+  cliff: number;
+  duration: number;
+  // 0 for linear vesting
+  stepDuration: number;
+  revocable: boolean;
+}
+
+// VestingGrantParams of ContractTemplates.deployVestingVault
+export interface VestingGrantParams {
+  beneficiary: string;
+  amount: bigint;
+  start: bigint;
+  cliff: bigint;
+  duration: bigint;
+  stepDuration: bigint;
+  revocable: boolean;
+}
+
+export const VESTING_GRANTS_CSV_TEMPLATE = [
+  "beneficiary,amount,start,cliff_months,duration_months,unlock,revocable",
+  "0x0000000000000000000000000000000000000001,12000,2026-01-01,12,48,monthly,true",
+  "0x0000000000000000000000000000000000000002,5000,2026-01-01,0,24,linear,false",
+].join("\n");
+
+const parseStart = (value: string) => {
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000;
+  return Number.isFinite(timestamp) ? Math.floor(timestamp) : null;
+};
+
+// `linear`, `monthly` or a step length in days
+const parseStepDuration = (value: string | undefined) => {
+  const unlock = (value ?? "linear").toLowerCase();
+  if (unlock === "linear") return 0;
+  if (unlock === "monthly") return MONTH_SECONDS;
+  return /^\d+$/.test(unlock) && Number(unlock) > 0 ? Number(unlock) * DAY_SECONDS : null;
+};
+
+/**
+ * Parse the grants CSV: one row per grant with `beneficiary`, `amount` (whole tokens), `start` (date or Unix
+ * timestamp) and `duration_months` columns, plus optional `cliff_months` (default 0), `unlock` (`linear`,
+ * `monthly` or a step in days; default linear) and `revocable` (default true). Throws on the first invalid row.
+ */
+export const parseVestingGrantsCsv = (text: string): VestingGrantRow[] => {
+  const { data, errors, meta } = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  const error = errors.find(err => err.code !== "UndetectableDelimiter");
+  if (error) {
+    throw new Error(error.row !== undefined ? `CSV line ${error.row + 2}: ${error.message}` : error.message);
+  }
+
+  const fields = (meta.fields ?? []).map(field => field.trim().toLowerCase());
+  const missing = ["beneficiary", "amount", "start", "duration_months"].filter(field => !fields.includes(field));
+  if (missing.length > 0) {
+    throw new Error(`The CSV is missing the ${missing.join(", ")} column(s)`);
+  }
+  if (data.length === 0) {
+    throw new Error("The CSV has no grants");
+  }
+
+  return data.map((record, index) => {
+    const line = index + 2;
+    const cells = Object.fromEntries(
+      Object.entries(record).map(([column, cell]) => [column.trim().toLowerCase(), cell]),
+    );
+    const value = (column: string) => cells[column]?.trim() || undefined;
+
+    const beneficiary = value("beneficiary") ?? "";
+    if (!ethers.isAddress(beneficiary) || beneficiary === ethers.ZeroAddress) {
+      throw new Error(`CSV line ${line}: "${beneficiary}" is not a valid beneficiary address`);
+    }
+
+    const amount = value("amount") ?? "";
+    if (!/^\d+(\.\d{1,18})?$/.test(amount) || Number(amount) === 0) {
+      throw new Error(`CSV line ${line}: amount must be a positive number of tokens`);
+    }
+
+    const start = parseStart(value("start") ?? "");
+    if (start === null) throw new Error(`CSV line ${line}: start must be a date or a Unix timestamp`);
+
+    const months = (column: string) => {
+      const raw = value(column) ?? "0";
+      if (!/^\d+(\.\d+)?$/.test(raw)) throw new Error(`CSV line ${line}: ${column} must be a number of months`);
+      return Math.round(Number(raw) * MONTH_SECONDS);
+    };
+    const duration = months("duration_months");
+    const cliff = months("cliff_months");
+    if (duration === 0) throw new Error(`CSV line ${line}: duration_months must be greater than 0`);
+    if (cliff > duration) throw new Error(`CSV line ${line}: the cliff cannot be longer than the duration`);
+
+    const stepDuration = parseStepDuration(value("unlock"));
+    if (stepDuration === null) {
+      throw new Error(`CSV line ${line}: unlock must be linear, monthly or a number of days`);
+    }
+    if (stepDuration > duration) throw new Error(`CSV line ${line}: the unlock step is longer than the duration`);
+
+    const revocable = (value("revocable") ?? "true").toLowerCase();
+    if (!["true", "false", "yes", "no"].includes(revocable)) {
+      throw new Error(`CSV line ${line}: revocable must be true or false`);
+    }
+
+    return {
+      beneficiary: ethers.getAddress(beneficiary),
+      amount,
+      start,
+      cliff,
+      duration,
+      stepDuration,
+      revocable: revocable === "true" || revocable === "yes",
+    };
+  });
+};
+
+export const toVestingGrantParams = (rows: VestingGrantRow[], decimals: number): VestingGrantParams[] =>
+  rows.map(row => ({
+    beneficiary: row.beneficiary,
+    amount: ethers.parseUnits(row.amount, decimals),
+    start: BigInt(row.start),
+    cliff: BigInt(row.cliff),
+    duration: BigInt(row.duration),
+    stepDuration: BigInt(row.stepDuration),
+    revocable: row.revocable,
+  }));
+
+// Amount the vault is funded with on deployment
+export const getVestingGrantsTotal = (grants: VestingGrantParams[]) =>
+  grants.reduce((total, grant) => total + grant.amount, 0n);
+
+// Total of the rows in whole tokens, for previews before the token's decimals are known
+export const getVestingRowsTotal = (rows: VestingGrantRow[]) =>
+  ethers.formatUnits(
+    rows.reduce((total, row) => total + ethers.parseUnits(row.amount, 18), 0n),
+    18,
+  );
+
+export const describeUnlock = (row: Pick<VestingGrantRow, "stepDuration">) => {
+  if (row.stepDuration === 0) return "Linear";
+  if (row.stepDuration === MONTH_SECONDS) return "Monthly";
+  return `Every ${row.stepDuration / DAY_SECONDS} days`;
+};
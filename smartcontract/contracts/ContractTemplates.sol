@@ -3,9 +3,29 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 
+/**
+ * @dev Funding of the templates that hold tokens for others. A token taking a fee on transfer would leave
+ * the template short of what it owes, so funding reverts unless the recipient receives the full amount.
+ */
+library TokenFunding {
+    using SafeERC20 for IERC20;
+
+    function pullExact(IERC20 token, address from, address to, uint256 amount) internal {
+        uint256 balanceBefore = token.balanceOf(to);
+        token.safeTransferFrom(from, to, amount);
+        require(token.balanceOf(to) - balanceBefore == amount, "Fee-on-transfer tokens are not supported");
+    }
+}
+
 /**
  * @title ContractTemplates
  * @dev A collection of secure contract templates for DeFi developers
@@ -18,12 +38,33 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
  * - Proper access control and ownership patterns
  */
 contract ContractTemplates is Ownable, ReentrancyGuard {
+    using TokenFunding for IERC20;
+
+    // VestingVault deployed once, then cloned for every vault
+    address public immutable vestingVaultImplementation;
+
     // Template deployment events
     event StakingContractDeployed(address indexed contractAddress, address indexed owner);
     event VestingContractDeployed(address indexed contractAddress, address indexed beneficiary);
     event MultiSigDeployed(address indexed contractAddress, address[] owners);
-
-    constructor() Ownable(msg.sender) {}
+    event MerkleDistributorDeployed(
+        address indexed contractAddress,
+        address indexed token,
+        bytes32 merkleRoot,
+        uint256 totalAmount,
+        address indexed creator
+    );
+    event VestingVaultDeployed(
+        address indexed contractAddress,
+        address indexed token,
+        address indexed grantor,
+        uint256 grantCount,
+        uint256 totalAmount
+    );
+
+    constructor() Ownable(msg.sender) {
+        vestingVaultImplementation = address(new VestingVault());
+    }
 
     /**
      * @dev Deploy a basic staking contract
@@ -51,7 +92,8 @@ contract ContractTemplates is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Deploy a basic vesting contract
+     * @dev Deploy a basic vesting contract owned by the caller and fund it from the caller
+     * The caller must approve this contract to spend `totalAmount` of `token` beforehand
      * @param token Address of the token to vest
      * @param beneficiary Address that will receive the tokens
      * @param totalAmount Total amount to vest
@@ -72,15 +114,44 @@ contract ContractTemplates is Ownable, ReentrancyGuard {
         require(startTime > block.timestamp, "Start time must be in the future");
         require(duration > 0, "Duration must be greater than 0");
 
-        // Deploy new vesting contract
-        BasicVesting vesting = new BasicVesting(token, beneficiary, totalAmount, startTime, duration);
+        // Deploy new vesting contract owned by the caller
+        BasicVesting vesting = new BasicVesting(token, beneficiary, totalAmount, startTime, duration, msg.sender);
 
         contractAddress = address(vesting);
+
+        // Fund the vesting contract atomically with the caller's approved tokens
+        IERC20(token).pullExact(msg.sender, contractAddress, totalAmount);
+
         emit VestingContractDeployed(contractAddress, beneficiary);
 
         return contractAddress;
     }
 
+    /**
+     * @dev Deploy a vesting vault holding a batch of grants, as an EIP-1167 minimal proxy of
+     * vestingVaultImplementation, and fund it from the caller, who becomes the grantor
+     * The caller must approve this contract to spend the sum of the grant amounts beforehand
+     * @param token Address of the token to vest
+     * @param grants Grants to create, each with its own beneficiary and schedule
+     * @return contractAddress Address of the deployed vault
+     */
+    function deployVestingVault(
+        address token,
+        VestingGrantParams[] calldata grants
+    ) external nonReentrant returns (address contractAddress) {
+        require(token != address(0), "Invalid token");
+
+        contractAddress = Clones.clone(vestingVaultImplementation);
+        uint256 totalAmount = VestingVault(contractAddress).initialize(token, msg.sender, grants);
+
+        // Fund every grant atomically with the caller's approved tokens
+        IERC20(token).pullExact(msg.sender, contractAddress, totalAmount);
+
+        emit VestingVaultDeployed(contractAddress, token, msg.sender, grants.length, totalAmount);
+
+        return contractAddress;
+    }
+
     /**
      * @dev Deploy a basic multi-signature wallet
      * @param owners Array of owner addresses
@@ -103,6 +174,39 @@ contract ContractTemplates is Ownable, ReentrancyGuard {
 
         return contractAddress;
     }
+
+    /**
+     * @dev Deploy a Merkle airdrop distributor and fund it from the caller
+     * The caller must approve this contract to spend `totalAmount` of `token` beforehand
+     * @param token Address of the token to distribute
+     * @param merkleRoot Root of the (index, account, amount) claims tree
+     * @param totalAmount Total amount of tokens to fund the distributor with
+     * @param claimDeadline Timestamp after which unclaimed tokens can be swept by the caller
+     * @return contractAddress Address of the deployed distributor
+     */
+    function deployMerkleDistributor(
+        address token,
+        bytes32 merkleRoot,
+        uint256 totalAmount,
+        uint256 claimDeadline
+    ) external nonReentrant returns (address contractAddress) {
+        require(token != address(0), "Invalid token");
+        require(merkleRoot != bytes32(0), "Invalid merkle root");
+        require(totalAmount > 0, "Total amount must be greater than 0");
+        require(claimDeadline > block.timestamp, "Claim deadline must be in the future");
+
+        // Deploy new distributor owned by the caller
+        MerkleDistributor distributor = new MerkleDistributor(token, merkleRoot, claimDeadline, msg.sender);
+
+        contractAddress = address(distributor);
+
+        // Fund the distributor atomically with the caller's approved tokens
+        IERC20(token).pullExact(msg.sender, contractAddress, totalAmount);
+
+        emit MerkleDistributorDeployed(contractAddress, token, merkleRoot, totalAmount, msg.sender);
+
+        return contractAddress;
+    }
 }
 
 /**
@@ -206,8 +310,9 @@ contract BasicVesting is Ownable {
         address _beneficiary,
         uint256 _totalAmount,
         uint256 _startTime,
-        uint256 _duration
-    ) Ownable(msg.sender) {
+        uint256 _duration,
+        address _owner
+    ) Ownable(_owner) {
         token = IERC20(_token);
         beneficiary = _beneficiary;
         totalAmount = _totalAmount;
@@ -256,6 +361,276 @@ contract BasicVesting is Ownable {
     }
 }
 
+/**
+ * @dev Schedule of one VestingVault grant
+ * @param beneficiary Address receiving the vested tokens
+ * @param amount Total amount of the grant
+ * @param start Timestamp vesting is counted from
+ * @param cliff Seconds after start before anything vests; what vested by then unlocks at once
+ * @param duration Seconds from start until the whole grant is vested
+ * @param stepDuration Unlock interval in seconds, e.g. 30 days for monthly unlocks (0 for linear vesting)
+ * @param revocable Whether the grantor can revoke the unvested part
+ */
+struct VestingGrantParams {
+    address beneficiary;
+    uint256 amount;
+    uint64 start;
+    uint64 cliff;
+    uint64 duration;
+    uint64 stepDuration;
+    bool revocable;
+}
+
+/**
+ * @title VestingVault
+ * @dev Vesting of many grants of one token, each with a cliff and linear or step unlocks
+ * Revoking a grant keeps what already vested for the beneficiary and returns the rest to the grantor (the owner)
+ */
+contract VestingVault is Ownable, Initializable {
+    using SafeERC20 for IERC20;
+    using TokenFunding for IERC20;
+
+    struct VestingGrant {
+        address beneficiary;
+        uint64 start;
+        uint64 cliff;
+        uint64 duration;
+        uint64 stepDuration;
+        bool revocable;
+        bool revoked;
+        uint256 amount;
+        uint256 released;
+    }
+
+    IERC20 public token;
+    VestingGrant[] private _grants;
+    mapping(address => uint256[]) private _grantIdsByBeneficiary;
+
+    event GrantCreated(uint256 indexed grantId, address indexed beneficiary, uint256 amount);
+    event GrantRevoked(uint256 indexed grantId, address indexed beneficiary, uint256 unvestedAmount);
+    event TokensReleased(uint256 indexed grantId, address indexed beneficiary, uint256 amount);
+
+    // The implementation only serves as the code of clones
+    constructor() Ownable(msg.sender) {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Set up a clone with its first grants, in place of the constructor
+     * @return totalAmount Sum of the grant amounts, which the deployer must transfer to the vault
+     */
+    function initialize(
+        address _token,
+        address _grantor,
+        VestingGrantParams[] calldata _grantParams
+    ) external initializer returns (uint256 totalAmount) {
+        token = IERC20(_token);
+        _transferOwnership(_grantor);
+        return _createGrants(_grantParams);
+    }
+
+    /**
+     * @dev Create more grants, funded from the grantor, who must approve the vault beforehand
+     * @param _grantParams Grants to create
+     */
+    function addGrants(VestingGrantParams[] calldata _grantParams) external onlyOwner {
+        uint256 totalAmount = _createGrants(_grantParams);
+        token.pullExact(msg.sender, address(this), totalAmount);
+    }
+
+    /**
+     * @dev Send the vested, unreleased tokens of a grant to its beneficiary
+     * @param _grantId Grant to release
+     */
+    function release(uint256 _grantId) external {
+        VestingGrant storage grant = _getGrant(_grantId);
+        uint256 releasable = _vestedAmount(grant) - grant.released;
+        require(releasable > 0, "No tokens to release");
+
+        grant.released += releasable;
+        token.safeTransfer(grant.beneficiary, releasable);
+        emit TokensReleased(_grantId, grant.beneficiary, releasable);
+    }
+
+    /**
+     * @dev Stop a revocable grant: what vested so far stays releasable, the rest returns to the grantor
+     * @param _grantId Grant to revoke
+     */
+    function revoke(uint256 _grantId) external onlyOwner {
+        VestingGrant storage grant = _getGrant(_grantId);
+        require(grant.revocable, "Grant is not revocable");
+        require(!grant.revoked, "Grant already revoked");
+
+        uint256 vested = _vestedAmount(grant);
+        uint256 unvested = grant.amount - vested;
+        grant.amount = vested;
+        grant.revoked = true;
+
+        if (unvested > 0) {
+            token.safeTransfer(owner(), unvested);
+        }
+        emit GrantRevoked(_grantId, grant.beneficiary, unvested);
+    }
+
+    function getGrantCount() external view returns (uint256) {
+        return _grants.length;
+    }
+
+    /**
+     * @dev Get a grant with its current vesting state
+     * @return grant Schedule and state of the grant; the amount of a revoked grant is what vested before revocation
+     * @return vested Amount vested so far
+     * @return releasable Amount that can be released now
+     */
+    function getGrant(
+        uint256 _grantId
+    ) external view returns (VestingGrant memory grant, uint256 vested, uint256 releasable) {
+        VestingGrant storage stored = _getGrant(_grantId);
+        vested = _vestedAmount(stored);
+        return (stored, vested, vested - stored.released);
+    }
+
+    function getGrantIds(address _beneficiary) external view returns (uint256[] memory) {
+        return _grantIdsByBeneficiary[_beneficiary];
+    }
+
+    function vestedAmount(uint256 _grantId) external view returns (uint256) {
+        return _vestedAmount(_getGrant(_grantId));
+    }
+
+    function releasableAmount(uint256 _grantId) external view returns (uint256) {
+        VestingGrant storage grant = _getGrant(_grantId);
+        return _vestedAmount(grant) - grant.released;
+    }
+
+    function _createGrants(VestingGrantParams[] calldata _grantParams) private returns (uint256 totalAmount) {
+        require(_grantParams.length > 0, "No grants");
+
+        for (uint256 i = 0; i < _grantParams.length; i++) {
+            VestingGrantParams calldata params = _grantParams[i];
+            require(params.beneficiary != address(0), "Invalid beneficiary");
+            require(params.amount > 0, "Grant amount must be greater than 0");
+            require(params.duration > 0, "Duration must be greater than 0");
+            require(params.cliff <= params.duration, "Cliff cannot exceed duration");
+            require(params.stepDuration <= params.duration, "Step cannot exceed duration");
+
+            uint256 grantId = _grants.length;
+            _grants.push(
+                VestingGrant({
+                    beneficiary: params.beneficiary,
+                    start: params.start,
+                    cliff: params.cliff,
+                    duration: params.duration,
+                    stepDuration: params.stepDuration,
+                    revocable: params.revocable,
+                    revoked: false,
+                    amount: params.amount,
+                    released: 0
+                })
+            );
+            _grantIdsByBeneficiary[params.beneficiary].push(grantId);
+            totalAmount += params.amount;
+
+            emit GrantCreated(grantId, params.beneficiary, params.amount);
+        }
+    }
+
+    function _getGrant(uint256 _grantId) private view returns (VestingGrant storage) {
+        require(_grantId < _grants.length, "Grant does not exist");
+        return _grants[_grantId];
+    }
+
+    function _vestedAmount(VestingGrant storage grant) private view returns (uint256) {
+        if (grant.revoked) {
+            return grant.amount;
+        }
+        if (block.timestamp < uint256(grant.start) + grant.cliff) {
+            return 0;
+        }
+
+        uint256 elapsed = block.timestamp - grant.start;
+        if (elapsed >= grant.duration) {
+            return grant.amount;
+        }
+        // Step vesting only counts whole steps
+        if (grant.stepDuration > 0) {
+            elapsed -= elapsed % grant.stepDuration;
+        }
+        return (grant.amount * elapsed) / grant.duration;
+    }
+}
+
+/**
+ * @title MerkleDistributor
+ * @dev An airdrop contract paying out token allocations proven against a published Merkle root
+ * Leaves are keccak256(abi.encodePacked(index, account, amount)); claimed indexes are tracked in a bitmap
+ */
+contract MerkleDistributor is Ownable {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable token;
+    bytes32 public immutable merkleRoot;
+    uint256 public immutable claimDeadline;
+
+    // Packed array of booleans, one bit per claim index
+    mapping(uint256 => uint256) private claimedBitMap;
+
+    event Claimed(uint256 index, address indexed account, uint256 amount);
+    event Swept(address indexed to, uint256 amount);
+
+    constructor(address _token, bytes32 _merkleRoot, uint256 _claimDeadline, address _owner) Ownable(_owner) {
+        token = IERC20(_token);
+        merkleRoot = _merkleRoot;
+        claimDeadline = _claimDeadline;
+    }
+
+    function isClaimed(uint256 index) public view returns (bool) {
+        uint256 claimedWord = claimedBitMap[index / 256];
+        uint256 mask = 1 << (index % 256);
+        return claimedWord & mask == mask;
+    }
+
+    function claim(uint256 index, address account, uint256 amount, bytes32[] calldata merkleProof) external {
+        require(block.timestamp < claimDeadline, "Claim period has ended");
+        require(!isClaimed(index), "Drop already claimed");
+
+        bytes32 node = keccak256(abi.encodePacked(index, account, amount));
+        require(MerkleProof.verify(merkleProof, merkleRoot, node), "Invalid proof");
+
+        _setClaimed(index);
+        token.safeTransfer(account, amount);
+
+        emit Claimed(index, account, amount);
+    }
+
+    /**
+     * @dev Return unclaimed tokens to the creator once the claim period has ended
+     * @param to Address receiving the remaining balance
+     */
+    function sweep(address to) external onlyOwner {
+        require(block.timestamp >= claimDeadline, "Claim period has not ended");
+        require(to != address(0), "Invalid recipient");
+
+        uint256 remaining = token.balanceOf(address(this));
+        require(remaining > 0, "Nothing to sweep");
+
+        token.safeTransfer(to, remaining);
+        emit Swept(to, remaining);
+    }
+
+    function getDistributorInfo()
+        external
+        view
+        returns (address _token, bytes32 _merkleRoot, uint256 _claimDeadline, uint256 _remaining)
+    {
+        return (address(token), merkleRoot, claimDeadline, token.balanceOf(address(this)));
+    }
+
+    function _setClaimed(uint256 index) private {
+        claimedBitMap[index / 256] |= 1 << (index % 256);
+    }
+}
+
 /**
  * @title BasicMultiSig
  * @dev A secure multi-signature wallet template following best practices
@@ -270,11 +645,26 @@ contract BasicVesting is Ownable {
  * - 2-of-3: 3 owners, 2 signatures required (most common)
  * - 3-of-5: 5 owners, 3 signatures required (high security)
  * - 1-of-2: 2 owners, 1 signature required (simple shared wallet)
+ *
+ * Owner Management:
+ * - Owners and the threshold change only through an executed proposal calling the wallet itself
+ * - Any owner change invalidates the confirmations of every pending proposal
+ *
+ * Signature Execution:
+ * - Owners sign an EIP-712 Execute(to, value, data, nonce) message off-chain
+ * - Any owner submits the signatures, sorted by signer address, in a single executeWithSignatures transaction
  */
-contract BasicMultiSig is Ownable {
+contract BasicMultiSig is Ownable, EIP712 {
     mapping(address => bool) public isOwner;
     address[] public owners;
     uint256 public requiredSignatures;
+    // Incremented on every owner change; confirmations given under an older owner set no longer count
+    uint256 public ownerSetVersion;
+    // Nonce of the next executeWithSignatures call, so each set of signatures executes once
+    uint256 public nonce;
+
+    bytes32 private constant EXECUTE_TYPEHASH =
+        keccak256("Execute(address to,uint256 value,bytes data,uint256 nonce)");
 
     struct Transaction {
         address to;
@@ -282,15 +672,27 @@ contract BasicMultiSig is Ownable {
         bytes data;
         bool executed;
         uint256 numConfirmations;
+        uint256 ownerSetVersion;
     }
 
-    mapping(uint256 => mapping(address => bool)) public isConfirmed;
+    // txId => owner set version => owner => confirmed
+    mapping(uint256 => mapping(uint256 => mapping(address => bool))) private _confirmations;
     Transaction[] public transactions;
 
     event TransactionSubmitted(uint256 indexed txId, address indexed owner, address to, uint256 value, bytes data);
     event TransactionConfirmed(uint256 indexed txId, address indexed owner);
     event TransactionRevoked(uint256 indexed txId, address indexed owner);
     event TransactionExecuted(uint256 indexed txId, address indexed owner);
+    event OwnerAdded(address indexed owner);
+    event OwnerRemoved(address indexed owner);
+    event RequirementChanged(uint256 requiredSignatures);
+    event SignedTransactionExecuted(
+        uint256 indexed nonce,
+        address indexed executor,
+        address to,
+        uint256 value,
+        bytes data
+    );
 
     modifier onlyMultiSigOwner() {
         require(isOwner[msg.sender], "Not an owner");
@@ -308,11 +710,19 @@ contract BasicMultiSig is Ownable {
     }
 
     modifier notConfirmed(uint256 _txId) {
-        require(!isConfirmed[_txId][msg.sender], "Transaction already confirmed");
+        require(!isConfirmed(_txId, msg.sender), "Transaction already confirmed");
+        _;
+    }
+
+    modifier onlyWallet() {
+        require(msg.sender == address(this), "Only the wallet itself");
         _;
     }
 
-    constructor(address[] memory _owners, uint256 _requiredSignatures) Ownable(msg.sender) {
+    constructor(
+        address[] memory _owners,
+        uint256 _requiredSignatures
+    ) Ownable(msg.sender) EIP712("BasicMultiSig", "1") {
         require(_owners.length >= 2, "Multi-sig wallet requires at least 2 owners");
         require(_requiredSignatures > 0, "Required signatures must be greater than 0");
         require(_requiredSignatures <= _owners.length, "Required signatures cannot exceed owner count");
@@ -335,7 +745,16 @@ contract BasicMultiSig is Ownable {
         bytes calldata _data
     ) external onlyMultiSigOwner returns (uint256 txId) {
         txId = transactions.length;
-        transactions.push(Transaction({ to: _to, value: _value, data: _data, executed: false, numConfirmations: 0 }));
+        transactions.push(
+            Transaction({
+                to: _to,
+                value: _value,
+                data: _data,
+                executed: false,
+                numConfirmations: 0,
+                ownerSetVersion: ownerSetVersion
+            })
+        );
 
         emit TransactionSubmitted(txId, msg.sender, _to, _value, _data);
     }
@@ -343,16 +762,16 @@ contract BasicMultiSig is Ownable {
     function confirmTransaction(
         uint256 _txId
     ) external onlyMultiSigOwner txExists(_txId) notExecuted(_txId) notConfirmed(_txId) {
-        Transaction storage transaction = transactions[_txId];
+        Transaction storage transaction = _syncConfirmations(_txId);
         transaction.numConfirmations += 1;
-        isConfirmed[_txId][msg.sender] = true;
+        _confirmations[_txId][ownerSetVersion][msg.sender] = true;
 
         emit TransactionConfirmed(_txId, msg.sender);
     }
 
     function executeTransaction(uint256 _txId) external onlyMultiSigOwner txExists(_txId) notExecuted(_txId) {
         Transaction storage transaction = transactions[_txId];
-        require(transaction.numConfirmations >= requiredSignatures, "Cannot execute transaction");
+        require(_confirmationCount(transaction) >= requiredSignatures, "Cannot execute transaction");
 
         transaction.executed = true;
 
@@ -363,15 +782,123 @@ contract BasicMultiSig is Ownable {
     }
 
     function revokeConfirmation(uint256 _txId) external onlyMultiSigOwner txExists(_txId) notExecuted(_txId) {
-        Transaction storage transaction = transactions[_txId];
-        require(isConfirmed[_txId][msg.sender], "Transaction already confirmed");
+        require(isConfirmed(_txId, msg.sender), "Transaction not confirmed");
+        Transaction storage transaction = _syncConfirmations(_txId);
 
         transaction.numConfirmations -= 1;
-        isConfirmed[_txId][msg.sender] = false;
+        _confirmations[_txId][ownerSetVersion][msg.sender] = false;
 
         emit TransactionRevoked(_txId, msg.sender);
     }
 
+    /**
+     * @dev Execute a call approved by owner signatures instead of on-chain confirmations
+     * @param _to Address called by the wallet
+     * @param _value ETH sent with the call
+     * @param _data Calldata of the call
+     * @param _signatures EIP-712 signatures of Execute(to, value, data, nonce), sorted by ascending signer address
+     */
+    function executeWithSignatures(
+        address _to,
+        uint256 _value,
+        bytes calldata _data,
+        bytes[] calldata _signatures
+    ) external onlyMultiSigOwner {
+        require(_signatures.length >= requiredSignatures, "Not enough signatures");
+
+        uint256 txNonce = nonce;
+        bytes32 digest = getExecuteHash(_to, _value, _data, txNonce);
+        address lastSigner = address(0);
+        for (uint256 i = 0; i < _signatures.length; i++) {
+            address signer = ECDSA.recover(digest, _signatures[i]);
+            require(isOwner[signer], "Signer is not an owner");
+            // Ascending order rules out the same owner signing twice
+            require(signer > lastSigner, "Signatures not sorted by signer");
+            lastSigner = signer;
+        }
+
+        nonce = txNonce + 1;
+
+        (bool success, ) = _to.call{ value: _value }(_data);
+        require(success, "Transaction execution failed");
+
+        emit SignedTransactionExecuted(txNonce, msg.sender, _to, _value, _data);
+    }
+
+    /**
+     * @dev EIP-712 digest owners sign to approve a call through executeWithSignatures
+     * @param _to Address called by the wallet
+     * @param _value ETH sent with the call
+     * @param _data Calldata of the call
+     * @param _nonce Wallet nonce the signatures are valid for
+     * @return Typed data hash of Execute(to, value, data, nonce)
+     */
+    function getExecuteHash(
+        address _to,
+        uint256 _value,
+        bytes calldata _data,
+        uint256 _nonce
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(EXECUTE_TYPEHASH, _to, _value, keccak256(_data), _nonce)));
+    }
+
+    /**
+     * @dev Add an owner, keeping the threshold. Only callable through an executed proposal
+     * @param _owner Address of the new owner
+     */
+    function addOwner(address _owner) external onlyWallet {
+        _addOwner(_owner);
+        ownerSetVersion += 1;
+    }
+
+    /**
+     * @dev Remove an owner, lowering the threshold when it would exceed the remaining owners.
+     * Only callable through an executed proposal
+     * @param _owner Address of the owner to remove
+     */
+    function removeOwner(address _owner) external onlyWallet {
+        require(owners.length > 2, "Multi-sig wallet requires at least 2 owners");
+        _removeOwner(_owner);
+        if (requiredSignatures > owners.length) {
+            requiredSignatures = owners.length;
+            emit RequirementChanged(requiredSignatures);
+        }
+        ownerSetVersion += 1;
+    }
+
+    /**
+     * @dev Swap an owner for a new address, e.g. to rotate a compromised key. Only callable through an executed proposal
+     * @param _owner Address of the owner to replace
+     * @param _newOwner Address of the new owner
+     */
+    function replaceOwner(address _owner, address _newOwner) external onlyWallet {
+        _removeOwner(_owner);
+        _addOwner(_newOwner);
+        ownerSetVersion += 1;
+    }
+
+    /**
+     * @dev Change the number of confirmations a proposal needs. Only callable through an executed proposal
+     * @param _requiredSignatures New number of signatures required
+     */
+    function changeRequirement(uint256 _requiredSignatures) external onlyWallet {
+        require(_requiredSignatures > 0, "Required signatures must be greater than 0");
+        require(_requiredSignatures <= owners.length, "Required signatures cannot exceed owner count");
+
+        requiredSignatures = _requiredSignatures;
+        emit RequirementChanged(_requiredSignatures);
+    }
+
+    /**
+     * @dev Check if an owner confirmed a transaction under the current owner set
+     * @param _txId Transaction ID
+     * @param _owner Address to check
+     * @return True if the confirmation counts towards execution
+     */
+    function isConfirmed(uint256 _txId, address _owner) public view returns (bool) {
+        return _txId < transactions.length && _confirmations[_txId][ownerSetVersion][_owner];
+    }
+
     function getOwners() external view returns (address[] memory) {
         return owners;
     }
@@ -389,7 +916,7 @@ contract BasicMultiSig is Ownable {
             transaction.value,
             transaction.data,
             transaction.executed,
-            transaction.numConfirmations
+            _confirmationCount(transaction)
         );
     }
 
@@ -416,5 +943,41 @@ contract BasicMultiSig is Ownable {
         return isOwner[_address];
     }
 
+    function _addOwner(address _owner) private {
+        require(_owner != address(0), "Invalid owner");
+        require(!isOwner[_owner], "Owner not unique");
+
+        isOwner[_owner] = true;
+        owners.push(_owner);
+        emit OwnerAdded(_owner);
+    }
+
+    function _removeOwner(address _owner) private {
+        require(isOwner[_owner], "Not an owner");
+
+        isOwner[_owner] = false;
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (owners[i] == _owner) {
+                owners[i] = owners[owners.length - 1];
+                owners.pop();
+                break;
+            }
+        }
+        emit OwnerRemoved(_owner);
+    }
+
+    function _confirmationCount(Transaction storage transaction) private view returns (uint256) {
+        return transaction.ownerSetVersion == ownerSetVersion ? transaction.numConfirmations : 0;
+    }
+
+    // Drop the confirmations a transaction collected under an older owner set before counting new ones
+    function _syncConfirmations(uint256 _txId) private returns (Transaction storage transaction) {
+        transaction = transactions[_txId];
+        if (transaction.ownerSetVersion != ownerSetVersion) {
+            transaction.ownerSetVersion = ownerSetVersion;
+            transaction.numConfirmations = 0;
+        }
+    }
+
     receive() external payable {}
 }
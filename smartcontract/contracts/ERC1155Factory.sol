@@ -3,12 +3,20 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "./NFTRoyalties.sol";
+import "./TokenFactoryBase.sol";
 
 /**
  * @title ERC1155Factory
  * @dev Factory contract for deploying customizable ERC1155 multi-token contracts
  */
-contract ERC1155Factory is Ownable {
+contract ERC1155Factory is Ownable, TokenFactoryBase {
+    
+    // CustomERC1155 that createMultiTokenClone clones, deployed with the factory
+    address public immutable multiTokenImplementation;
     
     // Array to track all created contracts
     address[] public createdContracts;
@@ -16,6 +24,9 @@ contract ERC1155Factory is Ownable {
     // Mapping to track contract creators
     mapping(address => address) public contractCreators;
     
+    // Contracts of each creator, in creation order
+    mapping(address => address[]) private creatorContracts;
+    
     // Mapping to store contract info
     mapping(address => MultiToken) public multiTokens;
     
@@ -30,6 +41,18 @@ contract ERC1155Factory is Ownable {
         uint256 createdAt;
     }
     
+    // Constructor arguments of CustomERC1155, grouped so predictAddress stays within the stack limit
+    struct MultiTokenArgs {
+        string name;
+        string uri;
+        bool mintable;
+        bool burnable;
+        bool pausable;
+        bool supplyTracked;
+        address creator;
+        RoyaltyConfig royalties;
+    }
+    
     event MultiTokenCreated(
         address indexed contractAddress,
         string name,
@@ -41,7 +64,12 @@ contract ERC1155Factory is Ownable {
         bool supplyTracked
     );
     
-    constructor() Ownable(msg.sender) {}
+    constructor() Ownable(msg.sender) {
+        RoyaltyConfig memory royalties;
+        multiTokenImplementation = address(
+            new CustomERC1155("", "", false, false, false, false, address(this), royalties)
+        );
+    }
     
     /**
      * @dev Create a new ERC1155 multi-token contract
@@ -60,25 +88,160 @@ contract ERC1155Factory is Ownable {
         bool pausable,
         bool supplyTracked
     ) external returns (address) {
-        require(bytes(name).length > 0, "Name cannot be empty");
-        require(bytes(uri).length > 0, "URI cannot be empty");
+        RoyaltyConfig memory royalties;
+        return _createMultiToken(name, uri, mintable, burnable, pausable, supplyTracked, royalties, bytes32(0));
+    }
+    
+    /**
+     * @dev Create a new ERC1155 multi-token contract paying ERC-2981 royalties
+     * @param royalties Default and per-token royalties, which the owner can change later
+     */
+    function createMultiTokenWithRoyalties(
+        string memory name,
+        string memory uri,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        bool supplyTracked,
+        RoyaltyConfig memory royalties
+    ) external returns (address) {
+        return _createMultiToken(name, uri, mintable, burnable, pausable, supplyTracked, royalties, bytes32(0));
+    }
+    
+    /**
+     * @dev Create a new ERC1155 multi-token contract with CREATE2, at the address returned by predictAddress
+     * @param salt Non-zero salt chosen by the creator
+     */
+    function createMultiTokenDeterministic(
+        string memory name,
+        string memory uri,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        bool supplyTracked,
+        RoyaltyConfig memory royalties,
+        bytes32 salt
+    ) external returns (address) {
+        require(salt != bytes32(0), "Salt cannot be zero");
+        return _createMultiToken(name, uri, mintable, burnable, pausable, supplyTracked, royalties, salt);
+    }
+    
+    /**
+     * @dev Create a new ERC1155 multi-token contract as an EIP-1167 minimal proxy of multiTokenImplementation.
+     * Much cheaper to deploy than createMultiToken, at the cost of a delegatecall on every call.
+     */
+    function createMultiTokenClone(
+        string memory name,
+        string memory uri,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        bool supplyTracked,
+        RoyaltyConfig memory royalties
+    ) external returns (address) {
+        _validateMultiToken(name, uri);
         
-        // Deploy the multi-token contract
-        CustomERC1155 multiTokenContract = new CustomERC1155(
+        address contractAddress = Clones.clone(multiTokenImplementation);
+        CustomERC1155(contractAddress).initialize(
             name,
             uri,
             mintable,
             burnable,
             pausable,
             supplyTracked,
-            msg.sender
+            msg.sender,
+            royalties
         );
         
-        address contractAddress = address(multiTokenContract);
+        _registerMultiToken(contractAddress, name, uri, mintable, burnable, pausable, supplyTracked);
+        return contractAddress;
+    }
+    
+    /**
+     * @dev Predict the address of a contract created with createMultiTokenDeterministic
+     * @param creator Address that will call createMultiTokenDeterministic
+     * @param salt Salt that will be passed to createMultiTokenDeterministic
+     */
+    function predictAddress(
+        address creator,
+        bytes32 salt,
+        string memory name,
+        string memory uri,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        bool supplyTracked,
+        RoyaltyConfig memory royalties
+    ) external view returns (address) {
+        MultiTokenArgs memory args = MultiTokenArgs(
+            name,
+            uri,
+            mintable,
+            burnable,
+            pausable,
+            supplyTracked,
+            creator,
+            royalties
+        );
+        bytes memory constructorArgs = abi.encode(args);
+        // Encoding a struct with dynamic members prepends its offset; drop that word to get the constructor arguments
+        assembly {
+            let length := mload(constructorArgs)
+            constructorArgs := add(constructorArgs, 0x20)
+            mstore(constructorArgs, sub(length, 0x20))
+        }
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(CustomERC1155).creationCode, constructorArgs));
+        return Create2.computeAddress(creatorSalt(creator, salt), initCodeHash);
+    }
+    
+    function _createMultiToken(
+        string memory name,
+        string memory uri,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        bool supplyTracked,
+        RoyaltyConfig memory royalties,
+        bytes32 salt
+    ) internal returns (address) {
+        _validateMultiToken(name, uri);
+        
+        // Deploy the multi-token contract, with CREATE2 when a salt is given
+        CustomERC1155 multiTokenContract = salt == bytes32(0)
+            ? new CustomERC1155(name, uri, mintable, burnable, pausable, supplyTracked, msg.sender, royalties)
+            : new CustomERC1155{salt: creatorSalt(msg.sender, salt)}(
+                name,
+                uri,
+                mintable,
+                burnable,
+                pausable,
+                supplyTracked,
+                msg.sender,
+                royalties
+            );
         
+        _registerMultiToken(address(multiTokenContract), name, uri, mintable, burnable, pausable, supplyTracked);
+        return address(multiTokenContract);
+    }
+    
+    function _validateMultiToken(string memory name, string memory uri) internal pure {
+        require(bytes(name).length > 0, "Name cannot be empty");
+        require(bytes(uri).length > 0, "URI cannot be empty");
+    }
+    
+    function _registerMultiToken(
+        address contractAddress,
+        string memory name,
+        string memory uri,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        bool supplyTracked
+    ) internal {
         // Track the created contract
         createdContracts.push(contractAddress);
         contractCreators[contractAddress] = msg.sender;
+        creatorContracts[msg.sender].push(contractAddress);
         
         // Store contract info
         multiTokens[contractAddress] = MultiToken({
@@ -102,17 +265,24 @@ contract ERC1155Factory is Ownable {
             pausable,
             supplyTracked
         );
-        
-        return contractAddress;
     }
     
     /**
-     * @dev Get all created contracts
+     * @dev Get all created contracts. Prefer getContractsPage, as the full list grows without bound.
      */
     function getAllContracts() external view returns (address[] memory) {
         return createdContracts;
     }
     
+    /**
+     * @dev Get a page of created contracts, in creation order
+     * @param offset Index of the first contract to return
+     * @param limit Maximum number of contracts to return
+     */
+    function getContractsPage(uint256 offset, uint256 limit) external view returns (address[] memory) {
+        return _page(createdContracts, offset, limit);
+    }
+    
     /**
      * @dev Get contract count
      */
@@ -124,31 +294,36 @@ contract ERC1155Factory is Ownable {
      * @dev Get contracts created by a specific address
      */
     function getContractsByCreator(address creator) external view returns (address[] memory) {
-        uint256 count = 0;
-        for (uint256 i = 0; i < createdContracts.length; i++) {
-            if (contractCreators[createdContracts[i]] == creator) {
-                count++;
-            }
-        }
-        
-        address[] memory creatorContracts = new address[](count);
-        uint256 index = 0;
-        for (uint256 i = 0; i < createdContracts.length; i++) {
-            if (contractCreators[createdContracts[i]] == creator) {
-                creatorContracts[index] = createdContracts[i];
-                index++;
-            }
-        }
-        
-        return creatorContracts;
+        return creatorContracts[creator];
+    }
+    
+    /**
+     * @dev Get a page of the contracts created by a specific address, in creation order
+     * @param offset Index of the first contract to return
+     * @param limit Maximum number of contracts to return
+     */
+    function getContractsByCreatorPage(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory) {
+        return _page(creatorContracts[creator], offset, limit);
+    }
+    
+    /**
+     * @dev Get the number of contracts created by a specific address
+     */
+    function getContractCountByCreator(address creator) external view returns (uint256) {
+        return creatorContracts[creator].length;
     }
 }
 
 /**
  * @title CustomERC1155
- * @dev Simple customizable ERC1155 multi-token contract deployed by the factory
+ * @dev Simple customizable ERC1155 multi-token contract deployed by the factory, either directly or as a
+ * clone set up through initialize
  */
-contract CustomERC1155 is ERC1155, Ownable {
+contract CustomERC1155 is ERC1155, NFTRoyalties, Initializable {
     
     string private _name;
     bool private _mintable;
@@ -167,8 +342,40 @@ contract CustomERC1155 is ERC1155, Ownable {
         bool burnable_,
         bool pausable_,
         bool supplyTracked_,
-        address creator
+        address creator,
+        RoyaltyConfig memory royalties
     ) ERC1155(uri_) Ownable(creator) {
+        _initializeMultiToken(name_, mintable_, burnable_, pausable_, supplyTracked_);
+        _initializeRoyalties(royalties);
+        _disableInitializers();
+    }
+    
+    /**
+     * @dev Set up a clone of this contract, in place of the constructor
+     */
+    function initialize(
+        string memory name_,
+        string memory uri_,
+        bool mintable_,
+        bool burnable_,
+        bool pausable_,
+        bool supplyTracked_,
+        address creator,
+        RoyaltyConfig memory royalties
+    ) external initializer {
+        _transferOwnership(creator);
+        _setURI(uri_);
+        _initializeMultiToken(name_, mintable_, burnable_, pausable_, supplyTracked_);
+        _initializeRoyalties(royalties);
+    }
+    
+    function _initializeMultiToken(
+        string memory name_,
+        bool mintable_,
+        bool burnable_,
+        bool pausable_,
+        bool supplyTracked_
+    ) private {
         _name = name_;
         _mintable = mintable_;
         _burnable = burnable_;
@@ -187,7 +394,6 @@ contract CustomERC1155 is ERC1155, Ownable {
         bytes memory data
     ) external onlyOwner {
         require(_mintable, "Minting is disabled");
-        require(!_paused, "Contract is paused");
         if (_supplyTracked) {
             _totalSupply[id] += amount;
         }
@@ -204,7 +410,6 @@ contract CustomERC1155 is ERC1155, Ownable {
         bytes memory data
     ) external onlyOwner {
         require(_mintable, "Minting is disabled");
-        require(!_paused, "Contract is paused");
         require(ids.length == amounts.length, "Arrays length mismatch");
         
         if (_supplyTracked) {
@@ -253,6 +458,23 @@ contract CustomERC1155 is ERC1155, Ownable {
         _burnBatch(from, ids, amounts);
     }
     
+    /**
+     * @dev Block mints, transfers and burns while the contract is paused
+     */
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override {
+        require(!_paused, "Contract is paused");
+        super._update(from, to, ids, values);
+    }
+    
+    function supportsInterface(bytes4 interfaceId) public view override(ERC1155, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+    
     /**
      * @dev Pause the contract (only if pausable)
      */
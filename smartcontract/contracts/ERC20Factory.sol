@@ -2,71 +2,272 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "./TokenFactoryBase.sol";
+
+/**
+ * @dev Optional features of a factory-created ERC20Token, fixed at deployment
+ * @param cap Maximum total supply in base units (0 for uncapped)
+ * @param pausable Whether the owner can pause transfers, mints and burns
+ * @param permit Whether EIP-2612 permit approvals are accepted
+ * @param votes Whether ERC20Votes checkpoints are tracked for delegation
+ * @param blocklist Whether the owner can block addresses from sending and receiving
+ * @param transferTaxBps Tax taken from each transfer in basis points (0 for none)
+ * @param taxRecipient Address receiving the transfer tax
+ */
+struct TokenConfig {
+    uint256 cap;
+    bool pausable;
+    bool permit;
+    bool votes;
+    bool blocklist;
+    uint16 transferTaxBps;
+    address taxRecipient;
+}
+
+/**
+ * @dev Denomination of the initialSupply passed to ERC20Factory: whole tokens are scaled by
+ * 10 ** decimals, base units are minted as given
+ */
+enum SupplyUnit {
+    WholeTokens,
+    BaseUnits
+}
 
 /**
  * @title ERC20Factory
  * @dev A factory contract for creating ERC20 tokens with basic configuration
  * Perfect for DeFi developers who need quick token deployment
  */
-contract ERC20Factory is Ownable {
+contract ERC20Factory is Ownable, TokenFactoryBase {
+    // ERC20Token that createTokenClone clones, deployed with the factory
+    address public immutable tokenImplementation;
+
     // Array to track all created tokens
     address[] public createdTokens;
 
     // Mapping to track token creators
     mapping(address => address) public tokenCreators;
 
+    // Tokens of each creator, in creation order
+    mapping(address => address[]) private creatorTokens;
+
+    // Mapping to store the feature configuration of each token
+    mapping(address => TokenConfig) public tokenConfigs;
+
     // Events
     event TokenCreated(
         address indexed tokenAddress,
         string name,
         string symbol,
-        uint256 initialSupply,
+        uint256 initialSupply, // in base units
         uint8 decimals,
         address indexed creator
     );
 
-    constructor() Ownable(msg.sender) {}
+    constructor() Ownable(msg.sender) {
+        TokenConfig memory config;
+        tokenImplementation = address(new ERC20Token("ERC20Token", "ERC20", 0, 18, address(this), config));
+    }
 
     /**
-     * @dev Create a new ERC20 token
+     * @dev Create a new ERC20 token without optional features
      * @param name Token name
      * @param symbol Token symbol
-     * @param initialSupply Initial token supply
+     * @param initialSupply Initial token supply, denominated in unit
      * @param decimals Token decimals (usually 18)
+     * @param unit Whether initialSupply is in whole tokens or base units
      */
     function createToken(
         string memory name,
         string memory symbol,
         uint256 initialSupply,
-        uint8 decimals
+        uint8 decimals,
+        SupplyUnit unit
+    ) external returns (address) {
+        TokenConfig memory config;
+        return _createToken(name, symbol, initialSupply, decimals, unit, config, bytes32(0));
+    }
+
+    /**
+     * @dev Create a new ERC20 token with a set of optional features
+     * @param name Token name
+     * @param symbol Token symbol
+     * @param initialSupply Initial token supply, denominated in unit
+     * @param decimals Token decimals (usually 18)
+     * @param unit Whether initialSupply is in whole tokens or base units
+     * @param config Optional features, see TokenConfig
+     */
+    function createConfiguredToken(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 decimals,
+        SupplyUnit unit,
+        TokenConfig memory config
+    ) external returns (address) {
+        return _createToken(name, symbol, initialSupply, decimals, unit, config, bytes32(0));
+    }
+
+    /**
+     * @dev Create a new ERC20 token with CREATE2, at the address returned by predictAddress
+     * @param name Token name
+     * @param symbol Token symbol
+     * @param initialSupply Initial token supply, denominated in unit
+     * @param decimals Token decimals (usually 18)
+     * @param unit Whether initialSupply is in whole tokens or base units
+     * @param config Optional features, see TokenConfig
+     * @param salt Non-zero salt chosen by the creator
+     */
+    function createTokenDeterministic(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 decimals,
+        SupplyUnit unit,
+        TokenConfig memory config,
+        bytes32 salt
+    ) external returns (address) {
+        require(salt != bytes32(0), "Salt cannot be zero");
+        return _createToken(name, symbol, initialSupply, decimals, unit, config, salt);
+    }
+
+    /**
+     * @dev Create a new ERC20 token as an EIP-1167 minimal proxy of tokenImplementation. Much cheaper to
+     * deploy than createConfiguredToken, at the cost of a delegatecall and storage-held config on every call.
+     * @param name Token name
+     * @param symbol Token symbol
+     * @param initialSupply Initial token supply, denominated in unit
+     * @param decimals Token decimals (usually 18)
+     * @param unit Whether initialSupply is in whole tokens or base units
+     * @param config Optional features, see TokenConfig
+     */
+    function createTokenClone(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 decimals,
+        SupplyUnit unit,
+        TokenConfig memory config
     ) external returns (address) {
+        _validateToken(name, symbol, decimals);
+
+        uint256 baseUnits = _toBaseUnits(initialSupply, decimals, unit);
+        address tokenAddress = Clones.clone(tokenImplementation);
+        ERC20Token(tokenAddress).initialize(name, symbol, baseUnits, decimals, msg.sender, config);
+
+        _registerToken(tokenAddress, name, symbol, baseUnits, decimals, config);
+        return tokenAddress;
+    }
+
+    /**
+     * @dev Predict the address of a token created with createTokenDeterministic
+     * @param creator Address that will call createTokenDeterministic
+     * @param salt Salt that will be passed to createTokenDeterministic
+     */
+    function predictAddress(
+        address creator,
+        bytes32 salt,
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 decimals,
+        SupplyUnit unit,
+        TokenConfig memory config
+    ) external view returns (address) {
+        bytes memory constructorArgs = abi.encode(
+            name,
+            symbol,
+            _toBaseUnits(initialSupply, decimals, unit),
+            decimals,
+            creator,
+            config
+        );
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(ERC20Token).creationCode, constructorArgs));
+        return Create2.computeAddress(creatorSalt(creator, salt), initCodeHash);
+    }
+
+    /**
+     * @dev Get the feature configuration of a created token
+     * @param tokenAddress Address of the token
+     */
+    function getTokenConfig(address tokenAddress) external view returns (TokenConfig memory) {
+        return tokenConfigs[tokenAddress];
+    }
+
+    function _createToken(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        uint8 decimals,
+        SupplyUnit unit,
+        TokenConfig memory config,
+        bytes32 salt
+    ) internal returns (address) {
+        _validateToken(name, symbol, decimals);
+
+        uint256 baseUnits = _toBaseUnits(initialSupply, decimals, unit);
+
+        // Create new token contract, with CREATE2 when a salt is given
+        ERC20Token newToken = salt == bytes32(0)
+            ? new ERC20Token(name, symbol, baseUnits, decimals, msg.sender, config)
+            : new ERC20Token{salt: creatorSalt(msg.sender, salt)}(name, symbol, baseUnits, decimals, msg.sender, config);
+
+        _registerToken(address(newToken), name, symbol, baseUnits, decimals, config);
+        return address(newToken);
+    }
+
+    function _validateToken(string memory name, string memory symbol, uint8 decimals) internal pure {
         require(bytes(name).length > 0, "Name cannot be empty");
         require(bytes(symbol).length > 0, "Symbol cannot be empty");
         require(decimals <= 18, "Decimals cannot exceed 18");
+    }
 
-        // Create new token contract
-        ERC20Token newToken = new ERC20Token(name, symbol, initialSupply, decimals, msg.sender);
-
-        address tokenAddress = address(newToken);
-
+    function _registerToken(
+        address tokenAddress,
+        string memory name,
+        string memory symbol,
+        uint256 baseUnits,
+        uint8 decimals,
+        TokenConfig memory config
+    ) internal {
         // Track the created token
         createdTokens.push(tokenAddress);
         tokenCreators[tokenAddress] = msg.sender;
+        creatorTokens[msg.sender].push(tokenAddress);
+        tokenConfigs[tokenAddress] = config;
 
-        emit TokenCreated(tokenAddress, name, symbol, initialSupply, decimals, msg.sender);
+        emit TokenCreated(tokenAddress, name, symbol, baseUnits, decimals, msg.sender);
+    }
 
-        return tokenAddress;
+    function _toBaseUnits(uint256 initialSupply, uint8 decimals, SupplyUnit unit) internal pure returns (uint256) {
+        return unit == SupplyUnit.WholeTokens ? initialSupply * 10 ** decimals : initialSupply;
     }
 
     /**
-     * @dev Get all created tokens
+     * @dev Get all created tokens. Prefer getTokensPage, as the full list grows without bound.
      * @return Array of token addresses
      */
     function getAllTokens() external view returns (address[] memory) {
         return createdTokens;
     }
 
+    /**
+     * @dev Get a page of created tokens, in creation order
+     * @param offset Index of the first token to return
+     * @param limit Maximum number of tokens to return
+     * @return Array of at most limit token addresses, empty when offset is past the end
+     */
+    function getTokensPage(uint256 offset, uint256 limit) external view returns (address[] memory) {
+        return _page(createdTokens, offset, limit);
+    }
+
     /**
      * @dev Get token count
      * @return Number of created tokens
@@ -81,42 +282,141 @@ contract ERC20Factory is Ownable {
      * @return Array of token addresses created by the specified address
      */
     function getTokensByCreator(address creator) external view returns (address[] memory) {
-        uint256 count = 0;
-        for (uint256 i = 0; i < createdTokens.length; i++) {
-            if (tokenCreators[createdTokens[i]] == creator) {
-                count++;
-            }
-        }
+        return creatorTokens[creator];
+    }
 
-        address[] memory creatorTokens = new address[](count);
-        uint256 index = 0;
-        for (uint256 i = 0; i < createdTokens.length; i++) {
-            if (tokenCreators[createdTokens[i]] == creator) {
-                creatorTokens[index] = createdTokens[i];
-                index++;
-            }
-        }
+    /**
+     * @dev Get a page of the tokens created by a specific address, in creation order
+     * @param creator Address of the token creator
+     * @param offset Index of the first token to return
+     * @param limit Maximum number of tokens to return
+     * @return Array of at most limit token addresses, empty when offset is past the end
+     */
+    function getTokensByCreatorPage(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory) {
+        return _page(creatorTokens[creator], offset, limit);
+    }
 
-        return creatorTokens;
+    /**
+     * @dev Get the number of tokens created by a specific address
+     * @param creator Address of the token creator
+     */
+    function getTokenCountByCreator(address creator) external view returns (uint256) {
+        return creatorTokens[creator].length;
     }
 }
 
 /**
  * @title ERC20Token
- * @dev Standard ERC20 token implementation
+ * @dev ERC20 token with owner-only mint, public burn and the optional features of its TokenConfig.
+ * Permit and votes are always inherited but rejected or skipped when disabled, so transfers of a token
+ * without votes do not pay for checkpoints.
+ *
+ * Deployed directly, the config is kept in immutables. Clones set up through initialize keep it in
+ * storage instead, and sign permits and delegations with the implementation's EIP-712 domain name
+ * (see eip712Domain) while name() returns their own.
  */
-contract ERC20Token is ERC20, Ownable {
+contract ERC20Token is ERC20, ERC20Permit, ERC20Votes, Pausable, Ownable, Initializable {
+    uint16 public constant MAX_TRANSFER_TAX_BPS = 1000;
+
+    // Address of the directly deployed contract, which clones delegate to
+    address private immutable _self = address(this);
+
+    string private _tokenName;
+    string private _tokenSymbol;
     uint8 private _decimals;
+    TokenConfig private _cloneConfig;
+    uint256 private immutable _cap;
+    bool private immutable _pausable;
+    bool private immutable _permit;
+    bool private immutable _votes;
+    bool private immutable _blocklist;
+    uint16 private immutable _transferTaxBps;
+    address private immutable _taxRecipient;
+
+    // Addresses that can neither send nor receive while the blocklist is enabled
+    mapping(address => bool) public isBlocked;
+
+    event BlockedStatusChanged(address indexed account, bool blocked);
 
+    /**
+     * @param initialSupply Initial supply in base units, minted to the owner
+     */
     constructor(
-        string memory name,
-        string memory symbol,
+        string memory name_,
+        string memory symbol_,
+        uint256 initialSupply,
+        uint8 decimals_,
+        address initialOwner,
+        TokenConfig memory config
+    ) ERC20("", "") ERC20Permit(name_) Ownable(initialOwner) {
+        _validateConfig(config);
+
+        _cap = config.cap;
+        _pausable = config.pausable;
+        _permit = config.permit;
+        _votes = config.votes;
+        _blocklist = config.blocklist;
+        _transferTaxBps = config.transferTaxBps;
+        _taxRecipient = config.taxRecipient;
+
+        _initializeToken(name_, symbol_, initialSupply, decimals_, initialOwner);
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Set up a clone of this contract, in place of the constructor
+     * @param initialSupply Initial supply in base units, minted to the owner
+     */
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        uint256 initialSupply,
+        uint8 decimals_,
+        address initialOwner,
+        TokenConfig memory config
+    ) external initializer {
+        _validateConfig(config);
+        _cloneConfig = config;
+
+        _transferOwnership(initialOwner);
+        _initializeToken(name_, symbol_, initialSupply, decimals_, initialOwner);
+    }
+
+    function _validateConfig(TokenConfig memory config) private pure {
+        require(config.transferTaxBps <= MAX_TRANSFER_TAX_BPS, "Transfer tax too high");
+        require(config.transferTaxBps == 0 || config.taxRecipient != address(0), "Tax recipient required");
+    }
+
+    function _initializeToken(
+        string memory name_,
+        string memory symbol_,
         uint256 initialSupply,
         uint8 decimals_,
         address initialOwner
-    ) ERC20(name, symbol) Ownable(initialOwner) {
+    ) private {
+        _tokenName = name_;
+        _tokenSymbol = symbol_;
         _decimals = decimals_;
-        _mint(initialOwner, initialSupply * 10 ** decimals_);
+
+        _mint(initialOwner, initialSupply);
+    }
+
+    /**
+     * @dev Returns the name of the token
+     */
+    function name() public view override returns (string memory) {
+        return _tokenName;
+    }
+
+    /**
+     * @dev Returns the symbol of the token
+     */
+    function symbol() public view override returns (string memory) {
+        return _tokenSymbol;
     }
 
     /**
@@ -126,6 +426,36 @@ contract ERC20Token is ERC20, Ownable {
         return _decimals;
     }
 
+    /**
+     * @dev Get the feature configuration the token was deployed with
+     */
+    function getConfig() external view returns (TokenConfig memory) {
+        return _config();
+    }
+
+    // Clones run the implementation's code, so they cannot use its immutables
+    function _config() private view returns (TokenConfig memory) {
+        if (address(this) != _self) {
+            return _cloneConfig;
+        }
+        return TokenConfig({
+            cap: _cap,
+            pausable: _pausable,
+            permit: _permit,
+            votes: _votes,
+            blocklist: _blocklist,
+            transferTaxBps: _transferTaxBps,
+            taxRecipient: _taxRecipient
+        });
+    }
+
+    /**
+     * @dev Get the maximum total supply (0 for uncapped)
+     */
+    function cap() external view returns (uint256) {
+        return _config().cap;
+    }
+
     /**
      * @dev Mint new tokens (only owner)
      * @param to Address to mint tokens to
@@ -142,4 +472,97 @@ contract ERC20Token is ERC20, Ownable {
     function burn(uint256 amount) external {
         _burn(msg.sender, amount);
     }
+
+    /**
+     * @dev Pause transfers, mints and burns (only if pausable)
+     */
+    function pause() external onlyOwner {
+        require(_config().pausable, "Pausing is disabled");
+        _pause();
+    }
+
+    /**
+     * @dev Unpause the token
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    /**
+     * @dev Block or unblock an address (only if the blocklist is enabled)
+     * @param account Address to update
+     * @param blocked Whether the address is blocked
+     */
+    function setBlocked(address account, bool blocked) external onlyOwner {
+        require(_config().blocklist, "Blocklist is disabled");
+        isBlocked[account] = blocked;
+        emit BlockedStatusChanged(account, blocked);
+    }
+
+    /**
+     * @dev EIP-2612 approval by signature (only if permit is enabled)
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public override {
+        require(_config().permit, "Permit is disabled");
+        super.permit(owner, spender, value, deadline, v, r, s);
+    }
+
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+
+    /**
+     * @dev Apply the enabled features to every balance change, taking the transfer tax out of the
+     * transferred amount. Mints and burns are not taxed, and neither is anything sent to or from the
+     * tax recipient.
+     */
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
+        TokenConfig memory config = _config();
+
+        if (config.pausable) {
+            _requireNotPaused();
+        }
+        if (config.blocklist) {
+            require(!isBlocked[from] && !isBlocked[to], "Address is blocked");
+        }
+        if (from == address(0) && config.cap != 0) {
+            require(totalSupply() + value <= config.cap, "Cap exceeded");
+        }
+
+        if (
+            config.transferTaxBps != 0 &&
+            from != address(0) &&
+            to != address(0) &&
+            from != config.taxRecipient &&
+            to != config.taxRecipient
+        ) {
+            uint256 tax = (value * config.transferTaxBps) / 10000;
+            _moveBalance(from, config.taxRecipient, tax, config.votes);
+            value -= tax;
+        }
+
+        _moveBalance(from, to, value, config.votes);
+    }
+
+    // Only tokens with votes enabled pay for ERC20Votes checkpoints
+    function _moveBalance(address from, address to, uint256 value, bool votes) private {
+        if (votes) {
+            super._update(from, to, value);
+        } else {
+            ERC20._update(from, to, value);
+        }
+    }
+
+    function _delegate(address account, address delegatee) internal override {
+        require(_config().votes, "Votes are disabled");
+        super._delegate(account, delegatee);
+    }
 }
@@ -3,12 +3,22 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "./NFTRoyalties.sol";
+import "./TokenFactoryBase.sol";
 
 /**
  * @title ERC721Factory
  * @dev Factory contract for deploying customizable ERC721 NFT collections
  */
-contract ERC721Factory is Ownable {
+contract ERC721Factory is Ownable, TokenFactoryBase {
+    
+    // CustomERC721 that createCollectionClone clones, deployed with the factory
+    address public immutable collectionImplementation;
     
     // Array to track all created collections
     address[] public createdCollections;
@@ -16,6 +26,9 @@ contract ERC721Factory is Ownable {
     // Mapping to track collection creators
     mapping(address => address) public collectionCreators;
     
+    // Collections of each creator, in creation order
+    mapping(address => address[]) private creatorCollections;
+    
     // Mapping to store collection info
     mapping(address => Collection) public collections;
     
@@ -30,6 +43,19 @@ contract ERC721Factory is Ownable {
         uint256 createdAt;
     }
     
+    // Constructor arguments of CustomERC721, grouped so predictAddress and _createCollection stay within the stack limit
+    struct CollectionArgs {
+        string name;
+        string symbol;
+        string baseURI;
+        uint256 maxSupply;
+        bool mintable;
+        bool burnable;
+        bool pausable;
+        address creator;
+        RoyaltyConfig royalties;
+    }
+    
     event CollectionCreated(
         address indexed contractAddress,
         string name,
@@ -41,7 +67,12 @@ contract ERC721Factory is Ownable {
         bool pausable
     );
     
-    constructor() Ownable(msg.sender) {}
+    constructor() Ownable(msg.sender) {
+        RoyaltyConfig memory royalties;
+        collectionImplementation = address(
+            new CustomERC721("", "", "", 0, false, false, false, address(this), royalties)
+        );
+    }
     
     /**
      * @dev Create a new ERC721 NFT collection
@@ -62,11 +93,73 @@ contract ERC721Factory is Ownable {
         bool burnable,
         bool pausable
     ) external returns (address) {
-        require(bytes(name).length > 0, "Name cannot be empty");
-        require(bytes(symbol).length > 0, "Symbol cannot be empty");
+        RoyaltyConfig memory royalties;
+        return _createCollection(
+            CollectionArgs(name, symbol, baseURI, maxSupplyAmount, mintable, burnable, pausable, msg.sender, royalties),
+            bytes32(0)
+        );
+    }
+    
+    /**
+     * @dev Create a new ERC721 NFT collection paying ERC-2981 royalties
+     * @param royalties Default and per-token royalties, which the owner can change later
+     */
+    function createCollectionWithRoyalties(
+        string memory name,
+        string memory symbol,
+        string memory baseURI,
+        uint256 maxSupplyAmount,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        RoyaltyConfig memory royalties
+    ) external returns (address) {
+        return _createCollection(
+            CollectionArgs(name, symbol, baseURI, maxSupplyAmount, mintable, burnable, pausable, msg.sender, royalties),
+            bytes32(0)
+        );
+    }
+    
+    /**
+     * @dev Create a new ERC721 NFT collection with CREATE2, at the address returned by predictAddress
+     * @param salt Non-zero salt chosen by the creator
+     */
+    function createCollectionDeterministic(
+        string memory name,
+        string memory symbol,
+        string memory baseURI,
+        uint256 maxSupplyAmount,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        RoyaltyConfig memory royalties,
+        bytes32 salt
+    ) external returns (address) {
+        require(salt != bytes32(0), "Salt cannot be zero");
+        return _createCollection(
+            CollectionArgs(name, symbol, baseURI, maxSupplyAmount, mintable, burnable, pausable, msg.sender, royalties),
+            salt
+        );
+    }
+    
+    /**
+     * @dev Create a new ERC721 NFT collection as an EIP-1167 minimal proxy of collectionImplementation.
+     * Much cheaper to deploy than createCollection, at the cost of a delegatecall on every call.
+     */
+    function createCollectionClone(
+        string memory name,
+        string memory symbol,
+        string memory baseURI,
+        uint256 maxSupplyAmount,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        RoyaltyConfig memory royalties
+    ) external returns (address) {
+        _validateCollection(name, symbol);
         
-        // Deploy the NFT contract
-        CustomERC721 nftContract = new CustomERC721(
+        address contractAddress = Clones.clone(collectionImplementation);
+        CustomERC721(contractAddress).initialize(
             name,
             symbol,
             baseURI,
@@ -74,14 +167,111 @@ contract ERC721Factory is Ownable {
             mintable,
             burnable,
             pausable,
-            msg.sender
+            msg.sender,
+            royalties
         );
         
-        address contractAddress = address(nftContract);
+        _registerCollection(contractAddress, name, symbol, maxSupplyAmount, mintable, burnable, pausable);
+        return contractAddress;
+    }
+    
+    /**
+     * @dev Predict the address of a collection created with createCollectionDeterministic
+     * @param creator Address that will call createCollectionDeterministic
+     * @param salt Salt that will be passed to createCollectionDeterministic
+     */
+    function predictAddress(
+        address creator,
+        bytes32 salt,
+        string memory name,
+        string memory symbol,
+        string memory baseURI,
+        uint256 maxSupplyAmount,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        RoyaltyConfig memory royalties
+    ) external view returns (address) {
+        CollectionArgs memory args = CollectionArgs(
+            name,
+            symbol,
+            baseURI,
+            maxSupplyAmount,
+            mintable,
+            burnable,
+            pausable,
+            creator,
+            royalties
+        );
+        bytes memory constructorArgs = abi.encode(args);
+        // Encoding a struct with dynamic members prepends its offset; drop that word to get the constructor arguments
+        assembly {
+            let length := mload(constructorArgs)
+            constructorArgs := add(constructorArgs, 0x20)
+            mstore(constructorArgs, sub(length, 0x20))
+        }
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(CustomERC721).creationCode, constructorArgs));
+        return Create2.computeAddress(creatorSalt(creator, salt), initCodeHash);
+    }
+    
+    function _createCollection(CollectionArgs memory args, bytes32 salt) internal returns (address) {
+        _validateCollection(args.name, args.symbol);
         
+        // Deploy the NFT contract, with CREATE2 when a salt is given
+        CustomERC721 nftContract = salt == bytes32(0)
+            ? new CustomERC721(
+                args.name,
+                args.symbol,
+                args.baseURI,
+                args.maxSupply,
+                args.mintable,
+                args.burnable,
+                args.pausable,
+                args.creator,
+                args.royalties
+            )
+            : new CustomERC721{salt: creatorSalt(msg.sender, salt)}(
+                args.name,
+                args.symbol,
+                args.baseURI,
+                args.maxSupply,
+                args.mintable,
+                args.burnable,
+                args.pausable,
+                args.creator,
+                args.royalties
+            );
+        
+        _registerCollection(
+            address(nftContract),
+            args.name,
+            args.symbol,
+            args.maxSupply,
+            args.mintable,
+            args.burnable,
+            args.pausable
+        );
+        return address(nftContract);
+    }
+    
+    function _validateCollection(string memory name, string memory symbol) internal pure {
+        require(bytes(name).length > 0, "Name cannot be empty");
+        require(bytes(symbol).length > 0, "Symbol cannot be empty");
+    }
+    
+    function _registerCollection(
+        address contractAddress,
+        string memory name,
+        string memory symbol,
+        uint256 maxSupplyAmount,
+        bool mintable,
+        bool burnable,
+        bool pausable
+    ) internal {
         // Track the created collection
         createdCollections.push(contractAddress);
         collectionCreators[contractAddress] = msg.sender;
+        creatorCollections[msg.sender].push(contractAddress);
         
         // Store collection info
         collections[contractAddress] = Collection({
@@ -105,17 +295,24 @@ contract ERC721Factory is Ownable {
             burnable,
             pausable
         );
-        
-        return contractAddress;
     }
     
     /**
-     * @dev Get all created collections
+     * @dev Get all created collections. Prefer getCollectionsPage, as the full list grows without bound.
      */
     function getAllCollections() external view returns (address[] memory) {
         return createdCollections;
     }
     
+    /**
+     * @dev Get a page of created collections, in creation order
+     * @param offset Index of the first collection to return
+     * @param limit Maximum number of collections to return
+     */
+    function getCollectionsPage(uint256 offset, uint256 limit) external view returns (address[] memory) {
+        return _page(createdCollections, offset, limit);
+    }
+    
     /**
      * @dev Get collection count
      */
@@ -127,32 +324,58 @@ contract ERC721Factory is Ownable {
      * @dev Get collections created by a specific address
      */
     function getCollectionsByCreator(address creator) external view returns (address[] memory) {
-        uint256 count = 0;
-        for (uint256 i = 0; i < createdCollections.length; i++) {
-            if (collectionCreators[createdCollections[i]] == creator) {
-                count++;
-            }
-        }
-        
-        address[] memory creatorCollections = new address[](count);
-        uint256 index = 0;
-        for (uint256 i = 0; i < createdCollections.length; i++) {
-            if (collectionCreators[createdCollections[i]] == creator) {
-                creatorCollections[index] = createdCollections[i];
-                index++;
-            }
-        }
-        
-        return creatorCollections;
+        return creatorCollections[creator];
+    }
+    
+    /**
+     * @dev Get a page of the collections created by a specific address, in creation order
+     * @param offset Index of the first collection to return
+     * @param limit Maximum number of collections to return
+     */
+    function getCollectionsByCreatorPage(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory) {
+        return _page(creatorCollections[creator], offset, limit);
+    }
+    
+    /**
+     * @dev Get the number of collections created by a specific address
+     */
+    function getCollectionCountByCreator(address creator) external view returns (uint256) {
+        return creatorCollections[creator].length;
     }
 }
 
+// Sale phases a CustomERC721 can open to buyers alongside the owner's own mints
+enum SalePhase { Allowlist, Public }
+
+/**
+ * @dev Sale configuration of a CustomERC721 phase
+ * @param price Price of each token in wei
+ * @param maxPerWallet Tokens a wallet may mint in the phase (0 for no limit)
+ * @param startTime Opening time of the phase (0 while the phase is closed)
+ * @param endTime Closing time of the phase (0 for no end)
+ * @param merkleRoot Root of the allowlist, built from keccak256(abi.encodePacked(account)) leaves
+ */
+struct SaleConfig {
+    uint256 price;
+    uint256 maxPerWallet;
+    uint64 startTime;
+    uint64 endTime;
+    bytes32 merkleRoot;
+}
+
 /**
  * @title CustomERC721
- * @dev Simple customizable ERC721 NFT contract deployed by the factory
+ * @dev Simple customizable ERC721 NFT contract deployed by the factory, either directly or as a clone
+ * set up through initialize. Name and symbol live in this contract's storage so clones can set them.
  */
-contract CustomERC721 is ERC721, Ownable {
+contract CustomERC721 is ERC721, NFTRoyalties, Initializable {
     
+    string private _collectionName;
+    string private _collectionSymbol;
     string private _baseTokenURI;
     uint256 private _maxSupply;
     bool private _mintable;
@@ -164,16 +387,60 @@ contract CustomERC721 is ERC721, Ownable {
     // Mapping for token URIs
     mapping(uint256 => string) private _tokenURIs;
     
+    // Sale configuration of each phase and the tokens each wallet minted in it
+    mapping(SalePhase => SaleConfig) private _saleConfigs;
+    mapping(SalePhase => mapping(address => uint256)) private _mintedInPhase;
+    
+    event SaleConfigured(SalePhase indexed phase, SaleConfig config);
+    event SaleMinted(SalePhase indexed phase, address indexed buyer, uint256 quantity, uint256 paid);
+    event ProceedsWithdrawn(address indexed to, uint256 amount);
+    
     constructor(
-        string memory name,
-        string memory symbol,
+        string memory name_,
+        string memory symbol_,
         string memory baseURI,
         uint256 maxSupply,
         bool mintable,
         bool burnable,
         bool pausable,
-        address creator
-    ) ERC721(name, symbol) Ownable(creator) {
+        address creator,
+        RoyaltyConfig memory royalties
+    ) ERC721("", "") Ownable(creator) {
+        _initializeCollection(name_, symbol_, baseURI, maxSupply, mintable, burnable, pausable);
+        _initializeRoyalties(royalties);
+        _disableInitializers();
+    }
+    
+    /**
+     * @dev Set up a clone of this contract, in place of the constructor
+     */
+    function initialize(
+        string memory name_,
+        string memory symbol_,
+        string memory baseURI,
+        uint256 maxSupply,
+        bool mintable,
+        bool burnable,
+        bool pausable,
+        address creator,
+        RoyaltyConfig memory royalties
+    ) external initializer {
+        _transferOwnership(creator);
+        _initializeCollection(name_, symbol_, baseURI, maxSupply, mintable, burnable, pausable);
+        _initializeRoyalties(royalties);
+    }
+    
+    function _initializeCollection(
+        string memory name_,
+        string memory symbol_,
+        string memory baseURI,
+        uint256 maxSupply,
+        bool mintable,
+        bool burnable,
+        bool pausable
+    ) private {
+        _collectionName = name_;
+        _collectionSymbol = symbol_;
         _baseTokenURI = baseURI;
         _maxSupply = maxSupply;
         _mintable = mintable;
@@ -183,6 +450,20 @@ contract CustomERC721 is ERC721, Ownable {
         _paused = false;
     }
     
+    /**
+     * @dev Get the collection name
+     */
+    function name() public view override returns (string memory) {
+        return _collectionName;
+    }
+    
+    /**
+     * @dev Get the collection symbol
+     */
+    function symbol() public view override returns (string memory) {
+        return _collectionSymbol;
+    }
+    
     /**
      * @dev Set token URI for a specific token
      */
@@ -228,7 +509,6 @@ contract CustomERC721 is ERC721, Ownable {
      */
     function mint(address to, string memory uri) external onlyOwner {
         require(_mintable, "Minting is disabled");
-        require(!_paused, "Contract is paused");
         require(_maxSupply == 0 || _tokenCounter < _maxSupply, "Max supply reached");
         
         _tokenCounter++;
@@ -246,7 +526,6 @@ contract CustomERC721 is ERC721, Ownable {
         string[] memory uris
     ) external onlyOwner {
         require(_mintable, "Minting is disabled");
-        require(!_paused, "Contract is paused");
         require(to.length == uris.length, "Arrays length mismatch");
         require(_maxSupply == 0 || _tokenCounter + to.length <= _maxSupply, "Max supply would be exceeded");
         
@@ -259,6 +538,95 @@ contract CustomERC721 is ERC721, Ownable {
         }
     }
     
+    /**
+     * @dev Configure a sale phase. A start time of zero closes the phase; the allowlist phase needs a Merkle root.
+     */
+    function setSaleConfig(SalePhase phase, SaleConfig calldata config) external onlyOwner {
+        require(config.endTime == 0 || config.endTime > config.startTime, "End time must be after start time");
+        require(
+            phase != SalePhase.Allowlist || config.startTime == 0 || config.merkleRoot != bytes32(0),
+            "Allowlist needs a Merkle root"
+        );
+        _saleConfigs[phase] = config;
+        emit SaleConfigured(phase, config);
+    }
+    
+    /**
+     * @dev Get the sale configuration of a phase
+     */
+    function getSaleConfig(SalePhase phase) external view returns (SaleConfig memory) {
+        return _saleConfigs[phase];
+    }
+    
+    /**
+     * @dev Get the number of tokens an account minted in a sale phase
+     */
+    function mintedInPhase(SalePhase phase, address account) external view returns (uint256) {
+        return _mintedInPhase[phase][account];
+    }
+    
+    /**
+     * @dev Check if a sale phase is open
+     */
+    function isSaleActive(SalePhase phase) public view returns (bool) {
+        SaleConfig storage config = _saleConfigs[phase];
+        return config.startTime != 0 && block.timestamp >= config.startTime
+            && (config.endTime == 0 || block.timestamp < config.endTime);
+    }
+    
+    /**
+     * @dev Buy tokens in the public sale
+     */
+    function publicMint(uint256 quantity) external payable {
+        _saleMint(SalePhase.Public, quantity);
+    }
+    
+    /**
+     * @dev Buy tokens in the allowlist sale, proving the caller's address is in the allowlist Merkle tree
+     */
+    function allowlistMint(uint256 quantity, bytes32[] calldata proof) external payable {
+        bytes32 leaf = keccak256(abi.encodePacked(msg.sender));
+        require(
+            MerkleProof.verifyCalldata(proof, _saleConfigs[SalePhase.Allowlist].merkleRoot, leaf),
+            "Not on the allowlist"
+        );
+        _saleMint(SalePhase.Allowlist, quantity);
+    }
+    
+    function _saleMint(SalePhase phase, uint256 quantity) private {
+        SaleConfig storage config = _saleConfigs[phase];
+        require(_mintable, "Minting is disabled");
+        require(isSaleActive(phase), "Sale is not active");
+        require(quantity > 0, "Quantity must be greater than 0");
+        
+        uint256 minted = _mintedInPhase[phase][msg.sender] + quantity;
+        require(config.maxPerWallet == 0 || minted <= config.maxPerWallet, "Wallet limit exceeded");
+        require(msg.value == config.price * quantity, "Incorrect payment");
+        require(_maxSupply == 0 || _tokenCounter + quantity <= _maxSupply, "Max supply would be exceeded");
+        
+        // Record the mint and reserve the token IDs first, as _safeMint calls into contract buyers
+        _mintedInPhase[phase][msg.sender] = minted;
+        uint256 firstTokenId = _tokenCounter + 1;
+        _tokenCounter += quantity;
+        
+        for (uint256 i = 0; i < quantity; i++) {
+            _safeMint(msg.sender, firstTokenId + i);
+        }
+        emit SaleMinted(phase, msg.sender, quantity, msg.value);
+    }
+    
+    /**
+     * @dev Send the sale proceeds to an address
+     */
+    function withdraw(address payable to) external onlyOwner {
+        require(to != address(0), "Invalid recipient");
+        uint256 balance = address(this).balance;
+        require(balance > 0, "Nothing to withdraw");
+        
+        Address.sendValue(to, balance);
+        emit ProceedsWithdrawn(to, balance);
+    }
+    
     /**
      * @dev Burn a token (only if burnable)
      */
@@ -268,6 +636,18 @@ contract CustomERC721 is ERC721, Ownable {
         _burn(tokenId);
     }
     
+    /**
+     * @dev Block mints, transfers and burns while the contract is paused
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        require(!_paused, "Contract is paused");
+        return super._update(to, tokenId, auth);
+    }
+    
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+    
     /**
      * @dev Pause the contract (only if pausable)
      */
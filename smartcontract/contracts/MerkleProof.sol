@@ -1,11 +1,14 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
 /**
  * @title MerkleProofX
  * @dev A decentralized contract for registering and verifying Merkle proofs (now optimized for kOS)
  */
-contract MerkleProofX {
+contract MerkleProofX is EIP712 {
     // Struct to store Merkle tree information
     struct MerkleTreeInfo {
         string description;
@@ -22,12 +25,18 @@ contract MerkleProofX {
     // Trusted verifier for off-chain signatures (kOS service)
     address public trustedVerifier;
 
+    // EIP-712 struct signed by the trusted verifier for each claimer
+    bytes32 public constant VERIFIED_CLAIM_TYPEHASH =
+        keccak256("VerifiedClaim(address claimer,uint256 nonce,uint256 deadline)");
+
     // Track user's first tree status
     mapping(address => bool) public isNewcomer;
 
     // Mapping to store Merkle roots and their information
     mapping(bytes32 => MerkleTreeInfo) public merkleTrees;
     mapping(address => bool) public isKosVerified;
+    // Next nonce a verifier signature must carry for each claimer
+    mapping(address => uint256) public nonces;
 
     // Events
     event MerkleTreeAdded(bytes32 indexed root, string description, uint256 listSize, address creator, uint256 feePaid);
@@ -37,8 +46,9 @@ contract MerkleProofX {
     event TreasuryUpdated(address newTreasury);
     event FeeCollected(address user, uint256 amount);
     event TrustedVerifierUpdated(address newVerifier);
+    event ClaimerVerified(address indexed claimer, address indexed verifier, uint256 nonce);
 
-    constructor(address _treasury) {
+    constructor(address _treasury) EIP712("MerkleProofX", "1") {
         require(_treasury != address(0), "Invalid treasury address");
         platformTreasury = _treasury;
         // Set deployer as newcomer
@@ -115,19 +125,29 @@ contract MerkleProofX {
     }
 
     /**
-     * @dev Verifies a kOS signed proof for a claimer
+     * @dev Verifies a kOS signed VerifiedClaim (EIP-712) for a claimer. The signature must carry the claimer's
+     * current nonce and an unexpired deadline; a valid one consumes the nonce so it cannot be replayed.
      */
-    function submitVerifiedProof(address _claimer, bytes memory _signature) external returns (bool) {
+    function submitVerifiedProof(
+        address _claimer,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external returns (bool) {
         require(trustedVerifier != address(0), "Trusted verifier not set");
+        require(block.timestamp <= _deadline, "Signature expired");
 
-        bytes32 messageHash = keccak256(abi.encodePacked(_claimer));
-        bytes32 ethSignedMessageHash = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", messageHash));
-
-        address recoveredSigner = recoverSigner(ethSignedMessageHash, _signature);
-        bool isValid = recoveredSigner == trustedVerifier;
+        uint256 nonce = nonces[_claimer];
+        bytes32 structHash = keccak256(abi.encode(VERIFIED_CLAIM_TYPEHASH, _claimer, nonce, _deadline));
+        (address recoveredSigner, ECDSA.RecoverError error, ) = ECDSA.tryRecover(
+            _hashTypedDataV4(structHash),
+            _signature
+        );
+        bool isValid = error == ECDSA.RecoverError.NoError && recoveredSigner == trustedVerifier;
 
         if (isValid) {
+            nonces[_claimer] = nonce + 1;
             isKosVerified[_claimer] = true;
+            emit ClaimerVerified(_claimer, recoveredSigner, nonce);
         }
 
         return isValid;
@@ -184,24 +204,4 @@ contract MerkleProofX {
     function isUserNewcomer(address _user) external view returns (bool) {
         return isNewcomer[_user];
     }
-
-    /**
-     * @dev Helper to recover signer address from signature
-     */
-    function recoverSigner(bytes32 _ethSignedMessageHash, bytes memory _signature) internal pure returns (address) {
-        (bytes32 r, bytes32 s, uint8 v) = splitSignature(_signature);
-        return ecrecover(_ethSignedMessageHash, v, r, s);
-    }
-
-    /**
-     * @dev Helper to split a signature into r, s, v components
-     */
-    function splitSignature(bytes memory sig) internal pure returns (bytes32 r, bytes32 s, uint8 v) {
-        require(sig.length == 65, "Invalid signature length");
-        assembly {
-            r := mload(add(sig, 32))
-            s := mload(add(sig, 64))
-            v := byte(0, mload(add(sig, 96)))
-        }
-    }
 }
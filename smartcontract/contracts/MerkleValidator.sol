@@ -3,6 +3,7 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
 
 /**
  * @title MerkleProofValidator
@@ -23,6 +24,7 @@ contract MerkleProofValidator is Ownable {
     // Events
     event MerkleRootRegistered(bytes32 indexed merkleRoot, string description, address creator);
     event ProofValidated(bytes32 indexed merkleRoot, address indexed user, bool isValid);
+    event MultiProofValidated(bytes32 indexed merkleRoot, address indexed user, uint256 leafCount, bool isValid);
 
     // Constructor to pass owner to Ownable
     constructor() Ownable(msg.sender) {
@@ -86,6 +88,50 @@ contract MerkleProofValidator is Ownable {
         return MerkleProof.verify(proof, merkleRoot, leaf);
     }
 
+    /**
+     * @dev Validate a batch of leaves against a Merkle tree with a single OpenZeppelin multiproof
+     * @param merkleRoot The root of the Merkle tree
+     * @param proof The sibling hashes needed to rebuild the root
+     * @param proofFlags For each hashing step, whether the second node comes from the batch (true) or the proof (false)
+     * @param leaves The leaves to verify, in the order the multiproof was generated for
+     * @return bool Whether every leaf is part of the tree
+     */
+    function validateMultiProof(
+        bytes32 merkleRoot,
+        bytes32[] calldata proof,
+        bool[] calldata proofFlags,
+        bytes32[] calldata leaves
+    ) external returns (bool) {
+        require(validationData[merkleRoot].isActive, "Merkle root not registered or inactive");
+        require(leaves.length > 0, "No leaves to validate");
+
+        bool isValid = MerkleProof.multiProofVerifyCalldata(proof, proofFlags, merkleRoot, leaves);
+
+        // Every leaf in the batch counts as one validation
+        validationData[merkleRoot].validationCount += leaves.length;
+
+        emit MultiProofValidated(merkleRoot, msg.sender, leaves.length, isValid);
+
+        return isValid;
+    }
+
+    /**
+     * @dev Validate a batch of leaves with a multiproof (view function)
+     * @param merkleRoot The root of the Merkle tree
+     * @param proof The sibling hashes needed to rebuild the root
+     * @param proofFlags For each hashing step, whether the second node comes from the batch (true) or the proof (false)
+     * @param leaves The leaves to verify
+     * @return bool Whether every leaf is part of the tree
+     */
+    function validateMultiProofView(
+        bytes32 merkleRoot,
+        bytes32[] calldata proof,
+        bool[] calldata proofFlags,
+        bytes32[] calldata leaves
+    ) external view returns (bool) {
+        return MerkleProof.multiProofVerifyCalldata(proof, proofFlags, merkleRoot, leaves);
+    }
+
     /**
      * @dev Helper function to create a leaf from an address
      * @param addr The address to create a leaf for
@@ -95,6 +141,55 @@ contract MerkleProofValidator is Ownable {
         return keccak256(abi.encodePacked(addr));
     }
 
+    /**
+     * @dev Helper function to create a leaf from the lowercase hex string of an address
+     * @param addr The address to create a leaf for
+     * @return The leaf (keccak256 hash of the "0x..." address string)
+     */
+    function getRawLeaf(address addr) external pure returns (bytes32) {
+        return keccak256(bytes(Strings.toHexString(addr)));
+    }
+
+    /**
+     * @dev Helper function to create an allowlist leaf from an address and an amount
+     * @param addr The address to create a leaf for
+     * @param amount The amount allocated to the address
+     * @return The leaf (keccak256 hash of the packed address and amount)
+     */
+    function getAllowlistLeaf(address addr, uint256 amount) external pure returns (bytes32) {
+        return keccak256(abi.encodePacked(addr, amount));
+    }
+
+    /**
+     * @dev Helper function to create an OpenZeppelin StandardMerkleTree leaf for an address
+     * @param addr The address to create a leaf for
+     * @return The leaf (double keccak256 hash of the ABI-encoded address)
+     */
+    function getStandardLeaf(address addr) external pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(addr))));
+    }
+
+    /**
+     * @dev Helper function to create an OpenZeppelin StandardMerkleTree leaf for an address and an amount
+     * @param addr The address to create a leaf for
+     * @param amount The amount allocated to the address
+     * @return The leaf (double keccak256 hash of the ABI-encoded address and amount)
+     */
+    function getStandardAllowlistLeaf(address addr, uint256 amount) external pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(addr, amount))));
+    }
+
+    /**
+     * @dev Helper function to create a MerkleDistributor airdrop claim leaf
+     * @param index The claim index of the recipient
+     * @param addr The recipient address
+     * @param amount The amount the recipient can claim
+     * @return The leaf (keccak256 hash of the packed index, address and amount)
+     */
+    function getClaimLeaf(uint256 index, address addr, uint256 amount) external pure returns (bytes32) {
+        return keccak256(abi.encodePacked(index, addr, amount));
+    }
+
     /**
      * @dev Set the active status of a Merkle root
      * @param merkleRoot The root of the Merkle tree
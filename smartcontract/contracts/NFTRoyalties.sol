@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @dev Royalty for a single token ID, overriding the default royalty
+ * @param tokenId Token ID the royalty applies to
+ * @param receiver Address receiving the royalty
+ * @param feeNumerator Royalty in basis points of the sale price
+ */
+struct TokenRoyalty {
+    uint256 tokenId;
+    address receiver;
+    uint96 feeNumerator;
+}
+
+/**
+ * @dev ERC-2981 royalties of a factory-created NFT contract, set at deployment
+ * @param receiver Address receiving the default royalty (zero for no default royalty)
+ * @param feeNumerator Default royalty in basis points of the sale price
+ * @param tokenRoyalties Royalties of individual token IDs, which may be set before they are minted
+ */
+struct RoyaltyConfig {
+    address receiver;
+    uint96 feeNumerator;
+    TokenRoyalty[] tokenRoyalties;
+}
+
+/**
+ * @title NFTRoyalties
+ * @dev ERC-2981 royalties shared by CustomERC721 and CustomERC1155, configured at deployment and
+ * adjustable by the owner afterwards
+ */
+abstract contract NFTRoyalties is Ownable, ERC2981 {
+
+    function _initializeRoyalties(RoyaltyConfig memory royalties) internal {
+        if (royalties.receiver != address(0)) {
+            _setDefaultRoyalty(royalties.receiver, royalties.feeNumerator);
+        }
+        for (uint256 i = 0; i < royalties.tokenRoyalties.length; i++) {
+            TokenRoyalty memory royalty = royalties.tokenRoyalties[i];
+            _setTokenRoyalty(royalty.tokenId, royalty.receiver, royalty.feeNumerator);
+        }
+    }
+
+    /**
+     * @dev Set the royalty of every token without its own royalty
+     */
+    function setDefaultRoyalty(address receiver, uint96 feeNumerator) external onlyOwner {
+        _setDefaultRoyalty(receiver, feeNumerator);
+    }
+
+    /**
+     * @dev Remove the default royalty
+     */
+    function deleteDefaultRoyalty() external onlyOwner {
+        _deleteDefaultRoyalty();
+    }
+
+    /**
+     * @dev Set the royalty of a single token ID
+     */
+    function setTokenRoyalty(uint256 tokenId, address receiver, uint96 feeNumerator) external onlyOwner {
+        _setTokenRoyalty(tokenId, receiver, feeNumerator);
+    }
+
+    /**
+     * @dev Return a token ID to the default royalty
+     */
+    function resetTokenRoyalty(uint256 tokenId) external onlyOwner {
+        _resetTokenRoyalty(tokenId);
+    }
+}
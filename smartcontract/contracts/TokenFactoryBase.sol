@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title TokenFactoryBase
+ * @dev Helpers shared by the token factories: CREATE2 salts bound to their creator and paging of the
+ * per-creator lists of created contracts
+ */
+abstract contract TokenFactoryBase {
+    /**
+     * @dev CREATE2 salt used for a creator's salt, so nobody else can deploy to a creator's predicted address
+     */
+    function creatorSalt(address creator, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(creator, salt));
+    }
+
+    // Slice of list starting at offset, empty when offset is past the end
+    function _page(address[] storage list, uint256 offset, uint256 limit) internal view returns (address[] memory) {
+        if (offset >= list.length) {
+            return new address[](0);
+        }
+        uint256 end = limit > list.length - offset ? list.length : offset + limit;
+
+        address[] memory page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = list[i];
+        }
+        return page;
+    }
+}
@@ -0,0 +1,333 @@
+/**
+ * Generates frontend/contracts/deployedContracts.ts from the Hardhat Ignition deployments.
+ *
+ * Every ignition/deployments/chain-<id>/deployed_addresses.json entry becomes a contract of that chain, with the ABI
+ * of its deployment artifact, the functions it inherits from base contracts and the block it was deployed in (from
+ * journal.jsonl). A deployment whose artifact or build info is missing aborts the run instead of silently dropping
+ * the contract.
+ *
+ * Usage: npx hardhat run scripts/generate-deployed-contracts.ts
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const DEPLOYMENTS_DIR = path.join(PROJECT_ROOT, "ignition", "deployments");
+const TARGET_FILE = path.join(PROJECT_ROOT, "..", "frontend", "contracts", "deployedContracts.ts");
+
+// Matches the frontend's prettier settings so the generated file is already formatted
+const PRINT_WIDTH = 120;
+const INDENT = "  ";
+
+interface AbiItem {
+  type: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+interface IgnitionArtifact {
+  contractName: string;
+  abi: AbiItem[];
+  buildInfoId: string;
+  inputSourceName: string;
+}
+
+interface BuildInfo {
+  userSourceNameMap: Record<string, string>;
+  input: { sources: Record<string, { content: string }> };
+}
+
+interface ParsedContract {
+  sourceName: string;
+  bases: string[];
+  // Functions and public state variables declared in the contract body
+  members: Set<string>;
+}
+
+interface DeployedContract {
+  address: string;
+  abi: AbiItem[];
+  inheritedFunctions: Record<string, string>;
+  deployedOnBlock?: number;
+}
+
+interface JournalEntry {
+  type: string;
+  futureId?: string;
+  receipt?: { blockNumber: number };
+}
+
+const readJson = <T>(file: string, description: string): T => {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing ${description}: ${path.relative(PROJECT_ROOT, file)}`);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T;
+};
+
+// Blank out comments and string literals so braces and keywords inside them are not parsed
+const stripCommentsAndStrings = (source: string): string => {
+  let result = "";
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+    if (char === "/" && next === "/") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (char === "/" && next === "*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 2;
+      result += " ";
+    } else if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) end += source[end] === "\\" ? 2 : 1;
+      result += '""';
+      i = end + 1;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+};
+
+// Split "A, B(arg), C" at top-level commas and keep the base contract names
+const parseBaseList = (list: string): string[] => {
+  const bases: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      bases.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  bases.push(current);
+
+  return bases
+    .map(base => base.split("(")[0].trim().split(".").pop() ?? "")
+    .filter(base => /^\w+$/.test(base));
+};
+
+const parseContracts = (sourceName: string, content: string, index: Map<string, ParsedContract>) => {
+  const source = stripCommentsAndStrings(content);
+  const header = /\b(?:abstract\s+)?(?:contract|interface|library)\s+(\w+)([^{;]*)\{/g;
+
+  for (let match = header.exec(source); match; match = header.exec(source)) {
+    const [, name, heritage] = match;
+
+    let depth = 1;
+    let end = header.lastIndex;
+    while (end < source.length && depth > 0) {
+      if (source[end] === "{") depth++;
+      if (source[end] === "}") depth--;
+      end++;
+    }
+    const body = source.slice(header.lastIndex, end - 1);
+    header.lastIndex = end;
+
+    const members = new Set<string>();
+    for (const [, member] of body.matchAll(/\bfunction\s+(\w+)\s*\(/g)) members.add(member);
+    for (const [, member] of body.matchAll(
+      /\bpublic\b(?:\s+(?:constant|immutable|override(?:\s*\([^)]*\))?))*\s+(\w+)\s*[=;]/g,
+    )) {
+      members.add(member);
+    }
+
+    const isList = heritage.match(/\bis\b([\s\S]*)$/);
+    if (!index.has(name)) {
+      index.set(name, { sourceName, bases: isList ? parseBaseList(isList[1]) : [], members });
+    }
+  }
+};
+
+// C3 linearization as solc computes it: the most derived contract first, right-most bases before left-most ones
+const linearize = (name: string, index: Map<string, ParsedContract>): string[] => {
+  const contract = index.get(name);
+  if (!contract || contract.bases.length === 0) return [name];
+
+  const sequences = [...contract.bases.map(base => linearize(base, index)).reverse(), [...contract.bases].reverse()];
+  const result = [name];
+  while (sequences.some(sequence => sequence.length > 0)) {
+    const candidate = sequences
+      .filter(sequence => sequence.length > 0)
+      .map(sequence => sequence[0])
+      .find(head => sequences.every(sequence => !sequence.slice(1).includes(head)));
+    if (!candidate) {
+      throw new Error(`Cannot linearize the inheritance graph of ${name}`);
+    }
+
+    result.push(candidate);
+    for (const sequence of sequences) {
+      if (sequence[0] === candidate) sequence.shift();
+    }
+  }
+  return result;
+};
+
+// "project/contracts/X.sol" -> "contracts/X.sol", "npm/@openzeppelin/contracts@5.4.0/a/B.sol" -> "@openzeppelin/contracts/a/B.sol"
+const toUserSourceName = (inputSourceName: string, buildInfo: BuildInfo): string => {
+  const userSourceName = Object.keys(buildInfo.userSourceNameMap).find(
+    name => buildInfo.userSourceNameMap[name] === inputSourceName,
+  );
+  if (userSourceName) return userSourceName;
+
+  const npmSource = inputSourceName.match(/^npm\/((?:@[^/]+\/)?[^@/]+)@[^/]+\/(.*)$/);
+  return npmSource ? `${npmSource[1]}/${npmSource[2]}` : inputSourceName;
+};
+
+// Map every ABI function the contract does not declare itself to the source of the base contract declaring it
+const getInheritedFunctions = (artifact: IgnitionArtifact, buildInfo: BuildInfo): Record<string, string> => {
+  const index = new Map<string, ParsedContract>();
+  // Parse the contract's own source first so its declarations win over same-named contracts elsewhere
+  const sourceNames = Object.keys(buildInfo.input.sources).sort(
+    (a, b) => Number(b === artifact.inputSourceName) - Number(a === artifact.inputSourceName),
+  );
+  for (const sourceName of sourceNames) {
+    parseContracts(sourceName, buildInfo.input.sources[sourceName].content, index);
+  }
+
+  const [, ...bases] = linearize(artifact.contractName, index);
+  const ownMembers = index.get(artifact.contractName)?.members ?? new Set<string>();
+  const inheritedFunctions: Record<string, string> = {};
+
+  for (const item of artifact.abi) {
+    if (item.type !== "function" || !item.name || ownMembers.has(item.name)) continue;
+
+    const declaringBase = bases.find(base => index.get(base)?.members.has(item.name!));
+    if (declaringBase) {
+      inheritedFunctions[item.name] = toUserSourceName(index.get(declaringBase)!.sourceName, buildInfo);
+    }
+  }
+
+  return Object.fromEntries(Object.entries(inheritedFunctions).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+// Block of each future's confirmed deployment transaction, as recorded in the ignition journal
+const getDeploymentBlocks = (chainDir: string): Map<string, number> => {
+  const journalFile = path.join(chainDir, "journal.jsonl");
+  const blocks = new Map<string, number>();
+  if (!fs.existsSync(journalFile)) {
+    return blocks;
+  }
+
+  for (const line of fs.readFileSync(journalFile, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    const entry = JSON.parse(line) as JournalEntry;
+    if (entry.type === "TRANSACTION_CONFIRM" && entry.futureId && entry.receipt && !blocks.has(entry.futureId)) {
+      blocks.set(entry.futureId, entry.receipt.blockNumber);
+    }
+  }
+  return blocks;
+};
+
+const getChainContracts = (chainDir: string): Record<string, DeployedContract> => {
+  const addresses = readJson<Record<string, string>>(
+    path.join(chainDir, "deployed_addresses.json"),
+    "deployed addresses",
+  );
+  const deploymentBlocks = getDeploymentBlocks(chainDir);
+  const contracts: Record<string, DeployedContract> = {};
+
+  for (const [futureId, address] of Object.entries(addresses)) {
+    const artifact = readJson<IgnitionArtifact>(
+      path.join(chainDir, "artifacts", `${futureId}.json`),
+      `artifact for ${futureId}`,
+    );
+    const buildInfo = readJson<BuildInfo>(
+      path.join(chainDir, "build-info", `${artifact.buildInfoId}.json`),
+      `build info for ${futureId}`,
+    );
+
+    if (contracts[artifact.contractName]) {
+      throw new Error(`${artifact.contractName} is deployed twice in ${path.basename(chainDir)} (${futureId})`);
+    }
+
+    contracts[artifact.contractName] = {
+      address,
+      abi: artifact.abi,
+      inheritedFunctions: getInheritedFunctions(artifact, buildInfo),
+      ...(deploymentBlocks.has(futureId) && { deployedOnBlock: deploymentBlocks.get(futureId) }),
+    };
+  }
+
+  return contracts;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const renderKey = (key: string) => (/^([A-Za-z_$][\w$]*|\d+)$/.test(key) ? key : JSON.stringify(key));
+
+const renderInline = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? "[]" : `[${value.map(renderInline).join(", ")}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.entries(value);
+    return entries.length === 0
+      ? "{}"
+      : `{ ${entries.map(([key, item]) => `${renderKey(key)}: ${renderInline(item)}`).join(", ")} }`;
+  }
+  return JSON.stringify(value);
+};
+
+// Print a value the way prettier would: on one line when it fits, otherwise one entry per line. Like prettier,
+// arrays of two or more multi-key objects are always broken.
+const renderValue = (value: unknown, depth: number, column: number): string => {
+  const inline = renderInline(value);
+  const mustBreak =
+    Array.isArray(value) && value.length > 1 && value.every(item => isObject(item) && Object.keys(item).length > 1);
+  if (!(Array.isArray(value) || isObject(value)) || (!mustBreak && column + inline.length + 1 <= PRINT_WIDTH)) {
+    return inline;
+  }
+
+  const padding = INDENT.repeat(depth + 1);
+  const lines = Array.isArray(value)
+    ? value.map(item => `${padding}${renderValue(item, depth + 1, padding.length)},`)
+    : Object.entries(value).map(([key, item]) => {
+        const prefix = `${padding}${renderKey(key)}: `;
+        return `${prefix}${renderValue(item, depth + 1, prefix.length)},`;
+      });
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  return `${open}\n${lines.join("\n")}\n${INDENT.repeat(depth)}${close}`;
+};
+
+const chainDirs = fs
+  .readdirSync(DEPLOYMENTS_DIR)
+  .filter(name => /^chain-\d+$/.test(name))
+  .sort((a, b) => Number(a.slice("chain-".length)) - Number(b.slice("chain-".length)));
+
+if (chainDirs.length === 0) {
+  throw new Error(`No ignition deployments found in ${path.relative(PROJECT_ROOT, DEPLOYMENTS_DIR)}`);
+}
+
+const deployedContracts = Object.fromEntries(
+  chainDirs.map(chainDir => [
+    chainDir.slice("chain-".length),
+    getChainContracts(path.join(DEPLOYMENTS_DIR, chainDir)),
+  ]),
+);
+
+const output = `/**
+ * This file is generated from the Hardhat Ignition deployments in smartcontract/ignition/deployments.
+ * You should not edit it manually or your changes might be overwritten.
+ * Regenerate it with \`npx hardhat run scripts/generate-deployed-contracts.ts\` in smartcontract/.
+ */
+import { GenericContractsDeclaration } from "~~/utils/core/contract";
+
+const deployedContracts = ${renderValue(deployedContracts, 0, "const deployedContracts = ".length)} as const;
+
+export default deployedContracts satisfies GenericContractsDeclaration;
+`;
+
+fs.writeFileSync(TARGET_FILE, output);
+
+for (const [chainId, contracts] of Object.entries(deployedContracts)) {
+  console.log(`Chain ${chainId}: ${Object.keys(contracts).join(", ")}`);
+}
+console.log(`Wrote ${path.relative(process.cwd(), TARGET_FILE)}`);
@@ -1,6 +1,28 @@
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { ContractTemplates, ERC20Token } from "../typechain-types";
+import { DistributorClaims, generateDistributorClaims } from "../../frontend/utils/Merkle";
+import { SupplyUnit } from "../../frontend/utils/tokenSupply";
+import {
+  BasicMultiSig,
+  BasicVesting,
+  ContractTemplates,
+  ERC20Factory,
+  ERC20Token,
+  MerkleDistributor,
+  VestingVault,
+} from "../typechain-types";
+
+// ERC20Token features left off for the test tokens
+const NO_TOKEN_FEATURES = {
+  cap: 0,
+  pausable: false,
+  permit: false,
+  votes: false,
+  blocklist: false,
+  transferTaxBps: 0,
+  taxRecipient: ethers.ZeroAddress,
+};
 
 describe("ContractTemplates", function () {
   let contractTemplates: ContractTemplates;
@@ -37,6 +59,7 @@ describe("ContractTemplates", function () {
       ethers.parseEther("10000"),
       18,
       ownerAddress,
+      NO_TOKEN_FEATURES,
     )) as ERC20Token;
     await stakingToken.waitForDeployment();
 
@@ -46,14 +69,35 @@ describe("ContractTemplates", function () {
       ethers.parseEther("10000"),
       18,
       ownerAddress,
+      NO_TOKEN_FEATURES,
     )) as ERC20Token;
     await rewardToken.waitForDeployment();
 
     // Transfer some tokens for testing
     await stakingToken.transfer(user1Address, ethers.parseEther("10000"));
     await rewardToken.transfer(ownerAddress, ethers.parseEther("10000"));
+
+    // Vesting templates are funded from the deployer
+    await stakingToken.connect(user1).approve(await contractTemplates.getAddress(), ethers.MaxUint256);
   });
 
+  // Token created by user1 through the ERC20Factory, sending 1% of every transfer to user3
+  async function createTaxedToken() {
+    const ERC20FactoryFactory = await ethers.getContractFactory("ERC20Factory");
+    const erc20Factory = (await ERC20FactoryFactory.deploy()) as ERC20Factory;
+    const tx = await erc20Factory
+      .connect(user1)
+      .createConfiguredToken("Taxed Token", "TAX", 1000000, 18, SupplyUnit.WholeTokens, {
+        ...NO_TOKEN_FEATURES,
+        transferTaxBps: 100,
+        taxRecipient: user3Address,
+      });
+    const receipt = await tx.wait();
+    const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
+    const tokenAddress = erc20Factory.interface.parseLog(event as any)!.args[0];
+    return (await ethers.getContractAt("ERC20Token", tokenAddress)) as unknown as ERC20Token;
+  }
+
   describe("Deployment", function () {
     it("Should set the right owner", async function () {
       expect(await contractTemplates.owner()).to.equal(ownerAddress);
@@ -154,6 +198,53 @@ describe("ContractTemplates", function () {
       }
     });
 
+    it("Should fund the vesting contract and make the deployer its owner", async function () {
+      const totalAmount = ethers.parseEther("1000");
+      const startTime = Math.floor(Date.now() / 1000) + 3600;
+      const duration = 365 * 24 * 60 * 60;
+
+      const tx = await contractTemplates
+        .connect(user1)
+        .deployVestingContract(await stakingToken.getAddress(), user2Address, totalAmount, startTime, duration);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "VestingContractDeployed");
+      const vestingAddress = contractTemplates.interface.parseLog(event as any)!.args[0];
+      const vesting = (await ethers.getContractAt("BasicVesting", vestingAddress)) as unknown as BasicVesting;
+
+      expect(await stakingToken.balanceOf(vestingAddress)).to.equal(totalAmount);
+      expect(await stakingToken.balanceOf(user1Address)).to.equal(ethers.parseEther("9000"));
+      expect(await vesting.owner()).to.equal(user1Address);
+    });
+
+    it("Should fail without an allowance for the vested tokens", async function () {
+      const startTime = Math.floor(Date.now() / 1000) + 3600;
+      await stakingToken.connect(user1).approve(await contractTemplates.getAddress(), 0);
+
+      await expect(
+        contractTemplates
+          .connect(user1)
+          .deployVestingContract(await stakingToken.getAddress(), user2Address, 1000, startTime, 3600),
+      ).to.be.revertedWithCustomError(stakingToken, "ERC20InsufficientAllowance");
+    });
+
+    it("Should refuse tokens that take a fee on transfer", async function () {
+      const taxedToken = await createTaxedToken();
+      const startTime = Math.floor(Date.now() / 1000) + 3600;
+      await taxedToken.connect(user1).approve(await contractTemplates.getAddress(), ethers.parseEther("1000"));
+
+      await expect(
+        contractTemplates
+          .connect(user1)
+          .deployVestingContract(
+            await taxedToken.getAddress(),
+            user2Address,
+            ethers.parseEther("1000"),
+            startTime,
+            3600,
+          ),
+      ).to.be.revertedWith("Fee-on-transfer tokens are not supported");
+    });
+
     it("Should fail with zero address token", async function () {
       const totalAmount = ethers.parseEther("1000");
       const startTime = Math.floor(Date.now() / 1000) + 3600;
@@ -225,6 +316,204 @@ describe("ContractTemplates", function () {
     });
   });
 
+  describe("Vesting Vault Deployment", function () {
+    const MONTH = 30 * 24 * 60 * 60;
+    let startTime: number;
+    let snapshotId: string;
+
+    beforeEach(async function () {
+      snapshotId = await ethers.provider.send("evm_snapshot", []);
+      const latestBlock = await ethers.provider.getBlock("latest");
+      startTime = latestBlock!.timestamp + 60;
+    });
+
+    afterEach(async function () {
+      await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    function grant(overrides: Partial<Record<string, any>> = {}) {
+      return {
+        beneficiary: user2Address,
+        amount: ethers.parseEther("1200"),
+        start: startTime,
+        cliff: 3 * MONTH,
+        duration: 12 * MONTH,
+        stepDuration: 0,
+        revocable: true,
+        ...overrides,
+      };
+    }
+
+    async function deployVault(grants: ReturnType<typeof grant>[]) {
+      const tx = await contractTemplates.connect(user1).deployVestingVault(await stakingToken.getAddress(), grants);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "VestingVaultDeployed");
+      const vaultAddress = contractTemplates.interface.parseLog(event as any)!.args[0];
+      return (await ethers.getContractAt("VestingVault", vaultAddress)) as unknown as VestingVault;
+    }
+
+    async function increaseTimeTo(timestamp: number) {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    it("Should deploy and fund a batch of grants from the grantor", async function () {
+      const grants = [grant(), grant({ beneficiary: user3Address, amount: ethers.parseEther("300") })];
+
+      await expect(contractTemplates.connect(user1).deployVestingVault(await stakingToken.getAddress(), grants))
+        .to.emit(contractTemplates, "VestingVaultDeployed")
+        .withArgs(anyValue, await stakingToken.getAddress(), user1Address, 2, ethers.parseEther("1500"));
+
+      const vault = await deployVault(grants);
+      expect(await stakingToken.balanceOf(await vault.getAddress())).to.equal(ethers.parseEther("1500"));
+      expect(await vault.owner()).to.equal(user1Address);
+      expect(await vault.getGrantCount()).to.equal(2);
+      expect(await vault.getGrantIds(user3Address)).to.deep.equal([1n]);
+    });
+
+    it("Should vest nothing before the cliff, then linearly", async function () {
+      const vault = await deployVault([grant()]);
+
+      await increaseTimeTo(startTime + 3 * MONTH - 10);
+      expect(await vault.vestedAmount(0)).to.equal(0);
+      await expect(vault.release(0)).to.be.revertedWith("No tokens to release");
+
+      await increaseTimeTo(startTime + 3 * MONTH);
+      expect(await vault.vestedAmount(0)).to.equal(ethers.parseEther("300"));
+
+      // Anyone can release, the tokens always go to the beneficiary
+      await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 6 * MONTH]);
+      await vault.connect(user3).release(0);
+      expect(await stakingToken.balanceOf(user2Address)).to.equal(ethers.parseEther("600"));
+
+      await increaseTimeTo(startTime + 12 * MONTH);
+      await vault.release(0);
+      expect(await stakingToken.balanceOf(user2Address)).to.equal(ethers.parseEther("1200"));
+    });
+
+    it("Should unlock step grants once per step", async function () {
+      const vault = await deployVault([grant({ cliff: 0, stepDuration: MONTH })]);
+
+      await increaseTimeTo(startTime + MONTH - 1);
+      expect(await vault.vestedAmount(0)).to.equal(0);
+
+      await increaseTimeTo(startTime + 2 * MONTH + MONTH / 2);
+      expect(await vault.vestedAmount(0)).to.equal(ethers.parseEther("200"));
+
+      const [, vested, releasable] = await vault.getGrant(0);
+      expect(vested).to.equal(ethers.parseEther("200"));
+      expect(releasable).to.equal(ethers.parseEther("200"));
+    });
+
+    it("Should return unvested tokens to the grantor on revocation", async function () {
+      const vault = await deployVault([grant()]);
+      const grantorBalance = await stakingToken.balanceOf(user1Address);
+
+      await increaseTimeTo(startTime + 4 * MONTH);
+      await expect(vault.connect(user2).revoke(0))
+        .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount")
+        .withArgs(user2Address);
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [startTime + 6 * MONTH]);
+      await expect(vault.connect(user1).revoke(0))
+        .to.emit(vault, "GrantRevoked")
+        .withArgs(0, user2Address, ethers.parseEther("600"));
+
+      expect(await stakingToken.balanceOf(user1Address)).to.equal(grantorBalance + ethers.parseEther("600"));
+      await expect(vault.connect(user1).revoke(0)).to.be.revertedWith("Grant already revoked");
+
+      // What vested before revocation stays releasable
+      await increaseTimeTo(startTime + 12 * MONTH);
+      expect(await vault.vestedAmount(0)).to.equal(ethers.parseEther("600"));
+      await vault.release(0);
+      expect(await stakingToken.balanceOf(user2Address)).to.equal(ethers.parseEther("600"));
+    });
+
+    it("Should not revoke irrevocable grants", async function () {
+      const vault = await deployVault([grant({ revocable: false })]);
+
+      await expect(vault.connect(user1).revoke(0)).to.be.revertedWith("Grant is not revocable");
+    });
+
+    it("Should add grants funded by the grantor", async function () {
+      const vault = await deployVault([grant()]);
+      await stakingToken.connect(user1).approve(await vault.getAddress(), ethers.parseEther("500"));
+
+      await vault.connect(user1).addGrants([grant({ beneficiary: user3Address, amount: ethers.parseEther("500") })]);
+
+      expect(await vault.getGrantCount()).to.equal(2);
+      expect(await stakingToken.balanceOf(await vault.getAddress())).to.equal(ethers.parseEther("1700"));
+      await expect(vault.connect(user2).addGrants([grant()])).to.be.revertedWithCustomError(
+        vault,
+        "OwnableUnauthorizedAccount",
+      );
+    });
+
+    it("Should refuse tokens that take a fee on transfer", async function () {
+      const taxedToken = await createTaxedToken();
+      const token = await taxedToken.getAddress();
+      await taxedToken.connect(user1).approve(await contractTemplates.getAddress(), ethers.parseEther("1200"));
+
+      await expect(contractTemplates.connect(user1).deployVestingVault(token, [grant()])).to.be.revertedWith(
+        "Fee-on-transfer tokens are not supported",
+      );
+
+      // Transfers from the tax recipient are untaxed, so it can deploy a vault, but grants added later by
+      // another owner would be short
+      await taxedToken.connect(user1).transfer(user3Address, ethers.parseEther("1200"));
+      await taxedToken.connect(user3).approve(await contractTemplates.getAddress(), ethers.parseEther("1200"));
+      const tx = await contractTemplates.connect(user3).deployVestingVault(token, [grant()]);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "VestingVaultDeployed");
+      const vault = (await ethers.getContractAt(
+        "VestingVault",
+        contractTemplates.interface.parseLog(event as any)!.args[0],
+      )) as unknown as VestingVault;
+      await vault.connect(user3).transferOwnership(user1Address);
+
+      await taxedToken.connect(user1).approve(await vault.getAddress(), ethers.parseEther("1200"));
+      await expect(vault.connect(user1).addGrants([grant()])).to.be.revertedWith(
+        "Fee-on-transfer tokens are not supported",
+      );
+    });
+
+    it("Should reject invalid grants", async function () {
+      const token = await stakingToken.getAddress();
+
+      await expect(contractTemplates.connect(user1).deployVestingVault(token, [])).to.be.revertedWith("No grants");
+      await expect(
+        contractTemplates.connect(user1).deployVestingVault(token, [grant({ beneficiary: ethers.ZeroAddress })]),
+      ).to.be.revertedWith("Invalid beneficiary");
+      await expect(
+        contractTemplates.connect(user1).deployVestingVault(token, [grant({ amount: 0 })]),
+      ).to.be.revertedWith("Grant amount must be greater than 0");
+      await expect(
+        contractTemplates.connect(user1).deployVestingVault(token, [grant({ cliff: 13 * MONTH })]),
+      ).to.be.revertedWith("Cliff cannot exceed duration");
+      await expect(
+        contractTemplates.connect(user1).deployVestingVault(token, [grant({ stepDuration: 13 * MONTH })]),
+      ).to.be.revertedWith("Step cannot exceed duration");
+      await expect(
+        contractTemplates.connect(user1).deployVestingVault(ethers.ZeroAddress, [grant()]),
+      ).to.be.revertedWith("Invalid token");
+    });
+
+    it("Should not allow re-initializing a vault", async function () {
+      const vault = await deployVault([grant()]);
+      const implementation = await ethers.getContractAt(
+        "VestingVault",
+        await contractTemplates.vestingVaultImplementation(),
+      );
+
+      await expect(
+        vault.initialize(await stakingToken.getAddress(), user2Address, [grant()]),
+      ).to.be.revertedWithCustomError(vault, "InvalidInitialization");
+      await expect(
+        implementation.initialize(await stakingToken.getAddress(), user2Address, [grant()]),
+      ).to.be.revertedWithCustomError(vault, "InvalidInitialization");
+    });
+  });
+
   describe("Multi-Signature Wallet Deployment", function () {
     it("Should deploy a multi-signature wallet successfully", async function () {
       const owners = [user1Address, user2Address, user3Address];
@@ -292,6 +581,418 @@ describe("ContractTemplates", function () {
     });
   });
 
+  describe("Multi-Signature Owner Management", function () {
+    let multiSig: BasicMultiSig;
+    let walletAddress: string;
+    let user4: any;
+    let user4Address: string;
+
+    beforeEach(async function () {
+      user4 = (await ethers.getSigners())[4];
+      user4Address = await user4.getAddress();
+
+      const tx = await contractTemplates.deployMultiSigWallet([user1Address, user2Address, user3Address], 2);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "MultiSigDeployed");
+      walletAddress = contractTemplates.interface.parseLog(event as any)!.args[0];
+      multiSig = (await ethers.getContractAt("BasicMultiSig", walletAddress)) as unknown as BasicMultiSig;
+    });
+
+    // Submit a call of the wallet to itself and confirm it with user1 and user2
+    async function proposeSelfCall(functionName: string, args: any[]) {
+      const data = multiSig.interface.encodeFunctionData(functionName as any, args);
+      const txId = await multiSig.getTransactionCount();
+      await multiSig.connect(user1).submitTransaction(walletAddress, 0, data);
+      await multiSig.connect(user1).confirmTransaction(txId);
+      await multiSig.connect(user2).confirmTransaction(txId);
+      return txId;
+    }
+
+    async function executeSelfCall(functionName: string, args: any[]) {
+      const txId = await proposeSelfCall(functionName, args);
+      return multiSig.connect(user1).executeTransaction(txId);
+    }
+
+    it("Should only allow owner management through the wallet itself", async function () {
+      await expect(multiSig.connect(user1).addOwner(user4Address)).to.be.revertedWith("Only the wallet itself");
+      await expect(multiSig.connect(user1).removeOwner(user3Address)).to.be.revertedWith("Only the wallet itself");
+      await expect(multiSig.connect(user1).replaceOwner(user3Address, user4Address)).to.be.revertedWith(
+        "Only the wallet itself",
+      );
+      await expect(multiSig.connect(user1).changeRequirement(3)).to.be.revertedWith("Only the wallet itself");
+    });
+
+    it("Should add an owner through an executed proposal", async function () {
+      await expect(executeSelfCall("addOwner", [user4Address]))
+        .to.emit(multiSig, "OwnerAdded")
+        .withArgs(user4Address);
+
+      expect(await multiSig.isOwner(user4Address)).to.be.true;
+      expect(await multiSig.getOwners()).to.deep.equal([user1Address, user2Address, user3Address, user4Address]);
+      expect(await multiSig.requiredSignatures()).to.equal(2);
+    });
+
+    it("Should reject zero and duplicate owners", async function () {
+      await expect(executeSelfCall("addOwner", [ethers.ZeroAddress])).to.be.revertedWith(
+        "Transaction execution failed",
+      );
+      await expect(executeSelfCall("replaceOwner", [user3Address, user2Address])).to.be.revertedWith(
+        "Transaction execution failed",
+      );
+      await expect(executeSelfCall("removeOwner", [user4Address])).to.be.revertedWith("Transaction execution failed");
+      expect(await multiSig.getOwners()).to.deep.equal([user1Address, user2Address, user3Address]);
+    });
+
+    it("Should replace a compromised owner", async function () {
+      await expect(executeSelfCall("replaceOwner", [user2Address, user4Address]))
+        .to.emit(multiSig, "OwnerRemoved")
+        .withArgs(user2Address)
+        .and.to.emit(multiSig, "OwnerAdded")
+        .withArgs(user4Address);
+
+      expect(await multiSig.isOwner(user2Address)).to.be.false;
+      expect(await multiSig.isOwner(user4Address)).to.be.true;
+      expect([...(await multiSig.getOwners())]).to.have.members([user1Address, user3Address, user4Address]);
+      await expect(multiSig.connect(user2).submitTransaction(user2Address, 0, "0x")).to.be.revertedWith("Not an owner");
+    });
+
+    it("Should lower the threshold when removing an owner would leave it unreachable", async function () {
+      await executeSelfCall("changeRequirement", [3]);
+      expect(await multiSig.requiredSignatures()).to.equal(3);
+
+      const data = multiSig.interface.encodeFunctionData("removeOwner", [user3Address]);
+      await multiSig.connect(user1).submitTransaction(walletAddress, 0, data);
+      const txId = (await multiSig.getTransactionCount()) - 1n;
+      for (const signer of [user1, user2, user3]) {
+        await multiSig.connect(signer).confirmTransaction(txId);
+      }
+      await expect(multiSig.connect(user1).executeTransaction(txId))
+        .to.emit(multiSig, "RequirementChanged")
+        .withArgs(2);
+
+      expect(await multiSig.getOwners()).to.deep.equal([user1Address, user2Address]);
+      expect(await multiSig.requiredSignatures()).to.equal(2);
+    });
+
+    it("Should keep at least 2 owners and a reachable threshold", async function () {
+      await executeSelfCall("removeOwner", [user3Address]);
+      await expect(executeSelfCall("removeOwner", [user2Address])).to.be.revertedWith("Transaction execution failed");
+      await expect(executeSelfCall("changeRequirement", [3])).to.be.revertedWith("Transaction execution failed");
+      await expect(executeSelfCall("changeRequirement", [0])).to.be.revertedWith("Transaction execution failed");
+      expect(await multiSig.getOwners()).to.deep.equal([user1Address, user2Address]);
+    });
+
+    it("Should invalidate pending confirmations when the owner set changes", async function () {
+      await owner.sendTransaction({ to: walletAddress, value: ethers.parseEther("1") });
+      await multiSig.connect(user1).submitTransaction(user4Address, ethers.parseEther("1"), "0x");
+      await multiSig.connect(user1).confirmTransaction(0);
+      await multiSig.connect(user3).confirmTransaction(0);
+
+      await executeSelfCall("replaceOwner", [user3Address, user4Address]);
+
+      const [, , , , numConfirmations] = await multiSig.getTransaction(0);
+      expect(numConfirmations).to.equal(0);
+      expect(await multiSig.isConfirmed(0, user1Address)).to.be.false;
+      await expect(multiSig.connect(user1).executeTransaction(0)).to.be.revertedWith("Cannot execute transaction");
+      await expect(multiSig.connect(user1).revokeConfirmation(0)).to.be.revertedWith("Transaction not confirmed");
+
+      // The remaining owners confirm again under the new owner set
+      await multiSig.connect(user1).confirmTransaction(0);
+      await multiSig.connect(user4).confirmTransaction(0);
+      await expect(multiSig.connect(user4).executeTransaction(0)).to.changeEtherBalance(user4, ethers.parseEther("1"));
+    });
+
+    it("Should keep pending confirmations when only the threshold changes", async function () {
+      await multiSig.connect(user1).submitTransaction(user4Address, 0, "0x");
+      await multiSig.connect(user1).confirmTransaction(0);
+
+      await executeSelfCall("changeRequirement", [1]);
+
+      expect(await multiSig.isConfirmed(0, user1Address)).to.be.true;
+      await expect(multiSig.connect(user1).executeTransaction(0)).to.not.be.reverted;
+    });
+  });
+
+  describe("Multi-Signature Signed Execution", function () {
+    let multiSig: BasicMultiSig;
+    let walletAddress: string;
+
+    const EXECUTE_TYPES = {
+      Execute: [
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "nonce", type: "uint256" },
+      ],
+    };
+
+    beforeEach(async function () {
+      const tx = await contractTemplates.deployMultiSigWallet([user1Address, user2Address, user3Address], 2);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "MultiSigDeployed");
+      walletAddress = contractTemplates.interface.parseLog(event as any)!.args[0];
+      multiSig = (await ethers.getContractAt("BasicMultiSig", walletAddress)) as unknown as BasicMultiSig;
+      await owner.sendTransaction({ to: walletAddress, value: ethers.parseEther("2") });
+    });
+
+    async function signExecute(signers: any[], to: string, value: bigint, data: string, nonce?: bigint) {
+      const domain = {
+        name: "BasicMultiSig",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: walletAddress,
+      };
+      const message = { to, value, data, nonce: nonce ?? (await multiSig.nonce()) };
+      const signed = await Promise.all(
+        signers.map(async signer => ({
+          signer: (await signer.getAddress()).toLowerCase(),
+          signature: await signer.signTypedData(domain, EXECUTE_TYPES, message),
+        })),
+      );
+      return signed.sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1)).map(({ signature }) => signature);
+    }
+
+    it("Should execute a transfer with sorted owner signatures in one transaction", async function () {
+      const value = ethers.parseEther("1");
+      const signatures = await signExecute([user1, user3], ownerAddress, value, "0x");
+
+      await expect(multiSig.connect(user2).executeWithSignatures(ownerAddress, value, "0x", signatures))
+        .to.emit(multiSig, "SignedTransactionExecuted")
+        .withArgs(0, user2Address, ownerAddress, value, "0x");
+
+      expect(await ethers.provider.getBalance(walletAddress)).to.equal(ethers.parseEther("1"));
+      expect(await multiSig.nonce()).to.equal(1);
+    });
+
+    it("Should match the digest computed by the contract", async function () {
+      const message = { to: ownerAddress, value: 5n, data: "0x1234", nonce: 0n };
+      const domain = {
+        name: "BasicMultiSig",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: walletAddress,
+      };
+
+      expect(await multiSig.getExecuteHash(message.to, message.value, message.data, message.nonce)).to.equal(
+        ethers.TypedDataEncoder.hash(domain, EXECUTE_TYPES, message),
+      );
+    });
+
+    it("Should not replay signatures", async function () {
+      const value = ethers.parseEther("1");
+      const signatures = await signExecute([user1, user2], ownerAddress, value, "0x");
+      await multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", signatures);
+
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", signatures),
+      ).to.be.revertedWith("Signer is not an owner");
+    });
+
+    it("Should reject too few, unsorted, duplicate and non-owner signatures", async function () {
+      const value = ethers.parseEther("1");
+      const [first, second] = await signExecute([user1, user2], ownerAddress, value, "0x");
+      const [outsider] = await signExecute([owner], ownerAddress, value, "0x");
+
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", [first]),
+      ).to.be.revertedWith("Not enough signatures");
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", [second, first]),
+      ).to.be.revertedWith("Signatures not sorted by signer");
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", [first, first]),
+      ).to.be.revertedWith("Signatures not sorted by signer");
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", [first, outsider]),
+      ).to.be.revertedWith("Signer is not an owner");
+    });
+
+    it("Should reject signatures over a different call or nonce", async function () {
+      const value = ethers.parseEther("1");
+      const signatures = await signExecute([user1, user2], ownerAddress, value, "0x");
+      const nextNonce = await signExecute([user1, user2], ownerAddress, value, "0x", 1n);
+
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, ethers.parseEther("2"), "0x", signatures),
+      ).to.be.revertedWith("Signer is not an owner");
+      await expect(
+        multiSig.connect(user1).executeWithSignatures(ownerAddress, value, "0x", nextNonce),
+      ).to.be.revertedWith("Signer is not an owner");
+    });
+
+    it("Should only let owners submit signatures", async function () {
+      const signatures = await signExecute([user1, user2], ownerAddress, 1n, "0x");
+
+      await expect(
+        multiSig.connect(owner).executeWithSignatures(ownerAddress, 1n, "0x", signatures),
+      ).to.be.revertedWith("Not an owner");
+    });
+
+    it("Should change owners with signatures", async function () {
+      const data = multiSig.interface.encodeFunctionData("replaceOwner", [user3Address, ownerAddress]);
+      const signatures = await signExecute([user1, user2], walletAddress, 0n, data);
+
+      await multiSig.connect(user1).executeWithSignatures(walletAddress, 0, data, signatures);
+
+      expect(await multiSig.isOwner(ownerAddress)).to.be.true;
+      expect(await multiSig.isOwner(user3Address)).to.be.false;
+    });
+  });
+
+  describe("Merkle Distributor Deployment", function () {
+    let airdropToken: ERC20Token;
+    let claims: DistributorClaims;
+    let claimDeadline: number;
+    let snapshotId: string;
+
+    beforeEach(async function () {
+      snapshotId = await ethers.provider.send("evm_snapshot", []);
+
+      // Create the airdrop token through the ERC20Factory
+      const ERC20FactoryFactory = await ethers.getContractFactory("ERC20Factory");
+      const erc20Factory = (await ERC20FactoryFactory.deploy()) as ERC20Factory;
+      await erc20Factory.waitForDeployment();
+
+      const tx = await erc20Factory
+        .connect(user1)
+        .createToken("Airdrop Token", "DROP", 1000000, 18, SupplyUnit.WholeTokens);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
+      const tokenAddress = erc20Factory.interface.parseLog(event as any)!.args[0];
+      airdropToken = (await ethers.getContractAt("ERC20Token", tokenAddress)) as unknown as ERC20Token;
+
+      claims = generateDistributorClaims([
+        { address: user2Address, amount: ethers.parseEther("100") },
+        { address: user3Address, amount: ethers.parseEther("250") },
+        { address: ownerAddress, amount: ethers.parseEther("50") },
+      ]);
+
+      const latestBlock = await ethers.provider.getBlock("latest");
+      claimDeadline = latestBlock!.timestamp + 30 * 24 * 60 * 60; // 30 days
+    });
+
+    afterEach(async function () {
+      await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    async function deployDistributor(totalAmount = BigInt(claims.tokenTotal)) {
+      await airdropToken.connect(user1).approve(await contractTemplates.getAddress(), totalAmount);
+      const tx = await contractTemplates
+        .connect(user1)
+        .deployMerkleDistributor(await airdropToken.getAddress(), claims.merkleRoot, totalAmount, claimDeadline);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "MerkleDistributorDeployed");
+      const distributorAddress = contractTemplates.interface.parseLog(event as any)!.args[0];
+      return (await ethers.getContractAt("MerkleDistributor", distributorAddress)) as unknown as MerkleDistributor;
+    }
+
+    function claimFor(address: string) {
+      return claims.claims[ethers.getAddress(address)];
+    }
+
+    it("Should deploy and fund a distributor from the creator", async function () {
+      const distributor = await deployDistributor();
+
+      expect(await distributor.owner()).to.equal(user1Address);
+      expect(await distributor.merkleRoot()).to.equal(claims.merkleRoot);
+      expect(await distributor.claimDeadline()).to.equal(claimDeadline);
+      expect(await airdropToken.balanceOf(await distributor.getAddress())).to.equal(BigInt(claims.tokenTotal));
+    });
+
+    it("Should fail without token approval", async function () {
+      await expect(
+        contractTemplates
+          .connect(user1)
+          .deployMerkleDistributor(
+            await airdropToken.getAddress(),
+            claims.merkleRoot,
+            claims.tokenTotal,
+            claimDeadline,
+          ),
+      ).to.be.reverted;
+    });
+
+    it("Should refuse tokens that take a fee on transfer", async function () {
+      // The distributor would receive less than its tree pays out
+      const taxedToken = await createTaxedToken();
+
+      await taxedToken.connect(user1).approve(await contractTemplates.getAddress(), claims.tokenTotal);
+      await expect(
+        contractTemplates
+          .connect(user1)
+          .deployMerkleDistributor(await taxedToken.getAddress(), claims.merkleRoot, claims.tokenTotal, claimDeadline),
+      ).to.be.revertedWith("Fee-on-transfer tokens are not supported");
+    });
+
+    it("Should fail with invalid parameters", async function () {
+      const tokenAddress = await airdropToken.getAddress();
+
+      await expect(
+        contractTemplates.deployMerkleDistributor(ethers.ZeroAddress, claims.merkleRoot, 1, claimDeadline),
+      ).to.be.revertedWith("Invalid token");
+      await expect(
+        contractTemplates.deployMerkleDistributor(tokenAddress, ethers.ZeroHash, 1, claimDeadline),
+      ).to.be.revertedWith("Invalid merkle root");
+      await expect(
+        contractTemplates.deployMerkleDistributor(tokenAddress, claims.merkleRoot, 0, claimDeadline),
+      ).to.be.revertedWith("Total amount must be greater than 0");
+      await expect(
+        contractTemplates.deployMerkleDistributor(
+          tokenAddress,
+          claims.merkleRoot,
+          1,
+          claimDeadline - 60 * 24 * 60 * 60,
+        ),
+      ).to.be.revertedWith("Claim deadline must be in the future");
+    });
+
+    it("Should let recipients claim their allocation once", async function () {
+      const distributor = await deployDistributor();
+      const { index, amount, proof } = claimFor(user2Address);
+
+      await expect(distributor.connect(user3).claim(index, user2Address, amount, proof))
+        .to.emit(distributor, "Claimed")
+        .withArgs(index, user2Address, amount);
+
+      expect(await airdropToken.balanceOf(user2Address)).to.equal(BigInt(amount));
+      expect(await distributor.isClaimed(index)).to.be.true;
+
+      await expect(distributor.claim(index, user2Address, amount, proof)).to.be.revertedWith("Drop already claimed");
+    });
+
+    it("Should reject claims with a wrong amount or account", async function () {
+      const distributor = await deployDistributor();
+      const { index, amount, proof } = claimFor(user2Address);
+
+      await expect(distributor.claim(index, user2Address, BigInt(amount) + 1n, proof)).to.be.revertedWith(
+        "Invalid proof",
+      );
+      await expect(distributor.claim(index, user3Address, amount, proof)).to.be.revertedWith("Invalid proof");
+    });
+
+    it("Should only let the creator sweep unclaimed tokens after the deadline", async function () {
+      const distributor = await deployDistributor();
+      const { index, amount, proof } = claimFor(user3Address);
+      await distributor.claim(index, user3Address, amount, proof);
+
+      await expect(distributor.connect(user1).sweep(user1Address)).to.be.revertedWith("Claim period has not ended");
+
+      await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      const remaining = BigInt(claims.tokenTotal) - BigInt(amount);
+      await expect(distributor.connect(user2).sweep(user2Address)).to.be.reverted;
+      await expect(distributor.connect(user1).sweep(user1Address))
+        .to.emit(distributor, "Swept")
+        .withArgs(user1Address, remaining);
+
+      const late = claimFor(user2Address);
+      await expect(distributor.claim(late.index, user2Address, late.amount, late.proof)).to.be.revertedWith(
+        "Claim period has ended",
+      );
+    });
+  });
+
   describe("Gas Optimization", function () {
     it("Should use reasonable gas for staking contract deployment", async function () {
       const rewardRate = ethers.parseEther("0.001");
@@ -326,8 +1027,8 @@ describe("ContractTemplates", function () {
       const tx = await contractTemplates.connect(user1).deployMultiSigWallet(owners, requiredSignatures);
       const receipt = await tx.wait();
 
-      // Multi-sig wallet deployment should be reasonable (more complex than others)
-      expect(receipt?.gasUsed).to.be.lessThan(1500000);
+      // Multi-sig wallet deployment should be reasonable (more complex than others, with owner management and EIP-712)
+      expect(receipt?.gasUsed).to.be.lessThan(2500000);
     });
   });
 
@@ -370,12 +1071,12 @@ describe("ContractTemplates", function () {
       const startTime = Math.floor(Date.now() / 1000) + 3600;
       const duration = 365 * 24 * 60 * 60;
 
-      // Should handle maximum amounts
+      // Funding more than the deployer holds reverts
       await expect(
         contractTemplates
           .connect(user1)
           .deployVestingContract(await stakingToken.getAddress(), user2Address, maxUint256, startTime, duration),
-      ).to.not.be.reverted;
+      ).to.be.revertedWithCustomError(stakingToken, "ERC20InsufficientBalance");
     });
 
     it("Should handle very small amounts", async function () {
@@ -445,6 +1146,8 @@ describe("ContractTemplates", function () {
       const duration = 365 * 24 * 60 * 60;
       const owners = [user1Address, user2Address];
       const requiredSignatures = 2;
+      await stakingToken.connect(user1).transfer(user2Address, totalAmount);
+      await stakingToken.connect(user2).approve(await contractTemplates.getAddress(), totalAmount);
 
       // Deploy all contract types concurrently
       const promises = [
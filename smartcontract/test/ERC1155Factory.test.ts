@@ -0,0 +1,231 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ERC1155Factory } from "../typechain-types";
+import { CUSTOM_ERC1155_CONSTRUCTOR_TYPES, getInitCode, predictFactoryAddress } from "../../frontend/utils/create2";
+
+describe("ERC1155Factory", function () {
+  let erc1155Factory: ERC1155Factory;
+  let owner: any;
+  let user1: any;
+  let user2: any;
+  let user1Address: string;
+  let user2Address: string;
+
+  const multiTokenArgs = ["Test Items", "ipfs://items/{id}.json", true, true, true, true] as const;
+  const noRoyalties = { receiver: ethers.ZeroAddress, feeNumerator: 0, tokenRoyalties: [] };
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    user1Address = await user1.getAddress();
+    user2Address = await user2.getAddress();
+
+    const ERC1155FactoryFactory = await ethers.getContractFactory("ERC1155Factory");
+    erc1155Factory = (await ERC1155FactoryFactory.deploy()) as ERC1155Factory;
+    await erc1155Factory.waitForDeployment();
+  });
+
+  // Multi-token contract created by the factory call sent in tx
+  async function getMultiToken(tx: Promise<any>) {
+    const receipt = await (await tx).wait();
+    const event = receipt?.logs.find((log: any) => log.fragment?.name === "MultiTokenCreated");
+    return ethers.getContractAt("CustomERC1155", erc1155Factory.interface.parseLog(event as any)!.args[0]);
+  }
+
+  describe("Multi-Token Creation", function () {
+    it("Should create a multi-token contract owned by the creator", async function () {
+      const tx = await erc1155Factory.connect(user1).createMultiToken(...multiTokenArgs);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "MultiTokenCreated");
+      const contractAddress = erc1155Factory.interface.parseLog(event as any)!.args[0];
+
+      const multiToken = await ethers.getContractAt("CustomERC1155", contractAddress);
+      expect(await multiToken.owner()).to.equal(user1Address);
+      expect(await multiToken.name()).to.equal("Test Items");
+      expect(await erc1155Factory.getContractsByCreator(user1Address)).to.deep.equal([contractAddress]);
+    });
+
+    it("Should fail with empty URI", async function () {
+      await expect(
+        erc1155Factory.connect(user1).createMultiToken("Test Items", "", true, true, true, true),
+      ).to.be.revertedWith("URI cannot be empty");
+    });
+  });
+
+  describe("Pausing", function () {
+    it("Should block transfers, mints and burns while paused", async function () {
+      const multiToken = await getMultiToken(erc1155Factory.connect(user1).createMultiToken(...multiTokenArgs));
+      await multiToken.connect(user1).mint(user2Address, 1, 10, "0x");
+
+      await multiToken.connect(user1).pause();
+      await expect(
+        multiToken.connect(user2).safeTransferFrom(user2Address, user1Address, 1, 1, "0x"),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(
+        multiToken.connect(user2).safeBatchTransferFrom(user2Address, user1Address, [1], [1], "0x"),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(multiToken.connect(user1).mint(user2Address, 1, 1, "0x")).to.be.revertedWith("Contract is paused");
+      await expect(multiToken.connect(user2).burn(user2Address, 1, 1)).to.be.revertedWith("Contract is paused");
+
+      await multiToken.connect(user1).unpause();
+      await multiToken.connect(user2).safeTransferFrom(user2Address, user1Address, 1, 4, "0x");
+      expect(await multiToken.balanceOf(user1Address, 1)).to.equal(4);
+      expect(await multiToken.getTotalSupply(1)).to.equal(10);
+    });
+  });
+
+  describe("Royalties", function () {
+    const royalties = () => ({
+      receiver: user2Address,
+      feeNumerator: 750,
+      tokenRoyalties: [{ tokenId: 7, receiver: user1Address, feeNumerator: 0 }],
+    });
+
+    it("Should set default and per-token royalties at creation", async function () {
+      const multiToken = await getMultiToken(
+        erc1155Factory.connect(user1).createMultiTokenWithRoyalties(...multiTokenArgs, royalties()),
+      );
+
+      expect(await multiToken.royaltyInfo(1, 10_000)).to.deep.equal([user2Address, 750n]);
+      expect(await multiToken.royaltyInfo(7, 10_000)).to.deep.equal([user1Address, 0n]);
+      // ERC-2981 and ERC-1155 interface IDs
+      expect(await multiToken.supportsInterface("0x2a55205a")).to.be.true;
+      expect(await multiToken.supportsInterface("0xd9b67a26")).to.be.true;
+    });
+
+    it("Should set royalties on clones and deterministic deployments", async function () {
+      const clone = await getMultiToken(
+        erc1155Factory.connect(user1).createMultiTokenClone(...multiTokenArgs, royalties()),
+      );
+      const salt = ethers.id("royalties");
+      const predicted = await erc1155Factory.predictAddress(user1Address, salt, ...multiTokenArgs, royalties());
+      const deterministic = await getMultiToken(
+        erc1155Factory.connect(user1).createMultiTokenDeterministic(...multiTokenArgs, royalties(), salt),
+      );
+
+      expect(await deterministic.getAddress()).to.equal(predicted);
+      for (const multiToken of [clone, deterministic]) {
+        expect(await multiToken.royaltyInfo(1, 10_000)).to.deep.equal([user2Address, 750n]);
+      }
+    });
+
+    it("Should let only the owner change royalties", async function () {
+      const multiToken = await getMultiToken(erc1155Factory.connect(user1).createMultiToken(...multiTokenArgs));
+      expect(await multiToken.royaltyInfo(1, 10_000)).to.deep.equal([ethers.ZeroAddress, 0n]);
+
+      await expect(multiToken.connect(user2).setTokenRoyalty(1, user2Address, 100)).to.be.revertedWithCustomError(
+        multiToken,
+        "OwnableUnauthorizedAccount",
+      );
+      await multiToken.connect(user1).setTokenRoyalty(1, user2Address, 100);
+      expect(await multiToken.royaltyInfo(1, 10_000)).to.deep.equal([user2Address, 100n]);
+    });
+  });
+
+  describe("Clone Deployment", function () {
+    async function createClone() {
+      const tx = await erc1155Factory.connect(user1).createMultiTokenClone(...multiTokenArgs, noRoyalties);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "MultiTokenCreated");
+      const contractAddress = erc1155Factory.interface.parseLog(event as any)!.args[0];
+      return ethers.getContractAt("CustomERC1155", contractAddress);
+    }
+
+    it("Should initialize the clone like a directly deployed contract", async function () {
+      const multiToken = await createClone();
+
+      expect(await multiToken.name()).to.equal("Test Items");
+      expect(await multiToken.uri(1)).to.equal("ipfs://items/{id}.json");
+      expect(await multiToken.owner()).to.equal(user1Address);
+      expect(await multiToken.isSupplyTracked()).to.be.true;
+      expect(await erc1155Factory.getContractsByCreator(user1Address)).to.deep.equal([await multiToken.getAddress()]);
+
+      await multiToken.connect(user1).mint(user2Address, 1, 5, "0x");
+      expect(await multiToken.balanceOf(user2Address, 1)).to.equal(5);
+      expect(await multiToken.getTotalSupply(1)).to.equal(5);
+    });
+
+    it("Should not initialize a clone or the implementation twice", async function () {
+      const multiToken = await createClone();
+      const implementation = await ethers.getContractAt(
+        "CustomERC1155",
+        await erc1155Factory.multiTokenImplementation(),
+      );
+
+      for (const target of [multiToken, implementation]) {
+        await expect(
+          target
+            .connect(user2)
+            .initialize("Hijack", "ipfs://hijack", true, true, true, true, user2Address, noRoyalties),
+        ).to.be.revertedWithCustomError(target, "InvalidInitialization");
+      }
+    });
+
+    it("Should cost much less gas to deploy than a full contract", async function () {
+      const fullReceipt = await (await erc1155Factory.connect(user1).createMultiToken(...multiTokenArgs)).wait();
+      const cloneReceipt = await (
+        await erc1155Factory.connect(user1).createMultiTokenClone(...multiTokenArgs, noRoyalties)
+      ).wait();
+
+      expect(cloneReceipt!.gasUsed * 3n).to.be.lessThan(fullReceipt!.gasUsed);
+    });
+  });
+
+  describe("Pagination", function () {
+    it("Should index and page contracts by creator", async function () {
+      for (let i = 0; i < 3; i++) {
+        await erc1155Factory.connect(user1).createMultiToken(...multiTokenArgs);
+      }
+      await erc1155Factory.connect(user2).createMultiToken(...multiTokenArgs);
+
+      const user1Contracts = await erc1155Factory.getContractsByCreator(user1Address);
+      expect(await erc1155Factory.getContractCountByCreator(user1Address)).to.equal(3);
+      expect(await erc1155Factory.getContractsByCreatorPage(user1Address, 0, 2)).to.deep.equal(
+        user1Contracts.slice(0, 2),
+      );
+      expect(await erc1155Factory.getContractsByCreatorPage(user2Address, 1, 5)).to.deep.equal([]);
+      expect(await erc1155Factory.getContractsPage(2, 2)).to.deep.equal([
+        user1Contracts[2],
+        ...(await erc1155Factory.getContractsByCreator(user2Address)),
+      ]);
+    });
+  });
+
+  describe("Deterministic Deployment", function () {
+    const salt = ethers.id("my-items");
+
+    it("Should deploy to the predicted address", async function () {
+      const predicted = await erc1155Factory.predictAddress(user1Address, salt, ...multiTokenArgs, noRoyalties);
+
+      await expect(erc1155Factory.connect(user1).createMultiTokenDeterministic(...multiTokenArgs, noRoyalties, salt))
+        .to.emit(erc1155Factory, "MultiTokenCreated")
+        .withArgs(predicted, "Test Items", "ipfs://items/{id}.json", user1Address, true, true, true, true);
+
+      expect((await erc1155Factory.multiTokens(predicted)).creator).to.equal(user1Address);
+    });
+
+    it("Should match the off-chain address helper", async function () {
+      const { bytecode } = await ethers.getContractFactory("CustomERC1155");
+      const initCode = getInitCode(bytecode, CUSTOM_ERC1155_CONSTRUCTOR_TYPES, [
+        ...multiTokenArgs,
+        user1Address,
+        noRoyalties,
+      ]);
+
+      expect(predictFactoryAddress(await erc1155Factory.getAddress(), user1Address, salt, initCode)).to.equal(
+        await erc1155Factory.predictAddress(user1Address, salt, ...multiTokenArgs, noRoyalties),
+      );
+    });
+
+    it("Should bind the salt to the creator", async function () {
+      expect(await erc1155Factory.predictAddress(user1Address, salt, ...multiTokenArgs, noRoyalties)).to.not.equal(
+        await erc1155Factory.predictAddress(user2Address, salt, ...multiTokenArgs, noRoyalties),
+      );
+    });
+
+    it("Should reject a zero salt", async function () {
+      await expect(
+        erc1155Factory.connect(user1).createMultiTokenDeterministic(...multiTokenArgs, noRoyalties, ethers.ZeroHash),
+      ).to.be.revertedWith("Salt cannot be zero");
+    });
+  });
+});
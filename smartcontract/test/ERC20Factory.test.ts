@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { ERC20Factory } from "../typechain-types";
+import { ERC20_TOKEN_CONSTRUCTOR_TYPES, getInitCode, predictFactoryAddress } from "../../frontend/utils/create2";
+import { SupplyUnit, toInitialSupplyArgs } from "../../frontend/utils/tokenSupply";
 
 describe("ERC20Factory", function () {
   let erc20Factory: ERC20Factory;
@@ -39,7 +41,9 @@ describe("ERC20Factory", function () {
       const initialSupply = 1000000;
       const decimals = 18;
 
-      const tx = await erc20Factory.connect(user1).createToken(tokenName, tokenSymbol, initialSupply, decimals);
+      const tx = await erc20Factory
+        .connect(user1)
+        .createToken(tokenName, tokenSymbol, initialSupply, decimals, SupplyUnit.WholeTokens);
 
       const receipt = await tx.wait();
       const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
@@ -55,21 +59,79 @@ describe("ERC20Factory", function () {
     });
 
     it("Should fail with empty name", async function () {
-      await expect(erc20Factory.connect(user1).createToken("", "TEST", 1000000, 18)).to.be.revertedWith(
-        "Name cannot be empty",
-      );
+      await expect(
+        erc20Factory.connect(user1).createToken("", "TEST", 1000000, 18, SupplyUnit.WholeTokens),
+      ).to.be.revertedWith("Name cannot be empty");
     });
 
     it("Should fail with empty symbol", async function () {
-      await expect(erc20Factory.connect(user1).createToken("Test Token", "", 1000000, 18)).to.be.revertedWith(
-        "Symbol cannot be empty",
-      );
+      await expect(
+        erc20Factory.connect(user1).createToken("Test Token", "", 1000000, 18, SupplyUnit.WholeTokens),
+      ).to.be.revertedWith("Symbol cannot be empty");
     });
 
     it("Should fail with decimals > 18", async function () {
-      await expect(erc20Factory.connect(user1).createToken("Test Token", "TEST", 1000000, 19)).to.be.revertedWith(
-        "Decimals cannot exceed 18",
+      await expect(
+        erc20Factory.connect(user1).createToken("Test Token", "TEST", 1000000, 19, SupplyUnit.WholeTokens),
+      ).to.be.revertedWith("Decimals cannot exceed 18");
+    });
+  });
+
+  describe("Initial Supply Units", function () {
+    async function createdToken(tx: any) {
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
+      const parsedEvent = erc20Factory.interface.parseLog(event as any)!;
+      return {
+        token: await ethers.getContractAt("ERC20Token", parsedEvent.args[0]),
+        initialSupply: parsedEvent.args[3],
+      };
+    }
+
+    it("Should mint exactly the amount the token factory page submits", async function () {
+      for (const [amount, decimals] of [
+        ["1000000", 18],
+        ["1234.5", 6],
+        ["21000000", 8],
+        ["42", 0],
+      ] as const) {
+        const [initialSupply, unit] = toInitialSupplyArgs(amount, decimals);
+        const { token, initialSupply: emitted } = await createdToken(
+          await erc20Factory.connect(user1).createToken("Test Token", "TEST", initialSupply, decimals, unit),
+        );
+
+        expect(await token.totalSupply()).to.equal(ethers.parseUnits(amount, decimals));
+        expect(await token.balanceOf(user1Address)).to.equal(ethers.parseUnits(amount, decimals));
+        expect(emitted).to.equal(initialSupply);
+      }
+    });
+
+    it("Should scale whole tokens by the decimals", async function () {
+      const { token, initialSupply } = await createdToken(
+        await erc20Factory.connect(user1).createToken("Test Token", "TEST", 500, 6, SupplyUnit.WholeTokens),
+      );
+
+      expect(await token.totalSupply()).to.equal(500n * 10n ** 6n);
+      expect(initialSupply).to.equal(500n * 10n ** 6n);
+    });
+
+    it("Should apply the unit to configured tokens", async function () {
+      const config = {
+        cap: 0n,
+        pausable: false,
+        permit: false,
+        votes: false,
+        blocklist: false,
+        transferTaxBps: 0,
+        taxRecipient: ethers.ZeroAddress,
+      };
+      const { token } = await createdToken(
+        await erc20Factory
+          .connect(user1)
+          .createConfiguredToken("Test Token", "TEST", 750, 18, SupplyUnit.BaseUnits, config),
       );
+
+      expect(await token.totalSupply()).to.equal(750);
     });
   });
 
@@ -77,7 +139,9 @@ describe("ERC20Factory", function () {
     let tokenAddress: string;
 
     beforeEach(async function () {
-      const tx = await erc20Factory.connect(user1).createToken("Test Token", "TEST", 1000000, 18);
+      const tx = await erc20Factory
+        .connect(user1)
+        .createToken("Test Token", "TEST", 1000000, 18, SupplyUnit.WholeTokens);
       const receipt = await tx.wait();
       const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
       if (event) {
@@ -91,7 +155,7 @@ describe("ERC20Factory", function () {
         expect(tokenAddress).to.not.equal(ethers.ZeroAddress);
         expect(tokenName).to.equal("Test Token");
         expect(tokenSymbol).to.equal("TEST");
-        expect(initialSupply).to.equal(1000000);
+        expect(initialSupply).to.equal(ethers.parseUnits("1000000", 18));
         expect(decimals).to.equal(18);
       }
     });
@@ -106,7 +170,7 @@ describe("ERC20Factory", function () {
     });
 
     it("Should allow users to create multiple tokens", async function () {
-      await erc20Factory.connect(user1).createToken("Test Token 2", "TEST2", 500000, 18);
+      await erc20Factory.connect(user1).createToken("Test Token 2", "TEST2", 500000, 18, SupplyUnit.WholeTokens);
 
       expect(await erc20Factory.getTokenCount()).to.equal(2);
 
@@ -114,4 +178,349 @@ describe("ERC20Factory", function () {
       expect(userTokens.length).to.equal(2);
     });
   });
+
+  describe("Token Features", function () {
+    const noFeatures = {
+      cap: 0n,
+      pausable: false,
+      permit: false,
+      votes: false,
+      blocklist: false,
+      transferTaxBps: 0,
+      taxRecipient: ethers.ZeroAddress,
+    };
+
+    async function createConfiguredToken(config: Partial<typeof noFeatures>, initialSupply = 1000) {
+      const fullConfig = { ...noFeatures, ...config };
+      const tx = await erc20Factory
+        .connect(user1)
+        .createConfiguredToken("Feature Token", "FEAT", initialSupply, 18, SupplyUnit.WholeTokens, fullConfig);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
+      const tokenAddress = erc20Factory.interface.parseLog(event as any)!.args[0];
+      return ethers.getContractAt("ERC20Token", tokenAddress);
+    }
+
+    it("Should record the token config on the factory and the token", async function () {
+      const token = await createConfiguredToken({ cap: ethers.parseEther("5000"), pausable: true, votes: true });
+      const tokenAddress = await token.getAddress();
+
+      const recorded = await erc20Factory.getTokenConfig(tokenAddress);
+      expect(recorded.cap).to.equal(ethers.parseEther("5000"));
+      expect(recorded.pausable).to.be.true;
+      expect(recorded.votes).to.be.true;
+      expect(recorded.permit).to.be.false;
+
+      const config = await token.getConfig();
+      expect(config.cap).to.equal(ethers.parseEther("5000"));
+      expect(config.pausable).to.be.true;
+    });
+
+    it("Should keep createToken free of optional features", async function () {
+      await erc20Factory.connect(user1).createToken("Plain Token", "PLAIN", 1000, 18, SupplyUnit.WholeTokens);
+      const [tokenAddress] = await erc20Factory.getTokensByCreator(user1Address);
+      const token = await ethers.getContractAt("ERC20Token", tokenAddress);
+
+      await expect(token.connect(user1).pause()).to.be.revertedWith("Pausing is disabled");
+      await expect(token.connect(user1).delegate(user1Address)).to.be.revertedWith("Votes are disabled");
+      expect(await token.cap()).to.equal(0);
+    });
+
+    it("Should enforce the supply cap on mint", async function () {
+      const token = await createConfiguredToken({ cap: ethers.parseEther("1500") });
+
+      await token.connect(user1).mint(user2Address, ethers.parseEther("500"));
+      await expect(token.connect(user1).mint(user2Address, 1)).to.be.revertedWith("Cap exceeded");
+    });
+
+    it("Should reject an initial supply above the cap", async function () {
+      await expect(createConfiguredToken({ cap: ethers.parseEther("10") })).to.be.revertedWith("Cap exceeded");
+    });
+
+    it("Should block transfers while paused", async function () {
+      const token = await createConfiguredToken({ pausable: true });
+
+      await token.connect(user1).pause();
+      await expect(token.connect(user1).transfer(user2Address, 1)).to.be.revertedWithCustomError(
+        token,
+        "EnforcedPause",
+      );
+
+      await token.connect(user1).unpause();
+      await token.connect(user1).transfer(user2Address, 1);
+      expect(await token.balanceOf(user2Address)).to.equal(1);
+    });
+
+    it("Should accept permits only when enabled", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const deadline = ethers.MaxUint256;
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+
+      for (const permit of [true, false]) {
+        const token = await createConfiguredToken({ permit });
+        const domain = { name: "Feature Token", version: "1", chainId, verifyingContract: await token.getAddress() };
+        const value = { owner: user1Address, spender: user2Address, value: 100n, nonce: 0n, deadline };
+        const { v, r, s } = ethers.Signature.from(await user1.signTypedData(domain, types, value));
+        const call = token.permit(user1Address, user2Address, 100n, deadline, v, r, s);
+
+        if (permit) {
+          await call;
+          expect(await token.allowance(user1Address, user2Address)).to.equal(100n);
+        } else {
+          await expect(call).to.be.revertedWith("Permit is disabled");
+        }
+      }
+    });
+
+    it("Should track delegated votes when enabled", async function () {
+      const token = await createConfiguredToken({ votes: true });
+
+      await token.connect(user1).delegate(user1Address);
+      expect(await token.getVotes(user1Address)).to.equal(ethers.parseEther("1000"));
+
+      await token.connect(user1).transfer(user2Address, ethers.parseEther("400"));
+      expect(await token.getVotes(user1Address)).to.equal(ethers.parseEther("600"));
+    });
+
+    it("Should stop blocked addresses from sending and receiving", async function () {
+      const token = await createConfiguredToken({ blocklist: true });
+
+      await expect(token.connect(user1).setBlocked(user2Address, true))
+        .to.emit(token, "BlockedStatusChanged")
+        .withArgs(user2Address, true);
+      await expect(token.connect(user1).transfer(user2Address, 1)).to.be.revertedWith("Address is blocked");
+
+      await token.connect(user1).setBlocked(user2Address, false);
+      await token.connect(user1).transfer(user2Address, 1);
+      expect(await token.balanceOf(user2Address)).to.equal(1);
+    });
+
+    it("Should not allow blocking when the blocklist is disabled", async function () {
+      const token = await createConfiguredToken({});
+      await expect(token.connect(user1).setBlocked(user2Address, true)).to.be.revertedWith("Blocklist is disabled");
+    });
+
+    it("Should take the transfer tax from transfers but not mints", async function () {
+      const token = await createConfiguredToken({ transferTaxBps: 250, taxRecipient: ownerAddress });
+
+      expect(await token.balanceOf(ownerAddress)).to.equal(0);
+      await token.connect(user1).transfer(user2Address, ethers.parseEther("100"));
+
+      expect(await token.balanceOf(user2Address)).to.equal(ethers.parseEther("97.5"));
+      expect(await token.balanceOf(ownerAddress)).to.equal(ethers.parseEther("2.5"));
+      expect(await token.totalSupply()).to.equal(ethers.parseEther("1000"));
+    });
+
+    it("Should validate the transfer tax settings", async function () {
+      await expect(createConfiguredToken({ transferTaxBps: 1001, taxRecipient: ownerAddress })).to.be.revertedWith(
+        "Transfer tax too high",
+      );
+      await expect(createConfiguredToken({ transferTaxBps: 100 })).to.be.revertedWith("Tax recipient required");
+    });
+  });
+
+  describe("Clone Deployment", function () {
+    const config = {
+      cap: ethers.parseEther("2000"),
+      pausable: true,
+      permit: true,
+      votes: false,
+      blocklist: false,
+      transferTaxBps: 0,
+      taxRecipient: ethers.ZeroAddress,
+    };
+    const args = ["Clone Token", "CLONE", 1000, 18, SupplyUnit.WholeTokens, config] as const;
+
+    async function createClone() {
+      const tx = await erc20Factory.connect(user1).createTokenClone(...args);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "TokenCreated");
+      const tokenAddress = erc20Factory.interface.parseLog(event as any)!.args[0];
+      return ethers.getContractAt("ERC20Token", tokenAddress);
+    }
+
+    it("Should initialize the clone like a directly deployed token", async function () {
+      const token = await createClone();
+      const tokenAddress = await token.getAddress();
+
+      expect(await token.name()).to.equal("Clone Token");
+      expect(await token.symbol()).to.equal("CLONE");
+      expect(await token.decimals()).to.equal(18);
+      expect(await token.owner()).to.equal(user1Address);
+      expect(await token.balanceOf(user1Address)).to.equal(ethers.parseEther("1000"));
+      expect(await token.cap()).to.equal(ethers.parseEther("2000"));
+      expect(await erc20Factory.getTokensByCreator(user1Address)).to.deep.equal([tokenAddress]);
+      expect((await erc20Factory.getTokenConfig(tokenAddress)).pausable).to.be.true;
+    });
+
+    it("Should enforce the config held in the clone's storage", async function () {
+      const token = await createClone();
+
+      await expect(token.connect(user1).mint(user2Address, ethers.parseEther("1001"))).to.be.revertedWith(
+        "Cap exceeded",
+      );
+      await token.connect(user1).pause();
+      await expect(token.connect(user1).transfer(user2Address, 1)).to.be.revertedWithCustomError(
+        token,
+        "EnforcedPause",
+      );
+      await expect(token.connect(user1).delegate(user1Address)).to.be.revertedWith("Votes are disabled");
+    });
+
+    it("Should accept permits signed for the clone's EIP-712 domain", async function () {
+      const token = await createClone();
+      const [, domainName, version, chainId, verifyingContract] = await token.eip712Domain();
+      const deadline = ethers.MaxUint256;
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      const value = { owner: user1Address, spender: user2Address, value: 100n, nonce: 0n, deadline };
+      const signature = await user1.signTypedData(
+        { name: domainName, version, chainId, verifyingContract },
+        types,
+        value,
+      );
+      const { v, r, s } = ethers.Signature.from(signature);
+
+      expect(verifyingContract).to.equal(await token.getAddress());
+      await token.permit(user1Address, user2Address, 100n, deadline, v, r, s);
+      expect(await token.allowance(user1Address, user2Address)).to.equal(100n);
+    });
+
+    it("Should not initialize a clone or the implementation twice", async function () {
+      const token = await createClone();
+      const implementation = await ethers.getContractAt("ERC20Token", await erc20Factory.tokenImplementation());
+
+      for (const target of [token, implementation]) {
+        await expect(
+          target.connect(user2).initialize("Hijack", "HJK", 1, 18, user2Address, config),
+        ).to.be.revertedWithCustomError(target, "InvalidInitialization");
+      }
+    });
+
+    it("Should validate the token arguments", async function () {
+      await expect(
+        erc20Factory.connect(user1).createTokenClone("", "CLONE", 1000, 18, SupplyUnit.WholeTokens, config),
+      ).to.be.revertedWith("Name cannot be empty");
+      await expect(
+        erc20Factory
+          .connect(user1)
+          .createTokenClone("Clone Token", "CLONE", 1000, 18, SupplyUnit.WholeTokens, { ...config, transferTaxBps: 1 }),
+      ).to.be.revertedWith("Tax recipient required");
+    });
+
+    it("Should cost much less gas to deploy than a full token", async function () {
+      const fullReceipt = await (await erc20Factory.connect(user1).createConfiguredToken(...args)).wait();
+      const cloneReceipt = await (await erc20Factory.connect(user1).createTokenClone(...args)).wait();
+
+      expect(cloneReceipt!.gasUsed * 5n).to.be.lessThan(fullReceipt!.gasUsed);
+    });
+  });
+
+  describe("Pagination", function () {
+    let user1Tokens: string[];
+
+    beforeEach(async function () {
+      for (const symbol of ["ONE", "TWO", "THREE"]) {
+        await erc20Factory.connect(user1).createToken(`Token ${symbol}`, symbol, 1000, 18, SupplyUnit.WholeTokens);
+      }
+      await erc20Factory.connect(user2).createToken("Other Token", "OTHER", 1000, 18, SupplyUnit.WholeTokens);
+      user1Tokens = [...(await erc20Factory.getTokensByCreator(user1Address))];
+    });
+
+    it("Should index tokens by creator in creation order", async function () {
+      expect(user1Tokens.length).to.equal(3);
+      expect(await erc20Factory.getTokenCountByCreator(user1Address)).to.equal(3);
+      expect(await erc20Factory.getTokenCountByCreator(user2Address)).to.equal(1);
+
+      const allTokens = await erc20Factory.getAllTokens();
+      expect(user1Tokens).to.deep.equal(allTokens.slice(0, 3));
+    });
+
+    it("Should return a creator's tokens page by page", async function () {
+      expect(await erc20Factory.getTokensByCreatorPage(user1Address, 0, 2)).to.deep.equal(user1Tokens.slice(0, 2));
+      expect(await erc20Factory.getTokensByCreatorPage(user1Address, 2, 2)).to.deep.equal(user1Tokens.slice(2));
+      expect(await erc20Factory.getTokensByCreatorPage(user1Address, 3, 2)).to.deep.equal([]);
+    });
+
+    it("Should page through all tokens", async function () {
+      const allTokens = await erc20Factory.getAllTokens();
+
+      expect(await erc20Factory.getTokensPage(1, 2)).to.deep.equal(allTokens.slice(1, 3));
+      expect(await erc20Factory.getTokensPage(0, ethers.MaxUint256)).to.deep.equal(allTokens);
+      expect(await erc20Factory.getTokensPage(10, 1)).to.deep.equal([]);
+    });
+  });
+
+  describe("Deterministic Deployment", function () {
+    const salt = ethers.id("my-token");
+    const config = {
+      cap: 0n,
+      pausable: true,
+      permit: false,
+      votes: false,
+      blocklist: false,
+      transferTaxBps: 0,
+      taxRecipient: ethers.ZeroAddress,
+    };
+    const args = ["Salted Token", "SALT", 1000, 18, SupplyUnit.WholeTokens, config] as const;
+
+    it("Should deploy to the predicted address", async function () {
+      const predicted = await erc20Factory.predictAddress(user1Address, salt, ...args);
+
+      await expect(erc20Factory.connect(user1).createTokenDeterministic(...args, salt))
+        .to.emit(erc20Factory, "TokenCreated")
+        .withArgs(predicted, "Salted Token", "SALT", ethers.parseUnits("1000", 18), 18, user1Address);
+
+      expect(await erc20Factory.getTokensByCreator(user1Address)).to.deep.equal([predicted]);
+      expect((await erc20Factory.getTokenConfig(predicted)).pausable).to.be.true;
+    });
+
+    it("Should match the off-chain address helper", async function () {
+      const { bytecode } = await ethers.getContractFactory("ERC20Token");
+      const initCode = getInitCode(bytecode, ERC20_TOKEN_CONSTRUCTOR_TYPES, [
+        "Salted Token",
+        "SALT",
+        ethers.parseUnits("1000", 18),
+        18,
+        user1Address,
+        config,
+      ]);
+
+      expect(predictFactoryAddress(await erc20Factory.getAddress(), user1Address, salt, initCode)).to.equal(
+        await erc20Factory.predictAddress(user1Address, salt, ...args),
+      );
+    });
+
+    it("Should bind the salt to the creator", async function () {
+      expect(await erc20Factory.predictAddress(user1Address, salt, ...args)).to.not.equal(
+        await erc20Factory.predictAddress(user2Address, salt, ...args),
+      );
+    });
+
+    it("Should not reuse a salt with the same arguments", async function () {
+      await erc20Factory.connect(user1).createTokenDeterministic(...args, salt);
+      await expect(erc20Factory.connect(user1).createTokenDeterministic(...args, salt)).to.be.reverted;
+    });
+
+    it("Should reject a zero salt", async function () {
+      await expect(erc20Factory.connect(user1).createTokenDeterministic(...args, ethers.ZeroHash)).to.be.revertedWith(
+        "Salt cannot be zero",
+      );
+    });
+  });
 });
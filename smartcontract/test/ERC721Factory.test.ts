@@ -0,0 +1,372 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ERC721Factory } from "../typechain-types";
+import { CUSTOM_ERC721_CONSTRUCTOR_TYPES, getInitCode, predictFactoryAddress } from "../../frontend/utils/create2";
+import { generateMerkleProof, generateMerkleTree } from "../../frontend/utils/Merkle";
+
+describe("ERC721Factory", function () {
+  let erc721Factory: ERC721Factory;
+  let owner: any;
+  let user1: any;
+  let user2: any;
+  let user1Address: string;
+  let user2Address: string;
+
+  const collectionArgs = ["Test Collection", "TNFT", "ipfs://collection", 100, true, true, true] as const;
+  const noRoyalties = { receiver: ethers.ZeroAddress, feeNumerator: 0, tokenRoyalties: [] };
+
+  beforeEach(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+    user1Address = await user1.getAddress();
+    user2Address = await user2.getAddress();
+
+    const ERC721FactoryFactory = await ethers.getContractFactory("ERC721Factory");
+    erc721Factory = (await ERC721FactoryFactory.deploy()) as ERC721Factory;
+    await erc721Factory.waitForDeployment();
+  });
+
+  // Collection created by the factory call sent in tx
+  async function getCollection(tx: Promise<any>) {
+    const receipt = await (await tx).wait();
+    const event = receipt?.logs.find((log: any) => log.fragment?.name === "CollectionCreated");
+    return ethers.getContractAt("CustomERC721", erc721Factory.interface.parseLog(event as any)!.args[0]);
+  }
+
+  describe("Collection Creation", function () {
+    it("Should create a collection owned by the creator", async function () {
+      const tx = await erc721Factory.connect(user1).createCollection(...collectionArgs);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "CollectionCreated");
+      const collectionAddress = erc721Factory.interface.parseLog(event as any)!.args[0];
+
+      const collection = await ethers.getContractAt("CustomERC721", collectionAddress);
+      expect(await collection.owner()).to.equal(user1Address);
+      expect(await collection.getMaxSupply()).to.equal(100);
+      expect(await erc721Factory.getCollectionsByCreator(user1Address)).to.deep.equal([collectionAddress]);
+    });
+
+    it("Should fail with empty name", async function () {
+      await expect(
+        erc721Factory.connect(user1).createCollection("", "TNFT", "ipfs://collection", 100, true, true, true),
+      ).to.be.revertedWith("Name cannot be empty");
+    });
+  });
+
+  describe("Pausing", function () {
+    it("Should block transfers, mints and burns while paused", async function () {
+      const collection = await getCollection(erc721Factory.connect(user1).createCollection(...collectionArgs));
+      await collection.connect(user1).mint(user2Address, "");
+
+      await collection.connect(user1).pause();
+      await expect(collection.connect(user2).transferFrom(user2Address, user1Address, 1)).to.be.revertedWith(
+        "Contract is paused",
+      );
+      await expect(collection.connect(user1).mint(user2Address, "")).to.be.revertedWith("Contract is paused");
+      await expect(collection.connect(user2).burn(1)).to.be.revertedWith("Contract is paused");
+
+      await collection.connect(user1).unpause();
+      await collection.connect(user2).transferFrom(user2Address, user1Address, 1);
+      expect(await collection.ownerOf(1)).to.equal(user1Address);
+    });
+  });
+
+  describe("Royalties", function () {
+    const royalties = () => ({
+      receiver: user2Address,
+      feeNumerator: 500,
+      tokenRoyalties: [{ tokenId: 2, receiver: user1Address, feeNumerator: 1000 }],
+    });
+
+    it("Should set default and per-token royalties at creation", async function () {
+      const collection = await getCollection(
+        erc721Factory.connect(user1).createCollectionWithRoyalties(...collectionArgs, royalties()),
+      );
+
+      expect(await collection.royaltyInfo(1, 10_000)).to.deep.equal([user2Address, 500n]);
+      expect(await collection.royaltyInfo(2, 10_000)).to.deep.equal([user1Address, 1000n]);
+      // ERC-2981 interface ID
+      expect(await collection.supportsInterface("0x2a55205a")).to.be.true;
+    });
+
+    it("Should set royalties on clones and deterministic deployments", async function () {
+      const clone = await getCollection(
+        erc721Factory.connect(user1).createCollectionClone(...collectionArgs, royalties()),
+      );
+      const salt = ethers.id("royalties");
+      const predicted = await erc721Factory.predictAddress(user1Address, salt, ...collectionArgs, royalties());
+      const deterministic = await getCollection(
+        erc721Factory.connect(user1).createCollectionDeterministic(...collectionArgs, royalties(), salt),
+      );
+
+      expect(await deterministic.getAddress()).to.equal(predicted);
+      for (const collection of [clone, deterministic]) {
+        expect(await collection.royaltyInfo(2, 10_000)).to.deep.equal([user1Address, 1000n]);
+      }
+    });
+
+    it("Should pay no royalty when none is configured", async function () {
+      const collection = await getCollection(erc721Factory.connect(user1).createCollection(...collectionArgs));
+      expect(await collection.royaltyInfo(1, 10_000)).to.deep.equal([ethers.ZeroAddress, 0n]);
+    });
+
+    it("Should let only the owner change royalties", async function () {
+      const collection = await getCollection(
+        erc721Factory.connect(user1).createCollectionWithRoyalties(...collectionArgs, royalties()),
+      );
+
+      await expect(collection.connect(user2).setDefaultRoyalty(user2Address, 100)).to.be.revertedWithCustomError(
+        collection,
+        "OwnableUnauthorizedAccount",
+      );
+      await collection.connect(user1).setDefaultRoyalty(user1Address, 250);
+      await collection.connect(user1).resetTokenRoyalty(2);
+      expect(await collection.royaltyInfo(2, 10_000)).to.deep.equal([user1Address, 250n]);
+
+      await collection.connect(user1).deleteDefaultRoyalty();
+      expect(await collection.royaltyInfo(1, 10_000)).to.deep.equal([ethers.ZeroAddress, 0n]);
+    });
+
+    it("Should reject a royalty above 100%", async function () {
+      await expect(
+        erc721Factory.connect(user1).createCollectionWithRoyalties(...collectionArgs, {
+          receiver: user2Address,
+          feeNumerator: 10_001,
+          tokenRoyalties: [],
+        }),
+      ).to.be.revertedWithCustomError(await ethers.getContractFactory("CustomERC721"), "ERC2981InvalidDefaultRoyalty");
+    });
+  });
+
+  describe("Sales", function () {
+    const ALLOWLIST = 0;
+    const PUBLIC = 1;
+    const price = ethers.parseEther("0.01");
+
+    async function latestTime() {
+      return BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+    }
+
+    async function createSaleCollection() {
+      return getCollection(erc721Factory.connect(user1).createCollection(...collectionArgs));
+    }
+
+    function saleConfig(startTime: bigint, overrides: Partial<Record<string, any>> = {}) {
+      return { price, maxPerWallet: 2, startTime, endTime: 0, merkleRoot: ethers.ZeroHash, ...overrides };
+    }
+
+    it("Should sell tokens in the public phase within the wallet limit", async function () {
+      const collection = await createSaleCollection();
+      await expect(collection.connect(user2).publicMint(1, { value: price })).to.be.revertedWith("Sale is not active");
+
+      await collection.connect(user1).setSaleConfig(PUBLIC, saleConfig(await latestTime()));
+      await expect(collection.connect(user2).publicMint(2, { value: price * 2n }))
+        .to.emit(collection, "SaleMinted")
+        .withArgs(PUBLIC, user2Address, 2, price * 2n);
+
+      expect(await collection.balanceOf(user2Address)).to.equal(2);
+      expect(await collection.currentSupply()).to.equal(2);
+      expect(await collection.mintedInPhase(PUBLIC, user2Address)).to.equal(2);
+      await expect(collection.connect(user2).publicMint(1, { value: price })).to.be.revertedWith(
+        "Wallet limit exceeded",
+      );
+      await expect(collection.connect(owner).publicMint(1, { value: price - 1n })).to.be.revertedWith(
+        "Incorrect payment",
+      );
+      await expect(collection.connect(owner).publicMint(0)).to.be.revertedWith("Quantity must be greater than 0");
+    });
+
+    it("Should only sell between the start and end times", async function () {
+      const collection = await createSaleCollection();
+      const now = await latestTime();
+      await collection.connect(user1).setSaleConfig(PUBLIC, saleConfig(now + 3600n, { endTime: now + 7200n }));
+      await expect(collection.connect(user2).publicMint(1, { value: price })).to.be.revertedWith("Sale is not active");
+
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await collection.isSaleActive(PUBLIC)).to.be.true;
+      await collection.connect(user2).publicMint(1, { value: price });
+
+      await ethers.provider.send("evm_increaseTime", [3600]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(collection.connect(user2).publicMint(1, { value: price })).to.be.revertedWith("Sale is not active");
+
+      await expect(
+        collection.connect(user1).setSaleConfig(PUBLIC, saleConfig(now + 7200n, { endTime: now + 3600n })),
+      ).to.be.revertedWith("End time must be after start time");
+    });
+
+    it("Should sell allowlist tokens only to addresses in the Merkle tree", async function () {
+      const collection = await createSaleCollection();
+      const tree = generateMerkleTree([user2Address, await owner.getAddress()]);
+      const proof = generateMerkleProof(tree, user2Address);
+
+      await expect(
+        collection.connect(user1).setSaleConfig(ALLOWLIST, saleConfig(await latestTime())),
+      ).to.be.revertedWith("Allowlist needs a Merkle root");
+      await collection
+        .connect(user1)
+        .setSaleConfig(ALLOWLIST, saleConfig(await latestTime(), { merkleRoot: tree.getHexRoot() }));
+
+      await collection.connect(user2).allowlistMint(1, proof, { value: price });
+      expect(await collection.mintedInPhase(ALLOWLIST, user2Address)).to.equal(1);
+      await expect(collection.connect(user1).allowlistMint(1, proof, { value: price })).to.be.revertedWith(
+        "Not on the allowlist",
+      );
+      // The allowlist phase does not open the public sale
+      await expect(collection.connect(user2).publicMint(1, { value: price })).to.be.revertedWith("Sale is not active");
+    });
+
+    it("Should respect the max supply and minting and pause switches", async function () {
+      const collection = await getCollection(
+        erc721Factory.connect(user1).createCollection("Small", "SML", "ipfs://small", 3, true, true, true),
+      );
+      await collection.connect(user1).setSaleConfig(PUBLIC, saleConfig(await latestTime(), { maxPerWallet: 0 }));
+      await collection.connect(user1).mint(user1Address, "");
+
+      await expect(collection.connect(user2).publicMint(3, { value: price * 3n })).to.be.revertedWith(
+        "Max supply would be exceeded",
+      );
+      await collection.connect(user1).pause();
+      await expect(collection.connect(user2).publicMint(1, { value: price })).to.be.revertedWith("Contract is paused");
+
+      const fixed = await getCollection(
+        erc721Factory.connect(user1).createCollection("Fixed", "FXD", "ipfs://fixed", 0, false, true, true),
+      );
+      await fixed.connect(user1).setSaleConfig(PUBLIC, saleConfig(await latestTime()));
+      await expect(fixed.connect(user2).publicMint(1, { value: price })).to.be.revertedWith("Minting is disabled");
+    });
+
+    it("Should let only the owner configure sales and withdraw proceeds", async function () {
+      const collection = await createSaleCollection();
+      await expect(
+        collection.connect(user2).setSaleConfig(PUBLIC, saleConfig(await latestTime())),
+      ).to.be.revertedWithCustomError(collection, "OwnableUnauthorizedAccount");
+      await collection.connect(user1).setSaleConfig(PUBLIC, saleConfig(await latestTime()));
+      await collection.connect(user2).publicMint(2, { value: price * 2n });
+
+      await expect(collection.connect(user2).withdraw(user2Address)).to.be.revertedWithCustomError(
+        collection,
+        "OwnableUnauthorizedAccount",
+      );
+      const before = await ethers.provider.getBalance(owner.address);
+      await expect(collection.connect(user1).withdraw(owner.address))
+        .to.emit(collection, "ProceedsWithdrawn")
+        .withArgs(owner.address, price * 2n);
+      expect(await ethers.provider.getBalance(owner.address)).to.equal(before + price * 2n);
+      await expect(collection.connect(user1).withdraw(owner.address)).to.be.revertedWith("Nothing to withdraw");
+    });
+
+    it("Should run sales on clones", async function () {
+      const collection = await getCollection(
+        erc721Factory.connect(user1).createCollectionClone(...collectionArgs, noRoyalties),
+      );
+      await collection.connect(user1).setSaleConfig(PUBLIC, saleConfig(await latestTime()));
+      await collection.connect(user2).publicMint(1, { value: price });
+      expect(await collection.ownerOf(1)).to.equal(user2Address);
+    });
+  });
+
+  describe("Clone Deployment", function () {
+    async function createClone() {
+      const tx = await erc721Factory.connect(user1).createCollectionClone(...collectionArgs, noRoyalties);
+      const receipt = await tx.wait();
+      const event = receipt?.logs.find((log: any) => log.fragment?.name === "CollectionCreated");
+      const collectionAddress = erc721Factory.interface.parseLog(event as any)!.args[0];
+      return ethers.getContractAt("CustomERC721", collectionAddress);
+    }
+
+    it("Should initialize the clone like a directly deployed collection", async function () {
+      const collection = await createClone();
+
+      expect(await collection.name()).to.equal("Test Collection");
+      expect(await collection.symbol()).to.equal("TNFT");
+      expect(await collection.owner()).to.equal(user1Address);
+      expect(await collection.getMaxSupply()).to.equal(100);
+      expect(await collection.isPausable()).to.be.true;
+      expect(await erc721Factory.getCollectionsByCreator(user1Address)).to.deep.equal([await collection.getAddress()]);
+
+      await collection.connect(user1).mint(user2Address, "");
+      expect(await collection.ownerOf(1)).to.equal(user2Address);
+      expect(await collection.tokenURI(1)).to.equal("ipfs://collection/1");
+    });
+
+    it("Should not initialize a clone or the implementation twice", async function () {
+      const collection = await createClone();
+      const implementation = await ethers.getContractAt("CustomERC721", await erc721Factory.collectionImplementation());
+
+      for (const target of [collection, implementation]) {
+        await expect(
+          target.connect(user2).initialize("Hijack", "HJK", "", 0, true, true, true, user2Address, noRoyalties),
+        ).to.be.revertedWithCustomError(target, "InvalidInitialization");
+      }
+    });
+
+    it("Should cost much less gas to deploy than a full collection", async function () {
+      const fullReceipt = await (await erc721Factory.connect(user1).createCollection(...collectionArgs)).wait();
+      const cloneReceipt = await (
+        await erc721Factory.connect(user1).createCollectionClone(...collectionArgs, noRoyalties)
+      ).wait();
+
+      expect(cloneReceipt!.gasUsed * 3n).to.be.lessThan(fullReceipt!.gasUsed);
+    });
+  });
+
+  describe("Pagination", function () {
+    it("Should index and page collections by creator", async function () {
+      for (let i = 0; i < 3; i++) {
+        await erc721Factory.connect(user1).createCollection(...collectionArgs);
+      }
+      await erc721Factory.connect(user2).createCollection(...collectionArgs);
+
+      const user1Collections = await erc721Factory.getCollectionsByCreator(user1Address);
+      expect(await erc721Factory.getCollectionCountByCreator(user1Address)).to.equal(3);
+      expect(await erc721Factory.getCollectionsByCreatorPage(user1Address, 1, 5)).to.deep.equal(
+        user1Collections.slice(1),
+      );
+      expect(await erc721Factory.getCollectionsByCreatorPage(user2Address, 1, 5)).to.deep.equal([]);
+      expect(await erc721Factory.getCollectionsPage(2, 2)).to.deep.equal([
+        user1Collections[2],
+        ...(await erc721Factory.getCollectionsByCreator(user2Address)),
+      ]);
+    });
+  });
+
+  describe("Deterministic Deployment", function () {
+    const salt = ethers.id("my-collection");
+
+    it("Should deploy to the predicted address", async function () {
+      const predicted = await erc721Factory.predictAddress(user1Address, salt, ...collectionArgs, noRoyalties);
+
+      await expect(erc721Factory.connect(user1).createCollectionDeterministic(...collectionArgs, noRoyalties, salt))
+        .to.emit(erc721Factory, "CollectionCreated")
+        .withArgs(predicted, "Test Collection", "TNFT", user1Address, 100, true, true, true);
+
+      expect((await erc721Factory.collections(predicted)).creator).to.equal(user1Address);
+    });
+
+    it("Should match the off-chain address helper", async function () {
+      const { bytecode } = await ethers.getContractFactory("CustomERC721");
+      const initCode = getInitCode(bytecode, CUSTOM_ERC721_CONSTRUCTOR_TYPES, [
+        ...collectionArgs,
+        user1Address,
+        noRoyalties,
+      ]);
+
+      expect(predictFactoryAddress(await erc721Factory.getAddress(), user1Address, salt, initCode)).to.equal(
+        await erc721Factory.predictAddress(user1Address, salt, ...collectionArgs, noRoyalties),
+      );
+    });
+
+    it("Should bind the salt to the creator", async function () {
+      expect(await erc721Factory.predictAddress(user1Address, salt, ...collectionArgs, noRoyalties)).to.not.equal(
+        await erc721Factory.predictAddress(user2Address, salt, ...collectionArgs, noRoyalties),
+      );
+    });
+
+    it("Should reject a zero salt", async function () {
+      await expect(
+        erc721Factory.connect(user1).createCollectionDeterministic(...collectionArgs, noRoyalties, ethers.ZeroHash),
+      ).to.be.revertedWith("Salt cannot be zero");
+    });
+  });
+});
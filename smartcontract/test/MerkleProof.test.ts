@@ -1,6 +1,12 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { MerkleProofX } from "../typechain-types";
+import {
+  VERIFIED_CLAIM_TYPES,
+  recoverVerifiedClaimSigner,
+  toSignedVerifiedClaim,
+  verifiedClaimDomain,
+} from "../../frontend/utils/verifiedClaims";
 
 describe("MerkleProof", function () {
   let merkleProof: MerkleProofX;
@@ -485,6 +491,100 @@ describe("MerkleProof", function () {
     });
   });
 
+  describe("Verified Proofs", function () {
+    let verifier: any;
+    let deadline: bigint;
+
+    // Sign a VerifiedClaim for the claimer's current nonce, as the verifier console does
+    async function signClaim(signer: any, claimer: string, claimDeadline: bigint, nonce?: bigint) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = verifiedClaimDomain(chainId, await merkleProof.getAddress());
+      const claim = { claimer, nonce: nonce ?? (await merkleProof.nonces(claimer)), deadline: claimDeadline };
+      return { domain, claim, signature: await signer.signTypedData(domain, VERIFIED_CLAIM_TYPES, claim) };
+    }
+
+    beforeEach(async function () {
+      verifier = owner;
+      await merkleProof.connect(treasury).setTrustedVerifier(ownerAddress);
+      const latestBlock = await ethers.provider.getBlock("latest");
+      deadline = BigInt(latestBlock!.timestamp + 60 * 60);
+    });
+
+    it("Should verify a claimer signed by the trusted verifier", async function () {
+      const { signature } = await signClaim(verifier, user1Address, deadline);
+
+      await expect(merkleProof.connect(user2).submitVerifiedProof(user1Address, deadline, signature))
+        .to.emit(merkleProof, "ClaimerVerified")
+        .withArgs(user1Address, ownerAddress, 0n);
+
+      expect(await merkleProof.isKosVerified(user1Address)).to.be.true;
+      expect(await merkleProof.nonces(user1Address)).to.equal(1n);
+    });
+
+    it("Should match the frontend typed data helpers", async function () {
+      const { domain, claim, signature } = await signClaim(verifier, user1Address, deadline);
+      const signed = toSignedVerifiedClaim(claim, signature);
+
+      expect(recoverVerifiedClaimSigner(domain, signed)).to.equal(ownerAddress);
+      expect(await merkleProof.VERIFIED_CLAIM_TYPEHASH()).to.equal(
+        ethers.id("VerifiedClaim(address claimer,uint256 nonce,uint256 deadline)"),
+      );
+    });
+
+    it("Should not replay a consumed signature", async function () {
+      const { signature } = await signClaim(verifier, user1Address, deadline);
+      await merkleProof.submitVerifiedProof(user1Address, deadline, signature);
+
+      expect(await merkleProof.submitVerifiedProof.staticCall(user1Address, deadline, signature)).to.be.false;
+      await expect(merkleProof.submitVerifiedProof(user1Address, deadline, signature)).not.to.emit(
+        merkleProof,
+        "ClaimerVerified",
+      );
+      expect(await merkleProof.nonces(user1Address)).to.equal(1n);
+    });
+
+    it("Should reject expired signatures", async function () {
+      const { signature } = await signClaim(verifier, user1Address, deadline);
+
+      await ethers.provider.send("evm_increaseTime", [2 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(merkleProof.submitVerifiedProof(user1Address, deadline, signature)).to.be.revertedWith(
+        "Signature expired",
+      );
+      expect(await merkleProof.isKosVerified(user1Address)).to.be.false;
+    });
+
+    it("Should reject signatures from other signers, claimers or deadlines", async function () {
+      const { signature: forged } = await signClaim(user3, user1Address, deadline);
+      expect(await merkleProof.submitVerifiedProof.staticCall(user1Address, deadline, forged)).to.be.false;
+
+      const { signature } = await signClaim(verifier, user1Address, deadline);
+      expect(await merkleProof.submitVerifiedProof.staticCall(user2Address, deadline, signature)).to.be.false;
+      expect(await merkleProof.submitVerifiedProof.staticCall(user1Address, deadline + 1n, signature)).to.be.false;
+
+      const { signature: futureNonce } = await signClaim(verifier, user1Address, deadline, 1n);
+      expect(await merkleProof.submitVerifiedProof.staticCall(user1Address, deadline, futureNonce)).to.be.false;
+
+      expect(await merkleProof.submitVerifiedProof.staticCall(user1Address, deadline, "0x1234")).to.be.false;
+    });
+
+    it("Should require a trusted verifier", async function () {
+      const MerkleProofFactory = await ethers.getContractFactory("MerkleProofX");
+      const fresh = await MerkleProofFactory.deploy(treasuryAddress);
+
+      await expect(fresh.submitVerifiedProof(user1Address, deadline, "0x")).to.be.revertedWith(
+        "Trusted verifier not set",
+      );
+    });
+
+    it("Should only let the treasury set the verifier", async function () {
+      await expect(merkleProof.connect(user1).setTrustedVerifier(user1Address)).to.be.revertedWith(
+        "Only treasury can set verifier",
+      );
+    });
+  });
+
   describe("Security Features", function () {
     it("Should prevent unauthorized tree modifications", async function () {
       const testRoot = "0x" + "e".repeat(64);
@@ -1,5 +1,15 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import {
+  generateMerkleProof,
+  generateMerkleTree as buildMerkleTree,
+  generateMultiProof,
+  generateMultiProofs,
+  verifyMultiProof,
+} from "../../frontend/utils/Merkle";
+import { buildProofExport, proofExportToCsv, shardKey, shardProofs } from "../../frontend/utils/merkleExport";
+import { LEAF_ENCODINGS, LeafEncoding, encodeLeaf } from "../../frontend/utils/merkleLeaf";
 import { MerkleProofValidator } from "../typechain-types";
 
 describe("MerkleProofValidator", function () {
@@ -40,14 +50,10 @@ describe("MerkleProofValidator", function () {
     });
   });
 
-  // Helper function to generate Merkle tree
-  function generateMerkleTree(addresses: string[]) {
-    const { MerkleTree } = require("merkletreejs");
-    const keccak256 = require("keccak256");
-
-    const leaves = addresses.map(addr => keccak256(addr));
-    const tree = new MerkleTree(leaves, keccak256, { sortPairs: true });
-    const proofs = addresses.map(addr => tree.getHexProof(keccak256(addr)));
+  // Helper function to generate Merkle tree with the shared frontend leaf encoding
+  function generateMerkleTree(addresses: string[], encoding: LeafEncoding = "packed") {
+    const tree = buildMerkleTree(addresses, encoding);
+    const proofs = addresses.map(addr => generateMerkleProof(tree, addr, encoding));
 
     return { tree, proofs };
   }
@@ -131,7 +137,7 @@ describe("MerkleProofValidator", function () {
     it("Should validate correct Merkle proof", async function () {
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       const tx = await merkleValidator.connect(user1).validateProof(merkleRoot, proof, leaf);
       const receipt = await tx.wait();
@@ -151,7 +157,7 @@ describe("MerkleProofValidator", function () {
     it("Should validate proof for different user", async function () {
       const userAddress = user2Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       // Use the view function to check validation without state changes
       const isValid = await merkleValidator.validateProofView(merkleRoot, proof, leaf);
@@ -161,7 +167,7 @@ describe("MerkleProofValidator", function () {
     it("Should fail validation for incorrect proof", async function () {
       const userAddress = user1Address.toLowerCase();
       const wrongProof = ["0x" + "1".repeat(64), "0x" + "2".repeat(64)];
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       // Use the view function to check validation without state changes
       const isValid = await merkleValidator.validateProofView(merkleRoot, wrongProof, leaf);
@@ -172,7 +178,7 @@ describe("MerkleProofValidator", function () {
       const unregisteredRoot = "0x" + "3".repeat(64);
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       await expect(merkleValidator.connect(user1).validateProof(unregisteredRoot, proof, leaf)).to.be.revertedWith(
         "Merkle root not registered or inactive",
@@ -185,7 +191,7 @@ describe("MerkleProofValidator", function () {
 
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       await expect(merkleValidator.connect(user1).validateProof(merkleRoot, proof, leaf)).to.be.revertedWith(
         "Merkle root not registered or inactive",
@@ -195,7 +201,7 @@ describe("MerkleProofValidator", function () {
     it("Should update validation count after successful validation", async function () {
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       const initialStats = await merkleValidator.getValidationStats(merkleRoot);
       expect(initialStats.validationCount).to.equal(0);
@@ -215,7 +221,7 @@ describe("MerkleProofValidator", function () {
     it("Should validate proof without updating state (view function)", async function () {
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       const isValid = await merkleValidator.validateProofView(merkleRoot, proof, leaf);
       expect(isValid).to.be.true;
@@ -227,7 +233,7 @@ describe("MerkleProofValidator", function () {
 
     it("Should generate correct leaf from address", async function () {
       const userAddress = user1Address.toLowerCase();
-      const expectedLeaf = ethers.keccak256(userAddress);
+      const expectedLeaf = encodeLeaf(userAddress, "packed");
 
       const generatedLeaf = await merkleValidator.getLeaf(userAddress);
       expect(generatedLeaf).to.equal(expectedLeaf);
@@ -244,6 +250,229 @@ describe("MerkleProofValidator", function () {
     });
   });
 
+  describe("Leaf Encoding Cross-Check", function () {
+    const amounts = [100n, 2500n, 10n ** 18n];
+
+    // Compute the leaf for an entry with the contract helper matching the encoding
+    async function onChainLeaf(encoding: LeafEncoding, address: string, amount: bigint, index: number) {
+      switch (encoding) {
+        case "raw":
+          return merkleValidator.getRawLeaf(address);
+        case "packed":
+          return merkleValidator.getLeaf(address);
+        case "allowlist":
+          return merkleValidator.getAllowlistLeaf(address, amount);
+        case "standard":
+          return merkleValidator.getStandardAllowlistLeaf(address, amount);
+        case "claim":
+          return merkleValidator.getClaimLeaf(index, address, amount);
+      }
+    }
+
+    it("Should compute the same leaves on-chain and off-chain for every encoding", async function () {
+      for (const encoding of Object.keys(LEAF_ENCODINGS) as LeafEncoding[]) {
+        for (const [index, address] of testAddresses.entries()) {
+          const amount = amounts[index];
+          const entry = encoding === "raw" || encoding === "packed" ? address : { address, amount, index };
+
+          expect(await onChainLeaf(encoding, address, amount, index)).to.equal(encodeLeaf(entry, encoding), encoding);
+        }
+      }
+    });
+
+    it("Should match the StandardMerkleTree leaf for bare addresses", async function () {
+      expect(await merkleValidator.getStandardLeaf(user1Address)).to.equal(encodeLeaf(user1Address, "standard"));
+    });
+
+    it("Should verify off-chain generated proofs on-chain for every encoding", async function () {
+      for (const encoding of Object.keys(LEAF_ENCODINGS) as LeafEncoding[]) {
+        const entries = testAddresses.map((address, index) => ({ address, amount: amounts[index], index }));
+        const tree = buildMerkleTree(entries, encoding);
+        const root = tree.getHexRoot();
+
+        for (const entry of entries) {
+          const proof = generateMerkleProof(tree, entry, encoding);
+          const leaf = await onChainLeaf(encoding, entry.address, entry.amount, entry.index);
+
+          expect(await merkleValidator.validateProofView(root, proof, leaf)).to.equal(true, encoding);
+        }
+      }
+    });
+
+    it("Should reject a proof when the allowlist amount is tampered with", async function () {
+      const entries = testAddresses.map((address, index) => ({ address, amount: amounts[index] }));
+      const tree = buildMerkleTree(entries, "allowlist");
+      const proof = generateMerkleProof(tree, entries[0], "allowlist");
+      const tamperedLeaf = await merkleValidator.getAllowlistLeaf(entries[0].address, entries[0].amount + 1n);
+
+      expect(await merkleValidator.validateProofView(tree.getHexRoot(), proof, tamperedLeaf)).to.be.false;
+    });
+  });
+
+  describe("Bulk Proof Export", function () {
+    let recipients: string[];
+
+    beforeEach(async function () {
+      // An odd-sized list exercises the unbalanced part of the tree layout
+      recipients = (await ethers.getSigners()).slice(0, 11).map(signer => signer.address);
+    });
+
+    it("Should match OpenZeppelin StandardMerkleTree for the standard encoding", async function () {
+      const tree = buildMerkleTree(recipients, "standard");
+      const exported = buildProofExport(tree, recipients, "standard");
+      const ozTree = StandardMerkleTree.of(
+        recipients.map(address => [address]),
+        ["address"],
+      );
+
+      expect(exported.merkleRoot).to.equal(ozTree.root);
+
+      // The dump must load back into an OpenZeppelin tree with the same root
+      const loaded = StandardMerkleTree.load(exported.tree as any);
+      expect(loaded.root).to.equal(exported.merkleRoot);
+
+      for (const address of recipients) {
+        const { proof } = exported.proofs[address];
+        expect(proof).to.deep.equal(ozTree.getProof([address]));
+
+        const leaf = await merkleValidator.getStandardLeaf(address);
+        expect(await merkleValidator.validateProofView(exported.merkleRoot, proof, leaf)).to.be.true;
+      }
+    });
+
+    it("Should export every proof keyed by address for legacy encodings", async function () {
+      const tree = buildMerkleTree(recipients, "packed");
+      const exported = buildProofExport(tree, recipients, "packed");
+
+      expect(exported.merkleRoot).to.equal(tree.getHexRoot());
+      expect(exported.count).to.equal(recipients.length);
+      expect(exported.tree).to.deep.include({ format: "merkletreejs-sorted-pairs", leafEncoding: "packed" });
+
+      for (const address of recipients) {
+        const leaf = await merkleValidator.getLeaf(address);
+        const { leaf: exportedLeaf, proof } = exported.proofs[address];
+
+        expect(exportedLeaf).to.equal(leaf);
+        expect(await merkleValidator.validateProofView(exported.merkleRoot, proof, leaf)).to.be.true;
+      }
+    });
+
+    it("Should split proofs into address-prefix shards and CSV rows", async function () {
+      const tree = buildMerkleTree(recipients, "packed");
+      const exported = buildProofExport(tree, recipients, "packed");
+      const shards = shardProofs(exported);
+
+      const sharded = Object.entries(shards).flatMap(([key, records]) =>
+        Object.keys(records).map(address => {
+          expect(shardKey(address)).to.equal(key);
+          return address;
+        }),
+      );
+      expect(sharded).to.have.members(recipients);
+
+      const csvLines = proofExportToCsv(exported).trim().split(/\r?\n/);
+      expect(csvLines[0]).to.equal("address,leaf,proof");
+      expect(csvLines).to.have.length(recipients.length + 1);
+      expect(csvLines[1].split(",")[2].split(";")).to.deep.equal(exported.proofs[recipients[0]].proof);
+    });
+  });
+
+  describe("Multi-Proof Validation", function () {
+    let recipients: string[];
+
+    beforeEach(async function () {
+      recipients = (await ethers.getSigners()).slice(0, 11).map(signer => signer.address);
+    });
+
+    it("Should verify a batch of standard leaves with one multiproof", async function () {
+      const tree = buildMerkleTree(recipients, "standard");
+      const batch = [recipients[1], recipients[4], recipients[7], recipients[10]];
+      const multiProof = generateMultiProof(
+        tree,
+        batch.map(address => encodeLeaf(address, "standard")),
+      );
+
+      const ozTree = StandardMerkleTree.of(
+        recipients.map(address => [address]),
+        ["address"],
+      );
+      expect(multiProof.proof).to.deep.equal(ozTree.getMultiProof(batch.map(address => [address])).proof);
+      expect(verifyMultiProof(tree.getHexRoot(), multiProof)).to.be.true;
+
+      const { leaves, proof, proofFlags } = multiProof;
+      expect(await merkleValidator.validateMultiProofView(tree.getHexRoot(), proof, proofFlags, leaves)).to.be.true;
+    });
+
+    it("Should verify a whole batch with one multiproof in a balanced legacy tree", async function () {
+      const tree = buildMerkleTree(recipients.slice(0, 8), "packed");
+      const root = tree.getHexRoot();
+      const leaves = recipients.slice(0, 8).map(address => encodeLeaf(address, "packed"));
+
+      for (const indices of [[0], [0, 1], [2, 5, 7], [...leaves.keys()]]) {
+        const multiProof = generateMultiProof(
+          tree,
+          indices.map(index => leaves[index]),
+        );
+        expect(verifyMultiProof(root, multiProof)).to.be.true;
+
+        const { proof, proofFlags } = multiProof;
+        const isValid = await merkleValidator.validateMultiProofView(root, proof, proofFlags, multiProof.leaves);
+        expect(isValid).to.be.true;
+      }
+    });
+
+    it("Should split promoted legacy leaves into separate multiproofs", async function () {
+      // With 11 leaves the last one is promoted two layers, above the other leaves' parents
+      const tree = buildMerkleTree(recipients, "packed");
+      const root = tree.getHexRoot();
+      const leaves = [recipients[0], recipients[3], recipients[10]].map(address => encodeLeaf(address, "packed"));
+
+      expect(() => generateMultiProof(tree, leaves)).to.throw("cannot share a multiproof");
+
+      const multiProofs = generateMultiProofs(tree, leaves);
+      expect(multiProofs).to.have.length(2);
+      expect(multiProofs.flatMap(multiProof => multiProof.leaves)).to.have.members(leaves);
+
+      for (const { leaves: batch, proof, proofFlags } of multiProofs) {
+        expect(await merkleValidator.validateMultiProofView(root, proof, proofFlags, batch)).to.be.true;
+      }
+    });
+
+    it("Should record batch validations and emit MultiProofValidated", async function () {
+      const tree = buildMerkleTree(recipients, "standard");
+      const root = tree.getHexRoot();
+      const { leaves, proof, proofFlags } = generateMultiProof(
+        tree,
+        recipients.slice(0, 3).map(address => encodeLeaf(address, "standard")),
+      );
+
+      await expect(
+        merkleValidator.connect(user1).validateMultiProof(root, proof, proofFlags, leaves),
+      ).to.be.revertedWith("Merkle root not registered or inactive");
+
+      await merkleValidator.connect(user1).registerMerkleRoot(root, "Batch list");
+      await expect(merkleValidator.connect(user2).validateMultiProof(root, proof, proofFlags, leaves))
+        .to.emit(merkleValidator, "MultiProofValidated")
+        .withArgs(root, user2Address, 3, true);
+
+      const stats = await merkleValidator.getValidationStats(root);
+      expect(stats.validationCount).to.equal(3);
+    });
+
+    it("Should report a tampered batch as invalid", async function () {
+      const tree = buildMerkleTree(recipients, "standard");
+      const root = tree.getHexRoot();
+      const { leaves, proof, proofFlags } = generateMultiProof(
+        tree,
+        recipients.slice(0, 3).map(address => encodeLeaf(address, "standard")),
+      );
+      const tampered = [ethers.id("not in the tree"), ...leaves.slice(1)];
+
+      expect(verifyMultiProof(root, { leaves: tampered, proof, proofFlags })).to.be.false;
+      expect(await merkleValidator.validateMultiProofView(root, proof, proofFlags, tampered)).to.be.false;
+    });
+  });
+
   describe("Merkle Root Management", function () {
     beforeEach(async function () {
       await merkleValidator.connect(user1).registerMerkleRoot(merkleRoot, "Test whitelist");
@@ -310,7 +539,7 @@ describe("MerkleProofValidator", function () {
     it("Should track validation count correctly", async function () {
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       // Validate multiple times
       await merkleValidator.connect(user1).validateProof(merkleRoot, proof, leaf);
@@ -354,7 +583,7 @@ describe("MerkleProofValidator", function () {
 
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       // Same user validates multiple times
       await merkleValidator.connect(user1).validateProof(merkleRoot, proof, leaf);
@@ -373,7 +602,7 @@ describe("MerkleProofValidator", function () {
     it("Should use reasonable gas for proof validation", async function () {
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       const tx = await merkleValidator.connect(user1).validateProof(merkleRoot, proof, leaf);
       const receipt = await tx.wait();
@@ -429,7 +658,7 @@ describe("MerkleProofValidator", function () {
 
       const userAddress = user1Address.toLowerCase();
       const proof = merkleProofs.get(userAddress)!;
-      const leaf = ethers.keccak256(userAddress);
+      const leaf = encodeLeaf(userAddress, "packed");
 
       // Valid proof should work
       const isValid = await merkleValidator.validateProofView(merkleRoot, proof, leaf);